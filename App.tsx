@@ -1,15 +1,16 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Chart, registerables } from 'chart.js';
 import FoodMap from './components/Map';
 import AgentCoordinationScene from './components/AgentCoordinationScene';
 import { 
   discoveryAgent, 
   spatialAlertAgent, 
-  getTamilTextSummary, 
-  getTamilAudioSummary, 
+  getTextSummary, 
+  getAudioSummary, 
   generateVendorBio, 
   spatialChatAgent, 
   spatialLensAnalysis, 
+  analyzeLensFrames,
   generateSpatialAnalytics,
   getFlavorGenealogy,
   parseOrderAgent,
@@ -17,6 +18,27 @@ import {
   analyzeFoodImage,
   fetchLocalWeather
 } from './services/geminiService';
+import { subscribeAgentEvents } from './services/agentEvents';
+import { isAbortError } from './services/resilience';
+import { loadGridSnapshot, saveGridSnapshot } from './services/gridPersistence';
+import { startGpsTracking } from './services/gpsTracker';
+import { ORDER_STATUS_LABELS, orderStatusName, ORDER_PROGRESS, createOrder, advanceOrder, canTransition, isOrderActive, nextForwardStatus, profileIdForShop } from './services/orderLifecycle';
+import { remainingQuantity, isStockTracked, lowStockItems, applyDailyPrep, reserveStock, releaseStock } from './services/inventory';
+import { DIETARY_TAGS, defaultVariant, buildCartLine, describeLine, quantityOfItem, resolveOrderItem, parseOptionList, formatOptionList } from './services/menuOptions';
+import { WEEKDAY_LABELS, toDateKey, everyDay, parseIntervals, isOpenAt, describeOpenState, formatIntervals, describeIntervals, formatSchedule, scheduleOf, weekdayName } from './services/schedule';
+import { HEARTBEAT_INTERVAL_MS, LiveGridError, connectLiveGrid, isLiveGridEnabled, registerVendor, setVendorStatus, sendVendorPosition, sendVendorHeartbeat, postVendorReview, placeVendorOrder, setVendorOrderStatus, fetchVendorOrders } from './services/liveGridClient';
+import { QueuedAction, QueueReplayers, enqueue, flushQueue, listQueued, isOnline, replayAction, describeQueuedAction } from './services/offlineQueue';
+import { prefetchTilesAround } from './services/offlineShell';
+import { GridFilters, GridSort, ShopOrigin, PriceBand, DEFAULT_GRID_FILTERS, ORIGIN_LABELS, PRICE_BANDS, applyGridFilters, countActiveFilters, cuisinesOf, distanceKm, footfallAt, legendaryScoreOf } from './services/gridFilters';
+import { HeatLayer, HEAT_LAYERS, FOOTFALL_PERIODS, footfallPeriodAt, rampGradient } from './services/heatmap';
+import { RoutePlan, planRoute, routeLegs, isRouterEnabled } from './services/routePlanner';
+import { ProximityAlert, DEFAULT_ALERT_PREFERENCES, ALERT_RADIUS_OPTIONS, createProximityWatcher, describeAlert, requestAlertPermission, showAlertNotification, speakAnnouncement } from './services/proximityAlerts';
+import { sampleFrames, describeUpload } from './services/frameSampler';
+import { SectorComparison, SectorDrawMode, SECTOR_COLORS, createSector, shopsInSector, compareSectors, describeShape, sectorColor } from './services/sectors';
+import { SiteCandidate, SiteFactor, SiteQuery, COMPETITOR_RADIUS_METERS, recommendSites, describeSite } from './services/siteSuitability';
+import { TrendSeries, takeSnapshot, recordSnapshot, snapshotsFor, cuisineTrend, historyToCSV, historyToJSON } from './services/analyticsHistory';
+import { Locale, LOCALES, DEFAULT_LOCALE, Translator, createTranslator, formatCurrency } from './services/i18n';
+import { ConflictStrategy, shopsToGeoJSON, shopsToCSV, downloadTextFile, parseGridFile, mergeImportedShops } from './services/gridExchange';
 import { 
   Shop, 
   LatLng, 
@@ -33,7 +55,18 @@ import {
   Review,
   SafetyMetrics,
   UrbanLogistics,
-  FootfallPoint
+  FootfallPoint,
+  LiveVendor,
+  ScheduleOverride,
+  TimeInterval,
+  Order,
+  OrderStatus,
+  CartLine,
+  DietaryTag,
+  AlertPreferences,
+  Sector,
+  SectorShape,
+  AnalyticsSnapshot
 } from './types';
 
 // Register Chart.js components
@@ -116,8 +149,18 @@ const SEED_PROFILES: VendorProfile[] = [
     cuisine: 'Biryani', 
     description: 'Triplicane wood-fired legacy.', 
     lastLocation: { lat: 13.0585, lng: 80.2730 }, 
-    menu: [{ name: 'Mutton Biryani', price: 250, isSoldOut: false }, { name: 'Chicken 65', price: 120, isSoldOut: false }],
-    hours: '12:00 - 23:00',
+    menu: [
+      {
+        name: 'Mutton Biryani',
+        price: 150,
+        isSoldOut: false,
+        variants: [{ name: 'Half Plate', price: 150 }, { name: 'Full Plate', price: 250 }],
+        modifiers: [{ name: 'Extra Raita', price: 20 }, { name: 'Boiled Egg', price: 15 }],
+        tags: ['non-veg', 'contains-dairy']
+      },
+      { name: 'Chicken 65', price: 120, isSoldOut: false, tags: ['non-veg', 'spicy'] }
+    ],
+    schedule: everyDay([{ open: '12:00', close: '23:00' }]),
     reviews: [],
     successReasoning: { locationGravity: 88, flavorMoat: 94, socialResonance: 96, economicFit: 82 },
     safetyMetrics: { crimeSafety: 75, policeProximity: 60, footfallIntensity: 95, lighting: 65, vibe: 85, nearestPoliceStations: ["Triplicane Police Station"] },
@@ -132,8 +175,68 @@ const SEED_PROFILES: VendorProfile[] = [
   }
 ];
 
+// Sets a cart line's quantity, clamped so every line of the item fits its remaining stock
+const withCartLine = (cart: Record<string, CartLine>, line: CartLine, quantity: number, item: MenuItem | undefined) => {
+  const current = cart[line.key]?.quantity || 0;
+  const others = quantityOfItem(Object.values(cart), line.name) - current;
+  const next = Math.max(0, Math.min(quantity, remainingQuantity(item) - others));
+  if (next === current) return cart;
+  const { [line.key]: _, ...rest } = cart;
+  return next === 0 ? rest : { ...cart, [line.key]: { ...line, quantity: next } };
+};
+
+const DIETARY_TONE_CLASSES = {
+  'veg': 'border-emerald-500/40 text-emerald-400',
+  'non-veg': 'border-rose-500/40 text-rose-400',
+  'allergen': 'border-amber-500/40 text-amber-400',
+  'info': 'border-white/20 text-white/50'
+};
+
+const DietaryBadges: React.FC<{ tags?: DietaryTag[]; t: Translator }> = ({ tags, t }) => (
+  <>
+    {(tags || []).map(tag => (
+      <span key={tag} className={`px-2 py-0.5 rounded-lg border text-[8px] font-black uppercase tracking-widest ${DIETARY_TONE_CLASSES[DIETARY_TAGS[tag].tone]}`}>{t(DIETARY_TAGS[tag].label)}</span>
+    ))}
+  </>
+);
+
+const emptyNewItem = () => ({ name: '', price: '', prep: '', variants: '', modifiers: '', tags: [] as DietaryTag[] });
+
+// --- Partner Hub Nodes ---
+// Breadcrumbs kept per tracked vendor: ~8h at the balanced sampling rate
+const MAX_TRAIL_POINTS = 2000;
+
+// Builds the grid node for a partner hub, filling in default metrics for hubs that were never analysed
+const profileToShop = (p: VendorProfile, id: string, coords: LatLng, status: VendorStatus): Shop => ({
+  id,
+  name: p.name,
+  coords,
+  isVendor: true,
+  status,
+  emoji: p.emoji,
+  cuisine: p.cuisine,
+  description: p.description,
+  menu: p.menu,
+  // Plain-text hours for agents and older clients; the node panel formats the schedule in the reader's language
+  hours: formatSchedule(p.schedule, DEFAULT_LOCALE),
+  schedule: p.schedule,
+  youtubeLink: p.youtubeLink,
+  reviews: p.reviews || [],
+  hygieneScore: p.hygieneScore || 85,
+  successReasoning: p.successReasoning || { locationGravity: 80, flavorMoat: 80, socialResonance: 80, economicFit: 80 },
+  safetyMetrics: p.safetyMetrics || { crimeSafety: 70, policeProximity: 70, footfallIntensity: 70, lighting: 70, vibe: 70, nearestPoliceStations: [] },
+  urbanLogistics: p.urbanLogistics || { transitAccessibility: 50, walkabilityScore: 50, parkingAvailability: 50, publicTransportNodes: [] },
+  predictedFootfall: p.predictedFootfall || [
+    { period: "6am-10am", volume: 30 },
+    { period: "11am-2pm", volume: 70 },
+    { period: "3pm-6pm", volume: 50 },
+    { period: "7pm-10pm", volume: 85 },
+    { period: "11pm-2am", volume: 15 }
+  ]
+});
+
 // --- Success Reasoning Chart Component ---
-const SuccessReasoningChart = ({ shop }: { shop: Shop }) => {
+const SuccessReasoningChart = ({ shop, t }: { shop: Shop; t: Translator }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const chartRef = useRef<Chart | null>(null);
 
@@ -154,7 +257,7 @@ const SuccessReasoningChart = ({ shop }: { shop: Shop }) => {
     chartRef.current = new Chart(ctx, {
       type: 'polarArea',
       data: {
-        labels: ['Location Gravity', 'Flavor Moat', 'Social Resonance', 'Economic Fit'],
+        labels: [t('success.locationGravity'), t('success.flavorMoat'), t('success.socialResonance'), t('success.economicFit')],
         datasets: [{
           data: [reasoning.locationGravity, reasoning.flavorMoat, reasoning.socialResonance, reasoning.economicFit],
           backgroundColor: [
@@ -185,13 +288,13 @@ const SuccessReasoningChart = ({ shop }: { shop: Shop }) => {
     });
 
     return () => chartRef.current?.destroy();
-  }, [shop]);
+  }, [shop, t]);
 
   const logicPoints = [
-    { label: 'Location Gravity', outcome: 'Flow Pull', icon: '🌍', color: 'text-indigo-400' },
-    { label: 'Flavor Moat', outcome: 'Defensibility', icon: '🏰', color: 'text-emerald-400' },
-    { label: 'Social Resonance', outcome: 'Hype Velocity', icon: '📢', color: 'text-rose-400' },
-    { label: 'Economic Fit', outcome: 'Margin Safety', icon: '💎', color: 'text-amber-400' }
+    { label: t('success.locationGravity'), outcome: t('success.flowPull'), icon: '🌍', color: 'text-indigo-400' },
+    { label: t('success.flavorMoat'), outcome: t('success.defensibility'), icon: '🏰', color: 'text-emerald-400' },
+    { label: t('success.socialResonance'), outcome: t('success.hypeVelocity'), icon: '📢', color: 'text-rose-400' },
+    { label: t('success.economicFit'), outcome: t('success.marginSafety'), icon: '💎', color: 'text-amber-400' }
   ];
 
   return (
@@ -200,7 +303,7 @@ const SuccessReasoningChart = ({ shop }: { shop: Shop }) => {
         <canvas ref={canvasRef} />
       </div>
       <div className="grid grid-cols-2 gap-2 p-3 bg-black/40 rounded-2xl border border-white/5">
-        <p className="col-span-2 text-[7px] font-black text-white/40 uppercase tracking-[0.3em] text-center mb-1">Success Logic: Cause & Effect</p>
+        <p className="col-span-2 text-[7px] font-black text-white/40 uppercase tracking-[0.3em] text-center mb-1">{t('success.title')}</p>
         {logicPoints.map((point) => (
           <div key={point.label} className="flex items-center gap-2 bg-white/5 p-2 rounded-xl">
             <span className="text-[10px]">{point.icon}</span>
@@ -416,14 +519,148 @@ const FootfallChart = ({ data }: { data: FootfallPoint[] }) => {
     </div>
   );
 };
+// Both sectors' averaged footfall over shared periods; a sector without a curve leaves gaps
+const SectorFootfallChart = ({ comparison }: { comparison: SectorComparison }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const chartRef = useRef<Chart | null>(null);
+  const colorA = sectorColor(comparison.a.sector).swatch;
+  const colorB = sectorColor(comparison.b.sector).swatch;
+  // The comparison is rebuilt every render; only redraw when what it plots changes
+  const plotKey = JSON.stringify([comparison.footfall, comparison.a.sector.name, comparison.b.sector.name, colorA, colorB]);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const ctx = canvasRef.current.getContext('2d');
+    if (!ctx) return;
+
+    if (chartRef.current) chartRef.current.destroy();
+
+    chartRef.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels: comparison.footfall.map(p => p.period),
+        datasets: [
+          { label: comparison.a.sector.name, data: comparison.footfall.map(p => p.a), borderColor: colorA, backgroundColor: colorA, tension: 0.3, pointRadius: 2, spanGaps: false },
+          { label: comparison.b.sector.name, data: comparison.footfall.map(p => p.b), borderColor: colorB, backgroundColor: colorB, tension: 0.3, pointRadius: 2, spanGaps: false }
+        ]
+      },
+      options: {
+        scales: {
+          y: {
+            beginAtZero: true,
+            max: 100,
+            grid: { color: 'rgba(255, 255, 255, 0.05)' },
+            ticks: { display: false }
+          },
+          x: {
+            grid: { display: false },
+            ticks: {
+              color: 'rgba(255, 255, 255, 0.95)',
+              font: { size: 7, family: 'monospace', weight: 'bold' }
+            }
+          }
+        },
+        plugins: {
+          legend: { display: false },
+          tooltip: {
+            backgroundColor: 'rgba(0,0,0,0.8)',
+            padding: 6,
+            titleFont: { size: 9 },
+            bodyFont: { size: 9 }
+          }
+        },
+        responsive: true,
+        maintainAspectRatio: false
+      }
+    });
+
+    return () => chartRef.current?.destroy();
+  }, [plotKey]);
+
+  return (
+    <div className="w-full h-32 relative">
+      <canvas ref={canvasRef} />
+    </div>
+  );
+};
+// Snapshot series over time for the trend view; `max` pins the scale for 0-100 scores
+const TrendChart = ({ labels, series, max }: { labels: string[]; series: (TrendSeries & { color: string })[]; max?: number }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const chartRef = useRef<Chart | null>(null);
+  const plotKey = JSON.stringify([labels, series, max]);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const ctx = canvasRef.current.getContext('2d');
+    if (!ctx) return;
+
+    if (chartRef.current) chartRef.current.destroy();
+
+    chartRef.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels,
+        datasets: series.map(line => ({ label: line.label, data: line.values, borderColor: line.color, backgroundColor: line.color, tension: 0.3, pointRadius: 2, spanGaps: true }))
+      },
+      options: {
+        scales: {
+          y: {
+            beginAtZero: true,
+            max,
+            grid: { color: 'rgba(255, 255, 255, 0.05)' },
+            ticks: { color: 'rgba(255, 255, 255, 0.4)', font: { size: 7 }, precision: 0 }
+          },
+          x: {
+            grid: { display: false },
+            ticks: {
+              color: 'rgba(255, 255, 255, 0.95)',
+              font: { size: 7, family: 'monospace', weight: 'bold' }
+            }
+          }
+        },
+        plugins: {
+          legend: { display: false },
+          tooltip: {
+            backgroundColor: 'rgba(0,0,0,0.8)',
+            padding: 6,
+            titleFont: { size: 9 },
+            bodyFont: { size: 9 }
+          }
+        },
+        responsive: true,
+        maintainAspectRatio: false
+      }
+    });
+
+    return () => chartRef.current?.destroy();
+  }, [plotKey]);
+
+  return (
+    <div className="space-y-2">
+      <div className="w-full h-32 relative">
+        <canvas ref={canvasRef} />
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {series.map(line => (
+          <span key={line.label} className="flex items-center gap-1 text-[8px] font-black uppercase text-white/50">
+            <span className="w-2 h-2 rounded-full" style={{ background: line.color }} />{line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 // --- Data Synergy Matrix Component ---
 const DataSynergyMatrix = ({ 
   shop,
   weather,
-  metrics 
+  metrics,
+  t
 }: { 
   shop: Shop | null,
   weather: any | null,
+  t: Translator,
   metrics?: {
     safetyScore: number;
     logisticsScore: number; 
@@ -447,7 +684,7 @@ const DataSynergyMatrix = ({
   
   const wScore = weather?.impactScore ?? 80;
 
-  const labels = ['Safety', 'Logi', 'Succ', 'Foot', 'Clim'];
+  const labels = [t('synergy.safety'), t('synergy.logistics'), t('synergy.success'), t('synergy.footfall'), t('synergy.climate')];
   const values = [sScore, lScore, suScore, fScore, wScore];
   
   const getSynergy = (v1: number, v2: number): number => {
@@ -465,15 +702,15 @@ const DataSynergyMatrix = ({
     <div className="p-6 bg-gradient-to-br from-purple-600/5 to-pink-600/5 border border-purple-500/20 rounded-[2.5rem] space-y-6 animate-in fade-in duration-700">
       <div className="space-y-1 text-center border-b border-purple-500/10 pb-4">
         <p className="text-[12px] font-black text-purple-300 uppercase tracking-[0.4em]">
-          Diagnostic Synergy Matrix
+          {t('synergy.title')}
         </p>
         <div className="h-4 flex items-center justify-center">
           {hoveredCell ? (
             <p className="text-[8px] font-black text-white/60 uppercase tracking-widest animate-in fade-in zoom-in-95 duration-200">
-              {hoveredCell.row} <span className="text-purple-400">×</span> {hoveredCell.col} Correlation
+              {hoveredCell.row} <span className="text-purple-400">×</span> {hoveredCell.col} {t('synergy.correlation')}
             </p>
           ) : (
-            <p className="text-[7px] font-bold text-white/20 uppercase tracking-[0.2em]">Neural grid standby...</p>
+            <p className="text-[7px] font-bold text-white/20 uppercase tracking-[0.2em]">{t('synergy.standby')}</p>
           )}
         </div>
       </div>
@@ -510,11 +747,11 @@ const DataSynergyMatrix = ({
 
       <div className="grid grid-cols-2 gap-3">
         <div className="p-3 bg-purple-500/10 border border-purple-500/20 rounded-xl">
-          <p className="text-[8px] font-black text-purple-400 uppercase tracking-widest mb-1">Safety Index</p>
+          <p className="text-[8px] font-black text-purple-400 uppercase tracking-widest mb-1">{t('synergy.safetyIndex')}</p>
           <p className="text-[14px] font-black text-white">{sScore}%</p>
         </div>
         <div className="p-3 bg-emerald-500/10 border border-emerald-500/20 rounded-xl">
-          <p className="text-[8px] font-black text-emerald-400 uppercase tracking-widest mb-1">Climatic Synergy</p>
+          <p className="text-[8px] font-black text-emerald-400 uppercase tracking-widest mb-1">{t('synergy.climatic')}</p>
           <p className="text-[14px] font-black text-white">{wScore}%</p>
         </div>
       </div>
@@ -524,7 +761,7 @@ const DataSynergyMatrix = ({
           {hoveredCell ? (
             <div className="text-center animate-in fade-in slide-in-from-bottom-1 duration-300">
                <p className="text-[10px] font-black text-white uppercase tracking-tight">
-                 {hoveredCell.row} ↔ {hoveredCell.col}: <span className={getCellStyle(hoveredCell.val).text}>{hoveredCell.val}% Neural Synergy</span>
+                 {hoveredCell.row} ↔ {hoveredCell.col}: <span className={getCellStyle(hoveredCell.val).text}>{t('synergy.neural', { value: hoveredCell.val })}</span>
                </p>
             </div>
           ) : weather ? (
@@ -532,11 +769,11 @@ const DataSynergyMatrix = ({
               <span className="text-xl">{(weather.condition === 'Sunny' || weather.condition === 'Clear') ? '☀️' : '☁️'}</span>
               <div className="text-left">
                 <p className="text-[11px] font-black text-white uppercase leading-none">{weather.temp} • {weather.condition}</p>
-                <p className="text-[7px] text-white/40 uppercase font-black tracking-widest mt-1">Grid Grounding Active</p>
+                <p className="text-[7px] text-white/40 uppercase font-black tracking-widest mt-1">{t('synergy.grounding')}</p>
               </div>
             </div>
           ) : (
-            <p className="text-[8px] font-black text-white/30 uppercase tracking-[0.2em] italic">Scan matrix nodes for detailed causal reasoning</p>
+            <p className="text-[8px] font-black text-white/30 uppercase tracking-[0.2em] italic">{t('synergy.hint')}</p>
           )}
         </div>
       </div>
@@ -575,6 +812,39 @@ const LogisticsMetricBar = ({ label, value }: { label: string, value: number })
   return <MetricBar label={label} value={value} colorClass={barColor} textColorClass={textColor} glowClass={glowColor} />;
 };
 
+// --- Open Status Badge Component ---
+const OPEN_BADGE_STYLES = {
+  open: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400',
+  closing: 'bg-amber-500/10 border-amber-500/30 text-amber-400',
+  closed: 'bg-white/5 border-white/10 text-slate-500'
+};
+
+// "Open now / Closes in 20 min" pill; renders nothing for nodes without usable hours
+const OpenStatusBadge = ({ shop, now, locale }: { shop: Shop; now: Date; locale: Locale }) => {
+  const schedule = scheduleOf(shop);
+  if (!schedule) return null;
+  const badge = describeOpenState(isOpenAt(schedule, now), locale, now);
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded-lg border text-[8px] font-black uppercase tracking-widest whitespace-nowrap ${OPEN_BADGE_STYLES[badge.tone]}`}>
+      {badge.label}
+    </span>
+  );
+};
+
+// Hours are edited as one line of text per weekday and parsed on save
+const emptyRegForm = () => ({
+  name: '',
+  cuisine: '',
+  emoji: '🥘',
+  description: '',
+  dayHours: WEEKDAY_LABELS.map(() => '09:00 - 22:00'),
+  overrides: [] as ScheduleOverride[],
+  menu: [] as MenuItem[],
+  youtubeLink: '',
+  manualDMS: '',
+  hygieneScore: 85
+});
+
 // --- Global Audio Helpers ---
 let persistentAudioCtx: AudioContext | null = null;
 let activeVoiceSource: AudioBufferSourceNode | null = null;
@@ -637,7 +907,7 @@ const parseDMS = (dmsString: string): LatLng | null => {
   }
 };
 
-const VoiceWave = ({ isActive, isSpeaking, onStop }: { isActive: boolean; isSpeaking: boolean; onStop?: () => void }) => {
+const VoiceWave = ({ isActive, isSpeaking, onStop, t }: { isActive: boolean; isSpeaking: boolean; onStop?: () => void; t: Translator }) => {
   if (!isActive) return null;
   const palette = isSpeaking 
     ? ["from-rose-500 via-amber-400 to-emerald-400", "from-emerald-400 via-cyan-400 to-pink-500", "from-yellow-300 via-white to-orange-400"]
@@ -649,7 +919,7 @@ const VoiceWave = ({ isActive, isSpeaking, onStop }: { isActive: boolean; isSpea
       <div className={`absolute inset-0 bg-gradient-to-tr ${palette[0]} opacity-90 blur-lg animate-siri-liquid mix-blend-screen transition-all duration-700`}></div>
       <div className={`absolute inset-1 bg-gradient-to-bl ${palette[1]} opacity-90 blur-md animate-siri-liquid-alt mix-blend-screen transition-all duration-700`}></div>
       {onStop && isSpeaking ? (
-        <button onClick={(e) => { e.stopPropagation(); onStop(); }} className="relative z-10 w-7 h-7 bg-black/60 hover:bg-black rounded-full flex items-center justify-center text-white/80 transition-all border border-white/20 hover:scale-110 active:scale-90" title="Stop Audio">
+        <button onClick={(e) => { e.stopPropagation(); onStop(); }} className="relative z-10 w-7 h-7 bg-black/60 hover:bg-black rounded-full flex items-center justify-center text-white/80 transition-all border border-white/20 hover:scale-110 active:scale-90" title={t('shop.stopAudio')}>
           <span className="text-[9px]">■</span>
         </button>
       ) : (
@@ -659,14 +929,14 @@ const VoiceWave = ({ isActive, isSpeaking, onStop }: { isActive: boolean; isSpea
   );
 };
 
-const SetupAnimation = () => (
+const SetupAnimation = ({ t }: { t: Translator }) => (
   <div className="flex items-center justify-center gap-2">
     <div className="flex gap-1 items-center">
       <span className="animate-bounce delay-75 duration-700">🥘</span>
       <span className="animate-bounce delay-200 duration-700">🍳</span>
       <span className="animate-bounce delay-500 duration-700">🚚</span>
     </div>
-    <span className="text-[7px] font-black uppercase tracking-widest animate-pulse">Establishing Link...</span>
+    <span className="text-[7px] font-black uppercase tracking-widest animate-pulse">{t('nav.establishingLink')}</span>
   </div>
 );
 
@@ -686,19 +956,28 @@ export default function App() {
   const [location, setLocation] = useState<LatLng>({ lat: 13.0827, lng: 80.2707 });
   const [userMode, setUserMode] = useState<'explorer' | 'vendor' | 'history'>('explorer');
   const [explorerTab, setExplorerTab] = useState<'logs' | 'discovery' | 'live_vendors' | 'lens' | 'impact'>('logs');
-  const [discoverySubTab, setDiscoverySubTab] = useState<'nodes' | 'intelligence'>('nodes');
+  const [discoverySubTab, setDiscoverySubTab] = useState<'nodes' | 'intelligence' | 'sectors'>('nodes');
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isVoiceActive, setIsVoiceActive] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Mobile Menu State
   const [chatInput, setChatInput] = useState('');
   const [isListening, setIsListening] = useState(false);
-  const [chatLang, setChatLang] = useState<'en-US' | 'ta-IN'>('en-US');
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  const language = LOCALES[locale];
+  const { speechCode } = language;
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([{ id: '1', role: 'model', text: 'Vanakkam! Ask me anything about street food or landmarks.' }]);
   const chatEndRef = useRef<HTMLDivElement>(null);
   const historyFileInputRef = useRef<HTMLInputElement>(null);
+  const lensMediaInputRef = useRef<HTMLInputElement>(null);
+  const gridImportInputRef = useRef<HTMLInputElement>(null);
+  const [importStrategy, setImportStrategy] = useState<ConflictStrategy>('keep');
   const currentShopIdRef = useRef<string | null>(null);
   const activeAgentTimeoutRef = useRef<number | null>(null);
+  // In-flight agent calls scoped to the selected shop and to the Lens tab
+  const shopRequestRef = useRef<AbortController | null>(null);
+  const lensRequestRef = useRef<AbortController | null>(null);
 
   const [analytics, setAnalytics] = useState<SpatialAnalytics | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -728,14 +1007,25 @@ export default function App() {
   const [isOrdering, setIsOrdering] = useState(false);
   const [orderStep, setOrderStep] = useState<'menu' | 'verifying' | 'placed'>('menu');
   const [orderInput, setOrderInput] = useState('');
-  const [parsedOrder, setParsedOrder] = useState<{ orderItems: any[], totalPrice: number } | null>(null);
+  const [parsedOrder, setParsedOrder] = useState<{ orderItems: CartLine[], totalPrice: number } | null>(null);
   const [isParsingOrder, setIsParsingOrder] = useState(false);
-  const [cart, setCart] = useState<Record<string, number>>({});
-
-  const [myProfiles, setMyProfiles] = useState<VendorProfile[]>(() => {
-    const saved = localStorage.getItem('geomind_profiles');
-    return saved ? JSON.parse(saved) : SEED_PROFILES;
-  });
+  const [cart, setCart] = useState<Record<string, CartLine>>({});
+  // Variant and add-ons currently picked for each item in the order popup
+  const [itemChoices, setItemChoices] = useState<Record<string, { variant?: string; modifiers: string[] }>>({});
+  const [orders, setOrders] = useState<Order[]>([]);
+  // The explorer's order being tracked in the ordering popup
+  const [placedOrderId, setPlacedOrderId] = useState<string | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [showOrderHistory, setShowOrderHistory] = useState(false);
+
+  const [myProfiles, setMyProfiles] = useState<VendorProfile[]>(SEED_PROFILES);
+  // Vendors as reported by the shared live grid server, including other devices' hubs
+  const [remoteVendors, setRemoteVendors] = useState<LiveVendor[]>([]);
+  const [isLiveGridConnected, setIsLiveGridConnected] = useState(false);
+  const [isOffline, setIsOffline] = useState(!isOnline());
+  const [queuedCount, setQueuedCount] = useState(0);
+  // Persistence stays paused until the last session has been restored, so seeds never overwrite it
+  const [isGridRestored, setIsGridRestored] = useState(false);
   const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
   
   const activeProfile = myProfiles.find(p => p.id === activeProfileId);
@@ -744,89 +1034,147 @@ export default function App() {
   const [isEditing, setIsEditing] = useState(false);
   const [isGeneratingBio, setIsGeneratingBio] = useState(false);
   const [isUpdatingGPS, setIsUpdatingGPS] = useState(false);
-  const [regForm, setRegForm] = useState({ 
-    name: '', 
-    cuisine: '', 
-    emoji: '🥘', 
-    description: '', 
-    startHour: 9, 
-    endHour: 22, 
-    menu: [] as MenuItem[],
-    youtubeLink: '',
-    manualDMS: '',
-    hygieneScore: 85
-  });
-  const [newItem, setNewItem] = useState({ name: '', price: '' });
+  const [trackingProfile, setTrackingProfile] = useState<string | null>(null);
+  const stopTrackingRef = useRef<(() => void) | null>(null);
+  const [regForm, setRegForm] = useState(emptyRegForm);
+  const [newItem, setNewItem] = useState(emptyNewItem);
+  const [newOverride, setNewOverride] = useState({ date: '', hours: 'Closed' });
+  const [gridFilters, setGridFilters] = useState<GridFilters>(DEFAULT_GRID_FILTERS);
+  const [showGridFilters, setShowGridFilters] = useState(false);
+  // When off, the map keeps every node while the list stays filtered
+  const [filterMapNodes, setFilterMapNodes] = useState(true);
+  const [heatLayer, setHeatLayer] = useState<HeatLayer | null>(null);
+  // Named neighborhoods drawn on the map, and the two picked for comparison (A, B)
+  const [sectors, setSectors] = useState<Sector[]>([]);
+  const [sectorDrawMode, setSectorDrawMode] = useState<SectorDrawMode | null>(null);
+  const [pendingSectorShape, setPendingSectorShape] = useState<SectorShape | null>(null);
+  const [sectorName, setSectorName] = useState('');
+  const [compareSectorIds, setCompareSectorIds] = useState<string[]>([]);
+  const [analyzingSectorId, setAnalyzingSectorId] = useState<string | null>(null);
+  const [analyticsHistory, setAnalyticsHistory] = useState<AnalyticsSnapshot[]>([]);
+  // Sector whose history the trend charts show; null for the whole grid
+  const [trendSectorId, setTrendSectorId] = useState<string | null>(null);
+  // Vendor Hub site finder: what the vendor sells, and the spots last ranked for it
+  const [siteCuisine, setSiteCuisine] = useState('');
+  const [sitePriceBand, setSitePriceBand] = useState<PriceBand>('street');
+  const [sitePeriod, setSitePeriod] = useState(() => footfallPeriodAt(new Date()));
+  const [siteResults, setSiteResults] = useState<{ query: SiteQuery; sites: SiteCandidate[] } | null>(null);
+  const [heatPeriod, setHeatPeriod] = useState(() => footfallPeriodAt(new Date()));
+  const [crawlIds, setCrawlIds] = useState<string[]>([]);
+  const [routePlan, setRoutePlan] = useState<RoutePlan | null>(null);
+  const [isRoutingCrawl, setIsRoutingCrawl] = useState(false);
+  const [alertPrefs, setAlertPrefs] = useState<AlertPreferences>(DEFAULT_ALERT_PREFERENCES);
+  const [showAlertSettings, setShowAlertSettings] = useState(false);
+  // Minute clock driving open/closed badges and auto-offline
+  const [now, setNow] = useState(() => new Date());
+
+  // Screen readers and the browser's own hyphenation follow the chosen language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
 
   // NEW: Fetch weather data on location change with self-healing catch
   useEffect(() => {
-    fetchLocalWeather(location)
+    const controller = new AbortController();
+    fetchLocalWeather(location, { signal: controller.signal })
       .then(setWeather)
       .catch(err => {
+        if (isAbortError(err)) return;
         console.error("Weather Grounding Failure", err);
         addLog('Healing', 'Weather telemetry lost. Rerouting to historical thermal averages.', 'failed');
         setWeather({ temp: "28°C", condition: "Stable", impactScore: 75 });
       });
+    // A newer location supersedes any weather call still in flight
+    return () => controller.abort();
   }, [location]);
 
   useEffect(() => {
-    localStorage.setItem('geomind_profiles', JSON.stringify(myProfiles));
     setShops(prev => {
       const baseShops = prev.filter(s => !s.id.startsWith('sync-') && !s.isVendor);
       const syncShops = prev.filter(s => s.id.startsWith('sync-'));
       const vendorShops = myProfiles.map(p => {
         const liveId = `live-${p.id}`;
         const prevLiveInstance = prev.find(s => s.id === liveId && s.status === VendorStatus.ONLINE);
-        return {
-          id: prevLiveInstance ? liveId : p.id,
-          name: p.name,
-          coords: prevLiveInstance ? prevLiveInstance.coords : (p.lastLocation || location),
-          isVendor: true,
-          status: prevLiveInstance ? VendorStatus.ONLINE : VendorStatus.OFFLINE,
-          emoji: p.emoji,
-          cuisine: p.cuisine,
-          description: p.description,
-          menu: p.menu,
-          hours: p.hours,
-          youtubeLink: p.youtubeLink,
-          reviews: p.reviews || [],
-          hygieneScore: p.hygieneScore || 85,
-          successReasoning: p.successReasoning || { locationGravity: 80, flavorMoat: 80, socialResonance: 80, economicFit: 80 },
-          safetyMetrics: p.safetyMetrics || { crimeSafety: 70, policeProximity: 70, footfallIntensity: 70, lighting: 70, vibe: 70, nearestPoliceStations: [] },
-          urbanLogistics: p.urbanLogistics || { transitAccessibility: 50, walkabilityScore: 50, parkingAvailability: 50, publicTransportNodes: [] },
-          predictedFootfall: p.predictedFootfall || [
-            { period: "6am-10am", volume: 30 },
-            { period: "11am-2pm", volume: 70 },
-            { period: "3pm-6pm", volume: 50 },
-            { period: "7pm-10pm", volume: 85 },
-            { period: "11pm-2am", volume: 15 }
-          ]
-        };
+        return prevLiveInstance
+          ? { ...profileToShop(p, liveId, prevLiveInstance.coords, VendorStatus.ONLINE), trail: prevLiveInstance.trail }
+          : profileToShop(p, p.id, p.lastLocation || location, VendorStatus.OFFLINE);
       });
       return [...baseShops, ...syncShops, ...vendorShops];
     });
   }, [myProfiles]);
 
-  // Reactive Bridge: Ensure activeShop always reflects the latest inventory (Sold Out status) from the shops grid
+  // Reactive Bridge: Ensure activeShop always reflects the latest inventory (Sold Out status) from the shops grid,
+  // including stock that another device's hub sends through the live grid
   useEffect(() => {
     if (activeShop) {
-      const latest = shops.find(s => s.id === activeShop.id);
+      const latest = gridShops.find(s => s.id === activeShop.id);
       if (latest && JSON.stringify(latest.menu) !== JSON.stringify(activeShop.menu)) {
         setActiveShop(latest);
       }
     }
-  }, [shops, activeShop]);
+  }, [shops, remoteVendors, activeShop]);
 
   // Audio Safety Layer: Immediately stop audio when the activeShop popup is closed or cleared
   useEffect(() => {
     if (!activeShop) {
       stopAudio();
+      shopRequestRef.current?.abort();
       currentShopIdRef.current = null;
     }
   }, [activeShop]);
 
   useEffect(() => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [chatHistory]);
 
+  // Session Restore: rehydrate the whole grid from the last persisted snapshot
+  useEffect(() => {
+    loadGridSnapshot()
+      .then(snapshot => {
+        if (!snapshot) return;
+        if (snapshot.shops.length > 0) setShops(snapshot.shops);
+        setMyProfiles(snapshot.myProfiles.length > 0 ? snapshot.myProfiles : SEED_PROFILES);
+        setOrders(snapshot.orders);
+        setAnalytics(snapshot.analytics);
+        setFlavorHistory(snapshot.flavorHistory);
+        setLensAnalysis(snapshot.lensAnalysis);
+        setLensTargetName(snapshot.lensTargetName);
+        if (snapshot.chatHistory.length > 0) setChatHistory(snapshot.chatHistory);
+        if (snapshot.location) setLocation(snapshot.location);
+        setAlertPrefs(snapshot.alertPreferences);
+        setLocale(snapshot.locale);
+        setSectors(snapshot.sectors);
+        setAnalyticsHistory(snapshot.analyticsHistory);
+        addLog('Spatial', `Neural Grid restored: ${snapshot.shops.length} nodes and ${snapshot.myProfiles.length} partner hubs from ${new Date(snapshot.savedAt).toLocaleString()}.`, 'resolved');
+      })
+      .catch(err => {
+        console.error("Grid restore failure:", err);
+        addLog('Healing', `Saved grid could not be restored (${err.message}). Starting from seed nodes.`, 'failed');
+      })
+      .finally(() => setIsGridRestored(true));
+  }, []);
+
+  // Debounced autosave of the full grid state
+  useEffect(() => {
+    if (!isGridRestored) return;
+    const timer = window.setTimeout(() => {
+      saveGridSnapshot({
+        shops: shops.filter(s => !s.isVendor),
+        myProfiles,
+        orders,
+        analytics,
+        flavorHistory,
+        lensAnalysis,
+        lensTargetName,
+        chatHistory: chatHistory.filter(m => !m.isThinking),
+        location,
+        alertPreferences: alertPrefs,
+        locale,
+        sectors,
+        analyticsHistory
+      }).catch(err => console.error("Grid autosave failure:", err));
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [isGridRestored, shops, myProfiles, orders, analytics, flavorHistory, lensAnalysis, lensTargetName, chatHistory, location, alertPrefs, locale, sectors, analyticsHistory]);
+
   const addLog = (agent: AgentLog['agent'], message: string, status: AgentLog['status'] = 'processing') => {
     setLogs(prev => [{ id: Math.random().toString(), agent, message, status }, ...prev.slice(0, 50)]);
     
@@ -840,6 +1188,218 @@ export default function App() {
     }
   };
 
+  // Service-layer telemetry (schema repairs etc.) lands in the same agent log
+  const addLogRef = useRef(addLog);
+  addLogRef.current = addLog;
+  useEffect(() => subscribeAgentEvents(e => addLogRef.current(e.agent, e.message, e.status)), []);
+
+  // Every live grid vendor update passes through here; the ref always sees the latest preferences and location
+  const proximityWatcherRef = useRef(createProximityWatcher());
+  const vendorUpdateRef = useRef<(vendor: LiveVendor) => void>(() => {});
+  vendorUpdateRef.current = vendor => {
+    const alert = proximityWatcherRef.current.observe(vendor, alertPrefs, location, new Date());
+    // Hubs run from this device are the explorer's own
+    if (alert && !myProfiles.some(p => p.id === alert.vendorId)) announceAlert(alert);
+
+    // The server sweeps stale or closed hubs offline; one of ours going offline there must end its local signal too.
+    // Only a live → offline change counts, since re-registering a hub echoes its older offline state.
+    const own = myProfiles.find(p => p.id === vendor.profile.id);
+    const wasLive = remoteVendors.some(v => v.profile.id === vendor.profile.id && v.status === VendorStatus.ONLINE);
+    const isLiveHere = shops.some(s => s.id === `live-${vendor.profile.id}` && s.status === VendorStatus.ONLINE);
+    if (own && wasLive && vendor.status === VendorStatus.OFFLINE && isLiveHere) {
+      if (own.id === activeProfileId) stopTracking();
+      setShops(prev => prev.filter(s => s.id !== `live-${own.id}`));
+      addLog('Healing', `The shared grid took ${own.name} offline (no recent signal, or outside its hours). Reactivate the signal to go live again.`, 'failed');
+    }
+  };
+
+  // A reconnect can deliver a whole queue before the next render, so arrivals read and write through these
+  const ordersRef = useRef(orders);
+  ordersRef.current = orders;
+  const myProfilesRef = useRef(myProfiles);
+  myProfilesRef.current = myProfiles;
+
+  const setHubMenu = (hubId: string, menu: MenuItem[]) => {
+    myProfilesRef.current = myProfilesRef.current.map(p => p.id === hubId ? { ...p, menu } : p);
+    setMyProfiles(prev => prev.map(p => p.id === hubId ? { ...p, menu } : p));
+  };
+
+  /**
+   * Orders from the live grid, and ones placed at a hub on this device, pass
+   * through here. A device keeps the orders for the hubs it runs and the ones it
+   * placed itself; everyone else's are ignored. The device running the hub
+   * reserves stock when an order first reaches it, declining it when stock has
+   * run out, and releases it when the order is cancelled from either side.
+   * An echo shorter than the copy here is older than a change still on its way
+   * to the server and is skipped, unless the server rejected that change.
+   */
+  const orderUpdateRef = useRef<(order: Order, authoritative?: boolean) => void>(() => {});
+  orderUpdateRef.current = (incoming, authoritative = false) => {
+    const known = ordersRef.current.find(o => o.id === incoming.id);
+    const hub = myProfilesRef.current.find(p => p.id === incoming.profileId);
+    if (!known && !hub) return;
+    if (known && !authoritative && incoming.history.length < known.history.length) return;
+    const ref = incoming.id.slice(-4).toUpperCase();
+
+    let order = incoming;
+    let declinedFor: string | undefined;
+    if (hub && !known && isOrderActive(incoming)) {
+      const { menu, shortfalls, alerts } = reserveStock(hub.menu, incoming.items);
+      if (shortfalls.length > 0) {
+        declinedFor = `Out of stock: ${shortfalls.join(', ')}`;
+        order = advanceOrder(incoming, OrderStatus.CANCELLED, declinedFor);
+      } else {
+        setHubMenu(hub.id, menu);
+        if (alerts.length > 0) addLog('Spatial', `Inventory at ${hub.name}: ${alerts.join(', ')}.`, 'failed');
+      }
+    } else if (hub && known && isOrderActive(known) && incoming.status === OrderStatus.CANCELLED) {
+      setHubMenu(hub.id, releaseStock(hub.menu, incoming.items));
+    }
+
+    ordersRef.current = ordersRef.current.some(o => o.id === order.id) ? ordersRef.current.map(o => o.id === order.id ? order : o) : [order, ...ordersRef.current];
+    setOrders(prev => prev.some(o => o.id === order.id) ? prev.map(o => o.id === order.id ? order : o) : [order, ...prev]);
+    if (declinedFor) {
+      addLog('Spatial', `Order ${ref} from ${order.customer} declined automatically. ${declinedFor}.`, 'failed');
+      if (isLiveGridEnabled() && remoteVendors.some(v => v.profile.id === order.profileId)) {
+        sendOrQueue({ kind: 'orderStatus', profileId: order.profileId, orderId: order.id, status: OrderStatus.CANCELLED, note: declinedFor });
+      }
+    } else if (!known) {
+      addLog('Spatial', `New order ${ref} for ${order.shopName} from ${order.customer} (₹${order.totalPrice}).`, 'processing');
+    } else if (known.status !== order.status) {
+      addLog('Spatial', `Order ${ref} at ${order.shopName}: ${orderStatusName(order.status)}.`, order.status === OrderStatus.CANCELLED ? 'failed' : 'resolved');
+    }
+  };
+
+  // Orders placed or moved while this device was not connected
+  const refreshOrdersRef = useRef(async () => {});
+  refreshOrdersRef.current = async () => {
+    const profileIds = new Set([...myProfiles.map(p => p.id), ...orders.filter(isOrderActive).map(o => o.profileId)]);
+    for (const profileId of profileIds) {
+      try {
+        (await fetchVendorOrders(profileId)).forEach(order => orderUpdateRef.current(order));
+      } catch {
+        // The next reconnect tries again
+      }
+    }
+  };
+
+  // Replays read the latest chat state and location, so the once-registered listeners go through a ref
+  const queueReplayers: QueueReplayers = {
+    chat: async ({ text, location: askedAt, locale: askedIn, replyId }) => {
+      const res = await spatialChatAgent(text, askedAt, LOCALES[askedIn] ?? LOCALES[DEFAULT_LOCALE]);
+      setChatHistory(prev => prev.map(m => m.id === replyId ? { ...m, text: res.text, sources: res.sources, isQueued: false } : m));
+    },
+    review: async ({ vendorId, review }) => {
+      await postVendorReview(vendorId, review);
+    },
+    signal: async ({ profile, status, coords }) => {
+      if (status === VendorStatus.ONLINE) await registerVendor(profile);
+      await setVendorStatus(profile.id, status, coords);
+    },
+    order: async ({ order }) => {
+      const ref = order.id.slice(-4).toUpperCase();
+      try {
+        const placed = await placeVendorOrder(order);
+        addLog('Spatial', `Order ${ref} reached ${placed.shopName} (₹${placed.totalPrice}). Awaiting vendor acceptance.`, 'resolved');
+      } catch (err) {
+        // Stock ran out before the order got there; retrying would not change that
+        if (!(err instanceof LiveGridError && err.status === 409)) throw err;
+        setOrders(prev => prev.map(o => o.id === order.id && canTransition(o, OrderStatus.CANCELLED) ? advanceOrder(o, OrderStatus.CANCELLED, err.message) : o));
+        addLog('Spatial', `Order ${ref} at ${order.shopName} was turned away. ${err.message}`, 'failed');
+      }
+    },
+    orderStatus: async ({ profileId, orderId, status, note }) => {
+      try {
+        await setVendorOrderStatus(profileId, orderId, status, note);
+      } catch (err) {
+        // The other side moved the order first (a cancel racing an accept); take the order as the server has it
+        if (!(err instanceof LiveGridError && err.status === 409)) throw err;
+        const current = (await fetchVendorOrders(profileId)).find(o => o.id === orderId);
+        if (current) orderUpdateRef.current(current, true);
+      }
+    }
+  };
+
+  const syncQueueRef = useRef(async () => {});
+  syncQueueRef.current = async () => {
+    const result = await flushQueue(queueReplayers);
+    result.synced.forEach(e => addLog('Healing', `Back online: synced the queued ${describeQueuedAction(e.action)}.`, 'resolved'));
+    result.dropped.forEach(e => addLog('Healing', `Gave up on the queued ${describeQueuedAction(e.action)} after ${e.attempts} attempts (${e.lastError}).`, 'failed'));
+    // A dropped question must not keep promising an answer
+    const droppedReplies = new Set(result.dropped.flatMap(e => e.action.kind === 'chat' ? [e.action.replyId] : []));
+    if (droppedReplies.size > 0) {
+      setChatHistory(prev => prev.map(m => droppedReplies.has(m.id) ? { ...m, text: t('chat.queueFailed'), isQueued: false } : m));
+    }
+    // Nor an order that never reached its vendor
+    const droppedOrders = new Set(result.dropped.flatMap(e => e.action.kind === 'order' ? [e.action.order.id] : []));
+    if (droppedOrders.size > 0) {
+      setOrders(prev => prev.map(o => droppedOrders.has(o.id) && canTransition(o, OrderStatus.CANCELLED) ? advanceOrder(o, OrderStatus.CANCELLED, 'Could not reach the vendor') : o));
+    }
+    setQueuedCount(result.remaining);
+  };
+
+  // Sends straight away when it can; resolves false when the action had to wait in the offline queue
+  const sendOrQueue = async (action: QueuedAction) => {
+    if (isOnline()) {
+      try {
+        await replayAction(action, queueReplayers);
+        return true;
+      } catch {
+        // Callers report the fallback to the queue through addLog
+      }
+    }
+    await enqueue(action);
+    setQueuedCount((await listQueued()).length);
+    return false;
+  };
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOffline(false);
+      syncQueueRef.current();
+    };
+    const goOffline = () => {
+      setIsOffline(true);
+      addLogRef.current('Healing', 'Network lost. Cached map tiles and the saved grid stay available; chat, reviews and signal changes will queue.', 'failed');
+    };
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    // Anything queued in an earlier session goes out first
+    if (isOnline()) syncQueueRef.current();
+    else listQueued().then(entries => setQueuedCount(entries.length));
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // Re-warmed roughly every 100 m of movement
+  const tileAnchor = `${location.lat.toFixed(3)},${location.lng.toFixed(3)}`;
+  useEffect(() => prefetchTilesAround(location), [tileAnchor]);
+
+  useEffect(() => connectLiveGrid({
+    onSnapshot: vendors => {
+      proximityWatcherRef.current.reset(vendors);
+      setRemoteVendors(vendors);
+      addLogRef.current('Spatial', `Live grid synced: ${vendors.filter(v => v.status === VendorStatus.ONLINE).length} vendor signal(s) active.`, 'resolved');
+    },
+    onVendor: vendor => {
+      vendorUpdateRef.current(vendor);
+      setRemoteVendors(prev => [vendor, ...prev.filter(v => v.profile.id !== vendor.profile.id)]);
+    },
+    onRemoved: id => {
+      proximityWatcherRef.current.forget(id);
+      setRemoteVendors(prev => prev.filter(v => v.profile.id !== id));
+    },
+    onOrder: order => orderUpdateRef.current(order),
+    onConnectionChange: connected => {
+      setIsLiveGridConnected(connected);
+      // Queued order changes go out before the server's copies are pulled, so they are not overwritten
+      if (connected) syncQueueRef.current().then(() => refreshOrdersRef.current());
+      if (!connected) addLogRef.current('Healing', 'Live grid server unreachable. Vendor signals are local to this device until it reconnects.', 'failed');
+    }
+  }), []);
+
   /**
    * Self-Healing Discovery Loop - Fixed to be additive
    */
@@ -867,20 +1427,28 @@ export default function App() {
       }
     } catch (err) {
       console.error("Scrape Error:", err);
-      addLog('Healing', 'Discovery circuit overload. Rebooting Search Grounding Agent...', 'processing');
+      addLog('Discovery', 'Discovery scrape abandoned after exhausting its retry budget. Existing grid preserved.', 'failed');
     } finally {
       setIsMining(false);
     }
   };
 
+  // Set by a discovery merge. The analytics run once the merged grid has rendered rather than inside the
+  // state updater, which React may call more than once
+  const analyticsDueRef = useRef(false);
+  useEffect(() => {
+    if (!analyticsDueRef.current) return;
+    analyticsDueRef.current = false;
+    computeAnalytics(shops);
+  }, [shops]);
+
   const updateShopsWithResult = (result: any) => {
     setShops(prevShops => {
         const existingIds = new Set(prevShops.map(s => s.id));
         const uniqueFreshShops = (result.shops || []).filter((s: Shop) => !existingIds.has(s.id));
-        const updated = [...prevShops, ...uniqueFreshShops];
-        computeAnalytics(updated);
-        return updated;
+        return [...prevShops, ...uniqueFreshShops];
     });
+    analyticsDueRef.current = true;
     setLastSources(result.sources || []);
     if (result.logs && result.logs.length > 0) {
       result.logs.forEach((msg: string) => addLog('Discovery', msg, 'resolved'));
@@ -968,6 +1536,39 @@ export default function App() {
     } catch (err) { setIsSpeaking(false); setIsVoiceActive(false); }
   };
 
+  const announceAlert = async (alert: ProximityAlert) => {
+    if (alert.muted) {
+      addLog('Spatial', `Quiet hours: ${describeAlert(alert)}`, 'resolved');
+      return;
+    }
+    addLog('Spatial', `📣 ${describeAlert(alert)}`, 'resolved');
+    showAlertNotification(alert);
+    if (!alertPrefs.speak) return;
+    try {
+      const announcement = await spatialAlertAgent(alert.vendorName, alert.coords, language);
+      if (announcement.audioData) playVoice(announcement.audioData);
+      else speakAnnouncement(announcement.summary, speechCode);
+    } catch (err) {
+      speakAnnouncement(describeAlert(alert), LOCALES.en.speechCode);
+    }
+  };
+
+  const updateAlertPrefs = (changes: Partial<AlertPreferences>) => {
+    setAlertPrefs(prev => ({ ...prev, ...changes }));
+  };
+
+  // Following is the natural moment to ask for notification permission
+  const toggleFollow = (key: 'followedVendorIds' | 'followedCuisines', value: string) => {
+    const following = alertPrefs[key].includes(value);
+    updateAlertPrefs({ [key]: following ? alertPrefs[key].filter(v => v !== value) : [...alertPrefs[key], value] });
+    if (following) return;
+    requestAlertPermission().then(permission => {
+      if (permission === 'denied' || permission === 'unsupported') {
+        addLog('Healing', 'Browser notifications are unavailable. Proximity alerts will only appear in the agent log.', 'failed');
+      }
+    });
+  };
+
   const handleToggleSignal = async () => {
     const profile = myProfiles.find(p => p.id === activeProfileId);
     if (!profile) return;
@@ -975,48 +1576,78 @@ export default function App() {
     const isNowOnline = !shops.some(s => s.id === liveId && s.status === VendorStatus.ONLINE);
     
     if (isNowOnline) {
-      const optimisticShop: Shop = { 
-        id: liveId, 
-        name: profile.name, 
-        coords: location, 
-        isVendor: true, 
-        status: VendorStatus.ONLINE, 
-        emoji: profile.emoji, 
-        cuisine: profile.cuisine, 
-        description: "Establishing neural link and local broadcast...", 
-        hours: profile.hours, 
-        menu: profile.menu,
-        youtubeLink: profile.youtubeLink,
-        reviews: profile.reviews || [],
-        hygieneScore: profile.hygieneScore || 85,
-        successReasoning: profile.successReasoning || { locationGravity: 80, flavorMoat: 80, socialResonance: 80, economicFit: 80 },
-        safetyMetrics: profile.safetyMetrics || { crimeSafety: 70, policeProximity: 70, footfallIntensity: 70, lighting: 70, vibe: 70, nearestPoliceStations: [] },
-        urbanLogistics: profile.urbanLogistics || { transitAccessibility: 50, walkabilityScore: 50, parkingAvailability: 50, publicTransportNodes: [] },
-        predictedFootfall: profile.predictedFootfall || [
-          { period: "6am-10am", volume: 30 },
-          { period: "11am-2pm", volume: 70 },
-          { period: "3pm-6pm", volume: 50 },
-          { period: "7pm-10pm", volume: 85 },
-          { period: "11pm-2am", volume: 15 }
-        ]
+      const openState = isOpenAt(profile.schedule, new Date());
+      if (!openState.isOpen) {
+        addLog('Spatial', `${profile.name} is closed right now (${describeOpenState(openState, DEFAULT_LOCALE).label}). Update its operating hours to go live.`, 'failed');
+        return;
+      }
+      const optimisticShop: Shop = {
+        ...profileToShop(profile, liveId, location, VendorStatus.ONLINE),
+        description: "Establishing neural link and local broadcast..."
       };
       setShops(prev => [optimisticShop, ...prev.filter(s => s.id !== optimisticShop.id && s.id !== profile.id)]);
       addLog('Spatial', `Signal activation initiated for ${profile.name}. Broadcasting to local grid...`, 'processing');
 
+      if (isLiveGridEnabled()) {
+        sendOrQueue({ kind: 'signal', profile, status: VendorStatus.ONLINE, coords: location }).then(sent => sent
+          ? addLog('Spatial', `${profile.name} is live on the shared grid.`, 'resolved')
+          : addLog('Healing', `Live grid unreachable. ${profile.name} is only visible on this device until the queued signal syncs.`, 'failed'));
+      }
+
       try {
-        const alert = await spatialAlertAgent(profile.name, location);
-        setShops(prev => prev.map(s => s.id === liveId ? { ...s, description: alert.tamilSummary } : s));
+        const alert = await spatialAlertAgent(profile.name, location, language);
+        setShops(prev => prev.map(s => s.id === liveId ? { ...s, description: alert.summary } : s));
         addLog('Spatial', `Signal locked for ${profile.name}. Metadata synchronized.`, 'resolved');
       } catch (err) {
         setShops(prev => prev.map(s => s.id === liveId ? { ...s, description: profile.description } : s));
         addLog('Healing', `Signal bio-sync failed. Defaulting to registry data for ${profile.name}.`, 'failed');
       }
     } else {
-      setShops(prev => prev.filter(s => s.id !== liveId));
-      addLog('Spatial', `Signal deactivated for ${profile.name}. Node is now offline.`, 'failed');
+      deactivateSignal(profile, `Signal deactivated for ${profile.name}. Node is now offline.`);
     }
   };
 
+  const deactivateSignal = (profile: VendorProfile, message: string) => {
+    if (profile.id === activeProfileId) stopTracking();
+    setShops(prev => prev.filter(s => s.id !== `live-${profile.id}`));
+    addLog('Spatial', message, 'failed');
+    if (isLiveGridEnabled()) {
+      sendOrQueue({ kind: 'signal', profile, status: VendorStatus.OFFLINE }).then(sent => {
+        if (!sent) addLog('Healing', `Live grid unreachable. Other explorers may still see ${profile.name} as live until the queued signal syncs.`, 'failed');
+      });
+    }
+  };
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 30000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Live signals end on their own once a hub is outside its operating hours
+  useEffect(() => {
+    myProfiles.forEach(profile => {
+      const isLive = shops.some(s => s.id === `live-${profile.id}` && s.status === VendorStatus.ONLINE);
+      if (isLive && !isOpenAt(profile.schedule, now).isOpen) {
+        deactivateSignal(profile, `${profile.name} is outside its operating hours. Live signal switched off automatically.`);
+      }
+    });
+  }, [now]);
+
+  // Items with a daily prep quantity are restocked on the first tick of each day
+  useEffect(() => {
+    const today = toDateKey(now);
+    setMyProfiles(prev => {
+      let changed = false;
+      const next = prev.map(p => {
+        const menu = applyDailyPrep(p.menu, today);
+        if (menu === p.menu) return p;
+        changed = true;
+        return { ...p, menu };
+      });
+      return changed ? next : prev;
+    });
+  }, [now]);
+
 const handleShopSelect = async (shop: Shop) => {
   setActiveShop(shop);
   setLensShopData(shop); // Set persistent data for Lens tab metrics
@@ -1027,25 +1658,35 @@ const handleShopSelect = async (shop: Shop) => {
   setIsPredictingFootfall(true);
   setIsSidebarOpen(false); 
 
-  getTamilTextSummary(shop).then(summary => {
-    addLog('Linguistic', `Spatial Insight: ${summary.tamil}\n\n${summary.english}`, 'resolved');
-  }).catch(() => addLog('Healing', `Text summary agent failure for ${shop.name}. Explanatory buffer empty.`, 'failed'));
+  // Selecting another node cancels the previous node's summaries and prediction
+  shopRequestRef.current?.abort();
+  const controller = new AbortController();
+  shopRequestRef.current = controller;
+  const { signal } = controller;
 
-  getTamilAudioSummary(shop).then(data => {
+  getTextSummary(shop, language, { signal }).then(summary => {
+    addLog('Linguistic', summary.local && summary.local !== summary.english ? `Spatial Insight: ${summary.local}\n\n${summary.english}` : `Spatial Insight: ${summary.english || summary.local}`, 'resolved');
+  }).catch(err => {
+    if (!isAbortError(err)) addLog('Healing', `Text summary agent failure for ${shop.name}. Explanatory buffer empty.`, 'failed');
+  });
+
+  getAudioSummary(shop, language, { signal }).then(data => {
       // Session Integrity Check: Ensure we only play if the user hasn't closed the node
       if (data && currentShopIdRef.current === shop.id) {
         playVoice(data);
       }
       if (!data) setIsVoiceActive(false);
-    }).catch(() => {
+    }).catch(err => {
+      if (isAbortError(err)) return;
       setIsVoiceActive(false);
       addLog('Healing', `Audio agent failure for ${shop.name}. Voice grid offline.`, 'failed');
     });
     
-  predictFootfallAgent(shop, shop.coords).then(prediction => {
+  predictFootfallAgent(shop, shop.coords, { signal }).then(prediction => {
     setFootfallPrediction(prediction);
     setIsPredictingFootfall(false);
-  }).catch(() => {
+  }).catch(err => {
+    if (isAbortError(err)) return;
     setFootfallPrediction("Prediction unavailable due to grid turbulence.");
     setIsPredictingFootfall(false);
   });
@@ -1054,20 +1695,50 @@ const handleShopSelect = async (shop: Shop) => {
 };
 
   const startLensAnalysisInternal = async (shop: Shop) => {
+    lensRequestRef.current?.abort();
+    const controller = new AbortController();
+    lensRequestRef.current = controller;
     setIsLensAnalyzing(true);
     setExplorerTab('lens');
     setLensAnalysis(null);
     setLensTab('extractedFrames');
     addLog('Lens', `Performing intensive visual scrape for ${shop.name}...`, 'processing');
     try {
-      const analysis = await spatialLensAnalysis(shop.coords, shop.name);
+      const analysis = await spatialLensAnalysis(shop.coords, shop.name, { signal: controller.signal });
       setLensAnalysis(analysis);
       addLog('Lens', `Visual frames analysis complete. Urban integration nodes identified.`, 'resolved');
     } catch (err) {
-      addLog('Healing', `Visual node interference detected for ${shop.name}. Synthetic reconstruction in progress...`, 'failed');
-      setIsLensAnalyzing(false);
+      if (isAbortError(err)) return;
+      addLog('Lens', `Visual scrape for ${shop.name} could not be completed.`, 'failed');
+    } finally {
+      if (lensRequestRef.current === controller) setIsLensAnalyzing(false);
+    }
+  };
+
+  // Lens on a real upload: frames are sampled here, then reasoned over by the Lens frame agent
+  const handleLensMediaUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.prototype.slice.call(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    const shopName = lensShopData?.name || lensTargetName || t('lens.uploadedStall');
+    lensRequestRef.current?.abort();
+    const controller = new AbortController();
+    lensRequestRef.current = controller;
+    setIsLensAnalyzing(true);
+    setExplorerTab('lens');
+    setLensAnalysis(null);
+    setLensTargetName(shopName);
+    try {
+      const frames = await sampleFrames(files, { signal: controller.signal });
+      addLog('Lens', `Sampled ${frames.length} frame(s) from ${describeUpload(frames)}. Reasoning over ${shopName}...`, 'processing');
+      const analysis = await analyzeLensFrames(frames, lensShopData?.coords ?? location, shopName, { signal: controller.signal });
+      setLensAnalysis(analysis);
+      addLog('Lens', `Frame analysis complete: ${analysis.observations.length} observation(s) across ${frames.length} frame(s).`, 'resolved');
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      addLog('Lens', `Frame analysis for ${shopName} failed: ${err?.message || 'unknown error'}`, 'failed');
     } finally {
-      setIsLensAnalyzing(false);
+      if (lensRequestRef.current === controller) setIsLensAnalyzing(false);
     }
   };
 
@@ -1120,9 +1791,37 @@ const handleShopSelect = async (shop: Shop) => {
     }
   };
 
+  const exportGrid = (format: 'geojson' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'geojson') {
+      downloadTextFile(`gstreats-grid-${stamp}.geojson`, JSON.stringify(shopsToGeoJSON(shops), null, 2), 'application/geo+json');
+    } else {
+      downloadTextFile(`gstreats-grid-${stamp}.csv`, shopsToCSV(shops), 'text/csv');
+    }
+    addLog('Discovery', `Exported ${shops.length} nodes as ${format.toUpperCase()}.`, 'resolved');
+  };
+
+  const handleGridImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    addLog('Discovery', `Importing ${file.name} into the grid...`, 'processing');
+    try {
+      const { shops: incoming, repairs } = parseGridFile(file.name, await file.text());
+      const result = mergeImportedShops(shops, incoming, importStrategy);
+      setShops(result.shops);
+      addLog('Discovery', `Import complete: ${result.added} added, ${result.replaced} replaced, ${result.skipped} skipped as duplicates.`, 'resolved');
+      if (repairs.length > 0) {
+        addLog('Healing', `Import repaired ${repairs.length} field(s): ${repairs.slice(0, 3).join('; ')}${repairs.length > 3 ? ' ...' : ''}`, 'resolved');
+      }
+    } catch (err: any) {
+      addLog('Discovery', `Import of ${file.name} failed: ${err.message}`, 'failed');
+    }
+  };
+
   const computeAnalytics = async (shopData?: Shop[]) => {
     const targetShops = shopData || shops;
-    const discoveredOnly = targetShops.filter(s => s.id.startsWith('sync'));
+    const discoveredOnly = targetShops.filter(s => s.id.startsWith('sync') || s.id.startsWith('import'));
     if (discoveredOnly.length === 0) {
       addLog('Analytics', 'Insufficient spatial nodes for analytics. Discovery required.', 'failed');
       return;
@@ -1132,14 +1831,98 @@ const handleShopSelect = async (shop: Shop) => {
     try {
       const res = await generateSpatialAnalytics(discoveredOnly);
       setAnalytics(res);
+      // Live vendors are not analyzed but are counted apart, as they are what the history tracks
+      const liveShops = remoteLiveShops.filter(r => !targetShops.some(s => s.id === r.id));
+      setAnalyticsHistory(prev => recordSnapshot(prev, takeSnapshot(null, discoveredOnly, res, [...targetShops, ...liveShops])));
       addLog('Analytics', 'Spatial intelligence dashboard synchronized.', 'resolved');
     } catch (err) {
-      addLog('Healing', 'Telemetry parsing failure. Regenerating analytics buffer...', 'failed');
+      addLog('Analytics', 'Analytics run failed. Previous dashboard retained.', 'failed');
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  const saveSector = () => {
+    if (!pendingSectorShape) return;
+    const sector = createSector(sectorName, pendingSectorShape, sectors);
+    setSectors(prev => [...prev, sector]);
+    setPendingSectorShape(null);
+    setSectorName('');
+    addLog('Analytics', `Sector ${sector.name} saved (${describeShape(sector.shape)}, ${shopsInSector(gridShops, sector).length} node(s) inside).`, 'resolved');
+  };
+
+  // A sector's history goes with it, since exports name snapshots by their sector
+  const deleteSector = (sectorId: string) => {
+    setSectors(prev => prev.filter(s => s.id !== sectorId));
+    setCompareSectorIds(prev => prev.filter(id => id !== sectorId));
+    setAnalyticsHistory(prev => prev.filter(s => s.sectorId !== sectorId));
+    if (trendSectorId === sectorId) setTrendSectorId(null);
+  };
+
+  // Picking a third sector replaces the older of the two
+  const toggleCompareSector = (sectorId: string) => {
+    setCompareSectorIds(prev => prev.includes(sectorId) ? prev.filter(id => id !== sectorId) : [...prev, sectorId].slice(-2));
+  };
+
+  const analyzeSector = async (sectorId: string) => {
+    const sector = sectors.find(s => s.id === sectorId);
+    if (!sector) return;
+    const inside = shopsInSector(gridShops, sector);
+    if (inside.length === 0) {
+      addLog('Analytics', `${sector.name} holds no nodes yet. Run a food scrape over it first.`, 'failed');
+      return;
+    }
+    setAnalyzingSectorId(sectorId);
+    addLog('Analytics', `Processing ${inside.length} node(s) inside ${sector.name}...`, 'processing');
+    try {
+      const res = await generateSpatialAnalytics(inside);
+      const analyzedAt = new Date().toISOString();
+      setSectors(prev => prev.map(s => s.id === sectorId ? { ...s, analytics: res, analyzedAt } : s));
+      setAnalyticsHistory(prev => recordSnapshot(prev, takeSnapshot(sectorId, inside, res)));
+      addLog('Analytics', `${sector.name} dashboard synchronized.`, 'resolved');
+    } catch (err) {
+      addLog('Analytics', `Analytics for ${sector.name} failed. Previous dashboard retained.`, 'failed');
+    } finally {
+      setAnalyzingSectorId(null);
+    }
+  };
+
+  const findSites = () => {
+    const cuisine = siteCuisine.trim() || activeProfile?.cuisine || '';
+    if (!cuisine) {
+      addLog('Spatial', 'Site finder needs the cuisine you plan to sell.', 'failed');
+      return;
+    }
+    const query: SiteQuery = { cuisine, priceBand: sitePriceBand, period: sitePeriod, center: location };
+    // A vendor's own node is not its competitor
+    const others = gridShops.filter(s => !activeProfileId || profileIdForShop(s) !== activeProfileId);
+    const sites = recommendSites(others, query, { weatherImpact: typeof weather?.impactScore === 'number' ? weather.impactScore : null });
+    setSiteResults({ query, sites });
+    if (sites.length === 0) {
+      addLog('Spatial', `No candidate spots for ${cuisine} with footfall data nearby. Run a food scrape around here first.`, 'failed');
+    } else {
+      addLog('Spatial', `Site finder ranked ${sites.length} spot(s) for ${cuisine} in ${sitePeriod}. Best: ${describeSite(sites[0])}.`, 'resolved');
+    }
+  };
+
+  const siteReason = (site: SiteCandidate, factor: SiteFactor, period: string) => {
+    const value = site.factors.find(f => f.factor === factor)?.value ?? 0;
+    if (factor === 'footfall') return t('sites.reason.footfall', { period, value });
+    if (factor === 'competition') return t('sites.reason.competition', { count: site.competitors, radius: COMPETITOR_RADIUS_METERS });
+    if (factor === 'weather') return t('sites.reason.weather', { condition: weather?.condition ?? '', value });
+    return t(`sites.reason.${factor}`, { value });
+  };
+
+  const exportAnalyticsHistory = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadTextFile(`gstreats-analytics-${stamp}.json`, JSON.stringify(historyToJSON(analyticsHistory, sectors), null, 2), 'application/json');
+    } else {
+      downloadTextFile(`gstreats-analytics-${stamp}.csv`, historyToCSV(analyticsHistory, sectors), 'text/csv');
+    }
+    addLog('Analytics', `Exported ${analyticsHistory.length} analytics snapshot(s) as ${format.toUpperCase()}.`, 'resolved');
+  };
+
   const syncGPS = () => {
     setIsUpdatingGPS(true);
     if (navigator.geolocation) {
@@ -1150,6 +1933,10 @@ const handleShopSelect = async (shop: Shop) => {
           setIsUpdatingGPS(false);
           if (activeProfileId) {
             setMyProfiles(prev => prev.map(p => p.id === activeProfileId ? { ...p, lastLocation: newLoc } : p));
+            if (isCurrentlyLive && isLiveGridEnabled()) {
+              sendVendorPosition(activeProfileId, newLoc)
+                .catch(err => addLog('Healing', `Live grid position update failed: ${err.message}`, 'failed'));
+            }
           }
           addLog('Spatial', `High-precision GPS sync complete at ${newLoc.lat.toFixed(6)}, ${newLoc.lng.toFixed(6)}.`, 'resolved');
         },
@@ -1166,6 +1953,74 @@ const handleShopSelect = async (shop: Shop) => {
     }
   };
 
+  const stopTracking = () => {
+    if (!stopTrackingRef.current) return;
+    stopTrackingRef.current();
+    stopTrackingRef.current = null;
+    setTrackingProfile(null);
+    addLog('Spatial', 'Continuous GPS tracking stopped.', 'resolved');
+  };
+
+  // Hubs that are not tracking send no positions, so a heartbeat keeps them from going stale on the shared grid
+  const liveHubIds = myProfiles.filter(p => shops.some(s => s.id === `live-${p.id}` && s.status === VendorStatus.ONLINE)).map(p => p.id).join(',');
+  useEffect(() => {
+    if (!isLiveGridEnabled() || !liveHubIds) return;
+    const timer = window.setInterval(() => {
+      liveHubIds.split(',').forEach(id => sendVendorHeartbeat(id).catch(() => {}));
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [liveHubIds]);
+
+  // Remote explorers check stock against the menu the server holds, and the server sweeps hubs offline by the hours
+  // it holds, so a live hub's profile goes back up whenever it changes: stock reserved or released by an order, or
+  // the hub saved with new menu or hours. Profiles that failed to send are retried on reconnect.
+  // Positions travel on their own channel, so lastLocation is left out of the comparison.
+  const sentHubProfilesRef = useRef<Record<string, string>>({});
+  const sharedProfileOf = ({ lastLocation, ...shared }: VendorProfile) => JSON.stringify(shared);
+  const liveHubProfiles = myProfiles.filter(p => liveHubIds.split(',').includes(p.id)).map(sharedProfileOf).join('\n');
+  useEffect(() => {
+    if (!isLiveGridEnabled() || !isLiveGridConnected) return;
+    myProfiles.filter(p => liveHubIds.split(',').includes(p.id)).forEach(profile => {
+      const sent = sharedProfileOf(profile);
+      if (sentHubProfilesRef.current[profile.id] === sent) return;
+      registerVendor(profile)
+        .then(() => { sentHubProfilesRef.current[profile.id] = sent; })
+        .catch(err => addLog('Healing', `Could not update ${profile.name} on the shared grid: ${err.message}`, 'failed'));
+    });
+  }, [liveHubProfiles, isLiveGridConnected]);
+
+  const toggleTracking = () => {
+    if (stopTrackingRef.current) return stopTracking();
+    if (!activeProfileId || !isCurrentlyLive) return;
+    const profileId = activeProfileId;
+    const liveId = `live-${profileId}`;
+
+    stopTrackingRef.current = startGpsTracking({
+      onFix: fix => {
+        setShops(prev => prev.map(s => s.id === liveId
+          ? { ...s, coords: fix.coords, trail: [...(s.trail || []), { ...fix.coords, timestamp: fix.timestamp }].slice(-MAX_TRAIL_POINTS) }
+          : s));
+        setMyProfiles(prev => prev.map(p => p.id === profileId ? { ...p, lastLocation: fix.coords } : p));
+        // Lost connections are already reported by the live grid subscription
+        if (isLiveGridEnabled()) sendVendorPosition(profileId, fix.coords).catch(() => {});
+      },
+      onProfileChange: profile => {
+        setTrackingProfile(profile.name);
+        addLog('Spatial', `GPS tracking on ${profile.name} sampling: every ${profile.intervalMs / 1000}s, ${profile.minMoveMeters}m movement threshold.`, 'resolved');
+      },
+      onError: (message, fatal) => {
+        addLog('Healing', message, 'failed');
+        if (fatal) {
+          stopTrackingRef.current = null;
+          setTrackingProfile(null);
+        }
+      }
+    });
+  };
+
+  // Tracking belongs to the open hub; switching hubs or leaving ends it
+  useEffect(() => () => stopTracking(), [activeProfileId]);
+
   const handleApplyDMS = () => {
     const coords = parseDMS(regForm.manualDMS);
     if (coords) {
@@ -1177,14 +2032,13 @@ const handleShopSelect = async (shop: Shop) => {
   };
 
   const startEditHub = (profile: VendorProfile) => {
-    const [start, end] = (profile.hours || "9:00 - 22:00").split(' - ').map(h => parseInt(h));
     setRegForm({
       name: profile.name,
       cuisine: profile.cuisine,
       emoji: profile.emoji,
       description: profile.description,
-      startHour: start || 9,
-      endHour: end || 22,
+      dayHours: profile.schedule.days.map(formatIntervals),
+      overrides: [...(profile.schedule.overrides || [])],
       menu: [...(profile.menu || [])],
       youtubeLink: profile.youtubeLink || '',
       manualDMS: '',
@@ -1196,9 +2050,16 @@ const handleShopSelect = async (shop: Shop) => {
 
   const handleSaveHub = () => {
     if (!regForm.name || !regForm.cuisine) {
-      alert("Name and Cuisine are required to establish a node.");
+      alert(t('reg.nameRequired'));
+      return;
+    }
+    const days = regForm.dayHours.map(parseIntervals);
+    const invalidDay = days.findIndex(d => d === null);
+    if (invalidDay !== -1) {
+      alert(t('reg.hoursInvalid', { day: weekdayName(locale, invalidDay), hours: regForm.dayHours[invalidDay] }));
       return;
     }
+    const schedule = { days: days as TimeInterval[][], overrides: regForm.overrides };
     let targetId = activeProfileId;
     if (isEditing && activeProfileId) {
       setMyProfiles(prev => prev.map(p => p.id === activeProfileId ? {
@@ -1207,7 +2068,7 @@ const handleShopSelect = async (shop: Shop) => {
         cuisine: regForm.cuisine,
         emoji: regForm.emoji,
         description: regForm.description,
-        hours: `${regForm.startHour}:00 - ${regForm.endHour}:00`,
+        schedule,
         menu: regForm.menu,
         youtubeLink: regForm.youtubeLink,
         hygieneScore: regForm.hygieneScore
@@ -1222,7 +2083,7 @@ const handleShopSelect = async (shop: Shop) => {
         emoji: regForm.emoji, 
         description: regForm.description,
         lastLocation: location,
-        hours: `${regForm.startHour}:00 - ${regForm.endHour}:00`,
+        schedule,
         menu: regForm.menu,
         youtubeLink: regForm.youtubeLink,
         reviews: [],
@@ -1242,27 +2103,70 @@ const handleShopSelect = async (shop: Shop) => {
       addLog('Spatial', `Initial signal for "${regForm.name}" established.`, 'resolved');
       targetId = newId;
     }
-    setRegForm({ name: '', cuisine: '', emoji: '🥘', description: '', startHour: 9, endHour: 22, menu: [] as MenuItem[], youtubeLink: '', manualDMS: '', hygieneScore: 85 });
+    setRegForm(emptyRegForm());
     setIsRegistering(false);
     setIsEditing(false);
     if (targetId) setActiveProfileId(targetId);
   };
 
+  const addScheduleOverride = () => {
+    const intervals = parseIntervals(newOverride.hours);
+    if (!newOverride.date || !intervals) {
+      alert(t('reg.overrideInvalid'));
+      return;
+    }
+    setRegForm({
+      ...regForm,
+      overrides: [...regForm.overrides.filter(o => o.date !== newOverride.date), { date: newOverride.date, intervals }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    });
+    setNewOverride({ date: '', hours: 'Closed' });
+  };
+
   const deleteHub = (id: string) => {
-    if (!confirm("Confirm decommissioning? All spatial history will be purged.")) return;
+    if (!confirm(t('reg.confirmDelete'))) return;
     setMyProfiles(prev => prev.filter(p => p.id !== id));
     setShops(prev => prev.filter(s => s.id !== id && s.id !== `live-${id}`));
+    setOrders(prev => prev.filter(o => o.profileId !== id));
     setActiveProfileId(null);
     addLog('Spatial', `Node decommissioned. Signal severed from the grid.`, 'failed');
   };
 
-  const addMenuItem = () => {
-    if (!newItem.name || !newItem.price) return;
+  const addMenuItem = () => {
+    const variants = parseOptionList(newItem.variants);
+    const modifiers = parseOptionList(newItem.modifiers);
+    if (!variants || !modifiers) {
+      alert(t('reg.optionsInvalid'));
+      return;
+    }
+    // With variants, the listed price is the first variant's
+    const price = variants.length > 0 ? variants[0].price : parseInt(newItem.price);
+    if (!newItem.name || !(price >= 0)) return;
+    const prep = parseInt(newItem.prep);
+    const item: MenuItem = {
+      name: newItem.name,
+      price,
+      isSoldOut: false,
+      ...(variants.length > 0 ? { variants } : {}),
+      ...(modifiers.length > 0 ? { modifiers } : {}),
+      ...(newItem.tags.length > 0 ? { tags: newItem.tags } : {}),
+      ...(prep > 0 ? { dailyPrep: prep, stock: prep, stockDate: toDateKey(new Date()) } : {})
+    };
+    setRegForm(prev => ({ ...prev, menu: [...prev.menu, item] }));
+    setNewItem(emptyNewItem());
+  };
+
+  const toggleNewItemTag = (tag: DietaryTag) => {
+    setNewItem(prev => ({ ...prev, tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag] }));
+  };
+
+  const setMenuItemStock = (index: number, value: string) => {
+    const stock = value === '' ? undefined : Math.max(0, parseInt(value) || 0);
     setRegForm(prev => ({
       ...prev,
-      menu: [...prev.menu, { name: newItem.name, price: parseInt(newItem.price), isSoldOut: false }]
+      // Running out marks the item sold out; an item the vendor pulled by hand stays pulled until they restock it
+      menu: prev.menu.map((item, i) => i === index ? { ...item, stock, isSoldOut: stock === 0 || !!item.pulledByVendor } : item)
     }));
-    setNewItem({ name: '', price: '' });
   };
 
   const removeMenuItem = (index: number) => {
@@ -1272,7 +2176,11 @@ const handleShopSelect = async (shop: Shop) => {
   const toggleMenuItemSoldOut = (index: number) => {
     setRegForm(prev => {
       const newMenu = [...prev.menu];
-      newMenu[index] = { ...newMenu[index], isSoldOut: !newMenu[index].isSoldOut };
+      const item = newMenu[index];
+      // Restocking an item that ran out refills it to its daily prep, or stops tracking it
+      const refill = item.isSoldOut && isStockTracked(item) && item.stock! <= 0 ? { stock: item.dailyPrep || undefined } : {};
+      const { pulledByVendor, ...rest } = item;
+      newMenu[index] = item.isSoldOut ? { ...rest, ...refill, isSoldOut: false } : { ...item, isSoldOut: true, pulledByVendor: true };
       return { ...prev, menu: newMenu };
     });
   };
@@ -1308,6 +2216,14 @@ const handleShopSelect = async (shop: Shop) => {
 
     setActiveShop(prev => prev ? { ...prev, reviews: [newReview, ...(prev.reviews || [])] } : null);
 
+    // Vendors on the shared grid carry their reviews to every explorer
+    const sharedVendorId = profileIdForShop(activeShop);
+    if (isLiveGridEnabled() && activeShop.isVendor && remoteVendors.some(v => v.profile.id === sharedVendorId) && !myProfiles.some(p => p.id === sharedVendorId)) {
+      sendOrQueue({ kind: 'review', vendorId: sharedVendorId, review: newReview }).then(sent => {
+        if (!sent) addLog('Healing', `Offline. Your review of ${activeShop.name} will reach the shared grid once the connection returns.`, 'processing');
+      });
+    }
+
     addLog('Linguistic', `Exploration feedback logged for ${activeShop.name}. Authenticity confirmed.`, 'resolved');
     setIsReviewing(false);
     setReviewForm({ author: 'Machi Explorer', rating: 5, comment: '' });
@@ -1317,7 +2233,7 @@ const handleShopSelect = async (shop: Shop) => {
     if (!regForm.name || !regForm.cuisine) return;
     setIsGeneratingBio(true);
     try {
-       const bio = await generateVendorBio(regForm.name, regForm.cuisine);
+       const bio = await generateVendorBio(regForm.name, regForm.cuisine, language);
        setRegForm(prev => ({ ...prev, description: bio }));
     } catch (e) {
        addLog('Healing', 'Bio generation agent failed. Manual bio input required.', 'failed');
@@ -1331,29 +2247,40 @@ const handleShopSelect = async (shop: Shop) => {
     const i = text;
     setChatInput(''); 
     const nowTs = Date.now();
+    if (!isOnline()) {
+      const replyId = (nowTs + 1).toString();
+      setChatHistory(prev => [
+        ...prev,
+        { id: nowTs.toString(), role: 'user', text: i },
+        { id: replyId, role: 'model', text: t('chat.queued'), isQueued: true }
+      ]);
+      enqueue({ kind: 'chat', text: i, location, locale, replyId })
+        .then(() => listQueued())
+        .then(entries => setQueuedCount(entries.length));
+      return;
+    }
     setChatHistory(prev => [
       ...prev, 
       { id: nowTs.toString(), role: 'user', text: i }, 
       { id: (nowTs + 1).toString(), role: 'model', text: '', isThinking: true }
     ]);
     try {
-       const res = await spatialChatAgent(i, location);
+       const res = await spatialChatAgent(i, location, language);
        setChatHistory(prev => prev.map(m => m.isThinking ? { ...m, text: res.text, sources: res.sources, isThinking: false } : m));
     } catch (e) {
-       setChatHistory(prev => prev.map(m => m.isThinking ? { ...m, text: "Grid interference detected. Initiating cognitive self-healing...", isThinking: false } : m));
-       const res = await spatialChatAgent(i, location);
-       setChatHistory(prev => prev.map(m => m.id === (nowTs + 1).toString() ? { ...m, text: res.text, sources: res.sources } : m));
+       // Retries already happened inside the resilience layer; surface the final outcome
+       setChatHistory(prev => prev.map(m => m.isThinking ? { ...m, text: t('chat.failed'), isThinking: false } : m));
     }
   };
 
   const handleChatVoice = () => {
     const R = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
     if (!R) {
-      alert("Speech recognition not supported in this browser.");
+      alert(t('chat.unsupported'));
       return;
     }
     const r = new R();
-    r.lang = chatLang;
+    r.lang = speechCode;
     r.onstart = () => setIsListening(true);
     r.onend = () => setIsListening(false);
     r.onresult = (e: any) => {
@@ -1363,38 +2290,94 @@ const handleShopSelect = async (shop: Shop) => {
     r.start();
   };
 
-  const liveVendors = shops.filter(s => s.isVendor && s.status === VendorStatus.ONLINE);
-  const discoveredShops = shops.filter(s => s.id.startsWith('sync') || s.id.startsWith('seed'));
+  // Remote live signals join the local grid; this device's own broadcasts already have a node
+  const remoteLiveShops = remoteVendors
+    .filter(v => v.status === VendorStatus.ONLINE && v.coords && !shops.some(s => s.id === `live-${v.profile.id}`))
+    .map(v => profileToShop(v.profile, `live-${v.profile.id}`, v.coords!, VendorStatus.ONLINE));
+  const gridShops = remoteLiveShops.length > 0
+    ? [...shops.filter(s => !remoteLiveShops.some(r => r.id === `live-${s.id}`)), ...remoteLiveShops]
+    : shops;
+  const liveVendors = gridShops.filter(s => s.isVendor && s.status === VendorStatus.ONLINE);
+  const filteredGridShops = applyGridFilters(gridShops, gridFilters, { location, now, legendaryIndex: analytics?.legendaryIndex });
+  const mapShops = filterMapNodes ? filteredGridShops : gridShops;
+  const activeFilterCount = countActiveFilters(gridFilters);
   const isCurrentlyLive = activeProfileId && shops.some(s => s.id === `live-${activeProfileId}` && s.status === VendorStatus.ONLINE);
   
-  const cartValues = Object.values(cart) as number[];
-  const cartTotalItems: number = cartValues.reduce((a: number, b: number) => a + b, 0);
+  const comparedSectors = compareSectorIds.map(id => sectors.find(s => s.id === id)).filter((s): s is Sector => !!s);
+  const sectorComparison = comparedSectors.length === 2 ? compareSectors(comparedSectors[0], comparedSectors[1], gridShops) : null;
+  const trendSnapshots = snapshotsFor(analyticsHistory, trendSectorId);
+
+  const crawlStops = crawlIds.map(id => gridShops.find(s => s.id === id)).filter((s): s is Shop => !!s);
+
+  const toggleCrawlStop = (shop: Shop) => {
+    setCrawlIds(prev => prev.includes(shop.id) ? prev.filter(id => id !== shop.id) : [...prev, shop.id]);
+    setRoutePlan(null);
+  };
+
+  const clearCrawl = () => {
+    setCrawlIds([]);
+    setRoutePlan(null);
+  };
+
+  const planCrawl = async () => {
+    if (crawlStops.length < 2) {
+      alert(t('crawl.needTwoStops'));
+      return;
+    }
+    const plan = planRoute(location, crawlStops, new Date());
+    setRoutePlan(plan);
+    addLog('Spatial', `Crawl ordered: ${plan.stops.map(s => s.shop.name).join(' → ')} (${(plan.totalMeters / 1000).toFixed(1)} km, ~${Math.round(plan.totalMinutes)} min).`, plan.warnings.length > 0 ? 'failed' : 'resolved');
+    if (!isRouterEnabled()) return;
+    setIsRoutingCrawl(true);
+    try {
+      const routed = await routeLegs(plan);
+      // The crawl may have changed while the router was answering
+      setRoutePlan(current => current === plan ? routed : current);
+    } finally {
+      setIsRoutingCrawl(false);
+    }
+  };
+
+  const toggleFilterValue = <K extends 'cuisines' | 'origins' | 'priceBands'>(key: K, value: GridFilters[K][number]) => {
+    setGridFilters(prev => {
+      const values = prev[key] as string[];
+      return { ...prev, [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value] };
+    });
+  };
+
+  const cartLines = Object.values(cart) as CartLine[];
+  const cartTotalItems: number = cartLines.reduce((a: number, line) => a + line.quantity, 0);
 
   const initiateOrder = () => {
     if (!activeShop?.menu || activeShop.menu.length === 0) {
-      alert("This partner node has no menu registered in the grid.");
+      alert(t('order.noMenu'));
       return;
     }
     setOrderStep('menu');
     setOrderInput('');
     setParsedOrder(null);
     setCart({}); 
+    setItemChoices({});
+    setPlacedOrderId(null);
     setIsOrdering(true);
   };
 
-  const updateCart = (itemName: string, delta: number) => {
-    const menuItem = activeShop?.menu?.find(m => m.name === itemName);
-    if (menuItem?.isSoldOut && delta > 0) return; 
+  const choiceFor = (item: MenuItem) => itemChoices[item.name] ?? { variant: defaultVariant(item)?.name, modifiers: [] };
 
-    setCart((prev: Record<string, number>) => {
-      const current = prev[itemName] || 0;
-      const next = Math.max(0, current + delta);
-      if (next === 0) {
-        const { [itemName]: _, ...rest } = prev;
-        return rest;
-      }
-      return { ...prev, [itemName]: next };
-    });
+  const chooseVariant = (item: MenuItem, variant: string) => {
+    setItemChoices(prev => ({ ...prev, [item.name]: { ...choiceFor(item), variant } }));
+  };
+
+  const toggleModifier = (item: MenuItem, modifier: string) => {
+    const choice = choiceFor(item);
+    const modifiers = choice.modifiers.includes(modifier) ? choice.modifiers.filter(m => m !== modifier) : [...choice.modifiers, modifier];
+    setItemChoices(prev => ({ ...prev, [item.name]: { ...choice, modifiers } }));
+  };
+
+  const updateCart = (line: CartLine, delta: number) => {
+    const menuItem = activeShop?.menu?.find(m => m.name === line.name);
+    if (menuItem?.isSoldOut && delta > 0) return; 
+    setCart(prev => withCartLine(prev, line, (prev[line.key]?.quantity || 0) + delta, menuItem));
   };
 
   const processOrderInput = async (input?: string) => {
@@ -1403,64 +2386,121 @@ const handleShopSelect = async (shop: Shop) => {
     setIsParsingOrder(true);
     addLog('Linguistic', `Processing signal: "${textToParse}"`, 'processing');
     try {
-      const res = await parseOrderAgent(textToParse, activeShop.menu);
-      setCart((prev: Record<string, number>) => {
-        const next = { ...prev };
-        res.orderItems?.forEach((item: any) => {
-          const actualItem = activeShop?.menu?.find(m => m.name === item.name);
-          if (actualItem && !actualItem.isSoldOut) {
-            next[item.name] = (next[item.name] || 0) + item.quantity;
-          }
-        });
-        return next;
-      });
-      addLog('Linguistic', `Manifest updated from voice grid. Added entities.`, 'resolved');
+      const menu = activeShop.menu;
+      const res = await parseOrderAgent(textToParse, menu, language);
+      const lines = res.orderItems
+        .map(item => resolveOrderItem(menu, item))
+        .filter((line): line is CartLine => !!line && !menu.find(m => m.name === line.name)?.isSoldOut);
+      const addLines = (base: Record<string, CartLine>) => lines.reduce(
+        (acc, line) => withCartLine(acc, line, (acc[line.key]?.quantity || 0) + line.quantity, menu.find(m => m.name === line.name)),
+        base
+      );
+      setCart(addLines);
+      addLog('Linguistic', `Manifest updated from voice grid. Added ${lines.map(describeLine).join(', ') || 'no entities'}.`, 'resolved');
+      const merged = Object.values(addLines(cart));
+      const limited = [...new Set(lines.map(l => l.name))].filter(name =>
+        quantityOfItem(merged, name) < quantityOfItem(cartLines, name) + quantityOfItem(lines, name)
+      );
+      if (limited.length > 0) {
+        addLog('Linguistic', `Limited to remaining stock: ${limited.join(', ')}.`, 'failed');
+      }
       setOrderInput(''); 
     } catch (e) {
-      addLog('Healing', `Signal decoding failure. Attempting semantic reconstruction...`, 'failed');
+      addLog('Linguistic', `Signal decoding failed. Rephrase the order or add items manually.`, 'failed');
     } finally {
       setIsParsingOrder(false);
     }
   };
 
   const proceedToVerify = () => {
-    if (Object.keys(cart).length === 0) {
-      alert("Cart is empty. Select items or state your order.");
+    if (cartLines.length === 0) {
+      alert(t('order.cartEmpty'));
       return;
     }
-    const orderItems = (Object.entries(cart) as [string, number][]).map(([name, quantity]) => {
-      const menuItem = activeShop?.menu?.find(m => m.name === name);
-      return { 
-        name, 
-        quantity, 
-        price: menuItem?.price || 0,
-        isSoldOut: menuItem?.isSoldOut || false 
-      };
-    }).filter(it => !it.isSoldOut); 
+    // Stock may have moved since items were added, so quantities and prices are re-checked here
+    const adjusted: string[] = [];
+    const orderItems = cartLines.reduce<CartLine[]>((kept, line) => {
+      const menuItem = activeShop?.menu?.find(m => m.name === line.name);
+      const quantity = Math.min(line.quantity, remainingQuantity(menuItem) - quantityOfItem(kept, line.name));
+      if (quantity < line.quantity) adjusted.push(quantity <= 0 ? t('order.lineSoldOut', { line: describeLine(line) }) : t('order.lineReduced', { line: describeLine(line), count: quantity }));
+      if (!menuItem || quantity <= 0) return kept;
+      return [...kept, buildCartLine(menuItem, line.variant, line.modifiers, quantity)];
+    }, []);
 
     if (orderItems.length === 0) {
-      alert("The selected items are currently unavailable (Sold Out).");
+      alert(t('order.allSoldOut'));
       setCart({});
       return;
     }
+    if (adjusted.length > 0) {
+      alert(t('order.stockChanged', { changes: adjusted.join(', ') }));
+      setCart(Object.fromEntries(orderItems.map(line => [line.key, line])));
+    }
 
     const totalPrice = orderItems.reduce((acc: number, curr) => acc + (curr.price * curr.quantity), 0);
     setParsedOrder({ orderItems, totalPrice });
     setOrderStep('verifying');
   };
 
+  // Orders reach hubs on other devices through the live grid; a hub run on this device sees them straight away
   const confirmFinalOrder = () => {
+    if (!activeShop || !parsedOrder || !customerName.trim()) return;
+    const order = createOrder(activeShop, parsedOrder.orderItems, customerName.trim());
+    const hub = myProfiles.find(p => p.id === order.profileId);
+    // Checked up front for a hub on this device, rather than placing an order it would decline on arrival
+    if (hub) {
+      const { shortfalls } = reserveStock(hub.menu, order.items);
+      if (shortfalls.length > 0) {
+        alert(t('order.notEnoughStock', { items: shortfalls.join(', ') }));
+        setOrderStep('menu');
+        return;
+      }
+      orderUpdateRef.current(order);
+    } else {
+      setOrders(prev => [order, ...prev]);
+    }
+    setPlacedOrderId(order.id);
     setOrderStep('placed');
-    addLog('Spatial', `Order transmitted successfully to ${activeShop?.name}. Signal locked.`, 'resolved');
-    setTimeout(() => {
-      setIsOrdering(false);
-      setParsedOrder(null);
-      setOrderInput('');
-      setCart({});
-      setActiveShop(null); 
-    }, 4000);
+    setParsedOrder(null);
+    setOrderInput('');
+    setCart({});
+    const ref = order.id.slice(-4).toUpperCase();
+    if (!isLiveGridEnabled() || !remoteVendors.some(v => v.profile.id === order.profileId)) {
+      addLog('Spatial', `Order ${ref} placed at ${order.shopName} (₹${order.totalPrice}). ${order.shopName} is not on the shared grid, so only a hub run on this device will see it.`, 'resolved');
+      return;
+    }
+    sendOrQueue({ kind: 'order', order }).then(sent => {
+      if (!sent) addLog('Healing', `Offline. Order ${ref} will reach ${order.shopName} once the connection returns.`, 'processing');
+    });
+  };
+
+  const updateOrderStatus = (orderId: string, next: OrderStatus) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    if (!canTransition(order, next)) {
+      addLog('Healing', `Order ${orderId.slice(-4).toUpperCase()} is already ${orderStatusName(order.status)}; ${orderStatusName(next)} ignored.`, 'failed');
+      return;
+    }
+    setOrders(prev => prev.map(o => o.id === orderId ? advanceOrder(o, next) : o));
+    const hub = myProfilesRef.current.find(p => p.id === order.profileId);
+    if (next === OrderStatus.CANCELLED && hub) {
+      // Reserved units go back on sale
+      setHubMenu(hub.id, releaseStock(hub.menu, order.items));
+    }
+    addLog('Spatial', `Order ${orderId.slice(-4).toUpperCase()} at ${order.shopName}: ${orderStatusName(next)}.`, next === OrderStatus.CANCELLED ? 'failed' : 'resolved');
+    if (isLiveGridEnabled() && remoteVendors.some(v => v.profile.id === order.profileId)) {
+      sendOrQueue({ kind: 'orderStatus', profileId: order.profileId, orderId, status: next }).then(sent => {
+        if (!sent) addLog('Healing', `Offline. Order ${orderId.slice(-4).toUpperCase()} will show as ${orderStatusName(next)} on other devices once the connection returns.`, 'processing');
+      });
+    }
   };
 
+  const placedOrder = orders.find(o => o.id === placedOrderId);
+  const profileOrders = activeProfileId ? orders.filter(o => o.profileId === activeProfileId) : [];
+  const queuedOrders = profileOrders.filter(isOrderActive).sort((a, b) => a.placedAt - b.placedAt);
+  const pastOrders = profileOrders.filter(o => !isOrderActive(o));
+  const activeShopOrders = activeShop ? orders.filter(o => o.profileId === profileIdForShop(activeShop) && isOrderActive(o)) : [];
+
   return (
     <div className="flex h-screen w-screen bg-[#020202] text-slate-300 font-mono overflow-hidden selection:bg-indigo-500/30">
       <style>{`
@@ -1492,7 +2532,7 @@ const handleShopSelect = async (shop: Shop) => {
               <button 
                 onClick={() => { setUserMode('explorer'); setExplorerTab('impact'); }}
                 className={`relative w-10 h-10 flex items-center justify-center rounded-xl transition-all duration-500 overflow-hidden group shadow-[0_0_15px_rgba(99,102,241,0.2)] ${userMode === 'explorer' && explorerTab === 'impact' ? 'bg-indigo-600 text-white shadow-indigo-600/40 scale-110' : 'bg-white/5 text-white/40 hover:bg-white/10 hover:text-white'}`}
-                title="Mission Impact"
+                title={t('nav.missionImpact')}
               >
                 <div className="absolute inset-0 bg-gradient-to-tr from-indigo-500/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"></div>
                 <span className="text-lg relative z-10 group-hover:animate-spin-slow">🌍</span>
@@ -1502,9 +2542,22 @@ const handleShopSelect = async (shop: Shop) => {
               </button>
             </div>
             <div className="flex gap-2">
-              <button onClick={fetchFlavorHistory} className={`px-4 py-1.5 rounded-lg text-[9px] font-black transition-all ${userMode === 'history' ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/20' : 'bg-white/5 text-white/40 hover:bg-white/10'}`}>Flavor Genealogy</button>
+              <select value={locale} onChange={e => setLocale(e.target.value as Locale)} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[9px] font-black text-white/60 outline-none">
+                {(Object.keys(LOCALES) as Locale[]).map(code => <option key={code} value={code}>{LOCALES[code].nativeName}</option>)}
+              </select>
+              <button onClick={fetchFlavorHistory} className={`px-4 py-1.5 rounded-lg text-[9px] font-black transition-all ${userMode === 'history' ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/20' : 'bg-white/5 text-white/40 hover:bg-white/10'}`}>{t('nav.flavorGenealogy')}</button>
             </div>
           </div>
+          {(isOffline || queuedCount > 0) && (
+            <div className={`mb-6 px-4 py-2 rounded-xl border flex justify-between items-center text-[8px] font-black uppercase tracking-widest ${isOffline ? 'bg-amber-600/10 border-amber-500/30 text-amber-400' : 'bg-indigo-600/10 border-indigo-500/30 text-indigo-300'}`}>
+              <span>{isOffline ? t('offline.cachedGrid') : t('offline.online')}</span>
+              {queuedCount > 0 && (
+                <button onClick={() => syncQueueRef.current()} disabled={isOffline} className="disabled:opacity-60">
+                  {t('offline.queued', { count: queuedCount })}{isOffline ? '' : ` · ${t('offline.syncNow')}`}
+                </button>
+              )}
+            </div>
+          )}
 
           <div className="relative flex bg-[#1a1a1a] p-1 rounded-[1.25rem] mb-6 border border-white/5 shadow-inner overflow-hidden group">
             <div 
@@ -1514,13 +2567,13 @@ const handleShopSelect = async (shop: Shop) => {
               onClick={() => setUserMode('explorer')} 
               className={`relative z-10 flex-1 py-2.5 rounded-lg text-[10px] font-black transition-all uppercase tracking-[0.2em] ${userMode === 'explorer' || userMode === 'history' ? 'text-white' : 'text-white/30 hover:text-white/50'}`}
             >
-              Explorer
+              {t('nav.explorer')}
             </button>
             <button 
               onClick={() => setUserMode('vendor')} 
               className={`relative z-10 flex-1 py-2.5 rounded-lg text-[10px] font-black transition-all uppercase tracking-[0.2em] ${userMode === 'vendor' ? 'text-white' : 'text-white/30 hover:text-white/50'}`}
             >
-              Hub
+              {t('nav.hub')}
             </button>
           </div>
           
@@ -1528,10 +2581,10 @@ const handleShopSelect = async (shop: Shop) => {
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-2">
                 <button onClick={startDiscovery} disabled={isMining} className="py-4 bg-indigo-600/10 hover:bg-indigo-600 text-indigo-400 hover:text-white border border-indigo-500/20 text-[9px] font-black uppercase rounded-xl transition-all active:scale-[0.98] shadow-lg">
-                  {isMining ? <SetupAnimation /> : 'Run Food Scrape'}
+                  {isMining ? <SetupAnimation t={t} /> : t('nav.runScrape')}
                 </button>
                 <button onClick={() => { setExplorerTab('live_vendors'); }} className={`py-4 bg-emerald-600/10 hover:bg-emerald-600 text-emerald-500 hover:text-white border border-emerald-500/20 text-[9px] font-black uppercase rounded-xl transition-all active:scale-[0.98] ${explorerTab === 'live_vendors' ? 'bg-emerald-600 text-white border-emerald-600 shadow-lg shadow-emerald-600/20' : ''}`}>
-                   Live Signals ({liveVendors.length})
+                   {t('nav.liveSignals', { count: liveVendors.length })}
                 </button>
               </div>
               
@@ -1540,19 +2593,19 @@ const handleShopSelect = async (shop: Shop) => {
                   onClick={() => { setUserMode('explorer'); setExplorerTab('logs'); }} 
                   className={`flex-1 py-2 text-[8px] font-black uppercase rounded-lg transition-all duration-300 ${userMode === 'explorer' && explorerTab === 'logs' ? 'bg-white/10 text-white shadow-[0_0_10px_rgba(255, 255, 255, 0.05)]' : 'text-white/20 hover:text-white/40'}`}
                 >
-                  Intel
+                  {t('nav.intel')}
                 </button>
                 <button 
                   onClick={() => { setUserMode('explorer'); setExplorerTab('discovery'); }} 
                   className={`flex-1 py-2 text-[8px] font-black uppercase rounded-lg transition-all duration-300 ${userMode === 'explorer' && explorerTab === 'discovery' ? 'bg-white/10 text-white shadow-[0_0_10px_rgba(255, 255, 255, 0.05)]' : 'text-white/20 hover:text-white/40'}`}
                 >
-                  Legends
+                  {t('nav.legends')}
                 </button>
                 <button 
                   onClick={() => { setUserMode('explorer'); setExplorerTab('lens'); }} 
                   className={`flex-1 py-2 text-[8px] font-black uppercase rounded-lg transition-all duration-300 ${userMode === 'explorer' && explorerTab === 'lens' ? 'bg-white/10 text-white' : 'text-white/20 hover:text-white/40'}`}
                 >
-                  Lens
+                  {t('nav.lens')}
                 </button>
               </div>
             </div>
@@ -1564,37 +2617,51 @@ const handleShopSelect = async (shop: Shop) => {
                     <span className="text-3xl bg-white/5 p-3 rounded-2xl border border-white/5 shadow-inner">{activeProfile?.emoji}</span>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-black text-white uppercase truncate tracking-tight">{activeProfile?.name}</p>
-                      <p className="text-[8px] text-emerald-400 font-black uppercase tracking-widest">{activeProfile?.cuisine} Expertise</p>
+                      <p className="text-[8px] text-emerald-400 font-black uppercase tracking-widest">{t('hub.expertise', { cuisine: activeProfile?.cuisine || '' })}</p>
                     </div>
                     <button onClick={() => setActiveProfileId(null)} className="text-[10px] text-white/20 hover:text-white transition-colors p-2">✕</button>
                   </div>
                   <div className="grid grid-cols-1 gap-3 relative z-10">
                     <button onClick={handleToggleSignal} className={`py-4 text-[10px] font-black rounded-2xl transition-all active:scale-[0.98] shadow-lg flex items-center justify-center gap-2 ${isCurrentlyLive ? 'bg-rose-600 text-white shadow-rose-600/30' : 'bg-emerald-600 text-white shadow-emerald-600/30'}`}>
-                      {isCurrentlyLive ? 'DEACTIVATE LIVE SIGNAL' : 'ACTIVATE LIVE SIGNAL'}
+                      {isCurrentlyLive ? t('hub.deactivateSignal') : t('hub.activateSignal')}
                     </button>
                     <div className="space-y-1.5">
                        <div className="text-[8px] text-indigo-300 font-black uppercase tracking-[0.2em] px-1 text-center">
-                         Fix: {location.lat.toFixed(6)} N, {location.lng.toFixed(6)} E
+                         {t('hub.fix', { lat: location.lat.toFixed(6), lng: location.lng.toFixed(6) })}
                        </div>
                        <div className="flex gap-2">
                          <button onClick={() => syncGPS()} disabled={isUpdatingGPS} className="flex-1 py-3 bg-white/5 hover:bg-white/10 text-white text-[9px] font-black uppercase rounded-2xl border border-white/5 transition-all">
-                           {isUpdatingGPS ? '...' : '🛰️ Sync GPS'}
+                           {isUpdatingGPS ? '...' : t('hub.syncGps')}
                          </button>
-                         <button onClick={() => activeProfile && startEditHub(activeProfile)} className="flex-1 py-3 bg-white/5 hover:bg-white/10 text-white text-[9px] font-black uppercase rounded-2xl border border-white/5 transition-all">Edit Node</button>
+                         <button onClick={toggleTracking} disabled={!isCurrentlyLive && !trackingProfile} title={isCurrentlyLive ? t('hub.trackHint') : t('hub.trackDisabledHint')} className={`flex-1 py-3 text-[9px] font-black uppercase rounded-2xl border transition-all disabled:opacity-30 ${trackingProfile ? 'bg-emerald-600 text-white border-emerald-500' : 'bg-white/5 hover:bg-white/10 text-white border-white/5'}`}>
+                           {trackingProfile ? t('hub.tracking', { name: trackingProfile }) : t('hub.track')}
+                         </button>
+                         <button onClick={() => activeProfile && startEditHub(activeProfile)} className="flex-1 py-3 bg-white/5 hover:bg-white/10 text-white text-[9px] font-black uppercase rounded-2xl border border-white/5 transition-all">{t('hub.editNode')}</button>
                        </div>
                     </div>
+                    {activeProfile && (lowStockItems(activeProfile.menu).length > 0 || activeProfile.menu.some(m => m.isSoldOut)) && (
+                      <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-2xl space-y-1">
+                        <p className="text-[8px] font-black text-amber-400 uppercase tracking-[0.2em]">{t('hub.stockWatch')}</p>
+                        {lowStockItems(activeProfile.menu).map(m => (
+                          <p key={m.name} className="text-[9px] text-amber-200/80 font-bold uppercase">{t('hub.unitsLeft', { name: m.name, count: m.stock ?? 0 })}</p>
+                        ))}
+                        {activeProfile.menu.filter(m => m.isSoldOut).map(m => (
+                          <p key={m.name} className="text-[9px] text-rose-400 font-bold uppercase">{t('hub.soldOut', { name: m.name })}</p>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               ) : (
                 <button onClick={() => { 
-                  setRegForm({ name: '', cuisine: '', emoji: '🥘', description: '', startHour: 9, endHour: 22, menu: [] as MenuItem[], youtubeLink: '', manualDMS: '', hygieneScore: 85 });
+                  setRegForm(emptyRegForm());
                   setIsEditing(false); 
                   setIsRegistering(true); 
                 }} className="w-full py-12 border border-dashed border-white/10 hover:border-indigo-500/40 hover:bg-indigo-500/5 text-indigo-400/60 hover:text-indigo-400 text-[10px] font-black uppercase rounded-[3rem] transition-all group overflow-hidden relative shadow-inner">
                   <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"></div>
                   <span className="flex flex-col items-center gap-3 relative z-10">
                     <span className="text-4xl opacity-40 group-hover:opacity-100 transition-all duration-700">🏬</span>
-                    <span className="tracking-[0.3em]">Initialize Partner Node</span>
+                    <span className="tracking-[0.3em]">{t('hub.initialize')}</span>
                   </span>
                 </button>
               )}
@@ -1607,13 +2674,13 @@ const handleShopSelect = async (shop: Shop) => {
             <div className="space-y-8 animate-in fade-in duration-700 pb-20">
               <div className="flex flex-col gap-4">
                 <div className="flex justify-between items-center px-1">
-                  <span className="text-[11px] font-black text-amber-400 uppercase tracking-[0.3em]">Cross-Temporal Synthesis</span>
+                  <span className="text-[11px] font-black text-amber-400 uppercase tracking-[0.3em]">{t('history.title')}</span>
                 </div>
                 <button 
                   onClick={() => historyFileInputRef.current?.click()}
                   className="w-full py-4 bg-amber-600/20 text-amber-400 border border-amber-500/30 text-[10px] font-black uppercase rounded-2xl shadow-lg hover:bg-amber-600 hover:text-white transition-all flex items-center justify-center gap-3"
                 >
-                  📷 Trace Visual Genealogy
+                  {t('history.trace')}
                 </button>
                 <input 
                   type="file" 
@@ -1627,7 +2694,7 @@ const handleShopSelect = async (shop: Shop) => {
               {isHistoryMining ? (
                 <div className="py-20 flex flex-col items-center justify-center space-y-6">
                   <div className="text-5xl animate-bounce">🕰️</div>
-                  <p className="text-[11px] font-black text-amber-400 uppercase tracking-[0.5em] text-center animate-pulse">REASONING OVER HISTORICAL TOKENS...</p>
+                  <p className="text-[11px] font-black text-amber-400 uppercase tracking-[0.5em] text-center animate-pulse">{t('history.reasoning')}</p>
                 </div>
               ) : (
                 <>
@@ -1642,29 +2709,29 @@ const handleShopSelect = async (shop: Shop) => {
                         <div className="flex justify-between items-start">
                           <div className="space-y-1">
                             <h3 className="text-xl font-black text-white uppercase tracking-tighter">{imageFlavorAnalysis.name}</h3>
-                            <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">Authenticity Grid: {imageFlavorAnalysis.authenticity_score}</p>
+                            <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">{t('history.authenticity', { score: imageFlavorAnalysis.authenticity_score })}</p>
                           </div>
                         </div>
                         <p className="text-[12px] font-black text-white leading-relaxed italic border-l-2 border-amber-500/40 pl-4 py-1">"{imageFlavorAnalysis.narrative}"</p>
                         
                         <div className="grid grid-cols-3 gap-3 pt-2">
                            <div className="p-3 bg-black/40 border border-amber-500/20 rounded-2xl text-center">
-                              <p className="text-[8px] font-black text-amber-400 uppercase tracking-widest mb-1">Protein</p>
+                              <p className="text-[8px] font-black text-amber-400 uppercase tracking-widest mb-1">{t('history.protein')}</p>
                               <p className="text-[11px] font-bold text-white">{imageFlavorAnalysis.protein}</p>
                            </div>
                            <div className="p-3 bg-black/40 border border-amber-500/20 rounded-2xl text-center">
-                              <p className="text-[8px] font-black text-amber-400 uppercase tracking-widest mb-1">Energy</p>
+                              <p className="text-[8px] font-black text-amber-400 uppercase tracking-widest mb-1">{t('history.energy')}</p>
                               <p className="text-[11px] font-bold text-white">{imageFlavorAnalysis.calories}</p>
                            </div>
                            <div className="p-3 bg-black/40 border border-amber-500/20 rounded-2xl text-center">
-                              <p className="text-[8px] font-black text-amber-400 uppercase tracking-widest mb-1">Carbs</p>
+                              <p className="text-[8px] font-black text-amber-400 uppercase tracking-widest mb-1">{t('history.carbs')}</p>
                               <p className="text-[11px] font-bold text-white">{imageFlavorAnalysis.carbs}</p>
                            </div>
                         </div>
 
                         {imageFlavorAnalysis.recommended_shops && imageFlavorAnalysis.recommended_shops.length > 0 && (
                           <div className="space-y-2 mt-4 pt-4 border-t border-amber-500/20">
-                            <p className="text-[9px] font-black text-amber-400 uppercase tracking-[0.3em]">Grid Recommendations</p>
+                            <p className="text-[9px] font-black text-amber-400 uppercase tracking-[0.3em]">{t('history.recommendations')}</p>
                             <div className="flex flex-col gap-2">
                               {imageFlavorAnalysis.recommended_shops.map((shopName, idx) => (
                                 <div key={idx} className="flex items-center gap-3 p-3 bg-black/40 rounded-xl border border-white/5 transition-all hover:bg-white/5 group cursor-default">
@@ -1675,7 +2742,7 @@ const handleShopSelect = async (shop: Shop) => {
                             </div>
                           </div>
                         )}
-                        <p className="text-[9px] text-amber-300 font-bold italic mt-2 animate-pulse">* Nutritional data is an AI estimate for educational purposes</p>
+                        <p className="text-[9px] text-amber-300 font-bold italic mt-2 animate-pulse">{t('history.nutritionNote')}</p>
                         <div className="flex flex-wrap gap-2 pt-2">
                           {imageFlavorAnalysis.history_tags.map((tag, i) => (
                             <span key={i} className="text-[8px] px-3 py-1.5 bg-amber-500/10 text-amber-300 font-black uppercase rounded-xl border border-amber-500/20">#{tag}</span>
@@ -1688,7 +2755,7 @@ const handleShopSelect = async (shop: Shop) => {
                   {flavorHistory && !imageFlavorAnalysis && (
                     <div className="space-y-12 pb-20 animate-in fade-in duration-700">
                       <div className="p-6 bg-amber-950/40 border border-amber-500/40 rounded-3xl relative overflow-hidden group shadow-2xl">
-                        <h3 className="text-xl font-black text-white uppercase tracking-tighter mb-3">{flavorHistory.neighborhood} Evolution</h3>
+                        <h3 className="text-xl font-black text-white uppercase tracking-tighter mb-3">{t('history.evolution', { neighborhood: flavorHistory.neighborhood })}</h3>
                         <p className="text-[12px] font-black text-white leading-relaxed italic border-l-2 border-amber-500/40 pl-4 py-1">"{flavorHistory.summary}"</p>
                       </div>
                       <div className="relative pl-10 space-y-12">
@@ -1702,7 +2769,7 @@ const handleShopSelect = async (shop: Shop) => {
                               <p className="text-[11px] font-black text-slate-100 leading-relaxed bg-white/5 p-4 rounded-2xl border border-white/10">{era.description}</p>
                               <div className="bg-amber-950/20 p-5 rounded-3xl border border-amber-500/20 space-y-5">
                                 <div className="space-y-3">
-                                  <p className="text-[9px] font-black text-amber-300 uppercase tracking-widest">Notable Staples</p>
+                                  <p className="text-[9px] font-black text-amber-300 uppercase tracking-widest">{t('history.staples')}</p>
                                   <div className="flex flex-wrap gap-2.5">
                                     {era.popularItems.map((item, j) => (
                                       <span key={j} className="text-[9px] px-3 py-1.5 rounded-xl bg-amber-400 text-black font-black uppercase">
@@ -1730,30 +2797,30 @@ const handleShopSelect = async (shop: Shop) => {
                       <div className="p-6 bg-indigo-950/20 border border-indigo-500/20 rounded-[2rem] space-y-4">
                          <div className="flex items-center gap-3">
                             <span className="text-2xl">🌍</span>
-                            <h3 className="text-[14px] font-black text-white uppercase tracking-tighter">Mission: Street Visibility</h3>
+                            <h3 className="text-[14px] font-black text-white uppercase tracking-tighter">{t('impact.title')}</h3>
                          </div>
                          <p className="text-[11px] font-bold text-slate-400 leading-relaxed">
-                           In Tamil Nadu, street vendors are the backbone of the urban grid. However, a massive digital divide exists.
+                           {t('impact.intro')}
                          </p>
                          <div className="grid grid-cols-2 gap-3 pt-2">
                            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl space-y-1">
                              <p className="text-[18px] font-black text-rose-500 leading-none">300K</p>
-                             <p className="text-[7px] font-black uppercase text-rose-400/60 tracking-widest">Govt Identified</p>
+                             <p className="text-[7px] font-black uppercase text-rose-400/60 tracking-widest">{t('impact.identified')}</p>
                            </div>
                            <div className="p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-2xl space-y-1">
                              <p className="text-[18px] font-black text-emerald-500 leading-none">500K+</p>
-                             <p className="text-[7px] font-black uppercase text-emerald-400/60 tracking-widest">Estimated Total</p>
+                             <p className="text-[7px] font-black uppercase text-emerald-400/60 tracking-widest">{t('impact.estimated')}</p>
                            </div>
                          </div>
                       </div>
 
                       <div className="space-y-4">
-                        <h4 className="text-[9px] font-black text-indigo-400 uppercase tracking-[0.4em] px-2">The Solution: EyAI</h4>
+                        <h4 className="text-[9px] font-black text-indigo-400 uppercase tracking-[0.4em] px-2">{t('impact.solution')}</h4>
                         <div className="space-y-3">
                           {[
-                            { icon: '📡', title: 'Live Grid Sync', desc: 'Allowing half a million vendors to broadcast their location.' },
-                            { icon: '🧠', title: 'Spatial Reasoning', desc: 'Gemini-powered wait time and footfall predictions.' },
-                            { icon: '📜', title: 'Flavor Genealogy', desc: 'Tracing the cultural migration of street food icons.' }
+                            { icon: '📡', title: t('impact.liveGrid'), desc: t('impact.liveGridDesc') },
+                            { icon: '🧠', title: t('impact.reasoning'), desc: t('impact.reasoningDesc') },
+                            { icon: '📜', title: t('impact.genealogy'), desc: t('impact.genealogyDesc') }
                           ].map((item, i) => (
                             <div key={i} className="p-4 bg-white/5 border border-white/5 rounded-2xl flex gap-4 items-start">
                               <span className="text-xl bg-white/5 p-2 rounded-xl">{item.icon}</span>
@@ -1767,14 +2834,14 @@ const handleShopSelect = async (shop: Shop) => {
                       </div>
 
                       <div className="p-6 bg-gradient-to-br from-indigo-600/20 to-transparent border border-indigo-500/30 rounded-[2.5rem] text-center space-y-2 shadow-2xl">
-                         <p className="text-[8px] font-black text-indigo-300 uppercase tracking-widest">Target Objective</p>
-                         <p className="text-[14px] font-black text-white uppercase tracking-tighter italic">"Syncing 500,000 Micro-Economies"</p>
+                         <p className="text-[8px] font-black text-indigo-300 uppercase tracking-widest">{t('impact.objective')}</p>
+                         <p className="text-[14px] font-black text-white uppercase tracking-tighter italic">{t('impact.objectiveQuote', { count: 500000 })}</p>
                       </div>
                     </div>
                   ) : explorerTab === 'logs' ? (
                     <div className="space-y-4">
                       <button onClick={runVerificationSuite} disabled={isVerifying} className="w-full py-4 mb-4 bg-indigo-600/20 hover:bg-indigo-600 text-indigo-400 hover:text-white border border-indigo-500/20 rounded-xl text-[10px] font-black uppercase transition-all shadow-lg flex items-center justify-center gap-3">
-                        {isVerifying ? "Running Coordination Loop..." : "🚀 Run Autonomous Verification"}
+                        {isVerifying ? t('logs.verifying') : t('logs.runVerification')}
                       </button>
                       
                       <AgentCoordinationScene activeAgent={activeAgentName} />
@@ -1791,30 +2858,237 @@ const handleShopSelect = async (shop: Shop) => {
                       {isMining ? (
                         <div className="py-20 flex flex-col items-center justify-center space-y-8 animate-in fade-in duration-500">
                           <div className="relative text-6xl animate-bounce drop-shadow-[0_0_20px_rgba(255,255,255,0.3)]">🛰️</div>
-                          <p className="text-[11px] font-black text-indigo-400 uppercase tracking-[0.5em] animate-pulse">CALIBRATING SPATIAL GRID...</p>
+                          <p className="text-[11px] font-black text-indigo-400 uppercase tracking-[0.5em] animate-pulse">{t('discovery.calibrating')}</p>
                         </div>
                       ) : (
                         <>
                           <div className="flex bg-[#0a0a0a] p-1.5 rounded-2xl border border-white/5 shadow-inner">
-                            <button onClick={() => setDiscoverySubTab('nodes')} className={`flex-1 py-3 text-[9px] font-black uppercase rounded-xl transition-all ${discoverySubTab === 'nodes' ? 'bg-indigo-600 text-white' : 'text-white/30'}`}>Nodes</button>
-                            <button onClick={() => { setDiscoverySubTab('intelligence'); if (!analytics) computeAnalytics(); }} className={`flex-1 py-3 text-[9px] font-black uppercase rounded-xl transition-all ${discoverySubTab === 'intelligence' ? 'bg-indigo-600 text-white' : 'text-white/30'}`}>Intelligence</button>
+                            <button onClick={() => setDiscoverySubTab('nodes')} className={`flex-1 py-3 text-[9px] font-black uppercase rounded-xl transition-all ${discoverySubTab === 'nodes' ? 'bg-indigo-600 text-white' : 'text-white/30'}`}>{t('discovery.nodes')}</button>
+                            <button onClick={() => { setDiscoverySubTab('intelligence'); if (!analytics) computeAnalytics(); }} className={`flex-1 py-3 text-[9px] font-black uppercase rounded-xl transition-all ${discoverySubTab === 'intelligence' ? 'bg-indigo-600 text-white' : 'text-white/30'}`}>{t('discovery.intelligence')}</button>
+                            <button onClick={() => setDiscoverySubTab('sectors')} className={`flex-1 py-3 text-[9px] font-black uppercase rounded-xl transition-all ${discoverySubTab === 'sectors' ? 'bg-indigo-600 text-white' : 'text-white/30'}`}>{t('discovery.sectors')}</button>
                           </div>
+                          {discoverySubTab === 'sectors' && (
+                            <div className="space-y-6 pt-4 pb-20 animate-in fade-in duration-700">
+                              <div className="p-4 bg-white/5 border border-white/5 rounded-[2rem] space-y-3">
+                                <p className="text-[8px] font-black text-indigo-400 uppercase tracking-[0.3em] px-1">{t('sectors.draw')}</p>
+                                <div className="grid grid-cols-2 gap-2">
+                                  {(['circle', 'polygon'] as SectorDrawMode[]).map(mode => (
+                                    <button key={mode} onClick={() => { setSectorDrawMode(sectorDrawMode === mode ? null : mode); setPendingSectorShape(null); }} className={`py-2.5 rounded-xl text-[9px] font-black uppercase border transition-all ${sectorDrawMode === mode ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/50 hover:text-white'}`}>{t(`sectors.${mode}`)}</button>
+                                  ))}
+                                </div>
+                                {sectorDrawMode && <p className="text-[9px] text-white/40 px-1">{t(sectorDrawMode === 'circle' ? 'sectors.circleHint' : 'sectors.polygonHint')}</p>}
+                                {pendingSectorShape && (
+                                  <div className="space-y-2 animate-in fade-in duration-300">
+                                    <input value={sectorName} onChange={e => setSectorName(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveSector()} placeholder={t('sectors.namePlaceholder')} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 text-[11px] text-white outline-none focus:border-indigo-500" autoFocus />
+                                    <div className="grid grid-cols-2 gap-2">
+                                      <button onClick={() => { setPendingSectorShape(null); setSectorName(''); }} className="py-2 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black uppercase text-white/40">{t('sectors.discard')}</button>
+                                      <button onClick={saveSector} className="py-2 rounded-xl bg-indigo-600 text-[9px] font-black uppercase text-white">{t('sectors.save')}</button>
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+
+                              {sectors.length === 0 ? (
+                                <p className="text-[9px] text-white/30 text-center px-4">{t('sectors.empty')}</p>
+                              ) : (
+                                <div className="space-y-3">
+                                  {sectors.map(sector => {
+                                    const slot = compareSectorIds.indexOf(sector.id);
+                                    const { swatch } = sectorColor(sector);
+                                    return (
+                                      <div key={sector.id} className="p-4 bg-white/5 border border-white/5 rounded-2xl space-y-2">
+                                        <div className="flex items-center gap-3">
+                                          <span className="w-3 h-3 shrink-0 rounded-full" style={{ background: swatch }} />
+                                          <div className="flex-1 min-w-0">
+                                            <p className="text-[11px] font-black text-white uppercase truncate">{sector.name}</p>
+                                            <p className="text-[8px] text-white/40 uppercase tracking-widest">
+                                              {sector.shape.kind === 'circle'
+                                                ? t('sectors.radius', { distance: sector.shape.radiusMeters >= 1000 ? `${(sector.shape.radiusMeters / 1000).toFixed(1)} km` : `${sector.shape.radiusMeters} m` })
+                                                : t('sectors.outline', { count: sector.shape.points.length })}
+                                              {' · '}{t('sectors.nodes', { count: shopsInSector(gridShops, sector).length })}
+                                            </p>
+                                          </div>
+                                          <button onClick={() => toggleCompareSector(sector.id)} className={`w-8 h-8 shrink-0 rounded-xl text-[10px] font-black border transition-all ${slot !== -1 ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/30'}`}>{slot === -1 ? '+' : 'AB'[slot]}</button>
+                                          <button onClick={() => deleteSector(sector.id)} className="w-8 h-8 shrink-0 rounded-xl bg-white/5 border border-white/10 text-[10px] text-white/30 hover:text-rose-400 transition-colors">✕</button>
+                                        </div>
+                                        {sector.analytics && (
+                                          <p className="text-[9px] text-slate-300 italic leading-relaxed">"{sector.analytics.sectorSummary}"</p>
+                                        )}
+                                        <div className="flex justify-between items-center">
+                                          <span className="text-[7px] text-white/20 uppercase tracking-widest">{sector.analyzedAt ? t('sectors.analyzedAt', { time: new Date(sector.analyzedAt).toLocaleString(speechCode, { dateStyle: 'short', timeStyle: 'short' }) }) : ''}</span>
+                                          <button onClick={() => analyzeSector(sector.id)} disabled={analyzingSectorId !== null} className="px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/20 text-[8px] font-black uppercase text-white/70 transition-all disabled:opacity-40">
+                                            {analyzingSectorId === sector.id ? t('sectors.analyzing') : sector.analytics ? t('sectors.reanalyze') : t('sectors.analyze')}
+                                          </button>
+                                        </div>
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+                              )}
+
+                              {sectors.length >= 2 && !sectorComparison && (
+                                <p className="text-[9px] text-white/30 text-center px-4">{t('sectors.pickTwo')}</p>
+                              )}
+                              {sectorComparison && (() => {
+                                const { a, b } = sectorComparison;
+                                const colorA = sectorColor(a.sector).swatch;
+                                const colorB = sectorColor(b.sector).swatch;
+                                const metricRows: { label: string; a: number | null; b: number | null; max: number }[] = [
+                                  { label: t('discovery.nodes'), a: a.nodeCount, b: b.nodeCount, max: Math.max(a.nodeCount, b.nodeCount, 1) },
+                                  { label: t('sectors.avgSafety'), a: a.avgSafety, b: b.avgSafety, max: 100 },
+                                  { label: t('sectors.avgLogistics'), a: a.avgLogistics, b: b.avgLogistics, max: 100 }
+                                ];
+                                return (
+                                  <div className="p-5 bg-indigo-950/40 border border-indigo-500/30 rounded-[2.5rem] space-y-6 animate-in fade-in duration-500">
+                                    <div className="space-y-2">
+                                      <p className="text-[9px] font-black text-indigo-400 uppercase tracking-widest">{t('sectors.comparison')}</p>
+                                      <div className="flex justify-between text-[11px] font-black uppercase">
+                                        <span style={{ color: colorA }}>A · {a.sector.name}</span>
+                                        <span style={{ color: colorB }}>B · {b.sector.name}</span>
+                                      </div>
+                                    </div>
+                                    <div className="space-y-3">
+                                      {metricRows.map(row => (
+                                        <div key={row.label} className="space-y-1">
+                                          <div className="flex justify-between text-[8px] font-black uppercase tracking-widest">
+                                            <span style={{ color: colorA }}>{row.a ?? t('sectors.noData')}</span>
+                                            <span className="text-white/40">{row.label}</span>
+                                            <span style={{ color: colorB }}>{row.b ?? t('sectors.noData')}</span>
+                                          </div>
+                                          <div className="flex gap-1 h-1.5">
+                                            <div className="flex-1 bg-white/5 rounded-full overflow-hidden flex justify-end"><div className="h-full rounded-full" style={{ width: `${((row.a ?? 0) / row.max) * 100}%`, background: colorA }} /></div>
+                                            <div className="flex-1 bg-white/5 rounded-full overflow-hidden"><div className="h-full rounded-full" style={{ width: `${((row.b ?? 0) / row.max) * 100}%`, background: colorB }} /></div>
+                                          </div>
+                                        </div>
+                                      ))}
+                                    </div>
+                                    <div className="space-y-3">
+                                      <p className="text-[8px] font-black text-white/60 uppercase tracking-[0.3em]">{t('sectors.cuisineMix')}</p>
+                                      {sectorComparison.cuisineMix.map(row => (
+                                        <div key={row.label} className="space-y-1">
+                                          <div className="flex justify-between text-[8px] font-black uppercase">
+                                            <span style={{ color: colorA }}>{row.a}%</span>
+                                            <span className="text-white/70 truncate px-2">{row.label}</span>
+                                            <span style={{ color: colorB }}>{row.b}%</span>
+                                          </div>
+                                          <div className="flex gap-1 h-1.5">
+                                            <div className="flex-1 bg-white/5 rounded-full overflow-hidden flex justify-end"><div className="h-full rounded-full" style={{ width: `${row.a}%`, background: colorA }} /></div>
+                                            <div className="flex-1 bg-white/5 rounded-full overflow-hidden"><div className="h-full rounded-full" style={{ width: `${row.b}%`, background: colorB }} /></div>
+                                          </div>
+                                        </div>
+                                      ))}
+                                    </div>
+                                    <div className="space-y-2">
+                                      <p className="text-[8px] font-black text-white/60 uppercase tracking-[0.3em]">{t('sectors.footfall')}</p>
+                                      {sectorComparison.footfall.length > 0
+                                        ? <SectorFootfallChart comparison={sectorComparison} />
+                                        : <p className="text-[9px] text-white/30">{t('sectors.noData')}</p>}
+                                    </div>
+                                    <div className="space-y-2">
+                                      <p className="text-[8px] font-black text-white/60 uppercase tracking-[0.3em]">{t('sectors.legends')}</p>
+                                      <div className="grid grid-cols-2 gap-3">
+                                        {[a, b].map((profile, i) => (
+                                          <div key={profile.sector.id} className="space-y-1.5">
+                                            {profile.legendaryIndex.length === 0 && <p className="text-[9px] text-white/30">{t('sectors.noData')}</p>}
+                                            {profile.legendaryIndex.slice(0, 3).map(l => (
+                                              <div key={l.name} className="flex justify-between gap-2 text-[9px]">
+                                                <span className="text-white/80 truncate">{l.name}</span>
+                                                <span className="font-black" style={{ color: i === 0 ? colorA : colorB }}>{l.score}</span>
+                                              </div>
+                                            ))}
+                                          </div>
+                                        ))}
+                                      </div>
+                                    </div>
+                                  </div>
+                                );
+                              })()}
+
+                              <div className="p-5 bg-white/5 border border-white/5 rounded-[2.5rem] space-y-5">
+                                <div className="flex justify-between items-center">
+                                  <p className="text-[9px] font-black text-indigo-400 uppercase tracking-widest">{t('trends.title')}</p>
+                                  <span className="text-[8px] text-white/30 uppercase tracking-widest">{t('trends.snapshots', { count: trendSnapshots.length })}</span>
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                  {[null, ...sectors.map(s => s.id)].map(id => (
+                                    <button key={id ?? 'grid'} onClick={() => setTrendSectorId(id)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${trendSectorId === id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}>
+                                      {id === null ? t('trends.wholeGrid') : sectors.find(s => s.id === id)?.name}
+                                    </button>
+                                  ))}
+                                </div>
+                                {trendSnapshots.length === 0 ? (
+                                  <p className="text-[9px] text-white/30 text-center px-4">{t('trends.empty')}</p>
+                                ) : (() => {
+                                  const first = trendSnapshots[0];
+                                  const latest = trendSnapshots[trendSnapshots.length - 1];
+                                  const labels = trendSnapshots.map(s => new Date(s.takenAt).toLocaleDateString(speechCode, { day: 'numeric', month: 'short' }));
+                                  const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+                                  return (
+                                    <div className="space-y-5">
+                                      {trendSnapshots.length === 1 ? (
+                                        <p className="text-[9px] text-white/30 px-1">{t('trends.needMore')}</p>
+                                      ) : (
+                                        <div className="grid grid-cols-2 gap-2">
+                                          {[
+                                            { label: t('trends.liveVendors'), value: latest.liveVendorCount, delta: latest.liveVendorCount - first.liveVendorCount },
+                                            { label: t('trends.nodes'), value: latest.nodeCount, delta: latest.nodeCount - first.nodeCount }
+                                          ].map(stat => (
+                                            <div key={stat.label} className="p-3 bg-black/30 rounded-2xl">
+                                              <p className="text-[7px] text-white/40 uppercase tracking-widest">{stat.label}</p>
+                                              <p className="text-lg font-black text-white">{stat.value} <span className={`text-[10px] ${stat.delta > 0 ? 'text-emerald-400' : stat.delta < 0 ? 'text-rose-400' : 'text-white/30'}`}>{signed(stat.delta)}</span></p>
+                                              <p className="text-[7px] text-white/30 uppercase tracking-widest">{t('trends.since', { date: labels[0] })}</p>
+                                            </div>
+                                          ))}
+                                        </div>
+                                      )}
+                                      <div className="space-y-2">
+                                        <p className="text-[8px] font-black text-white/60 uppercase tracking-[0.3em]">{t('trends.presence')}</p>
+                                        <TrendChart labels={labels} series={[
+                                          { label: t('trends.nodes'), values: trendSnapshots.map(s => s.nodeCount), color: '#818CF8' },
+                                          { label: t('trends.liveVendors'), values: trendSnapshots.map(s => s.liveVendorCount), color: '#34D399' }
+                                        ]} />
+                                      </div>
+                                      <div className="space-y-2">
+                                        <p className="text-[8px] font-black text-white/60 uppercase tracking-[0.3em]">{t('trends.scores')}</p>
+                                        <TrendChart labels={labels} max={100} series={[
+                                          { label: t('sectors.avgSafety'), values: trendSnapshots.map(s => s.avgSafety), color: '#34D399' },
+                                          { label: t('sectors.avgLogistics'), values: trendSnapshots.map(s => s.avgLogistics), color: '#FBBF24' },
+                                          { label: t('trends.legendScore'), values: trendSnapshots.map(s => s.avgLegendScore), color: '#F472B6' }
+                                        ]} />
+                                      </div>
+                                      <div className="space-y-2">
+                                        <p className="text-[8px] font-black text-white/60 uppercase tracking-[0.3em]">{t('trends.cuisines')}</p>
+                                        <TrendChart labels={labels} max={100} series={cuisineTrend(trendSnapshots).map((line, i) => ({ ...line, color: SECTOR_COLORS[i % SECTOR_COLORS.length].swatch }))} />
+                                      </div>
+                                      <p className="text-[9px] text-slate-300 italic leading-relaxed">"{latest.sectorSummary}"</p>
+                                    </div>
+                                  );
+                                })()}
+                                {analyticsHistory.length > 0 && (
+                                  <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={() => exportAnalyticsHistory('csv')} className="py-2 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black uppercase text-white/60 hover:text-white transition-all">{t('trends.exportCsv')}</button>
+                                    <button onClick={() => exportAnalyticsHistory('json')} className="py-2 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black uppercase text-white/60 hover:text-white transition-all">{t('trends.exportJson')}</button>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          )}
                           {discoverySubTab === 'intelligence' && (
                             <div className="space-y-8 animate-in fade-in duration-700">
                               {isAnalyzing ? (
                                 <div className="py-20 flex flex-col items-center justify-center space-y-8">
                                   <div className="text-6xl animate-spin">📊</div>
-                                  <p className="text-[11px] font-black text-indigo-400 uppercase tracking-[0.5em] animate-pulse text-center">GENERATING SPATIAL INSIGHTS...</p>
+                                  <p className="text-[11px] font-black text-indigo-400 uppercase tracking-[0.5em] animate-pulse text-center">{t('analytics.generating')}</p>
                                 </div>
                               ) : analytics ? (
                                 <div className="space-y-10 pb-20">
                                   <div className="p-6 bg-indigo-950/40 border border-indigo-500/40 rounded-[2.5rem] space-y-3 shadow-2xl relative overflow-hidden">
                                     <div className="absolute top-0 right-0 p-4 opacity-10 text-4xl">📈</div>
-                                    <p className="text-[9px] font-black text-indigo-400 uppercase tracking-widest">Sector Synthesis</p>
+                                    <p className="text-[9px] font-black text-indigo-400 uppercase tracking-widest">{t('analytics.sectorSynthesis')}</p>
                                     <p className="text-[11px] font-bold text-slate-100 leading-relaxed italic">"{analytics.sectorSummary}"</p>
                                   </div>
                                   <div className="space-y-4">
-                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">Flavor Variance</p>
+                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">{t('analytics.flavorVariance')}</p>
                                     <div className="grid grid-cols-1 gap-3">
                                       {analytics.cuisineDistribution.map((c, i) => (
                                         <div key={i} className="p-4 bg-white/5 border border-white/5 rounded-2xl space-y-2">
@@ -1830,7 +3104,7 @@ const handleShopSelect = async (shop: Shop) => {
                                     </div>
                                   </div>
                                   <div className="space-y-4">
-                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">Economic Zoning</p>
+                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">{t('analytics.economicZoning')}</p>
                                     <div className="grid grid-cols-1 gap-4">
                                       {analytics.priceSpectrum.map((p, i) => (
                                         <div key={i} className="p-5 bg-white/5 border border-white/5 rounded-[2rem] space-y-3">
@@ -1845,7 +3119,7 @@ const handleShopSelect = async (shop: Shop) => {
                                     </div>
                                   </div>
                                   <div className="space-y-4">
-                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">Legendary Calibration</p>
+                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">{t('analytics.legendary')}</p>
                                     <div className="space-y-4">
                                       {analytics.legendaryIndex.map((l, i) => (
                                         <div key={i} className="p-5 bg-indigo-600/5 border border-indigo-500/20 rounded-[2rem] space-y-2 transition-all hover:bg-indigo-600/10">
@@ -1859,7 +3133,7 @@ const handleShopSelect = async (shop: Shop) => {
                                     </div>
                                   </div>
                                   <div className="space-y-4">
-                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">Grid Demographics</p>
+                                    <p className="text-[10px] font-black text-white uppercase tracking-[0.3em] px-2">{t('analytics.demographics')}</p>
                                     <div className="grid grid-cols-1 gap-3">
                                       {analytics.customerSegmentation.map((s, i) => (
                                         <div key={i} className="p-4 bg-white/5 border border-white/5 rounded-2xl flex items-center gap-4">
@@ -1875,25 +3149,136 @@ const handleShopSelect = async (shop: Shop) => {
                                 </div>
                               ) : (
                                 <div className="py-20 text-center opacity-20">
-                                  <p className="text-[10px] font-black uppercase tracking-widest">No Intelligence Data available in this sector.</p>
-                                  <button onClick={() => computeAnalytics()} className="mt-4 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-[9px] font-black uppercase transition-all">Manual Sync</button>
+                                  <p className="text-[10px] font-black uppercase tracking-widest">{t('analytics.empty')}</p>
+                                  <button onClick={() => computeAnalytics()} className="mt-4 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-[9px] font-black uppercase transition-all">{t('analytics.manualSync')}</button>
                                 </div>
                               )}
                             </div>
                           )}
                           {discoverySubTab === 'nodes' && (
                             <div className="space-y-4 pt-4">
-                              {discoveredShops.map((s, i) => (
+                              <div className="p-4 bg-white/5 border border-white/5 rounded-[2rem] space-y-3">
+                                <div className="flex justify-between items-center px-1">
+                                  <p className="text-[8px] font-black text-indigo-400 uppercase tracking-[0.3em]">{t('exchange.title')}</p>
+                                  <button onClick={() => setImportStrategy(importStrategy === 'keep' ? 'replace' : 'keep')} className="text-[8px] font-black text-white/40 hover:text-white uppercase tracking-widest transition-colors">
+                                    {t('exchange.onConflict', { strategy: importStrategy })}
+                                  </button>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                  <button onClick={() => exportGrid('geojson')} className="py-3 bg-white/5 hover:bg-white/10 text-white text-[8px] font-black uppercase rounded-xl border border-white/5 transition-all">⬇ GeoJSON</button>
+                                  <button onClick={() => exportGrid('csv')} className="py-3 bg-white/5 hover:bg-white/10 text-white text-[8px] font-black uppercase rounded-xl border border-white/5 transition-all">⬇ CSV</button>
+                                  <button onClick={() => gridImportInputRef.current?.click()} className="py-3 bg-indigo-600/20 hover:bg-indigo-600 text-indigo-300 hover:text-white text-[8px] font-black uppercase rounded-xl border border-indigo-500/20 transition-all">{t('exchange.import')}</button>
+                                </div>
+                                <input type="file" ref={gridImportInputRef} onChange={handleGridImport} accept=".geojson,.json,.csv" className="hidden" />
+                              </div>
+                              {crawlStops.length > 0 && (
+                                <div className="p-5 bg-amber-500/5 border border-amber-500/20 rounded-[2rem] space-y-3 animate-in fade-in duration-300">
+                                  <div className="flex justify-between items-center px-1">
+                                    <p className="text-[8px] font-black text-amber-400 uppercase tracking-[0.3em]">{t('crawl.title', { count: crawlStops.length })}</p>
+                                    <button onClick={clearCrawl} className="text-[8px] font-black text-white/40 hover:text-rose-400 uppercase tracking-widest transition-colors">{t('crawl.clear')}</button>
+                                  </div>
+                                  {routePlan ? (
+                                    <div className="space-y-2">
+                                      {routePlan.stops.map((stop, i) => (
+                                        <div key={stop.shop.id} className="flex items-center gap-3">
+                                          <span className="shrink-0 w-6 h-6 rounded-full bg-amber-500 text-black text-[10px] font-black flex items-center justify-center">{i + 1}</span>
+                                          <div className="flex-1 min-w-0">
+                                            <p className="text-[11px] font-black text-white uppercase truncate">{stop.shop.name}</p>
+                                            <p className="text-[8px] font-black text-white/40 uppercase tracking-widest">
+                                              {t('crawl.leg', { minutes: Math.max(1, Math.round(routePlan.legs[i].minutes)), time: stop.arriveAt.toLocaleTimeString(speechCode, { hour: '2-digit', minute: '2-digit' }) })}
+                                              {stop.isOpen === false && <span className="text-rose-400">{t('crawl.closed')}</span>}
+                                              {stop.footfall !== null && stop.footfall >= 80 && <span className="text-amber-400">{t('crawl.peak')}</span>}
+                                            </p>
+                                          </div>
+                                        </div>
+                                      ))}
+                                      <p className="text-[9px] font-black text-amber-300 uppercase tracking-widest pt-1">
+                                        {t('crawl.total', { km: (routePlan.totalMeters / 1000).toFixed(1), minutes: Math.round(routePlan.totalMinutes) })}{isRoutingCrawl ? t('crawl.routing') : ''}
+                                      </p>
+                                      {routePlan.warnings.map((w, i) => (
+                                        <p key={i} className="text-[9px] text-rose-300/80 leading-relaxed">⚠ {w}</p>
+                                      ))}
+                                    </div>
+                                  ) : (
+                                    <div className="flex flex-wrap gap-2">
+                                      {crawlStops.map(stop => (
+                                        <button key={stop.id} onClick={() => toggleCrawlStop(stop)} className="px-3 py-1.5 rounded-xl bg-white/5 border border-white/10 text-[8px] font-black uppercase text-white/60 hover:text-rose-400 transition-colors">{stop.emoji} {stop.name} ✕</button>
+                                      ))}
+                                    </div>
+                                  )}
+                                  <button onClick={planCrawl} disabled={crawlStops.length < 2 || isRoutingCrawl} className="w-full py-3 bg-amber-500/20 hover:bg-amber-500 text-amber-300 hover:text-black text-[9px] font-black uppercase rounded-xl transition-all disabled:opacity-30">
+                                    {routePlan ? t('crawl.replan') : t('crawl.plan')}
+                                  </button>
+                                </div>
+                              )}
+                              <div className="flex justify-between items-center px-2">
+                                <p className="text-[8px] font-black text-white/40 uppercase tracking-[0.3em]">{t('list.count', { shown: filteredGridShops.length, total: gridShops.length })}</p>
+                                <div className="flex gap-2">
+                                  <select value={gridFilters.sortBy} onChange={e => setGridFilters({ ...gridFilters, sortBy: e.target.value as GridSort })} className="bg-white/5 border border-white/10 rounded-xl px-2 py-1.5 text-[8px] font-black uppercase text-white/60 outline-none">
+                                    <option value="distance">{t('sort.distance')}</option>
+                                    <option value="legendary">{t('sort.legendary')}</option>
+                                    <option value="footfall">{t('sort.footfall')}</option>
+                                  </select>
+                                  <button onClick={() => setShowGridFilters(!showGridFilters)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase tracking-widest border transition-all ${activeFilterCount > 0 ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}>
+                                    {activeFilterCount > 0 ? t('filters.titleCount', { count: activeFilterCount }) : t('filters.title')}
+                                  </button>
+                                </div>
+                              </div>
+                              {showGridFilters && (
+                                <div className="p-5 bg-white/5 border border-white/5 rounded-[2rem] space-y-4 animate-in fade-in duration-300">
+                                  <div className="flex flex-wrap gap-2">
+                                    <button onClick={() => setGridFilters({ ...gridFilters, openNow: !gridFilters.openNow })} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${gridFilters.openNow ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{t('filters.openNow')}</button>
+                                    {(Object.keys(ORIGIN_LABELS) as ShopOrigin[]).map(origin => (
+                                      <button key={origin} onClick={() => toggleFilterValue('origins', origin)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${gridFilters.origins.includes(origin) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{t(`origin.${origin}`)}</button>
+                                    ))}
+                                  </div>
+                                  <div className="flex flex-wrap gap-2">
+                                    {(Object.keys(PRICE_BANDS) as PriceBand[]).map(band => (
+                                      <button key={band} onClick={() => toggleFilterValue('priceBands', band)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${gridFilters.priceBands.includes(band) ? 'bg-amber-600 border-amber-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{t(`price.${band}`)}</button>
+                                    ))}
+                                    {cuisinesOf(gridShops).map(cuisine => (
+                                      <button key={cuisine} onClick={() => toggleFilterValue('cuisines', cuisine)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${gridFilters.cuisines.includes(cuisine) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{cuisine}</button>
+                                    ))}
+                                  </div>
+                                  <div className="grid grid-cols-2 gap-4">
+                                    <label className="space-y-1">
+                                      <span className="text-[8px] font-black text-white/40 uppercase tracking-widest">{t('filters.minSafety', { value: gridFilters.minSafety || t('filters.any') })}</span>
+                                      <input type="range" min={0} max={100} step={5} value={gridFilters.minSafety} onChange={e => setGridFilters({ ...gridFilters, minSafety: Number(e.target.value) })} className="w-full accent-indigo-500" />
+                                    </label>
+                                    <label className="space-y-1">
+                                      <span className="text-[8px] font-black text-white/40 uppercase tracking-widest">{t('filters.minWalkability', { value: gridFilters.minWalkability || t('filters.any') })}</span>
+                                      <input type="range" min={0} max={100} step={5} value={gridFilters.minWalkability} onChange={e => setGridFilters({ ...gridFilters, minWalkability: Number(e.target.value) })} className="w-full accent-indigo-500" />
+                                    </label>
+                                  </div>
+                                  <div className="flex justify-between items-center gap-2">
+                                    <select value={gridFilters.maxDistanceKm ?? ''} onChange={e => setGridFilters({ ...gridFilters, maxDistanceKm: e.target.value ? Number(e.target.value) : null })} className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[9px] font-black uppercase text-white outline-none">
+                                      <option value="">{t('filters.anyDistance')}</option>
+                                      {[1, 2, 5, 10].map(km => <option key={km} value={km}>{t('filters.withinKm', { km })}</option>)}
+                                    </select>
+                                    <button onClick={() => setFilterMapNodes(!filterMapNodes)} className="text-[8px] font-black text-white/40 hover:text-white uppercase tracking-widest transition-colors">
+                                      {filterMapNodes ? t('filters.mapFiltered') : t('filters.mapAll')}
+                                    </button>
+                                    <button onClick={() => setGridFilters({ ...DEFAULT_GRID_FILTERS, sortBy: gridFilters.sortBy })} disabled={activeFilterCount === 0} className="text-[8px] font-black text-rose-400 uppercase tracking-widest disabled:opacity-30">{t('filters.reset')}</button>
+                                  </div>
+                                </div>
+                              )}
+                              {filteredGridShops.map(s => {
+                                const rank = gridFilters.sortBy === 'legendary' ? legendaryScoreOf(s, analytics?.legendaryIndex) : gridFilters.sortBy === 'footfall' ? footfallAt(s, now) : null;
+                                return (
                                 <button key={s.id} onClick={() => handleShopSelect(s)} className="w-full p-6 rounded-[2.5rem] bg-indigo-950/10 hover:bg-indigo-600/20 border border-indigo-500/10 text-left transition-all group flex items-center gap-5">
                                   <div className="shrink-0 w-16 h-16 bg-gradient-to-br from-indigo-600/20 to-indigo-900/40 rounded-[1.25rem] flex items-center justify-center text-3xl group-hover:scale-110 transition-transform shadow-2xl">
                                     <span>{s.emoji}</span>
                                   </div>
-                                  <div className="flex-1 min-w-0">
+                                  <div className="flex-1 min-w-0 space-y-1">
                                     <p className="text-[15px] font-black text-white uppercase truncate tracking-tighter">{s.name}</p>
-                                    <p className="text-[10px] text-indigo-400/60 font-black uppercase truncate tracking-[0.2em]">{s.cuisine}</p>
+                                    <p className="text-[10px] text-indigo-400/60 font-black uppercase truncate tracking-[0.2em]">
+                                      {s.cuisine} · {t('list.distanceKm', { km: distanceKm(s, location).toFixed(1) })}{rank !== null ? ` · ${t(gridFilters.sortBy === 'legendary' ? 'list.legend' : 'list.footfall', { score: rank })}` : ''}
+                                    </p>
+                                    <OpenStatusBadge shop={s} now={now} locale={locale} />
                                   </div>
                                 </button>
-                              ))}
+                                );
+                              })}
                             </div>
                           )}
                         </>
@@ -1902,11 +3287,29 @@ const handleShopSelect = async (shop: Shop) => {
                   ) : explorerTab === 'lens' ? (
                     <div className="space-y-6 h-full flex flex-col">
                       <div className="px-2 py-4 bg-white/5 border border-white/5 rounded-2xl flex flex-col gap-1 items-center justify-center text-center">
-                         <p className="text-[8px] font-black text-indigo-400 uppercase tracking-widest">Active Lens Target</p>
+                         <p className="text-[8px] font-black text-indigo-400 uppercase tracking-widest">{t('lens.target')}</p>
                          <h4 className="text-[14px] font-black text-white uppercase tracking-tighter">
-                           {lensTargetName || "Select a Food Node"}
+                           {lensTargetName || t('lens.selectNode')}
                          </h4>
                       </div>
+                      <div className="space-y-1">
+                        <button
+                          onClick={() => lensMediaInputRef.current?.click()}
+                          disabled={isLensAnalyzing}
+                          className="w-full py-3 bg-indigo-600/20 text-indigo-300 border border-indigo-500/30 text-[9px] font-black uppercase rounded-2xl hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-40"
+                        >
+                          {t('lens.upload')}
+                        </button>
+                        <p className="text-[7px] text-white/20 uppercase tracking-widest text-center">{t('lens.uploadHint')}</p>
+                        <input
+                          type="file"
+                          ref={lensMediaInputRef}
+                          onChange={handleLensMediaUpload}
+                          accept="video/*,image/*"
+                          multiple
+                          className="hidden"
+                        />
+                      </div>
                       {isLensAnalyzing ? (
                         <div className="flex-1 flex flex-col items-center justify-center space-y-6 animate-in fade-in duration-500">
                           <div className="relative w-40 h-40 bg-indigo-600/5 rounded-3xl border border-indigo-500/20 overflow-hidden group">
@@ -1916,35 +3319,63 @@ const handleShopSelect = async (shop: Shop) => {
                             </div>
                           </div>
                           <div className="text-center space-y-2">
-                            <p className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.4em] animate-pulse">Analyzing Visual Nodes...</p>
-                            <p className="text-[8px] text-white/20 uppercase tracking-widest">Cross-referencing spatial metadata</p>
+                            <p className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.4em] animate-pulse">{t('lens.analyzing')}</p>
+                            <p className="text-[8px] text-white/20 uppercase tracking-widest">{t('lens.crossReferencing')}</p>
                           </div>
                         </div>
                       ) : lensAnalysis ? (
                         <div className="space-y-8 overflow-y-auto custom-scrollbar pb-10">
                           <div className="space-y-4">
-                            <p className="text-[10px] font-black text-white uppercase tracking-[0.4em] px-2">Spatial Observations</p>
-                            {lensAnalysis.observations.map((obs, i) => (
-                              <div key={i} className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-2 animate-in slide-in-from-left-4 duration-300">
-                                <span className={`text-[7px] font-black px-2 py-0.5 rounded uppercase ${obs.type === 'bottleneck' ? 'bg-rose-500/10 text-rose-500' : 'bg-indigo-500/10 text-indigo-400'}`}>{obs.type}</span>
-                                <h5 className="text-[11px] font-black text-white uppercase leading-relaxed tracking-tight">{obs.detail}</h5>
-                                <p className="text-[9px] text-slate-400 leading-relaxed italic border-l border-indigo-500/30 pl-3">"{obs.causalBottleneck}"</p>
-                              </div>
-                            ))}
+                            <p className="text-[10px] font-black text-white uppercase tracking-[0.4em] px-2">{t('lens.observations')}</p>
+                            {lensAnalysis.observations.map((obs, i) => {
+                              const frame = obs.frameId ? lensAnalysis.extractedFrames.find(f => f.id === obs.frameId) : undefined;
+                              return (
+                                <div key={i} className="p-4 rounded-2xl bg-white/5 border border-white/5 flex gap-4 animate-in slide-in-from-left-4 duration-300">
+                                  {frame?.thumbnail && (
+                                    <div className="relative w-20 h-20 shrink-0 rounded-xl overflow-hidden border border-white/10">
+                                      <img src={frame.thumbnail} alt={frame.description || frame.id} className="w-full h-full object-cover" />
+                                      <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[7px] font-black text-white text-center py-0.5">{frame.timestamp}</span>
+                                    </div>
+                                  )}
+                                  <div className="space-y-2 min-w-0">
+                                    <span className={`text-[7px] font-black px-2 py-0.5 rounded uppercase ${obs.type === 'bottleneck' ? 'bg-rose-500/10 text-rose-500' : 'bg-indigo-500/10 text-indigo-400'}`}>{obs.type}</span>
+                                    <h5 className="text-[11px] font-black text-white uppercase leading-relaxed tracking-tight">{obs.detail}</h5>
+                                    <p className="text-[9px] text-slate-400 leading-relaxed italic border-l border-indigo-500/30 pl-3">"{obs.causalBottleneck}"</p>
+                                  </div>
+                                </div>
+                              );
+                            })}
                           </div>
 
+                          {lensAnalysis.extractedFrames.some(f => f.thumbnail) && (
+                            <div className="space-y-4">
+                              <p className="text-[10px] font-black text-white uppercase tracking-[0.4em] px-2">{t('lens.sampledFrames', { count: lensAnalysis.extractedFrames.length })}</p>
+                              <div className="grid grid-cols-2 gap-3">
+                                {lensAnalysis.extractedFrames.filter(f => f.thumbnail).map(frame => (
+                                  <div key={frame.id} className="rounded-2xl bg-white/5 border border-white/5 overflow-hidden">
+                                    <img src={frame.thumbnail} alt={frame.description || frame.id} className="w-full h-24 object-cover" />
+                                    <div className="p-2 space-y-1">
+                                      <p className="text-[7px] font-black text-indigo-400 uppercase tracking-widest">{frame.timestamp} · {frame.category}</p>
+                                      <p className="text-[8px] text-white/60 leading-snug">{frame.description}</p>
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
                           {lensShopData?.safetyMetrics && (
                             <div className="p-6 bg-indigo-600/5 border border-indigo-500/20 rounded-[2.5rem] space-y-6 animate-in fade-in duration-700">
-                              <p className="text-[10px] font-black text-indigo-300 uppercase tracking-[0.4em] text-center border-b border-indigo-500/10 pb-4">Safety Intelligence</p>
+                              <p className="text-[10px] font-black text-indigo-300 uppercase tracking-[0.4em] text-center border-b border-indigo-500/10 pb-4">{t('lens.safety')}</p>
                               <SafetyRadar metrics={lensShopData.safetyMetrics} />
                               <div className="space-y-3 pt-2">
-                                <SafetyMetricBar label="Crime" value={lensShopData.safetyMetrics.crimeSafety} />
-                                <SafetyMetricBar label="Police" value={lensShopData.safetyMetrics.policeProximity} />
-                                <SafetyMetricBar label="Lighting" value={lensShopData.safetyMetrics.lighting} />
+                                <SafetyMetricBar label={t('lens.crime')} value={lensShopData.safetyMetrics.crimeSafety} />
+                                <SafetyMetricBar label={t('lens.police')} value={lensShopData.safetyMetrics.policeProximity} />
+                                <SafetyMetricBar label={t('lens.lighting')} value={lensShopData.safetyMetrics.lighting} />
                               </div>
                               {lensShopData.safetyMetrics.nearestPoliceStations && lensShopData.safetyMetrics.nearestPoliceStations.length > 0 && (
                                 <div className="space-y-2 pt-2 border-t border-indigo-500/10">
-                                  <p className="text-[8px] font-black text-indigo-400 uppercase tracking-widest">Nearest Police Precincts</p>
+                                  <p className="text-[8px] font-black text-indigo-400 uppercase tracking-widest">{t('lens.precincts')}</p>
                                   <div className="flex flex-col gap-1.5">
                                     {lensShopData.safetyMetrics.nearestPoliceStations.map((station, i) => (
                                       <div key={i} className="px-3 py-2 bg-indigo-500/10 rounded-xl border border-indigo-500/10 flex items-center gap-2">
@@ -1960,16 +3391,16 @@ const handleShopSelect = async (shop: Shop) => {
 
                           {lensShopData?.urbanLogistics && (
                             <div className="p-6 bg-emerald-600/5 border border-emerald-500/20 rounded-[2.5rem] space-y-6 animate-in fade-in duration-700">
-                              <p className="text-[10px] font-black text-emerald-300 uppercase tracking-[0.4em] text-center border-b border-emerald-500/10 pb-4">Urban Logistics</p>
+                              <p className="text-[10px] font-black text-emerald-300 uppercase tracking-[0.4em] text-center border-b border-emerald-500/10 pb-4">{t('lens.logistics')}</p>
                               <LogisticsRadar logistics={lensShopData.urbanLogistics} />
                               <div className="space-y-3 pt-2">
-                                <LogisticsMetricBar label="Transit" value={lensShopData.urbanLogistics.transitAccessibility} />
-                                <LogisticsMetricBar label="Walkability" value={lensShopData.urbanLogistics.walkabilityScore} />
-                                <LogisticsMetricBar label="Parking" value={lensShopData.urbanLogistics.parkingAvailability} />
+                                <LogisticsMetricBar label={t('lens.transit')} value={lensShopData.urbanLogistics.transitAccessibility} />
+                                <LogisticsMetricBar label={t('lens.walkability')} value={lensShopData.urbanLogistics.walkabilityScore} />
+                                <LogisticsMetricBar label={t('lens.parking')} value={lensShopData.urbanLogistics.parkingAvailability} />
                               </div>
                               {lensShopData.urbanLogistics.publicTransportNodes && lensShopData.urbanLogistics.publicTransportNodes.length > 0 && (
                                 <div className="space-y-2 pt-2 border-t border-emerald-500/10">
-                                  <p className="text-[8px] font-black text-emerald-400 uppercase tracking-widest">Nearby Transport Nodes</p>
+                                  <p className="text-[8px] font-black text-emerald-400 uppercase tracking-widest">{t('lens.transportNodes')}</p>
                                   <div className="flex flex-col gap-1.5">
                                     {lensShopData.urbanLogistics.publicTransportNodes.map((node, i) => (
                                       <div key={i} className="px-3 py-2 bg-emerald-500/10 rounded-xl border border-indigo-500/10 flex items-center gap-2">
@@ -1985,15 +3416,16 @@ const handleShopSelect = async (shop: Shop) => {
 
                           {lensShopData?.predictedFootfall && (
                             <div className="p-6 bg-rose-600/5 border border-rose-500/20 rounded-[2.5rem] space-y-6 animate-in fade-in duration-700">
-                              <p className="text-[10px] font-black text-rose-300 uppercase tracking-[0.4em] text-center border-b border-rose-500/10 pb-4">Traffic Intelligence</p>
+                              <p className="text-[10px] font-black text-rose-300 uppercase tracking-[0.4em] text-center border-b border-rose-500/10 pb-4">{t('lens.traffic')}</p>
                               <FootfallChart data={lensShopData.predictedFootfall} />
-                              <p className="text-[8px] text-rose-300/95 uppercase font-black tracking-widest text-center">Temporal Density Analysis</p>
+                              <p className="text-[8px] text-rose-300/95 uppercase font-black tracking-widest text-center">{t('lens.temporalDensity')}</p>
                             </div>
                           )}
                              {lensShopData && (
           <DataSynergyMatrix 
             shop={lensShopData}
             weather={weather}
+            t={t}
             metrics={{
               safetyScore: Math.round(
                 (lensShopData.safetyMetrics.crimeSafety + 
@@ -2021,18 +3453,82 @@ const handleShopSelect = async (shop: Shop) => {
                         </div>
                       ) : (
                         <div className="py-20 text-center opacity-20">
-                          <p className="text-[10px] font-black uppercase tracking-widest">Lens System Idle.</p>
+                          <p className="text-[10px] font-black uppercase tracking-widest">{t('lens.idle')}</p>
                         </div>
                       )}
                     </div>
                   ) : explorerTab === 'live_vendors' ? (
                     <div className="space-y-6">
+                      <div className="flex justify-between items-center px-2">
+                        <p className="text-[8px] font-black text-emerald-400 uppercase tracking-[0.3em]">{t('live.count', { count: liveVendors.length })}</p>
+                        <p className={`text-[8px] font-black uppercase tracking-widest ${isLiveGridConnected ? 'text-emerald-500' : 'text-slate-500'}`}>
+                          {isLiveGridConnected ? t('live.sharedGrid') : t('live.localOnly')}
+                        </p>
+                      </div>
+                      <div className="p-5 bg-white/5 border border-white/5 rounded-[2rem] space-y-4">
+                        <div className="flex justify-between items-center px-1">
+                          <button onClick={() => setShowAlertSettings(!showAlertSettings)} className="text-[8px] font-black text-indigo-400 uppercase tracking-[0.3em]">
+                            {t('alerts.title')} {showAlertSettings ? '▴' : '▾'}
+                          </button>
+                          <button onClick={() => updateAlertPrefs({ enabled: !alertPrefs.enabled })} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${alertPrefs.enabled ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>
+                            {alertPrefs.enabled ? t('alerts.on') : t('alerts.off')}
+                          </button>
+                        </div>
+                        <p className="text-[9px] text-white/40 px-1">
+                          {t('alerts.summary', { vendors: alertPrefs.followedVendorIds.length, cuisines: alertPrefs.followedCuisines.length, radius: alertPrefs.radiusMeters >= 1000 ? `${alertPrefs.radiusMeters / 1000} km` : `${alertPrefs.radiusMeters} m` })}
+                        </p>
+                        {showAlertSettings && (
+                          <div className="space-y-4 animate-in fade-in duration-300">
+                            <div className="grid grid-cols-4 gap-2">
+                              {ALERT_RADIUS_OPTIONS.map(r => (
+                                <button key={r} onClick={() => updateAlertPrefs({ radiusMeters: r })} className={`py-2 rounded-xl text-[8px] font-black uppercase border transition-all ${alertPrefs.radiusMeters === r ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{r >= 1000 ? `${r / 1000} km` : `${r} m`}</button>
+                              ))}
+                            </div>
+                            <div className="space-y-2">
+                              <p className="text-[8px] font-black text-white/40 uppercase tracking-widest px-1">{t('alerts.cuisines')}</p>
+                              <div className="flex flex-wrap gap-2">
+                                {[...new Set([...cuisinesOf(gridShops), ...alertPrefs.followedCuisines])].map(cuisine => (
+                                  <button key={cuisine} onClick={() => toggleFollow('followedCuisines', cuisine)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${alertPrefs.followedCuisines.includes(cuisine) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{cuisine}</button>
+                                ))}
+                              </div>
+                            </div>
+                            {alertPrefs.followedVendorIds.length > 0 && (
+                              <div className="space-y-2">
+                                <p className="text-[8px] font-black text-white/40 uppercase tracking-widest px-1">{t('alerts.vendors')}</p>
+                                <div className="flex flex-wrap gap-2">
+                                  {alertPrefs.followedVendorIds.map(id => (
+                                    <button key={id} onClick={() => toggleFollow('followedVendorIds', id)} className="px-3 py-1.5 rounded-xl bg-indigo-600/20 border border-indigo-500/30 text-[8px] font-black uppercase text-indigo-200 hover:text-rose-400 transition-colors">
+                                      {remoteVendors.find(v => v.profile.id === id)?.profile.name || gridShops.find(s => profileIdForShop(s) === id)?.name || id} ✕
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+                            <div className="flex items-center gap-2">
+                              <button onClick={() => updateAlertPrefs({ quietHours: alertPrefs.quietHours ? null : DEFAULT_ALERT_PREFERENCES.quietHours })} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${alertPrefs.quietHours ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{t('alerts.quietHours')}</button>
+                              {alertPrefs.quietHours && (
+                                <>
+                                  <input type="time" value={alertPrefs.quietHours.open} onChange={e => updateAlertPrefs({ quietHours: { ...alertPrefs.quietHours!, open: e.target.value } })} className="bg-black/40 border border-white/10 rounded-xl px-2 py-1.5 text-[10px] text-white outline-none" />
+                                  <span className="text-[9px] text-white/30">{t('alerts.until')}</span>
+                                  <input type="time" value={alertPrefs.quietHours.close} onChange={e => updateAlertPrefs({ quietHours: { ...alertPrefs.quietHours!, close: e.target.value } })} className="bg-black/40 border border-white/10 rounded-xl px-2 py-1.5 text-[10px] text-white outline-none" />
+                                </>
+                              )}
+                            </div>
+                            <button onClick={() => updateAlertPrefs({ speak: !alertPrefs.speak })} className={`w-full py-2 rounded-xl text-[8px] font-black uppercase border transition-all ${alertPrefs.speak ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-white/5 border-white/10 text-white/40'}`}>
+                              {alertPrefs.speak ? t('alerts.speakOn') : t('alerts.speakOff')}
+                            </button>
+                          </div>
+                        )}
+                      </div>
                       {liveVendors.map((v, i) => (
                         <button key={v.id} onClick={() => handleShopSelect(v)} className="w-full p-5 rounded-[2rem] bg-emerald-600/5 border border-emerald-500/20 text-left transition-all hover:bg-emerald-600/10 flex items-center gap-4 animate-in slide-in-from-right-4">
                           <div className="w-12 h-12 bg-emerald-600 rounded-2xl flex items-center justify-center text-2xl group-hover:scale-110 transition-transform">{v.emoji}</div>
                           <div className="flex-1 min-w-0">
                             <p className="text-[13px] font-black text-white uppercase truncate">{v.name}</p>
-                            <p className="text-[9px] text-emerald-400 font-black uppercase">Live Signal</p>
+                            <div className="flex items-center gap-2">
+                              <p className="text-[9px] text-emerald-400 font-black uppercase">{t('live.signal')}</p>
+                              <OpenStatusBadge shop={v} now={now} locale={locale} />
+                            </div>
                           </div>
                         </button>
                       ))}
@@ -2050,14 +3546,114 @@ const handleShopSelect = async (shop: Shop) => {
                           <p className="text-[9px] text-white/40 font-black uppercase mt-1">{p.cuisine}</p>
                         </div>
                       </div>
-                      <button onClick={() => setActiveProfileId(p.id)} className="px-6 py-3 bg-indigo-600/10 hover:bg-indigo-600 text-indigo-400 hover:text-white text-[9px] font-black uppercase rounded-2xl transition-all shadow-inner">Manage</button>
+                      <button onClick={() => setActiveProfileId(p.id)} className="px-6 py-3 bg-indigo-600/10 hover:bg-indigo-600 text-indigo-400 hover:text-white text-[9px] font-black uppercase rounded-2xl transition-all shadow-inner">{t('hub.manage')}</button>
                     </div>
                   ))}
                   {activeProfileId && (
-                    <div className="p-6 bg-indigo-600/5 border border-indigo-500/10 rounded-3xl">
-                       <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest text-center">Node Under Active Management</p>
+                    <div className="space-y-4">
+                      <div className="flex justify-between items-center px-2">
+                        <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">{t('orders.queue', { count: queuedOrders.length })}</p>
+                        <button onClick={() => setShowOrderHistory(!showOrderHistory)} className="text-[8px] font-black text-white/40 hover:text-white uppercase tracking-widest transition-colors">
+                          {t('orders.history', { open: String(showOrderHistory), count: pastOrders.length })}
+                        </button>
+                      </div>
+                      {queuedOrders.length === 0 && (
+                        <div className="p-6 bg-indigo-600/5 border border-indigo-500/10 rounded-3xl">
+                          <p className="text-[10px] font-black text-indigo-400/60 uppercase tracking-widest text-center">{t('orders.none')}</p>
+                        </div>
+                      )}
+                      {queuedOrders.map(order => {
+                        const next = nextForwardStatus(order);
+                        return (
+                          <div key={order.id} className={`p-5 rounded-[2rem] border space-y-3 animate-in slide-in-from-right-4 ${order.status === OrderStatus.PLACED ? 'bg-amber-500/5 border-amber-500/30' : 'bg-white/5 border-white/10'}`}>
+                            <div className="flex justify-between items-center">
+                              <p className="text-[11px] font-black text-white uppercase">#{order.id.slice(-4).toUpperCase()} · {order.customer}</p>
+                              <span className="text-[8px] font-black text-amber-400 uppercase tracking-widest">{t(ORDER_STATUS_LABELS[order.status])}</span>
+                            </div>
+                            <div className="space-y-1">
+                              {order.items.map((it, i) => (
+                                <p key={i} className="text-[10px] text-white/60 font-bold uppercase">{it.quantity}x {describeLine(it)}</p>
+                              ))}
+                            </div>
+                            <div className="flex justify-between items-center">
+                              <span className="text-[9px] text-white/30 font-black uppercase">{new Date(order.placedAt).toLocaleTimeString(speechCode, { hour: '2-digit', minute: '2-digit' })} · {formatCurrency(locale, order.totalPrice)}</span>
+                              <div className="flex gap-2">
+                                {canTransition(order, OrderStatus.CANCELLED) && (
+                                  <button onClick={() => updateOrderStatus(order.id, OrderStatus.CANCELLED)} className="px-3 py-2 bg-white/5 hover:bg-rose-600 text-rose-400 hover:text-white text-[8px] font-black uppercase rounded-xl transition-all">{order.status === OrderStatus.PLACED ? t('orders.decline') : t('orders.cancel')}</button>
+                                )}
+                                {next && (
+                                  <button onClick={() => updateOrderStatus(order.id, next)} className="px-3 py-2 bg-emerald-600 hover:bg-emerald-500 text-white text-[8px] font-black uppercase rounded-xl transition-all">
+                                    {next === OrderStatus.ACCEPTED ? t('orders.accept') : t('orders.mark', { status: t(ORDER_STATUS_LABELS[next]) })}
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
+                      {showOrderHistory && pastOrders.map(order => (
+                        <div key={order.id} className="px-5 py-3 rounded-2xl bg-white/[0.02] border border-white/5 flex justify-between items-center">
+                          <span className="text-[9px] font-black text-white/50 uppercase truncate">#{order.id.slice(-4).toUpperCase()} · {t('orders.summary', { count: order.items.reduce((n, it) => n + it.quantity, 0), total: order.totalPrice })}</span>
+                          <span className={`text-[8px] font-black uppercase tracking-widest ${order.status === OrderStatus.CANCELLED ? 'text-rose-500' : 'text-emerald-500'}`}>{t(ORDER_STATUS_LABELS[order.status])} · {new Date(order.updatedAt).toLocaleDateString(speechCode)}</span>
+                        </div>
+                      ))}
                     </div>
                   )}
+                  <div className="p-5 rounded-[2rem] bg-emerald-600/5 border border-emerald-500/20 space-y-4">
+                    <div className="space-y-1 px-1">
+                      <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">{t('sites.title')}</p>
+                      <p className="text-[9px] text-white/40">{t('sites.hint')}</p>
+                    </div>
+                    <input value={siteCuisine} onChange={e => setSiteCuisine(e.target.value)} onKeyDown={e => e.key === 'Enter' && findSites()} placeholder={activeProfile?.cuisine || t('sites.cuisinePlaceholder')} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 text-[11px] text-white outline-none focus:border-emerald-500" />
+                    <div className="grid grid-cols-3 gap-2">
+                      {(Object.keys(PRICE_BANDS) as PriceBand[]).map(band => (
+                        <button key={band} onClick={() => setSitePriceBand(band)} className={`py-2 rounded-xl text-[8px] font-black uppercase border transition-all ${sitePriceBand === band ? 'bg-amber-600 border-amber-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{t(`price.${band}`)}</button>
+                      ))}
+                    </div>
+                    <div className="space-y-1.5">
+                      <p className="text-[8px] font-black text-white/40 uppercase tracking-widest px-1">{t('sites.period')}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {FOOTFALL_PERIODS.map(period => (
+                          <button key={period} onClick={() => setSitePeriod(period)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${sitePeriod === period ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{period}</button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={findSites} className="flex-1 py-3 bg-emerald-600 hover:bg-emerald-500 text-white text-[9px] font-black uppercase rounded-2xl transition-all active:scale-[0.98]">{t('sites.find')}</button>
+                      {siteResults && <button onClick={() => setSiteResults(null)} className="px-4 py-3 bg-white/5 hover:bg-white/10 text-white/50 text-[9px] font-black uppercase rounded-2xl border border-white/5 transition-all">{t('sites.clear')}</button>}
+                    </div>
+                    {siteResults && siteResults.sites.length === 0 && (
+                      <p className="text-[9px] text-white/30 text-center px-2">{t('sites.none')}</p>
+                    )}
+                    {siteResults?.sites.map((site, i) => (
+                      <div key={site.id} className="p-4 rounded-2xl bg-black/30 border border-white/5 space-y-3 animate-in fade-in duration-300">
+                        <div className="flex items-center gap-3">
+                          <span className="w-8 h-8 shrink-0 rounded-xl bg-emerald-600 text-white text-[11px] font-black flex items-center justify-center">#{i + 1}</span>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-[11px] font-black text-white uppercase">{t('sites.score', { score: site.score })}</p>
+                            <p className="text-[8px] text-white/40 uppercase tracking-widest">{t('sites.away', { distance: site.distanceMeters >= 1000 ? `${(site.distanceMeters / 1000).toFixed(1)} km` : `${site.distanceMeters} m` })}</p>
+                          </div>
+                        </div>
+                        <div className="space-y-1.5">
+                          {site.factors.map(f => (
+                            <div key={f.factor} className="flex items-center gap-2">
+                              <span className="w-20 shrink-0 text-[7px] font-black text-white/40 uppercase tracking-widest">{t(`sites.factor.${f.factor}`)}</span>
+                              <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                                <div className={`h-full rounded-full ${f.value >= 65 ? 'bg-emerald-500' : f.value >= 45 ? 'bg-amber-500' : 'bg-rose-500'}`} style={{ width: `${f.known ? f.value : 0}%` }} />
+                              </div>
+                              <span className="w-10 text-right text-[8px] font-black text-white/60">{f.known ? f.value : t('sectors.noData')}</span>
+                            </div>
+                          ))}
+                        </div>
+                        {site.drivers.length > 0 && (
+                          <p className="text-[9px] text-emerald-300/80 leading-relaxed">{t('sites.drivenBy', { reasons: site.drivers.map(f => siteReason(site, f, siteResults.query.period)).join(', ') })}</p>
+                        )}
+                        {site.drags.length > 0 && (
+                          <p className="text-[9px] text-rose-300/80 leading-relaxed">{t('sites.heldBackBy', { reasons: site.drags.map(f => siteReason(site, f, siteResults.query.period)).join(', ') })}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                 </div>
               )}
             </div>
@@ -2066,7 +3662,50 @@ const handleShopSelect = async (shop: Shop) => {
       </div>
 
       <div className="flex-1 relative bg-[#020202]">
-        <FoodMap center={location} shops={shops} onLocationChange={setLocation} onShopClick={handleShopSelect} />
+        <FoodMap
+          center={location}
+          shops={mapShops}
+          onLocationChange={setLocation}
+          onShopClick={handleShopSelect}
+          heatmap={heatLayer ? { layer: heatLayer, period: heatPeriod } : null}
+          route={routePlan}
+          sectors={sectors}
+          drawMode={sectorDrawMode}
+          onSectorDrawn={shape => { setPendingSectorShape(shape); setSectorDrawMode(null); }}
+          sites={userMode === 'vendor' ? siteResults?.sites : undefined}
+          t={t}
+        />
+
+        {sectorDrawMode && (
+          <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-3 bg-black/80 backdrop-blur-2xl border border-indigo-500/40 rounded-2xl px-4 py-2.5 shadow-2xl">
+            <span className="text-[9px] font-black text-indigo-300 uppercase tracking-widest">{t('sectors.drawing')} · {t(sectorDrawMode === 'circle' ? 'sectors.circleHint' : 'sectors.polygonHint')}</span>
+            <button onClick={() => setSectorDrawMode(null)} className="px-3 py-1 rounded-lg bg-white/10 text-[8px] font-black uppercase text-white/70">{t('sectors.cancel')}</button>
+          </div>
+        )}
+
+        <div className="absolute top-4 right-4 md:top-6 md:right-6 z-[1000] w-64 bg-black/80 backdrop-blur-2xl border border-white/10 rounded-[1.75rem] p-4 space-y-3 shadow-2xl">
+          <p className="text-[8px] font-black text-indigo-400 uppercase tracking-[0.3em] px-1">{t('layers.title')}</p>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(HEAT_LAYERS) as HeatLayer[]).map(layer => (
+              <button key={layer} onClick={() => setHeatLayer(heatLayer === layer ? null : layer)} className={`py-2 rounded-xl text-[8px] font-black uppercase border transition-all ${heatLayer === layer ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}>{t(`layers.${layer}`)}</button>
+            ))}
+          </div>
+          {heatLayer && (
+            <div className="space-y-2 animate-in fade-in duration-300">
+              <div className="h-2 rounded-full" style={{ background: rampGradient(heatLayer) }} />
+              <div className="flex justify-between text-[7px] font-black text-white/30 uppercase tracking-widest">
+                <span>{t('layers.low')}</span>
+                <span>{t('layers.high')}</span>
+              </div>
+              {heatLayer === 'footfall' && (
+                <div className="space-y-1">
+                  <input type="range" min={0} max={FOOTFALL_PERIODS.length - 1} step={1} value={FOOTFALL_PERIODS.indexOf(heatPeriod)} onChange={e => setHeatPeriod(FOOTFALL_PERIODS[Number(e.target.value)])} className="w-full accent-indigo-500" />
+                  <p className="text-[9px] font-black text-white uppercase tracking-widest text-center">{heatPeriod}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
         
         {isOrdering && activeShop && (
           <div className="fixed inset-0 z-[7000] bg-black/95 backdrop-blur-3xl flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-500">
@@ -2076,9 +3715,10 @@ const handleShopSelect = async (shop: Shop) => {
                 <div className="w-16 h-16 md:w-24 md:h-24 bg-white/5 rounded-2xl md:rounded-[2rem] flex items-center justify-center text-3xl md:text-5xl border border-white/10">{activeShop.emoji}</div>
                 <div className="text-center space-y-2">
                   <h2 className="text-2xl md:text-4xl font-black text-white uppercase tracking-tighter">{activeShop.name}</h2>
-                  <div className="flex items-center justify-center gap-3">
-                    <button onClick={() => setChatLang('en-US')} className={`px-4 py-1.5 rounded-xl text-[10px] font-black border transition-all ${chatLang === 'en-US' ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-white/5 border-white/10 text-white/40'}`}>English</button>
-                    <button onClick={() => setChatLang('ta-IN')} className={`px-4 py-1.5 rounded-xl text-[10px] font-black border transition-all ${chatLang === 'ta-IN' ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-white/5 border-white/10 text-white/40'}`}>தமிழ்</button>
+                  <div className="flex flex-wrap items-center justify-center gap-2">
+                    {(Object.keys(LOCALES) as Locale[]).map(code => (
+                      <button key={code} onClick={() => setLocale(code)} className={`px-4 py-1.5 rounded-xl text-[10px] font-black border transition-all ${locale === code ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-white/5 border-white/10 text-white/40'}`}>{LOCALES[code].nativeName}</button>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -2086,30 +3726,63 @@ const handleShopSelect = async (shop: Shop) => {
               {orderStep === 'menu' && (
                 <div className="space-y-8 md:space-y-12 animate-in fade-in duration-500">
                   <div className="grid grid-cols-1 gap-3 md:gap-4 max-h-[300px] md:max-h-[400px] overflow-y-auto custom-scrollbar pr-2 md:pr-4">
-                    {activeShop.menu?.map((item, idx) => (
-                      <div key={idx} className={`flex justify-between items-center p-4 md:p-6 bg-white/5 border border-white/5 rounded-[1.5rem] md:rounded-[2rem] hover:bg-white/10 transition-all ${item.isSoldOut ? 'opacity-50 grayscale' : ''}`}>
-                        <div className="flex flex-col">
-                          <span className="text-[14px] md:text-[16px] font-black text-white uppercase tracking-tight">
-                            {item.name} {item.isSoldOut && <span className="ml-2 text-[10px] px-2 py-0.5 bg-rose-600 text-white rounded-lg">SOLD OUT</span>}
-                          </span>
-                          <span className="text-[12px] md:text-[13px] font-black text-emerald-400">₹{item.price}</span>
-                        </div>
-                        <div className="flex items-center gap-4 md:gap-6">
-                          <button onClick={() => updateCart(item.name, -1)} className="w-10 h-10 md:w-12 md:h-12 rounded-xl md:rounded-2xl bg-white/5 border border-white/10 text-white active:scale-90" disabled={item.isSoldOut}>-</button>
-                          <span className={`text-lg md:text-xl font-black w-6 md:w-8 text-center ${cart[item.name] ? 'text-indigo-400' : 'text-white/20'}`}>{cart[item.name] || 0}</span>
-                          <button onClick={() => updateCart(item.name, 1)} className="w-10 h-10 md:w-12 md:h-12 rounded-xl md:rounded-2xl bg-white/5 border border-white/10 text-white active:scale-90" disabled={item.isSoldOut}>+</button>
+                    {activeShop.menu?.map((item, idx) => {
+                      const choice = choiceFor(item);
+                      const selected = buildCartLine(item, choice.variant, choice.modifiers, 0);
+                      const inCart = cart[selected.key]?.quantity || 0;
+                      return (
+                      <div key={idx} className={`p-4 md:p-6 bg-white/5 border border-white/5 rounded-[1.5rem] md:rounded-[2rem] hover:bg-white/10 transition-all space-y-3 ${item.isSoldOut ? 'opacity-50 grayscale' : ''}`}>
+                        <div className="flex justify-between items-center">
+                          <div className="flex flex-col gap-1">
+                            <span className="text-[14px] md:text-[16px] font-black text-white uppercase tracking-tight">
+                              {item.name} {item.isSoldOut && <span className="ml-2 text-[10px] px-2 py-0.5 bg-rose-600 text-white rounded-lg">{t('order.soldOut')}</span>}
+                            </span>
+                            <span className="text-[12px] md:text-[13px] font-black text-emerald-400">
+                              {formatCurrency(locale, selected.price)}
+                              {isStockTracked(item) && !item.isSoldOut && <span className="ml-3 text-[10px] text-amber-400/80">{t('order.left', { count: remainingQuantity(item) })}</span>}
+                            </span>
+                            {item.tags && item.tags.length > 0 && <div className="flex flex-wrap gap-1"><DietaryBadges tags={item.tags} t={t} /></div>}
+                          </div>
+                          <div className="flex items-center gap-4 md:gap-6">
+                            <button onClick={() => updateCart(selected, -1)} className="w-10 h-10 md:w-12 md:h-12 rounded-xl md:rounded-2xl bg-white/5 border border-white/10 text-white active:scale-90" disabled={item.isSoldOut}>-</button>
+                            <span className={`text-lg md:text-xl font-black w-6 md:w-8 text-center ${inCart ? 'text-indigo-400' : 'text-white/20'}`}>{inCart}</span>
+                            <button onClick={() => updateCart(selected, 1)} className="w-10 h-10 md:w-12 md:h-12 rounded-xl md:rounded-2xl bg-white/5 border border-white/10 text-white active:scale-90 disabled:opacity-30" disabled={item.isSoldOut || quantityOfItem(cartLines, item.name) >= remainingQuantity(item)}>+</button>
+                          </div>
                         </div>
+                        {!item.isSoldOut && (item.variants?.length || item.modifiers?.length) ? (
+                          <div className="flex flex-wrap gap-2">
+                            {item.variants?.map(v => (
+                              <button key={v.name} onClick={() => chooseVariant(item, v.name)} className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase border transition-all ${choice.variant === v.name ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}>{v.name} · {formatCurrency(locale, v.price)}</button>
+                            ))}
+                            {item.modifiers?.map(m => (
+                              <button key={m.name} onClick={() => toggleModifier(item, m.name)} className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase border border-dashed transition-all ${choice.modifiers.includes(m.name) ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-white/5 border-white/10 text-white/40'}`}>+ {m.name} · {formatCurrency(locale, m.price)}</button>
+                            ))}
+                          </div>
+                        ) : null}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
 
+                  {cartLines.length > 0 && (
+                    <div className="space-y-2">
+                      {cartLines.map(line => (
+                        <div key={line.key} className="flex justify-between items-center px-4 py-3 bg-indigo-600/10 border border-indigo-500/20 rounded-2xl">
+                          <span className="text-[11px] font-black text-white uppercase">{line.quantity}x {describeLine(line)}</span>
+                          <div className="flex items-center gap-3">
+                            <span className="text-[11px] font-black text-emerald-400 tabular-nums">{formatCurrency(locale, line.price * line.quantity)}</span>
+                            <button onClick={() => updateCart(line, -line.quantity)} className="text-white/30 hover:text-rose-400 text-[12px]">✕</button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="space-y-6 bg-black/40 p-6 md:p-10 rounded-[2.5rem] md:rounded-[3rem] border border-white/5 shadow-inner">
                     <div className="flex flex-col items-center gap-4 mb-4">
-                       <VoiceWave isActive={isListening || isParsingOrder} isSpeaking={isParsingOrder} />
+                       <VoiceWave isActive={isListening || isParsingOrder} isSpeaking={isParsingOrder} t={t} />
                        <p className="text-[11px] font-black text-indigo-400 uppercase tracking-widest text-center">
-                         {isParsingOrder ? (chatLang === 'ta-IN' ? "முகவர் உங்கள் ஆர்டரை எழுதுகிறார்..." : "Agent is writing down your order...") : 
-                          isListening ? (chatLang === 'ta-IN' ? "கேட்கிறது..." : "Listening to Signal...") : 
-                          (chatLang === 'ta-IN' ? "உங்கள் ஆர்டரைச் சொல்லுங்கள் (எ.கா. 'biryani rendu venum')" : "State items to ADD via voice (e.g. 'Add 2 Biryanis')")}
+                         {isParsingOrder ? t('order.writing') : isListening ? t('order.listening') : t('order.voicePrompt')}
                        </p>
                     </div>
                     <div className="flex gap-4">
@@ -2117,7 +3790,7 @@ const handleShopSelect = async (shop: Shop) => {
                           const R = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
                           if (R) {
                             const r = new R();
-                            r.lang = chatLang;
+                            r.lang = speechCode;
                             r.onstart = () => setIsListening(true);
                             r.onend = () => setIsListening(false);
                             r.onresult = (e: any) => {
@@ -2129,16 +3802,16 @@ const handleShopSelect = async (shop: Shop) => {
                           }
                        }} disabled={isParsingOrder} className={`p-6 md:p-8 rounded-2xl md:rounded-[2rem] transition-all shadow-2xl active:scale-95 border flex flex-col items-center gap-2 min-w-[100px] md:min-w-[120px] ${isListening ? 'bg-rose-600 text-white border-rose-500 shadow-rose-600/50' : 'bg-white/5 text-white/40 border-white/10 hover:text-white/80'}`}>
                          <span className="text-2xl md:text-3xl">{isListening ? '⏹️' : '🎤'}</span>
-                         <span className="text-[9px] font-black uppercase">{isListening ? 'REC' : 'MIC'}</span>
+                         <span className="text-[9px] font-black uppercase">{isListening ? t('order.rec') : t('order.mic')}</span>
                        </button>
                        <div className="flex-1 flex flex-col gap-4">
-                          <input value={orderInput} onChange={e => setOrderInput(e.target.value)} placeholder={chatLang === 'ta-IN' ? "எ.கா. 2 பிரியாணி..." : "e.g. 2 Biryanis..."} className="w-full bg-black/60 border border-white/10 rounded-2xl md:rounded-[2rem] px-6 md:px-10 py-5 md:py-8 text-lg md:text-xl text-white outline-none focus:border-indigo-500 transition-all shadow-inner placeholder:text-white/10" />
+                          <input value={orderInput} onChange={e => setOrderInput(e.target.value)} placeholder={t('order.placeholder')} className="w-full bg-black/60 border border-white/10 rounded-2xl md:rounded-[2rem] px-6 md:px-10 py-5 md:py-8 text-lg md:text-xl text-white outline-none focus:border-indigo-500 transition-all shadow-inner placeholder:text-white/10" />
                           <div className="grid grid-cols-2 gap-3">
                             <button onClick={() => processOrderInput()} disabled={isParsingOrder || !orderInput} className="py-4 md:py-6 bg-indigo-600 hover:bg-indigo-500 text-white rounded-[1.25rem] md:rounded-[1.5rem] font-black text-[12px] md:text-[14px] uppercase shadow-2xl transition-all active:scale-[0.98] disabled:opacity-30">
-                              {isParsingOrder ? (chatLang === 'ta-IN' ? 'சரிபார்க்கிறது...' : 'Processing...') : (chatLang === 'ta-IN' ? 'பட்டியலில் சேர்' : 'Voice/Text Add')}
+                              {isParsingOrder ? t('order.processing') : t('order.add')}
                             </button>
-                            <button onClick={proceedToVerify} disabled={isParsingOrder || Object.keys(cart).length === 0} className="py-4 md:py-6 bg-emerald-600 hover:bg-emerald-500 text-white rounded-[1.25rem] md:rounded-[1.5rem] font-black text-[12px] md:text-[14px] uppercase shadow-2xl transition-all active:scale-[0.98] disabled:opacity-30 flex items-center justify-center gap-2">
-                              {chatLang === 'ta-IN' ? `சரிபார்க்கவும் (${cartTotalItems})` : `Finalize (${cartTotalItems})`}
+                            <button onClick={proceedToVerify} disabled={isParsingOrder || cartLines.length === 0} className="py-4 md:py-6 bg-emerald-600 hover:bg-emerald-500 text-white rounded-[1.25rem] md:rounded-[1.5rem] font-black text-[12px] md:text-[14px] uppercase shadow-2xl transition-all active:scale-[0.98] disabled:opacity-30 flex items-center justify-center gap-2">
+                              {t('order.finalize', { count: cartTotalItems })}
                             </button>
                           </div>
                        </div>
@@ -2149,27 +3822,53 @@ const handleShopSelect = async (shop: Shop) => {
               {orderStep === 'verifying' && parsedOrder && (
                 <div className="space-y-8 animate-in slide-in-from-bottom-4">
                    <div className="bg-white/5 p-6 md:p-10 rounded-[2rem] border border-white/10 space-y-6">
-                     {parsedOrder.orderItems.map((it: any, i: number) => (
-                       <div key={i} className="flex justify-between items-center border-b border-white/5 pb-4">
-                         <span className="text-white font-black uppercase text-sm md:text-base">{it.quantity}x {it.name}</span>
-                         <span className="text-slate-400 tabular-nums font-bold">₹{it.price * it.quantity}</span>
+                     {parsedOrder.orderItems.map(it => (
+                       <div key={it.key} className="flex justify-between items-center border-b border-white/5 pb-4">
+                         <span className="text-white font-black uppercase text-sm md:text-base">{it.quantity}x {describeLine(it)}</span>
+                         <span className="text-slate-400 tabular-nums font-bold">{formatCurrency(locale, it.price * it.quantity)}</span>
                        </div>
                      ))}
                      <div className="flex justify-between items-center pt-4">
-                        <span className="text-[10px] md:text-[12px] font-black text-indigo-400 uppercase tracking-widest">Grid Energy Total</span>
-                        <span className="text-2xl md:text-4xl font-black text-white">₹{parsedOrder.totalPrice}</span>
+                        <span className="text-[10px] md:text-[12px] font-black text-indigo-400 uppercase tracking-widest">{t('order.total')}</span>
+                        <span className="text-2xl md:text-4xl font-black text-white">{formatCurrency(locale, parsedOrder.totalPrice)}</span>
                      </div>
                    </div>
+                   <div className="space-y-2">
+                      <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('order.name')}</label>
+                      <input value={customerName} onChange={e => setCustomerName(e.target.value)} placeholder={t('order.namePlaceholder')} className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white outline-none focus:border-indigo-500" />
+                   </div>
                    <div className="grid grid-cols-2 gap-4">
-                      <button onClick={() => setOrderStep('menu')} className="py-5 bg-white/5 text-white/40 uppercase font-black text-[12px] rounded-3xl border border-white/5">Back</button>
-                      <button onClick={confirmFinalOrder} className="py-5 bg-emerald-600 text-white uppercase font-black text-[12px] rounded-3xl shadow-2xl">Place Order</button>
+                      <button onClick={() => setOrderStep('menu')} className="py-5 bg-white/5 text-white/40 uppercase font-black text-[12px] rounded-3xl border border-white/5">{t('order.back')}</button>
+                      <button onClick={confirmFinalOrder} disabled={!customerName.trim()} className="py-5 bg-emerald-600 text-white uppercase font-black text-[12px] rounded-3xl shadow-2xl disabled:opacity-30">{t('order.place')}</button>
                    </div>
                 </div>
               )}
-              {orderStep === 'placed' && (
-                <div className="py-24 flex flex-col items-center justify-center space-y-12 animate-in zoom-in-95">
-                   <div className="w-32 h-32 md:w-40 md:h-40 bg-emerald-600 rounded-full flex items-center justify-center text-6xl md:text-8xl text-white animate-bounce shadow-[0_0_80px_rgba(16,185,129,0.5)]">✓</div>
-                   <h3 className="text-3xl md:text-5xl font-black text-white uppercase text-center tracking-tighter">Order Transmitted</h3>
+              {orderStep === 'placed' && placedOrder && (
+                <div className="py-8 flex flex-col items-center justify-center space-y-10 animate-in zoom-in-95">
+                   <div className={`w-24 h-24 md:w-32 md:h-32 rounded-full flex items-center justify-center text-5xl md:text-6xl text-white ${placedOrder.status === OrderStatus.CANCELLED ? 'bg-rose-600' : 'bg-emerald-600 shadow-[0_0_80px_rgba(16,185,129,0.5)]'} ${placedOrder.status === OrderStatus.PLACED ? 'animate-bounce' : ''}`}>
+                     {placedOrder.status === OrderStatus.CANCELLED ? '✕' : '✓'}
+                   </div>
+                   <div className="text-center space-y-2">
+                     <h3 className="text-2xl md:text-4xl font-black text-white uppercase tracking-tighter">{t(ORDER_STATUS_LABELS[placedOrder.status])}</h3>
+                     <p className="text-[10px] font-black text-white/40 uppercase tracking-widest">{t('order.reference', { id: placedOrder.id.slice(-4).toUpperCase(), total: placedOrder.totalPrice })}</p>
+                   </div>
+                   {placedOrder.status !== OrderStatus.CANCELLED && (
+                     <div className="w-full grid grid-cols-5 gap-2">
+                       {ORDER_PROGRESS.map(step => {
+                         const reached = ORDER_PROGRESS.indexOf(step) <= ORDER_PROGRESS.indexOf(placedOrder.status);
+                         return (
+                           <div key={step} className="space-y-2 text-center">
+                             <div className={`h-1.5 rounded-full transition-all duration-700 ${reached ? 'bg-emerald-500' : 'bg-white/10'}`} />
+                             <p className={`text-[7px] md:text-[8px] font-black uppercase tracking-widest ${reached ? 'text-emerald-400' : 'text-white/20'}`}>{t(ORDER_STATUS_LABELS[step])}</p>
+                           </div>
+                         );
+                       })}
+                     </div>
+                   )}
+                   <div className="grid grid-cols-2 gap-4 w-full">
+                     <button onClick={() => updateOrderStatus(placedOrder.id, OrderStatus.CANCELLED)} disabled={placedOrder.status !== OrderStatus.PLACED} className="py-5 bg-white/5 text-rose-400 uppercase font-black text-[12px] rounded-3xl border border-white/5 disabled:opacity-20">{t('order.cancel')}</button>
+                     <button onClick={() => setIsOrdering(false)} className="py-5 bg-indigo-600 text-white uppercase font-black text-[12px] rounded-3xl shadow-2xl">{t('order.close')}</button>
+                   </div>
                 </div>
               )}
             </div>
@@ -2181,8 +3880,8 @@ const handleShopSelect = async (shop: Shop) => {
             <div className="max-w-4xl w-full bg-[#080808] border border-white/10 rounded-[2.5rem] md:rounded-[3.5rem] p-6 md:p-12 space-y-10 shadow-[0_50px_150px_rgba(0,0,0,1)] border-t-white/20 max-h-[90vh] overflow-y-auto custom-scrollbar relative">
               <div className="flex justify-between items-start">
                 <div>
-                  <h2 className="text-2xl md:text-3xl font-black text-white uppercase tracking-tighter">{isEditing ? 'Modify Node Data' : 'Establish Node Signal'}</h2>
-                  <p className="text-[11px] text-white/40 font-black uppercase tracking-[0.3em] mt-1">{isEditing ? 'Updating live manifest' : 'Onboarding legend'}</p>
+                  <h2 className="text-2xl md:text-3xl font-black text-white uppercase tracking-tighter">{isEditing ? t('reg.editTitle') : t('reg.newTitle')}</h2>
+                  <p className="text-[11px] text-white/40 font-black uppercase tracking-[0.3em] mt-1">{isEditing ? t('reg.editSubtitle') : t('reg.newSubtitle')}</p>
                 </div>
                 <button onClick={() => { setIsRegistering(false); setIsEditing(false); }} className="w-10 h-10 md:w-12 md:h-12 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-full text-white/60 transition-all hover:rotate-90">✕</button>
               </div>
@@ -2191,46 +3890,80 @@ const handleShopSelect = async (shop: Shop) => {
                 <div className="space-y-8">
                   <div className="grid grid-cols-4 gap-6">
                     <div className="col-span-1 space-y-2">
-                      <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Symbol</label>
+                      <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('reg.symbol')}</label>
                       <input value={regForm.emoji} onChange={e => setRegForm({...regForm, emoji: e.target.value})} className="w-full bg-white/10 border border-white/10 rounded-2xl px-4 py-5 text-center text-2xl shadow-inner focus:border-indigo-500 transition-all outline-none text-white" />
                     </div>
                     <div className="col-span-3 space-y-2">
-                      <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Hub Alias</label>
-                      <input placeholder="E.g. Murali's Snacks" value={regForm.name} onChange={e => setRegForm({...regForm, name: e.target.value})} className="w-full bg-white/10 border border-white/10 rounded-2xl px-6 py-5 text-[15px] outline-none focus:border-indigo-500 shadow-inner transition-all font-bold text-white placeholder:text-white/30" />
+                      <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('reg.alias')}</label>
+                      <input placeholder={t('reg.aliasPlaceholder')} value={regForm.name} onChange={e => setRegForm({...regForm, name: e.target.value})} className="w-full bg-white/10 border border-white/10 rounded-2xl px-6 py-5 text-[15px] outline-none focus:border-indigo-500 shadow-inner transition-all font-bold text-white placeholder:text-white/30" />
                     </div>
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Cuisine Specialty</label>
-                    <input placeholder="E.g. Authentic Rose Milk" value={regForm.cuisine} onChange={e => setRegForm({...regForm, cuisine: e.target.value})} className="w-full bg-white/10 border border-white/10 rounded-2xl px-6 py-5 text-[12px] shadow-inner focus:border-indigo-500 outline-none transition-all text-white placeholder:text-white/30" />
+                    <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('reg.cuisine')}</label>
+                    <input placeholder={t('reg.cuisinePlaceholder')} value={regForm.cuisine} onChange={e => setRegForm({...regForm, cuisine: e.target.value})} className="w-full bg-white/10 border border-white/10 rounded-2xl px-6 py-5 text-[12px] shadow-inner focus:border-indigo-500 outline-none transition-all text-white placeholder:text-white/30" />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Manual Coordinates (DMS)</label>
+                    <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('reg.coordinates')}</label>
                     <div className="flex gap-2">
                       <input placeholder={`13°05'41.5"N 80°10'30.2"E`} value={regForm.manualDMS} onChange={e => setRegForm({...regForm, manualDMS: e.target.value})} className="flex-1 bg-white/10 border border-white/10 rounded-2xl px-6 py-5 text-[11px] shadow-inner focus:border-indigo-500 outline-none transition-all text-white placeholder:text-white/20" />
-                      <button onClick={handleApplyDMS} className="px-6 bg-white/10 hover:bg-white/20 text-white text-[9px] font-black uppercase rounded-2xl border border-white/10 transition-all">Apply</button>
+                      <button onClick={handleApplyDMS} className="px-6 bg-white/10 hover:bg-white/20 text-white text-[9px] font-black uppercase rounded-2xl border border-white/10 transition-all">{t('reg.apply')}</button>
                     </div>
                   </div>
                   <div className="space-y-2">
                     <div className="flex justify-between items-center px-1">
-                      <label className="text-[9px] font-black uppercase text-indigo-400">Broadcast Bio</label>
-                      <button onClick={generateBio} disabled={isGeneratingBio} className="text-[9px] font-black uppercase text-indigo-300 hover:text-indigo-200 transition-all flex items-center gap-2">{isGeneratingBio ? '...' : '✨ Gemini Bio'}</button>
+                      <label className="text-[9px] font-black uppercase text-indigo-400">{t('reg.bio')}</label>
+                      <button onClick={generateBio} disabled={isGeneratingBio} className="text-[9px] font-black uppercase text-indigo-300 hover:text-indigo-200 transition-all flex items-center gap-2">{isGeneratingBio ? '...' : t('reg.generateBio')}</button>
                     </div>
                     <textarea rows={4} value={regForm.description} onChange={e => setRegForm({...regForm, description: e.target.value})} className="w-full bg-white/10 border border-white/10 rounded-2xl px-6 py-5 text-[12px] resize-none focus:border-indigo-500 outline-none transition-all leading-relaxed text-white placeholder:text-white/30" />
                   </div>
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center px-1">
+                      <label className="text-[9px] font-black uppercase text-indigo-400">{t('reg.hours')}</label>
+                      <button onClick={() => setRegForm({...regForm, dayHours: regForm.dayHours.map(() => regForm.dayHours[1])})} className="text-[9px] font-black uppercase text-indigo-300 hover:text-indigo-200 transition-all">{t('reg.copyMonday')}</button>
+                    </div>
+                    <div className="bg-white/5 border border-white/10 rounded-[2rem] p-4 space-y-2">
+                      {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                        <div key={day} className="flex items-center gap-3">
+                          <span className="w-10 text-[9px] font-black uppercase text-white/40">{weekdayName(locale, day)}</span>
+                          <input value={regForm.dayHours[day]} placeholder="12:00 - 15:00, 18:00 - 23:00" onChange={e => setRegForm({...regForm, dayHours: regForm.dayHours.map((h, i) => i === day ? e.target.value : h)})} className={`flex-1 bg-black/40 border rounded-xl px-4 py-2 text-[11px] text-white outline-none focus:border-indigo-500 transition-all ${parseIntervals(regForm.dayHours[day]) ? 'border-white/10' : 'border-rose-500/60'}`} />
+                        </div>
+                      ))}
+                      <p className="text-[8px] text-white/30 font-black uppercase tracking-widest px-1 pt-1">{t('reg.overnightHint')}</p>
+                    </div>
+                    <div className="bg-white/5 border border-white/10 rounded-[2rem] p-4 space-y-2">
+                      <p className="text-[8px] font-black uppercase text-white/40 tracking-widest px-1">{t('reg.overrides')}</p>
+                      {regForm.overrides.map(o => (
+                        <div key={o.date} className="flex justify-between items-center bg-white/5 px-4 py-2 rounded-xl">
+                          <span className="text-[10px] font-black text-white">{o.date} <span className="text-indigo-300 ml-2">{describeIntervals(o.intervals, locale)}</span></span>
+                          <button onClick={() => setRegForm({...regForm, overrides: regForm.overrides.filter(x => x.date !== o.date)})} className="text-white/20 hover:text-rose-500 transition-colors">✕</button>
+                        </div>
+                      ))}
+                      <div className="flex gap-2">
+                        <input type="date" value={newOverride.date} onChange={e => setNewOverride({...newOverride, date: e.target.value})} className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[11px] text-white outline-none" />
+                        <input value={newOverride.hours} onChange={e => setNewOverride({...newOverride, hours: e.target.value})} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[11px] text-white outline-none" />
+                        <button onClick={addScheduleOverride} className="px-4 bg-white/10 hover:bg-white/20 text-white text-[9px] font-black uppercase rounded-xl transition-all">{t('reg.add')}</button>
+                      </div>
+                    </div>
+                  </div>
                 </div>
                 <div className="flex flex-col h-full space-y-8">
                   <div className="space-y-4 flex-1">
-                    <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Inventory Manifest (Menu)</label>
+                    <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('reg.menu')}</label>
                     <div className="bg-white/5 border border-white/10 rounded-[2.5rem] p-6 min-h-[200px] flex flex-col gap-3 custom-scrollbar overflow-y-auto max-h-[350px]">
                       {regForm.menu.map((item, idx) => (
                         <div key={idx} className={`flex justify-between items-center bg-white/10 p-4 rounded-2xl group animate-in slide-in-from-left-2 transition-all ${item.isSoldOut ? 'border-rose-500/50' : 'border-transparent'}`}>
                           <div className="flex flex-col">
                             <span className={`text-[12px] font-black uppercase tracking-tight ${item.isSoldOut ? 'text-slate-500 line-through' : 'text-white'}`}>{item.name} <span className="text-emerald-400 ml-2">₹{item.price}</span></span>
-                            {item.isSoldOut && <span className="text-[8px] font-black text-rose-500 uppercase">OFF-SHELF</span>}
+                            {item.isSoldOut && <span className="text-[8px] font-black text-rose-500 uppercase">{t('reg.offShelf')}</span>}
+                            {item.variants && <span className="text-[8px] font-black text-white/40 uppercase">{formatOptionList(item.variants)}</span>}
+                            {item.modifiers && <span className="text-[8px] font-black text-white/30 uppercase">{t('reg.addOns', { list: formatOptionList(item.modifiers) })}</span>}
+                            {item.tags && item.tags.length > 0 && <div className="flex flex-wrap gap-1 mt-1"><DietaryBadges tags={item.tags} t={t} /></div>}
+                            {item.dailyPrep && <span className="text-[8px] font-black text-white/30 uppercase">{t('reg.dailyPrep', { count: item.dailyPrep })}</span>}
                           </div>
                           <div className="flex items-center gap-3">
+                            <input type="number" min={0} placeholder="∞" title={t('reg.stockHint')} value={item.stock ?? ''} onChange={e => setMenuItemStock(idx, e.target.value)} className="w-16 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white text-center outline-none" />
                             <button onClick={() => toggleMenuItemSoldOut(idx)} className={`px-3 py-1 rounded-lg text-[8px] font-black uppercase transition-all ${item.isSoldOut ? 'bg-rose-600 text-white' : 'bg-white/5 text-white/40 hover:bg-white/10 hover:text-white'}`}>
-                              {item.isSoldOut ? 'Restock' : 'Sold Out'}
+                              {item.isSoldOut ? t('reg.restock') : t('reg.markSoldOut')}
                             </button>
                             <button onClick={() => removeMenuItem(idx)} className="text-white/20 group-hover:text-rose-500 p-1 transition-colors">✕</button>
                           </div>
@@ -2239,17 +3972,25 @@ const handleShopSelect = async (shop: Shop) => {
                     </div>
                   </div>
                   <div className="space-y-4 bg-white/10 p-6 rounded-[2.5rem] border border-white/5 shadow-inner">
-                    <div className="grid grid-cols-3 gap-3">
-                      <input placeholder="Item" value={newItem.name} onChange={e => setNewItem({...newItem, name: e.target.value})} className="col-span-2 bg-black/40 border border-white/10 rounded-xl px-4 py-4 text-[12px] text-white outline-none" />
-                      <input placeholder="Price" type="number" value={newItem.price} onChange={e => setNewItem({...newItem, price: e.target.value})} className="bg-black/40 border border-white/10 rounded-xl px-4 py-4 text-[12px] text-white outline-none" />
+                    <div className="grid grid-cols-4 gap-3">
+                      <input placeholder={t('reg.itemPlaceholder')} value={newItem.name} onChange={e => setNewItem({...newItem, name: e.target.value})} className="col-span-2 bg-black/40 border border-white/10 rounded-xl px-4 py-4 text-[12px] text-white outline-none" />
+                      <input placeholder={t('reg.pricePlaceholder')} type="number" value={newItem.price} onChange={e => setNewItem({...newItem, price: e.target.value})} className="bg-black/40 border border-white/10 rounded-xl px-4 py-4 text-[12px] text-white outline-none" />
+                      <input placeholder={t('reg.prepPlaceholder')} type="number" min={0} value={newItem.prep} onChange={e => setNewItem({...newItem, prep: e.target.value})} className="bg-black/40 border border-white/10 rounded-xl px-4 py-4 text-[12px] text-white outline-none" />
+                      <input placeholder={t('reg.variantsPlaceholder')} value={newItem.variants} onChange={e => setNewItem({...newItem, variants: e.target.value})} className="col-span-2 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[11px] text-white outline-none" />
+                      <input placeholder={t('reg.modifiersPlaceholder')} value={newItem.modifiers} onChange={e => setNewItem({...newItem, modifiers: e.target.value})} className="col-span-2 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[11px] text-white outline-none" />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(DIETARY_TAGS) as DietaryTag[]).map(tag => (
+                        <button key={tag} onClick={() => toggleNewItemTag(tag)} className={`px-3 py-1.5 rounded-xl text-[8px] font-black uppercase border transition-all ${newItem.tags.includes(tag) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-black/40 border-white/10 text-white/40'}`}>{t(DIETARY_TAGS[tag].label)}</button>
+                      ))}
                     </div>
-                    <button onClick={addMenuItem} className="w-full py-4 bg-emerald-600/20 hover:bg-emerald-600 text-emerald-400 hover:text-white text-[10px] font-black uppercase rounded-xl transition-all shadow-lg">+ Add to Manifest</button>
+                    <button onClick={addMenuItem} className="w-full py-4 bg-emerald-600/20 hover:bg-emerald-600 text-emerald-400 hover:text-white text-[10px] font-black uppercase rounded-xl transition-all shadow-lg">{t('reg.addItem')}</button>
                   </div>
                 </div>
               </div>
               <div className="pt-10 flex flex-col sm:flex-row gap-6 border-t border-white/5">
-                <button onClick={() => { setIsRegistering(false); setIsEditing(false); }} className="flex-1 py-6 text-[12px] font-black uppercase text-white/40 bg-white/10 rounded-2xl transition-all hover:bg-white/20">Cancel</button>
-                <button onClick={handleSaveHub} className="flex-1 py-6 text-[12px] font-black uppercase text-white bg-indigo-600 rounded-2xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20">Activate Partner Node</button>
+                <button onClick={() => { setIsRegistering(false); setIsEditing(false); }} className="flex-1 py-6 text-[12px] font-black uppercase text-white/40 bg-white/10 rounded-2xl transition-all hover:bg-white/20">{t('reg.cancel')}</button>
+                <button onClick={handleSaveHub} className="flex-1 py-6 text-[12px] font-black uppercase text-white bg-indigo-600 rounded-2xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20">{t('reg.save')}</button>
               </div>
             </div>
           </div>
@@ -2259,16 +4000,16 @@ const handleShopSelect = async (shop: Shop) => {
           <div className="fixed inset-0 z-[8000] bg-black/90 backdrop-blur-2xl flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300">
             <div className="max-w-xl w-full bg-[#0a0a0a] border border-white/10 rounded-[3rem] p-8 md:p-12 space-y-8 shadow-[0_50px_100px_rgba(0,0,0,0.8)]">
               <div className="flex justify-between items-center">
-                <h2 className="text-xl md:text-2xl font-black text-white uppercase tracking-tighter">Add Exploratory Review</h2>
+                <h2 className="text-xl md:text-2xl font-black text-white uppercase tracking-tighter">{t('review.title')}</h2>
                 <button onClick={() => setIsReviewing(false)} className="text-white/40 hover:text-white transition-colors">✕</button>
               </div>
               <div className="space-y-6">
                 <div className="space-y-2">
-                  <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Alias</label>
+                  <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('review.alias')}</label>
                   <input value={reviewForm.author} onChange={e => setReviewForm({...reviewForm, author: e.target.value})} className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white outline-none focus:border-indigo-500" />
                 </div>
                 <div className="space-y-2">
-                  <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Rating</label>
+                  <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('review.rating')}</label>
                   <div className="flex gap-2">
                     {[1, 2, 3, 4, 5].map(star => (
                       <button key={star} onClick={() => setReviewForm({...reviewForm, rating: star})} className={`w-12 h-12 rounded-xl flex items-center justify-center text-xl transition-all ${reviewForm.rating >= star ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/30' : 'bg-white/5 text-white/20'}`}>
@@ -2278,10 +4019,10 @@ const handleShopSelect = async (shop: Shop) => {
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <label className="text-[9px] font-black uppercase text-indigo-400 px-1">Commentary</label>
-                  <textarea rows={4} value={reviewForm.comment} onChange={e => setReviewForm({...reviewForm, comment: e.target.value})} placeholder="Shared knowledge regarding flavor profile..." className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white outline-none focus:border-indigo-500 resize-none" />
+                  <label className="text-[9px] font-black uppercase text-indigo-400 px-1">{t('review.commentary')}</label>
+                  <textarea rows={4} value={reviewForm.comment} onChange={e => setReviewForm({...reviewForm, comment: e.target.value})} placeholder={t('review.placeholder')} className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-white outline-none focus:border-indigo-500 resize-none" />
                 </div>
-                <button onClick={handleSaveReview} className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black uppercase text-[12px] shadow-2xl shadow-indigo-600/20 transition-all active:scale-95">Commit Review</button>
+                <button onClick={handleSaveReview} className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black uppercase text-[12px] shadow-2xl shadow-indigo-600/20 transition-all active:scale-95">{t('review.submit')}</button>
               </div>
             </div>
           </div>
@@ -2310,9 +4051,18 @@ const handleShopSelect = async (shop: Shop) => {
                   <div className="space-y-1 min-w-0 flex-1">
                     <h3 className="text-xl md:text-3xl font-black text-white uppercase tracking-tight truncate leading-tight">{activeShop.name}</h3>
                     <p className="text-[9px] md:text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em] truncate">{activeShop.cuisine}</p>
+                    {activeShopOrders.map(order => (
+                      <button key={order.id} onClick={() => { setPlacedOrderId(order.id); setOrderStep('placed'); setIsOrdering(true); }} className="block text-[8px] font-black text-emerald-400 uppercase tracking-widest hover:text-emerald-300 transition-colors">
+                        {t('order.tracking', { id: order.id.slice(-4).toUpperCase(), status: t(ORDER_STATUS_LABELS[order.status]) })}
+                      </button>
+                    ))}
+                    <div className="flex items-center gap-2 min-w-0">
+                      <OpenStatusBadge shop={activeShop} now={now} locale={locale} />
+                      {(activeShop.schedule || activeShop.hours) && <span className="text-[8px] text-white/30 font-black uppercase tracking-widest truncate">{activeShop.schedule ? formatSchedule(activeShop.schedule, locale) : activeShop.hours}</span>}
+                    </div>
                   </div>
                   <div className="shrink-0 pt-1">
-                    <VoiceWave isActive={isVoiceActive} isSpeaking={isSpeaking} onStop={stopAudio} />
+                    <VoiceWave isActive={isVoiceActive} isSpeaking={isSpeaking} onStop={stopAudio} t={t} />
                   </div>
                 </div>
                 
@@ -2322,21 +4072,21 @@ const handleShopSelect = async (shop: Shop) => {
                       <p className="text-xs md:text-sm text-white/80 leading-relaxed italic">"{activeShop.description}"</p>
                       {footfallPrediction && (
                         <div className="bg-indigo-600/10 border border-indigo-500/20 p-3 md:p-4 rounded-2xl">
-                          <p className="text-[7px] md:text-[8px] font-black uppercase text-indigo-400/60 mb-1 tracking-widest">Predictive Footfall engine</p>
+                          <p className="text-[7px] md:text-[8px] font-black uppercase text-indigo-400/60 mb-1 tracking-widest">{t('shop.footfallEngine')}</p>
                           <p className="text-[10px] md:text-[11px] font-bold text-slate-100 italic">"{footfallPrediction}"</p>
                         </div>
                       )}
                     </div>
                     <div className="bg-white/5 border border-white/5 rounded-3xl p-4 space-y-2">
-                      <p className="text-[8px] font-black text-indigo-400 uppercase tracking-[0.3em] text-center mb-1">Success Breakdown Index</p>
-                      <SuccessReasoningChart shop={activeShop} />
+                      <p className="text-[8px] font-black text-indigo-400 uppercase tracking-[0.3em] text-center mb-1">{t('shop.successIndex')}</p>
+                      <SuccessReasoningChart shop={activeShop} t={t} />
                     </div>
                   </div>
 
                   <div className="space-y-3">
                     <div className="flex justify-between items-center sticky top-0 bg-black/10 backdrop-blur-md py-1">
-                      <p className="text-[8px] font-black text-white uppercase tracking-[0.3em]">Field Intelligence ({activeShop.reviews?.length || 0})</p>
-                      <button onClick={() => setIsReviewing(true)} className="text-[8px] font-black text-amber-500 uppercase hover:text-amber-400 transition-colors">+ Add Review</button>
+                      <p className="text-[8px] font-black text-white uppercase tracking-[0.3em]">{t('shop.fieldIntel', { count: activeShop.reviews?.length || 0 })}</p>
+                      <button onClick={() => setIsReviewing(true)} className="text-[8px] font-black text-amber-500 uppercase hover:text-amber-400 transition-colors">{t('shop.addReview')}</button>
                     </div>
                     <div className="space-y-3">
                       {activeShop.reviews && activeShop.reviews.length > 0 ? (
@@ -2352,7 +4102,7 @@ const handleShopSelect = async (shop: Shop) => {
                         ))
                       ) : (
                         <div className="py-4 border border-dashed border-white/5 rounded-2xl text-center opacity-30">
-                          <p className="text-[9px] font-black uppercase tracking-widest">No exploration logs yet.</p>
+                          <p className="text-[9px] font-black uppercase tracking-widest">{t('shop.noReviews')}</p>
                         </div>
                       )}
                     </div>
@@ -2360,9 +4110,17 @@ const handleShopSelect = async (shop: Shop) => {
                 </div>
 
                 <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-white/5 mt-auto shrink-0">
-                  <a href={`https://www.google.com/maps/dir/?api=1&destination=${activeShop.coords.lat},${activeShop.coords.lng}`} target="_blank" className="px-6 py-4 bg-white text-black text-[10px] md:text-[11px] font-black uppercase rounded-2xl shadow-2xl text-center active:scale-95 transition-transform">🛰️ Navigate</a>
+                  <a href={`https://www.google.com/maps/dir/?api=1&destination=${activeShop.coords.lat},${activeShop.coords.lng}`} target="_blank" className="px-6 py-4 bg-white text-black text-[10px] md:text-[11px] font-black uppercase rounded-2xl shadow-2xl text-center active:scale-95 transition-transform">{t('shop.navigate')}</a>
+                  {activeShop.isVendor && (
+                    <button onClick={() => toggleFollow('followedVendorIds', profileIdForShop(activeShop))} className={`px-6 py-4 text-[10px] md:text-[11px] font-black uppercase rounded-2xl border active:scale-95 transition-all ${alertPrefs.followedVendorIds.includes(profileIdForShop(activeShop)) ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-white/5 text-indigo-300 border-indigo-500/30 hover:bg-indigo-500/10'}`}>
+                      {alertPrefs.followedVendorIds.includes(profileIdForShop(activeShop)) ? t('alerts.following') : t('alerts.follow')}
+                    </button>
+                  )}
+                  <button onClick={() => toggleCrawlStop(activeShop)} className={`px-6 py-4 text-[10px] md:text-[11px] font-black uppercase rounded-2xl border active:scale-95 transition-all ${crawlIds.includes(activeShop.id) ? 'bg-amber-500 text-black border-amber-400' : 'bg-white/5 text-amber-400 border-amber-500/30 hover:bg-amber-500/10'}`}>
+                    {crawlIds.includes(activeShop.id) ? t('crawl.added') : t('crawl.add')}
+                  </button>
                   {activeShop.isVendor && activeShop.status === VendorStatus.ONLINE && (
-                    <button onClick={initiateOrder} className="flex-1 py-4 bg-emerald-600 text-white text-[10px] md:text-[11px] font-black uppercase rounded-2xl shadow-2xl active:scale-95 transition-transform border border-emerald-400/20">🛒 Order Now</button>
+                    <button onClick={initiateOrder} className="flex-1 py-4 bg-emerald-600 text-white text-[10px] md:text-[11px] font-black uppercase rounded-2xl shadow-2xl active:scale-95 transition-transform border border-emerald-400/20">{t('shop.orderNow')}</button>
                   )}
                 </div>
               </div>
@@ -2381,11 +4139,12 @@ const handleShopSelect = async (shop: Shop) => {
               <div className="p-8 md:p-12 bg-white/5 border-b border-white/5 flex justify-between items-center shrink-0">
                 <div className="flex flex-col">
                   <h3 className="text-[12px] md:text-[14px] font-black text-white tracking-[0.4em] uppercase">gStrEats Voice</h3>
-                  <p className="hidden md:block text-[10px] font-black text-indigo-400 uppercase tracking-widest mt-2 opacity-60">Spatial Reasoning Engine</p>
+                  <p className="hidden md:block text-[10px] font-black text-indigo-400 uppercase tracking-widest mt-2 opacity-60">{t('chat.subtitle')}</p>
                 </div>
                 <div className="bg-black/50 p-1.5 md:p-2 rounded-2xl flex border border-white/10 shadow-inner mr-4">
-                  <button onClick={() => setChatLang('en-US')} className={`px-4 md:px-5 py-1.5 md:py-2 text-[10px] font-black rounded-xl transition-all ${chatLang === 'en-US' ? 'bg-indigo-600 text-white' : 'text-white/20 hover:text-white/40'}`}>EN</button>
-                  <button onClick={() => setChatLang('ta-IN')} className={`px-4 md:px-5 py-1.5 md:py-2 text-[10px] font-black rounded-xl transition-all ${chatLang === 'ta-IN' ? 'bg-indigo-600 text-white' : 'text-white/20 hover:text-white/40'}`}>TA</button>
+                  {(Object.keys(LOCALES) as Locale[]).map(code => (
+                    <button key={code} onClick={() => setLocale(code)} className={`px-2.5 md:px-4 py-1.5 md:py-2 text-[10px] font-black rounded-xl transition-all ${locale === code ? 'bg-indigo-600 text-white' : 'text-white/20 hover:text-white/40'}`}>{code.toUpperCase()}</button>
+                  ))}
                 </div>
                 <button onClick={() => setIsChatOpen(false)} className="w-10 h-10 md:w-12 md:h-12 flex items-center justify-center bg-white/10 hover:bg-white/20 rounded-full text-white/60 p-2 transition-all">✕</button>
               </div>
@@ -2393,7 +4152,7 @@ const handleShopSelect = async (shop: Shop) => {
                 {chatHistory.map(m => (
                   <div key={m.id} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-2 duration-300`}>
                     <div className={`max-w-[92%] p-6 md:p-8 rounded-[1.5rem] md:rounded-[2.5rem] text-[14px] md:text-[15px] font-bold leading-relaxed shadow-2xl flex flex-col gap-3 ${m.role === 'user' ? 'bg-indigo-600 text-white rounded-br-none' : 'bg-white/10 text-white border border-white/10 rounded-bl-none shadow-black/40'}`}>
-                      {m.isThinking ? <p className="animate-pulse">Thinking...</p> : <p>{m.text}</p>}
+                      {m.isThinking ? <p className="animate-pulse">{t('chat.thinking')}</p> : <p className={m.isQueued ? 'text-white/50 italic' : ''}>{m.text}</p>}
                       {m.sources && m.sources.length > 0 && (
                         <div className="flex flex-wrap gap-2 pt-2 border-t border-white/10 mt-1">
                           {m.sources.map((src, idx) => (
@@ -2424,8 +4183,8 @@ const handleShopSelect = async (shop: Shop) => {
                     <span className="text-xl md:text-2xl">{isListening ? '⏹️' : '🎤'}</span>
                   </button>
                   <form onSubmit={(e) => { e.preventDefault(); handleChatSubmit(chatInput); }} className="flex-1 flex gap-3 md:gap-4">
-                    <input value={chatInput} onChange={e => setChatInput(e.target.value)} placeholder="Query grid..." className="flex-1 bg-white/10 border border-white/10 rounded-2xl md:rounded-3xl px-5 md:px-8 py-4 md:py-6 text-sm md:text-base text-white outline-none focus:border-indigo-500 shadow-inner" />
-                    <button type="submit" className="px-6 md:px-12 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl md:rounded-3xl font-black text-[12px] md:text-[14px] uppercase shadow-lg transition-all active:scale-95">Send</button>
+                    <input value={chatInput} onChange={e => setChatInput(e.target.value)} placeholder={t('chat.placeholder')} className="flex-1 bg-white/10 border border-white/10 rounded-2xl md:rounded-3xl px-5 md:px-8 py-4 md:py-6 text-sm md:text-base text-white outline-none focus:border-indigo-500 shadow-inner" />
+                    <button type="submit" className="px-6 md:px-12 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl md:rounded-3xl font-black text-[12px] md:text-[14px] uppercase shadow-lg transition-all active:scale-95">{t('chat.send')}</button>
                   </form>
                 </div>
               </div>
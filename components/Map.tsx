@@ -1,20 +1,332 @@
 import React, { useEffect, useRef } from 'react';
-import { LatLng, Shop, VendorStatus } from '../types';
+import { LatLng, Sector, SectorShape, Shop, VendorStatus } from '../types';
+import { ShopCluster, clusterShops, cuisineMix, liveCount } from '../services/mapClusters';
+import { HeatmapSettings, heatSamples, interpolateAt, rampColor } from '../services/heatmap';
+import { RoutePlan } from '../services/routePlanner';
+import { CARTO_TILE_URL } from '../services/offlineShell';
+import { SECTOR_COLORS, SectorDrawMode, sectorColor } from '../services/sectors';
+import { haversineMeters } from '../services/geo';
+import { COMPETITOR_RADIUS_METERS, SiteCandidate } from '../services/siteSuitability';
+import { Translator } from '../services/i18n';
 
 interface MapProps {
   center: LatLng;
   shops: Shop[];
   onLocationChange: (loc: LatLng) => void;
   onShopClick: (shop: Shop) => void;
+  // Overlay surface interpolated across the shops; null hides it
+  heatmap?: HeatmapSettings | null;
+  // Planned food crawl: the walking path, stop order and per-leg times
+  route?: RoutePlan | null;
+  // Saved sectors, outlined with their names
+  sectors?: Sector[];
+  // While set, clicks outline a sector of this shape instead of moving the explorer
+  drawMode?: SectorDrawMode | null;
+  onSectorDrawn?: (shape: SectorShape) => void;
+  // Ranked stall spots from the Vendor Hub site finder, best first
+  sites?: SiteCandidate[];
+  // Badge text on the map ("3 live" on a cluster) in the UI language
+  t: Translator;
 }
 
 declare const L: any;
 
-const Map: React.FC<MapProps> = ({ center, shops, onLocationChange, onShopClick }) => {
+// Below this zoom, nodes that crowd the same screen cell merge into a cluster badge
+const CLUSTER_UNTIL_ZOOM = 16;
+const CLUSTER_CELL_PX = 80;
+// Markers just beyond the visible edge are kept so panning does not pop them in
+const VIEWPORT_PADDING = 0.25;
+// Screen pixels per heatmap sample; the browser smooths the upscaled canvas
+const HEAT_CELL_PX = 8;
+const HEAT_MAX_ALPHA = 190;
+// A circle is only accepted once its edge is this far from the centre
+const MIN_SECTOR_RADIUS_M = 50;
+// Clicks this close on screen count as the same corner, or as closing the outline
+const SNAP_PX = 8;
+const NO_SECTORS: Sector[] = [];
+const NO_SITES: SiteCandidate[] = [];
+
+interface MarkerEntry {
+  marker: any;
+  // Everything the icon is drawn from; the icon is only rebuilt when this changes
+  signature: string;
+  shop?: Shop;
+  cluster?: ShopCluster;
+}
+
+const TRUCK_SVG = `
+  <svg class="truck-svg" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+    <path d="M20,8H17V4H3C1.89,4 1,4.89 1,6V17H3A3,3 0 0,0 6,20A3,3 0 0,0 9,17H15A3,3 0 0,0 18,20A3,3 0 0,0 21,17H23V12L20,8M6,18.5A1.5,1.5 0 0,1 4.5,17A1.5,1.5 0 0,1 6,15.5A1.5,1.5 0 0,1 7.5,17A1.5,1.5 0 0,1 6,18.5M17,12V9.5H19.5L21.47,12H17M18,18.5A1.5,1.5 0 0,1 16.5,17A1.5,1.5 0 0,1 18,15.5A1.5,1.5 0 0,1 19.5,17A1.5,1.5 0 0,1 18,18.5Z" />
+  </svg>
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const shopLook = (shop: Shop) => {
+  const isOnline = shop.isVendor && shop.status === VendorStatus.ONLINE;
+  const isVendorOffline = shop.isVendor && shop.status === VendorStatus.OFFLINE;
+  const isAIsync = shop.id.startsWith('sync');
+
+  let truckColor = '#6366F1'; // Default Indigo
+  if (isOnline) {
+    truckColor = '#10B981'; // Live Green
+  } else if (isVendorOffline) {
+    truckColor = '#475569'; // Offline Gray
+  } else if (isAIsync) {
+    truckColor = '#D946EF'; // AI Pink/Magenta
+  }
+  return { isOnline, isVendorOffline, truckColor, zIndexOffset: isOnline ? 500 : (isAIsync ? 300 : 100) };
+};
+
+const shopSignature = (shop: Shop) => [shop.name, shop.emoji, shop.status, shop.isVendor, shop.id.startsWith('sync')].join('|');
+
+// Only a node appearing for the first time drops in; redraws and returns to the viewport do not replay it
+const shopIcon = (shop: Shop, dropIn: boolean) => {
+  const { isOnline, isVendorOffline, truckColor } = shopLook(shop);
+  return L.divIcon({
+    className: 'shop-marker-icon-wrap',
+    html: `
+      <div class="custom-marker-container ${isVendorOffline ? 'is-offline' : ''} ${dropIn ? 'is-new' : ''}">
+        <div class="marker-truck-badge" style="background: ${truckColor}; border-color: ${isOnline ? '#34D399' : 'rgba(255,255,255,0.6)'};">
+          ${TRUCK_SVG}
+          <span style="position: absolute; top: -8px; right: -8px; font-size: 18px; filter: drop-shadow(0 2px 4px rgba(0,0,0,0.5));">${shop.emoji || ''}</span>
+        </div>
+        <div class="marker-label">
+          ${escapeHtml(shop.name)}
+        </div>
+      </div>
+    `,
+    iconSize: [120, 80],
+    iconAnchor: [60, 60]
+  });
+};
+
+const liveLabel = (cluster: ShopCluster, t: Translator) => {
+  const live = liveCount(cluster.shops);
+  return live > 0 ? t('map.clusterLive', { count: live }) : '';
+};
+
+const clusterSignature = (cluster: ShopCluster, t: Translator) =>
+  `${cluster.shops.length}|${liveLabel(cluster, t)}|${cuisineMix(cluster.shops).map(m => `${m.cuisine}:${m.count}`).join(',')}`;
+
+// Count in the middle, cuisine mix as a ring, and the top cuisines spelled out underneath
+const clusterIcon = (cluster: ShopCluster, t: Translator) => {
+  const mix = cuisineMix(cluster.shops);
+  const total = cluster.shops.length;
+  let start = 0;
+  const ring = mix.map(m => {
+    const end = start + (m.count / total) * 360;
+    const stop = `${m.color} ${start}deg ${end}deg`;
+    start = end;
+    return stop;
+  }).join(', ');
+  const live = liveLabel(cluster, t);
+  const size = Math.min(72, 44 + Math.round(Math.log2(total) * 6));
+  return L.divIcon({
+    className: 'shop-marker-icon-wrap',
+    html: `
+      <div class="cluster-marker">
+        <div class="cluster-ring" style="width: ${size}px; height: ${size}px; background: conic-gradient(${ring});">
+          <div class="cluster-count">${total}</div>
+          ${live ? `<span class="cluster-live">${escapeHtml(live)}</span>` : ''}
+        </div>
+        <div class="marker-label">${mix.slice(0, 2).map(m => escapeHtml(m.cuisine)).join(' · ')}${mix.length > 2 ? ` +${mix.length - 2}` : ''}</div>
+      </div>
+    `,
+    iconSize: [140, size + 30],
+    iconAnchor: [70, size / 2]
+  });
+};
+
+const Map: React.FC<MapProps> = ({ center, shops, onLocationChange, onShopClick, heatmap = null, route = null, sectors = NO_SECTORS, drawMode = null, onSectorDrawn, sites = NO_SITES, t }) => {
   const mapRef = useRef<any>(null);
   const userMarkerRef = useRef<any>(null);
   const shopMarkersGroupRef = useRef<any>(null);
+  const trailsGroupRef = useRef<any>(null);
+  const routeGroupRef = useRef<any>(null);
+  const sectorsGroupRef = useRef<any>(null);
+  const draftGroupRef = useRef<any>(null);
+  const sitesGroupRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Markers and trails on the map, keyed by shop id (or cluster cell id)
+  const markersRef = useRef<Record<string, MarkerEntry>>({});
+  const trailsRef = useRef<Record<string, any>>({});
+  const seenShopIdsRef = useRef(new Set<string>());
+  // Read by map event handlers registered once at mount
+  const shopsRef = useRef(shops);
+  const onShopClickRef = useRef(onShopClick);
+  const heatmapRef = useRef(heatmap);
+  const heatOverlayRef = useRef<any>(null);
+  const drawModeRef = useRef(drawMode);
+  const onSectorDrawnRef = useRef(onSectorDrawn);
+  const tRef = useRef(t);
+  // Corners (or the centre) of the sector being drawn
+  const draftPointsRef = useRef<LatLng[]>([]);
+  shopsRef.current = shops;
+  onShopClickRef.current = onShopClick;
+  heatmapRef.current = heatmap;
+  drawModeRef.current = drawMode;
+  tRef.current = t;
+  onSectorDrawnRef.current = onSectorDrawn;
+
+  // The outline in progress, with a rubber-band edge to the cursor
+  const renderDraft = (cursor?: LatLng) => {
+    const group = draftGroupRef.current;
+    if (!group) return;
+    group.clearLayers();
+    const points = draftPointsRef.current;
+    const mode = drawModeRef.current;
+    if (!mode || points.length === 0) return;
+    const ink = SECTOR_COLORS[0].map;
+    if (mode === 'circle') {
+      L.circle([points[0].lat, points[0].lng], {
+        radius: haversineMeters(points[0], cursor ?? points[0]),
+        color: ink, weight: 2, dashArray: '6 6', fillOpacity: 0.1, interactive: false
+      }).addTo(group);
+      return;
+    }
+    const path = cursor ? [...points, cursor] : points;
+    L.polyline(path.map(p => [p.lat, p.lng]), { color: ink, weight: 2, dashArray: '6 6', interactive: false }).addTo(group);
+    points.forEach(p => L.circleMarker([p.lat, p.lng], { radius: 4, color: ink, weight: 2, fillOpacity: 1, interactive: false }).addTo(group));
+  };
+
+  const finishDraft = (shape: SectorShape) => {
+    draftPointsRef.current = [];
+    renderDraft();
+    onSectorDrawnRef.current?.(shape);
+  };
+
+  const screenDistance = (a: LatLng, b: LatLng) =>
+    mapRef.current.latLngToContainerPoint([a.lat, a.lng]).distanceTo(mapRef.current.latLngToContainerPoint([b.lat, b.lng]));
+
+  const closePolygon = () => {
+    if (drawModeRef.current !== 'polygon' || draftPointsRef.current.length < 3) return;
+    finishDraft({ kind: 'polygon', points: draftPointsRef.current });
+  };
+
+  // Circle: centre, then a point on the edge. Polygon: corners, closed by a double-click or a click on the first corner.
+  const addDraftPoint = (point: LatLng) => {
+    const points = draftPointsRef.current;
+    if (drawModeRef.current === 'circle') {
+      if (points.length === 0) {
+        draftPointsRef.current = [point];
+        renderDraft(point);
+        return;
+      }
+      const radiusMeters = haversineMeters(points[0], point);
+      if (radiusMeters >= MIN_SECTOR_RADIUS_M) finishDraft({ kind: 'circle', center: points[0], radiusMeters: Math.round(radiusMeters) });
+      return;
+    }
+    if (points.length >= 3 && screenDistance(points[0], point) < SNAP_PX) {
+      closePolygon();
+      return;
+    }
+    // A double-click lands two clicks on the same spot before it fires
+    const last = points[points.length - 1];
+    if (last && screenDistance(last, point) < SNAP_PX) return;
+    draftPointsRef.current = [...points, point];
+    renderDraft(point);
+  };
+
+  // Rasterises the surface for the current viewport only, so it is redrawn after every move
+  const renderHeatmap = () => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (heatOverlayRef.current) {
+      map.removeLayer(heatOverlayRef.current);
+      heatOverlayRef.current = null;
+    }
+    const settings = heatmapRef.current;
+    if (!settings) return;
+    const samples = heatSamples(shopsRef.current, settings);
+    if (samples.length === 0) return;
+
+    const size = map.getSize();
+    const cols = Math.ceil(size.x / HEAT_CELL_PX);
+    const rows = Math.ceil(size.y / HEAT_CELL_PX);
+    const canvas = document.createElement('canvas');
+    canvas.width = cols;
+    canvas.height = rows;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.createImageData(cols, rows);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const point = map.containerPointToLatLng([(x + 0.5) * HEAT_CELL_PX, (y + 0.5) * HEAT_CELL_PX]);
+        const reading = interpolateAt(samples, { lat: point.lat, lng: point.lng });
+        if (!reading) continue;
+        const [r, g, b] = rampColor(settings.layer, reading.value);
+        const offset = (y * cols + x) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = Math.round(HEAT_MAX_ALPHA * Math.sqrt(reading.coverage));
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+    const bounds = L.latLngBounds(map.containerPointToLatLng([0, 0]), map.containerPointToLatLng([cols * HEAT_CELL_PX, rows * HEAT_CELL_PX]));
+    heatOverlayRef.current = L.imageOverlay(canvas.toDataURL(), bounds, { className: 'heat-overlay', interactive: false }).addTo(map);
+  };
+
+  const renderMarkers = () => {
+    const map = mapRef.current;
+    const group = shopMarkersGroupRef.current;
+    if (!map || !group) return;
+    const zoom = map.getZoom();
+    const bounds = map.getBounds().pad(VIEWPORT_PADDING);
+    const visible = shopsRef.current.filter(shop => bounds.contains([shop.coords.lat, shop.coords.lng]));
+    const clusters: ShopCluster[] = zoom >= CLUSTER_UNTIL_ZOOM
+      ? visible.map(shop => ({ id: shop.id, shops: [shop], center: shop.coords }))
+      : clusterShops(visible, c => map.project([c.lat, c.lng], zoom), CLUSTER_CELL_PX, zoom);
+
+    const entries = markersRef.current;
+    const keep = new Set<string>();
+    clusters.forEach(cluster => {
+      keep.add(cluster.id);
+      const existing = entries[cluster.id];
+      const position = [cluster.center.lat, cluster.center.lng];
+      const isSingle = cluster.shops.length === 1;
+      const signature = isSingle ? shopSignature(cluster.shops[0]) : clusterSignature(cluster, tRef.current);
+
+      if (existing) {
+        existing.shop = isSingle ? cluster.shops[0] : undefined;
+        existing.cluster = isSingle ? undefined : cluster;
+        const current = existing.marker.getLatLng();
+        if (current.lat !== cluster.center.lat || current.lng !== cluster.center.lng) existing.marker.setLatLng(position);
+        if (existing.signature !== signature) {
+          existing.signature = signature;
+          existing.marker.setIcon(isSingle ? shopIcon(cluster.shops[0], false) : clusterIcon(cluster, tRef.current));
+          if (isSingle) existing.marker.setZIndexOffset(shopLook(cluster.shops[0]).zIndexOffset);
+        }
+        return;
+      }
+
+      let entry: MarkerEntry;
+      if (isSingle) {
+        const shop = cluster.shops[0];
+        const dropIn = !seenShopIdsRef.current.has(shop.id);
+        seenShopIdsRef.current.add(shop.id);
+        entry = { signature, shop, marker: L.marker(position, { icon: shopIcon(shop, dropIn), zIndexOffset: shopLook(shop).zIndexOffset }) };
+        entry.marker.on('click', () => entry.shop && onShopClickRef.current(entry.shop));
+      } else {
+        entry = { signature, cluster, marker: L.marker(position, { icon: clusterIcon(cluster, tRef.current), zIndexOffset: 400 }) };
+        entry.marker.on('click', () => {
+          if (!entry.cluster) return;
+          const memberBounds = L.latLngBounds(entry.cluster.shops.map(s => [s.coords.lat, s.coords.lng]));
+          map.fitBounds(memberBounds, { padding: [80, 80], maxZoom: CLUSTER_UNTIL_ZOOM });
+        });
+      }
+      group.addLayer(entry.marker);
+      entries[cluster.id] = entry;
+    });
+
+    Object.keys(entries).forEach(id => {
+      if (keep.has(id)) return;
+      group.removeLayer(entries[id].marker);
+      delete entries[id];
+    });
+  };
 
   useEffect(() => {
     if (!containerRef.current || mapRef.current) return;
@@ -24,8 +336,16 @@ const Map: React.FC<MapProps> = ({ center, shops, onLocationChange, onShopClick
       attributionControl: false
     }).setView([center.lat, center.lng], 13);
 
-    L.tileLayer('https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png').addTo(mapRef.current);
+    L.tileLayer(CARTO_TILE_URL).addTo(mapRef.current);
+    sectorsGroupRef.current = L.layerGroup().addTo(mapRef.current);
+    trailsGroupRef.current = L.layerGroup().addTo(mapRef.current);
+    routeGroupRef.current = L.layerGroup().addTo(mapRef.current);
+    sitesGroupRef.current = L.layerGroup().addTo(mapRef.current);
     shopMarkersGroupRef.current = L.layerGroup().addTo(mapRef.current);
+    draftGroupRef.current = L.layerGroup().addTo(mapRef.current);
+    // Fires after both pans and zooms, which change the viewport and the clustering
+    mapRef.current.on('moveend', renderMarkers);
+    mapRef.current.on('moveend', renderHeatmap);
 
     // Global style for markers - Truck Icon Design
     const style = document.createElement('style');
@@ -40,11 +360,139 @@ const Map: React.FC<MapProps> = ({ center, shops, onLocationChange, onShopClick
         display: flex;
         flex-direction: column;
         align-items: center;
-        animation: pinDrop 0.6s cubic-bezier(0.175, 0.885, 0.32, 1.275) forwards;
         filter: invert(1) hue-rotate(180deg) brightness(0.7) contrast(1.2); /* Counter-act map inversion */
         overflow: visible !important;
       }
 
+      .custom-marker-container.is-new {
+        animation: pinDrop 0.6s cubic-bezier(0.175, 0.885, 0.32, 1.275) forwards;
+      }
+
+      /* Heatmap overlay, drawn in true colours */
+      .heat-overlay {
+        filter: invert(1) hue-rotate(180deg); /* Counter-act map inversion */
+      }
+
+      /* Food Crawl Route */
+      .route-stop-badge {
+        width: 26px;
+        height: 26px;
+        border-radius: 50%;
+        background: #F59E0B;
+        border: 2px solid white;
+        color: #0F172A;
+        font-weight: 900;
+        font-size: 12px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        box-shadow: 0 4px 12px rgba(0,0,0,0.5);
+        filter: invert(1) hue-rotate(180deg); /* Counter-act map inversion */
+      }
+
+      .sector-label {
+        width: max-content;
+        max-width: 160px;
+        margin: 0 auto;
+        background: rgba(15, 23, 42, 0.85);
+        border: 1px solid;
+        border-radius: 8px;
+        padding: 2px 8px;
+        font-size: 10px;
+        font-weight: 900;
+        text-transform: uppercase;
+        letter-spacing: 0.08em;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        filter: invert(1) hue-rotate(180deg);
+        pointer-events: none;
+      }
+
+      .leaflet-container.is-drawing-sector,
+      .leaflet-container.is-drawing-sector .leaflet-interactive {
+        cursor: crosshair;
+      }
+
+      /* Site Finder suggestions */
+      .site-badge {
+        width: max-content;
+        margin: 0 auto;
+        background: #10B981;
+        border: 2px solid white;
+        border-radius: 10px;
+        padding: 2px 8px;
+        color: #022C22;
+        font-size: 11px;
+        font-weight: 900;
+        white-space: nowrap;
+        box-shadow: 0 4px 12px rgba(0,0,0,0.5);
+        filter: invert(1) hue-rotate(180deg); /* Counter-act map inversion */
+      }
+
+      .route-leg-label {
+        background: rgba(15, 23, 42, 0.9);
+        color: #FDE68A;
+        border: 1px solid #F59E0B;
+        border-radius: 8px;
+        padding: 2px 8px;
+        font-size: 10px;
+        font-weight: 800;
+        white-space: nowrap;
+        filter: invert(1) hue-rotate(180deg);
+        pointer-events: none;
+      }
+
+      /* Cluster Badges */
+      .cluster-marker {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        filter: invert(1) hue-rotate(180deg) brightness(0.8) contrast(1.2);
+        cursor: pointer;
+      }
+
+      .cluster-ring {
+        border-radius: 50%;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        position: relative;
+        box-shadow: 0 4px 16px rgba(0,0,0,0.5);
+        transition: transform 0.2s cubic-bezier(0.4, 0, 0.2, 1);
+      }
+
+      .cluster-marker:hover .cluster-ring {
+        transform: scale(1.1);
+      }
+
+      .cluster-count {
+        width: 70%;
+        height: 70%;
+        border-radius: 50%;
+        background: rgba(15, 23, 42, 0.95);
+        color: #F8FAFC;
+        font-weight: 900;
+        font-size: 14px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      }
+
+      .cluster-live {
+        position: absolute;
+        top: -6px;
+        right: -14px;
+        background: #10B981;
+        color: white;
+        font-size: 9px;
+        font-weight: 900;
+        text-transform: uppercase;
+        padding: 2px 6px;
+        border-radius: 8px;
+        white-space: nowrap;
+      }
+
       .custom-marker-container.is-offline {
         opacity: 0.6;
         filter: invert(1) hue-rotate(180deg) grayscale(0.8);
@@ -142,68 +590,149 @@ const Map: React.FC<MapProps> = ({ center, shops, onLocationChange, onShopClick
 
     mapRef.current.on('click', (e: any) => {
       const pos = e.latlng;
+      if (drawModeRef.current) {
+        addDraftPoint({ lat: pos.lat, lng: pos.lng });
+        return;
+      }
       userMarkerRef.current.setLatLng(pos);
       onLocationChange({ lat: pos.lat, lng: pos.lng });
     });
 
+    mapRef.current.on('mousemove', (e: any) => {
+      if (drawModeRef.current && draftPointsRef.current.length > 0) renderDraft({ lat: e.latlng.lat, lng: e.latlng.lng });
+    });
+    mapRef.current.on('dblclick', closePolygon);
+
     return () => {
       if (mapRef.current) {
         mapRef.current.remove();
         mapRef.current = null;
       }
+      // The layers went with the map; a remount starts from an empty map
+      heatOverlayRef.current = null;
+      markersRef.current = {};
+      trailsRef.current = {};
+      seenShopIdsRef.current.clear();
     };
   }, []);
 
   useEffect(() => {
-    if (!mapRef.current || !shopMarkersGroupRef.current) return;
-    shopMarkersGroupRef.current.clearLayers();
+    if (!mapRef.current || !trailsGroupRef.current) return;
 
-    shops.forEach(shop => {
-      const isOnline = shop.isVendor && shop.status === VendorStatus.ONLINE;
-      const isVendorOffline = shop.isVendor && shop.status === VendorStatus.OFFLINE;
-      const isAIsync = shop.id.startsWith('sync');
-      
-      let truckColor = '#6366F1'; // Default Indigo
-      if (isOnline) {
-        truckColor = '#10B981'; // Live Green
-      } else if (isVendorOffline) {
-        truckColor = '#475569'; // Offline Gray
-      } else if (isAIsync) {
-        truckColor = '#D946EF'; // AI Pink/Magenta
-      }
-
-      const truckSvg = `
-        <svg class="truck-svg" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-          <path d="M20,8H17V4H3C1.89,4 1,4.89 1,6V17H3A3,3 0 0,0 6,20A3,3 0 0,0 9,17H15A3,3 0 0,0 18,20A3,3 0 0,0 21,17H23V12L20,8M6,18.5A1.5,1.5 0 0,1 4.5,17A1.5,1.5 0 0,1 6,15.5A1.5,1.5 0 0,1 7.5,17A1.5,1.5 0 0,1 6,18.5M17,12V9.5H19.5L21.47,12H17M18,18.5A1.5,1.5 0 0,1 16.5,17A1.5,1.5 0 0,1 18,15.5A1.5,1.5 0 0,1 19.5,17A1.5,1.5 0 0,1 18,18.5Z" />
-        </svg>
-      `;
-
-      const markerHtml = `
-        <div class="custom-marker-container ${isVendorOffline ? 'is-offline' : ''}">
-          <div class="marker-truck-badge" style="background: ${truckColor}; border-color: ${isOnline ? '#34D399' : 'rgba(255,255,255,0.6)'};">
-            ${truckSvg}
-            <span style="position: absolute; top: -8px; right: -8px; font-size: 18px; filter: drop-shadow(0 2px 4px rgba(0,0,0,0.5));">${shop.emoji || ''}</span>
-          </div>
-          <div class="marker-label">
-            ${shop.name}
-          </div>
-        </div>
-      `;
-
-      const marker = L.marker([shop.coords.lat, shop.coords.lng], {
-        icon: L.divIcon({
-          className: 'shop-marker-icon-wrap',
-          html: markerHtml,
-          iconSize: [120, 80],
-          iconAnchor: [60, 60]
-        }),
-        zIndexOffset: isOnline ? 500 : (isAIsync ? 300 : 100)
-      })
-      .on('click', () => onShopClick(shop));
-      
-      shopMarkersGroupRef.current.addLayer(marker);
+    // Breadcrumb trails of tracked vendors (light emerald renders as live green under the inverted tiles)
+    const trails = trailsRef.current;
+    const tracked = shops.filter(shop => shop.trail && shop.trail.length > 1);
+    tracked.forEach(shop => {
+      const points = shop.trail!.map(p => [p.lat, p.lng]);
+      if (trails[shop.id]) {
+        trails[shop.id].setLatLngs(points);
+        return;
+      }
+      trails[shop.id] = L.polyline(points, {
+        color: '#6EE7B7',
+        weight: 4,
+        opacity: 0.8,
+        dashArray: '6 8',
+        lineCap: 'round'
+      }).addTo(trailsGroupRef.current);
     });
-  }, [shops]);
+    Object.keys(trails).forEach(id => {
+      if (tracked.some(shop => shop.id === id)) return;
+      trailsGroupRef.current.removeLayer(trails[id]);
+      delete trails[id];
+    });
+
+    renderMarkers();
+  }, [shops, t]);
+
+  useEffect(() => {
+    const group = routeGroupRef.current;
+    if (!mapRef.current || !group) return;
+    group.clearLayers();
+    if (!route || route.legs.length === 0) return;
+
+    // Dark amber renders as bright amber under the inverted tiles; unrouted legs are dotted
+    route.legs.forEach(leg => {
+      L.polyline(leg.path.map(p => [p.lat, p.lng]), {
+        color: '#B45309',
+        weight: 5,
+        opacity: 0.85,
+        dashArray: leg.routed ? undefined : '2 10',
+        lineCap: 'round'
+      }).addTo(group);
+      const mid = leg.path[Math.floor(leg.path.length / 2)];
+      const midpoint = leg.path.length > 2 ? mid : { lat: (leg.from.lat + leg.to.lat) / 2, lng: (leg.from.lng + leg.to.lng) / 2 };
+      L.marker([midpoint.lat, midpoint.lng], {
+        interactive: false,
+        icon: L.divIcon({ className: '', html: `<div class="route-leg-label">${Math.max(1, Math.round(leg.minutes))} min</div>`, iconSize: [60, 20], iconAnchor: [30, 10] })
+      }).addTo(group);
+    });
+    route.stops.forEach((stop, i) => {
+      L.marker([stop.shop.coords.lat, stop.shop.coords.lng], {
+        interactive: false,
+        zIndexOffset: 2000,
+        icon: L.divIcon({ className: '', html: `<div class="route-stop-badge">${i + 1}</div>`, iconSize: [26, 26], iconAnchor: [13, 70] })
+      }).addTo(group);
+    });
+  }, [route]);
+
+  useEffect(() => {
+    renderHeatmap();
+  }, [shops, heatmap?.layer, heatmap?.period]);
+
+  // Each suggestion is a ranked badge over a faint ring of the competitor radius it was judged on
+  useEffect(() => {
+    const group = sitesGroupRef.current;
+    if (!mapRef.current || !group) return;
+    group.clearLayers();
+    sites.forEach((site, i) => {
+      L.circle([site.coords.lat, site.coords.lng], {
+        radius: COMPETITOR_RADIUS_METERS,
+        color: '#065F46',
+        weight: 1,
+        opacity: 0.6,
+        dashArray: '4 6',
+        fillColor: '#065F46',
+        fillOpacity: 0.05,
+        interactive: false
+      }).addTo(group);
+      L.marker([site.coords.lat, site.coords.lng], {
+        interactive: false,
+        zIndexOffset: 1500,
+        icon: L.divIcon({ className: '', html: `<div class="site-badge">#${i + 1} · ${site.score}</div>`, iconSize: [70, 22], iconAnchor: [35, 11] })
+      }).addTo(group);
+    });
+  }, [sites]);
+
+  useEffect(() => {
+    const group = sectorsGroupRef.current;
+    if (!mapRef.current || !group) return;
+    group.clearLayers();
+    sectors.forEach(sector => {
+      const { map: ink, swatch } = sectorColor(sector);
+      const style = { color: ink, weight: 2, opacity: 0.9, fillColor: ink, fillOpacity: 0.08, interactive: false };
+      const { shape } = sector;
+      const outline = shape.kind === 'circle'
+        ? L.circle([shape.center.lat, shape.center.lng], { ...style, radius: shape.radiusMeters })
+        : L.polygon(shape.points.map(p => [p.lat, p.lng]), style);
+      outline.addTo(group);
+      L.marker(outline.getBounds().getCenter(), {
+        interactive: false,
+        icon: L.divIcon({ className: '', html: `<div class="sector-label" style="color: ${swatch}; border-color: ${swatch};">${escapeHtml(sector.name)}</div>`, iconSize: [120, 20], iconAnchor: [60, 10] })
+      }).addTo(group);
+    });
+  }, [sectors]);
+
+  // Switching modes drops any half-drawn outline; double-click zoom would eat the polygon's closing click
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    draftPointsRef.current = [];
+    renderDraft();
+    if (drawMode) map.doubleClickZoom.disable();
+    else map.doubleClickZoom.enable();
+    containerRef.current?.classList.toggle('is-drawing-sector', !!drawMode);
+  }, [drawMode]);
 
   useEffect(() => {
     if (mapRef.current && center) {
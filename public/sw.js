@@ -0,0 +1,100 @@
+/**
+ * gStrEats service worker
+ * - App shell: the page and its CDN scripts are served network-first for
+ *   navigations and stale-while-revalidate otherwise, so the app opens offline.
+ * - Map tiles: CARTO tiles are cache-first and kept to the most recent
+ *   MAX_TILES, which covers the streets an explorer has looked at lately.
+ * The grid itself lives in IndexedDB and needs nothing from here.
+ */
+const SHELL_CACHE = 'gstreats-shell-v1';
+const TILE_CACHE = 'gstreats-tiles-v1';
+const MAX_TILES = 1500;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// Scripts and styles index.html loads from CDNs
+const SHELL_HOSTS = ['cdn.tailwindcss.com', 'unpkg.com', 'esm.sh'];
+const TILE_HOST = /^[a-d]\.basemaps\.cartocdn\.com$/;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== TILE_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Leaflet spreads tiles over the a-d subdomains; one cache entry serves them all
+const tileKey = url => {
+  const key = new URL(url);
+  key.hostname = 'a.basemaps.cartocdn.com';
+  return key.href;
+};
+
+// Cache keys come back in insertion order, so the oldest tiles go first
+const trimTiles = async () => {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map(key => cache.delete(key)));
+};
+
+const cacheTile = async (request) => {
+  const cache = await caches.open(TILE_CACHE);
+  const key = tileKey(request.url);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Tiles load as <img> without CORS, so most responses are opaque (status 0)
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(key, response.clone());
+    trimTiles();
+  }
+  return response;
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    return (await cache.match(request)) || (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (TILE_HOST.test(url.hostname)) {
+    event.respondWith(cacheTile(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin || SHELL_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+  // Everything else (model APIs, the live grid, routing) always goes to the network
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'prefetch-tiles' || !Array.isArray(event.data.urls)) return;
+  event.waitUntil(Promise.all(event.data.urls.map(url =>
+    cacheTile(new Request(url, { mode: 'no-cors' })).catch(() => null)
+  )));
+});
@@ -0,0 +1,334 @@
+import http from 'http';
+import path from 'path';
+import { WebSocketServer, WebSocket } from 'ws';
+import { LiveGridMessage, LiveVendor, MenuItem, Order, OrderLine, OrderStatus, Review, VendorProfile, VendorStatus } from '../types';
+import { toCoords } from '../services/schemaValidation';
+import { isOpenAt } from '../services/schedule';
+import { orderStatusName, canTransition, advanceOrder } from '../services/orderLifecycle';
+import { defaultVariant, unitPrice } from '../services/menuOptions';
+import { reserveStock, releaseStock } from '../services/inventory';
+import { openVendorStore } from './vendorStore';
+import { openOrderStore } from './orderStore';
+
+/**
+ * Live Grid Server
+ * REST endpoints to register hubs, toggle their signal and take orders, plus a
+ * WebSocket (/live) that streams every vendor and order change to all connected
+ * explorers and hubs.
+ *
+ *   GET    /api/vendors
+ *   PUT    /api/vendors/:id            body: VendorProfile
+ *   DELETE /api/vendors/:id
+ *   PUT    /api/vendors/:id/status     body: { status, coords? }
+ *   PUT    /api/vendors/:id/position   body: { coords }
+ *   PUT    /api/vendors/:id/heartbeat
+ *   POST   /api/vendors/:id/reviews    body: Review
+ *   GET    /api/vendors/:id/orders
+ *   POST   /api/vendors/:id/orders     body: Order
+ *   PUT    /api/vendors/:id/orders/:orderId/status   body: { status, note? }
+ */
+
+const PORT = Number(process.env.LIVE_GRID_PORT) || 8787;
+const STORE_PATH = process.env.LIVE_GRID_STORE || path.join(process.cwd(), 'server', 'data', 'vendors.json');
+const ORDERS_PATH = process.env.LIVE_GRID_ORDERS || path.join(process.cwd(), 'server', 'data', 'orders.json');
+// A live signal that stops reporting, or outlasts its hub's hours, is taken offline instead of lingering on every map.
+// Live hubs report at least every few minutes: positions while tracking, heartbeats while standing still.
+const STALE_AFTER_MS = 15 * 60 * 1000;
+const MAX_BODY_BYTES = 256 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const store = await openVendorStore(STORE_PATH);
+const orders = await openOrderStore(ORDERS_PATH);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Every endpoint takes a JSON object; null, arrays and bare values are rejected before any handler reads a field
+const readJsonBody = (req: http.IncomingMessage) => new Promise<Record<string, any>>((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      // Stop buffering; the connection is dropped once the 413 has gone out
+      req.removeAllListeners('data');
+      req.pause();
+      reject(new HttpError(413, 'Body too large.'));
+    }
+  });
+  req.on('end', () => {
+    let parsed: unknown;
+    try {
+      parsed = body ? JSON.parse(body) : {};
+    } catch {
+      return reject(new HttpError(400, 'Body is not valid JSON.'));
+    }
+    if (!isPlainObject(parsed)) return reject(new HttpError(400, 'Body must be a JSON object.'));
+    resolve(parsed);
+  });
+  req.on('error', reject);
+});
+
+const send = (res: http.ServerResponse, status: number, payload?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const requireCoords = (value: unknown) => {
+  const coords = toCoords(value);
+  if (!coords) throw new HttpError(400, 'coords must be a valid { lat, lng }.');
+  return coords;
+};
+
+// Offline explorers replay queued reviews, so the same id may arrive twice; the store keeps the first
+const requireReview = (value: any): Review => {
+  if (typeof value?.id !== 'string' || !value.id || typeof value.comment !== 'string' || !value.comment.trim()) {
+    throw new HttpError(400, 'Body must be a Review with an id and a comment.');
+  }
+  const rating = Number(value.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) throw new HttpError(400, 'rating must be a whole number from 1 to 5.');
+  return {
+    id: value.id,
+    author: typeof value.author === 'string' && value.author.trim() ? value.author.trim() : 'Anonymous',
+    rating,
+    comment: value.comment.trim(),
+    timestamp: typeof value.timestamp === 'string' ? value.timestamp : new Date().toLocaleDateString()
+  };
+};
+
+// Lines name what the hub's menu offers; the price the client sent is ignored and worked out from the menu
+const requireOrderLine = (value: any, index: number, menu: MenuItem[]): OrderLine => {
+  const quantity = Number(value?.quantity);
+  if (typeof value?.name !== 'string' || !value.name.trim() || !Number.isInteger(quantity) || quantity < 1) {
+    throw new HttpError(400, `items[${index}] must have a name and a whole quantity of at least 1.`);
+  }
+  const item = menu.find(m => m.name === value.name.trim());
+  if (!item) throw new HttpError(400, `items[${index}]: ${value.name} is not on the menu.`);
+  if (value.variant !== undefined && (typeof value.variant !== 'string' || !item.variants?.some(v => v.name === value.variant))) {
+    throw new HttpError(400, `items[${index}]: ${item.name} has no variant ${value.variant}.`);
+  }
+  const variant: string | undefined = value.variant ?? defaultVariant(item)?.name;
+  const modifiers = value.modifiers === undefined ? [] : value.modifiers;
+  if (!Array.isArray(modifiers)) throw new HttpError(400, `items[${index}].modifiers must be a list of add-on names.`);
+  const unknown = modifiers.find(m => typeof m !== 'string' || !item.modifiers?.some(o => o.name === m));
+  if (unknown !== undefined) throw new HttpError(400, `items[${index}]: ${item.name} has no add-on ${unknown}.`);
+  const picked = [...new Set<string>(modifiers)].sort();
+  return {
+    name: item.name,
+    ...(variant ? { variant } : {}),
+    ...(picked.length ? { modifiers: picked } : {}),
+    quantity,
+    price: unitPrice(item, variant, picked)
+  };
+};
+
+// Every order starts out placed at the hub named in the URL, whatever the body claims, and is priced from its menu
+const requireOrder = (value: Record<string, any>, vendor: LiveVendor): Order => {
+  if (typeof value.id !== 'string' || !value.id || typeof value.customer !== 'string' || !value.customer.trim()) {
+    throw new HttpError(400, 'Body must be an Order with an id and a customer.');
+  }
+  if (!Array.isArray(value.items) || value.items.length === 0) throw new HttpError(400, 'items must list at least one line.');
+  const items = value.items.map((line: unknown, i: number) => requireOrderLine(line, i, vendor.profile.menu || []));
+  const now = Date.now();
+  const placedAt = Number.isFinite(value.placedAt) && value.placedAt <= now ? value.placedAt : now;
+  return {
+    id: value.id,
+    shopId: typeof value.shopId === 'string' && value.shopId ? value.shopId : `live-${vendor.profile.id}`,
+    profileId: vendor.profile.id,
+    shopName: vendor.profile.name,
+    customer: value.customer.trim(),
+    items,
+    totalPrice: items.reduce((sum, it) => sum + it.price * it.quantity, 0),
+    status: OrderStatus.PLACED,
+    placedAt,
+    updatedAt: now,
+    history: [{ status: OrderStatus.PLACED, at: placedAt }]
+  };
+};
+
+// Malformed percent-escapes in the path are the client's mistake, not a server error
+const decodePathSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Path segment ${segment} is not valid percent-encoding.`);
+  }
+};
+
+const requireVendor = (vendor: LiveVendor | undefined, id: string) => {
+  if (!vendor) throw new HttpError(404, `Vendor ${id} is not registered.`);
+  return vendor;
+};
+
+// --- Broadcast ---
+
+const server = http.createServer();
+const wss = new WebSocketServer({ server, path: '/live' });
+
+const broadcast = (message: LiveGridMessage) => {
+  const data = JSON.stringify(message);
+  wss.clients.forEach(client => {
+    if (client.readyState === WebSocket.OPEN) client.send(data);
+  });
+};
+
+const publish = (vendor: LiveVendor) => {
+  broadcast({ type: 'vendor', vendor });
+  return vendor;
+};
+
+const publishOrder = (order: Order) => {
+  broadcast({ type: 'order', order });
+  return order;
+};
+
+wss.on('connection', socket => {
+  socket.send(JSON.stringify({ type: 'snapshot', vendors: store.list() } satisfies LiveGridMessage));
+
+  // Vendors on the move stream positions over the socket rather than one PUT per fix
+  socket.on('message', data => {
+    try {
+      const message = JSON.parse(String(data));
+      if (typeof message?.id !== 'string') return;
+      // A heartbeat changes nothing other explorers see, so it is not broadcast
+      if (message.type === 'heartbeat') return void store.touch(message.id);
+      if (message.type !== 'position') return;
+      const coords = toCoords(message.coords);
+      const vendor = coords && store.setPosition(message.id, coords);
+      if (vendor) publish(vendor);
+    } catch {
+      // Malformed frames are dropped; the client falls back to REST on its next update
+    }
+  });
+});
+
+// --- REST ---
+
+const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const [, api, resource, id, action, orderId, orderAction] = url.pathname.split('/');
+  if (api !== 'api' || resource !== 'vendors') throw new HttpError(404, 'Not found.');
+
+  if (!id) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed.');
+    return send(res, 200, store.list());
+  }
+
+  const vendorId = decodePathSegment(id);
+  if (!action) {
+    if (req.method === 'GET') return send(res, 200, requireVendor(store.get(vendorId), vendorId));
+    if (req.method === 'DELETE') {
+      if (!store.remove(vendorId)) throw new HttpError(404, `Vendor ${vendorId} is not registered.`);
+      orders.removeFor(vendorId);
+      broadcast({ type: 'removed', id: vendorId });
+      return send(res, 204);
+    }
+    if (req.method === 'PUT') {
+      const profile = await readJsonBody(req);
+      if (profile?.id !== vendorId || typeof profile.name !== 'string' || !profile.name.trim()) {
+        throw new HttpError(400, 'Body must be a VendorProfile whose id matches the URL.');
+      }
+      if (!Array.isArray(profile.schedule?.days) || profile.schedule.days.length !== 7) {
+        throw new HttpError(400, 'schedule.days must list the intervals for all 7 weekdays.');
+      }
+      return send(res, 200, publish(store.register(profile as VendorProfile)));
+    }
+    throw new HttpError(405, 'Method not allowed.');
+  }
+
+  if (action === 'reviews') {
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.');
+    const review = requireReview(await readJsonBody(req));
+    return send(res, 200, publish(requireVendor(store.addReview(vendorId, review), vendorId)));
+  }
+
+  if (action === 'orders') {
+    if (!orderId) {
+      if (req.method === 'GET') return send(res, 200, orders.listFor(vendorId));
+      if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.');
+      const vendor = requireVendor(store.get(vendorId), vendorId);
+      const order = requireOrder(await readJsonBody(req), vendor);
+      // A replayed order has already held its stock
+      const placed = orders.get(vendorId, order.id);
+      if (placed) return send(res, 200, placed);
+      // Explorers may still be looking at an older menu, so stock is checked here as well as on their device
+      const { menu, shortfalls } = reserveStock(vendor.profile.menu || [], order.items);
+      if (shortfalls.length > 0) throw new HttpError(409, `Not enough stock left for: ${shortfalls.join(', ')}.`);
+      publish(requireVendor(store.setMenu(vendorId, menu), vendorId));
+      return send(res, 200, publishOrder(orders.place(order)));
+    }
+    if (orderAction !== 'status') throw new HttpError(404, 'Not found.');
+    if (req.method !== 'PUT') throw new HttpError(405, 'Method not allowed.');
+    const body = await readJsonBody(req);
+    const order = orders.get(vendorId, decodePathSegment(orderId));
+    if (!order) throw new HttpError(404, `Order ${orderId} is not on file for vendor ${vendorId}.`);
+    const next = body.status as OrderStatus;
+    if (!Object.values(OrderStatus).includes(next)) throw new HttpError(400, `status must be one of ${Object.values(OrderStatus).join(', ')}.`);
+    // A replayed change that already went through is not an error
+    if (order.status === next) return send(res, 200, order);
+    // The explorer and the hub can race, e.g. a cancel against an accept; the first one wins
+    if (!canTransition(order, next)) {
+      throw new HttpError(409, `Order ${order.id} is already ${orderStatusName(order.status)} and cannot become ${orderStatusName(next)}.`);
+    }
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined;
+    const vendor = store.get(vendorId);
+    const released = next === OrderStatus.CANCELLED && vendor ? store.setMenu(vendorId, releaseStock(vendor.profile.menu || [], order.items)) : undefined;
+    if (released) publish(released);
+    return send(res, 200, publishOrder(orders.update(advanceOrder(order, next, note))));
+  }
+
+  if (req.method !== 'PUT') throw new HttpError(405, 'Method not allowed.');
+  const body = await readJsonBody(req);
+
+  if (action === 'status') {
+    if (body.status !== VendorStatus.ONLINE && body.status !== VendorStatus.OFFLINE) {
+      throw new HttpError(400, `status must be "${VendorStatus.ONLINE}" or "${VendorStatus.OFFLINE}".`);
+    }
+    const coords = body.coords === undefined ? undefined : requireCoords(body.coords);
+    return send(res, 200, publish(requireVendor(store.setStatus(vendorId, body.status, coords), vendorId)));
+  }
+  if (action === 'heartbeat') {
+    return send(res, 200, requireVendor(store.touch(vendorId), vendorId));
+  }
+  if (action === 'position') {
+    return send(res, 200, publish(requireVendor(store.setPosition(vendorId, requireCoords(body.coords)), vendorId)));
+  }
+  throw new HttpError(404, 'Not found.');
+};
+
+server.on('request', (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  route(req, res).catch(err => {
+    if (err instanceof HttpError) {
+      // The rest of an oversized upload is never read
+      if (err.status === 413) res.on('finish', () => req.destroy());
+      return send(res, err.status, { error: err.message });
+    }
+    console.error('Live grid request failed:', err);
+    send(res, 500, { error: 'Internal error.' });
+  });
+});
+
+setInterval(() => {
+  const now = new Date();
+  const cutoff = now.getTime() - STALE_AFTER_MS;
+  store.list()
+    .filter(v => v.status === VendorStatus.ONLINE && (v.updatedAt < cutoff || (v.profile.schedule && !isOpenAt(v.profile.schedule, now).isOpen)))
+    .forEach(v => {
+      const vendor = store.setStatus(v.profile.id, VendorStatus.OFFLINE);
+      if (vendor) publish(vendor);
+    });
+}, 60 * 1000);
+
+server.listen(PORT, () => {
+  console.log(`Live grid listening on http://localhost:${PORT} (ws://localhost:${PORT}/live), store: ${STORE_PATH}, orders: ${ORDERS_PATH}`);
+});
@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Order } from '../types';
+import { isOrderActive } from '../services/orderLifecycle';
+
+/**
+ * Order Store
+ * Orders kept per partner hub in memory and flushed to a JSON file, so a hub
+ * that reconnects, or a server restart, still finds its queue.
+ */
+export interface OrderStore {
+  listFor(profileId: string): Order[];
+  get(profileId: string, orderId: string): Order | undefined;
+  // Explorers replay queued orders, so an id already on file keeps the stored order
+  place(order: Order): Order;
+  update(order: Order): Order;
+  removeFor(profileId: string): void;
+}
+
+const FLUSH_DELAY_MS = 500;
+// Finished orders kept per hub; open ones are never dropped
+const MAX_FINISHED_PER_PROFILE = 200;
+
+const trimFinished = (orders: Order[]) => {
+  const finished = orders.filter(o => !isOrderActive(o));
+  if (finished.length <= MAX_FINISHED_PER_PROFILE) return orders;
+  const dropped = new Set(finished.sort((a, b) => a.updatedAt - b.updatedAt).slice(0, finished.length - MAX_FINISHED_PER_PROFILE).map(o => o.id));
+  return orders.filter(o => !dropped.has(o.id));
+};
+
+export const openOrderStore = async (filePath: string): Promise<OrderStore> => {
+  const byProfile = new Map<string, Order[]>();
+
+  try {
+    const saved: Record<string, Order[]> = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    Object.entries(saved).forEach(([profileId, orders]) => byProfile.set(profileId, orders));
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') console.warn(`Order store at ${filePath} unreadable, starting empty:`, err.message);
+  }
+
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  const scheduleFlush = () => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(async () => {
+      flushTimer = null;
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(Object.fromEntries(byProfile), null, 2));
+        await fs.rename(tmp, filePath);
+      } catch (err) {
+        console.error('Order store flush failed:', err);
+      }
+    }, FLUSH_DELAY_MS);
+  };
+
+  const save = (order: Order) => {
+    const others = (byProfile.get(order.profileId) || []).filter(o => o.id !== order.id);
+    byProfile.set(order.profileId, trimFinished([order, ...others]));
+    scheduleFlush();
+    return order;
+  };
+
+  return {
+    listFor: profileId => byProfile.get(profileId) || [],
+    get: (profileId, orderId) => byProfile.get(profileId)?.find(o => o.id === orderId),
+    place: order => byProfile.get(order.profileId)?.find(o => o.id === order.id) ?? save(order),
+    update: save,
+    removeFor: profileId => {
+      if (byProfile.delete(profileId)) scheduleFlush();
+    }
+  };
+};
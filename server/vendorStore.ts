@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LiveVendor, VendorProfile, VendorStatus, LatLng, Review, MenuItem } from '../types';
+
+/**
+ * Vendor Store
+ * Live vendors kept in memory and flushed to a JSON file, so a server restart
+ * keeps every registered hub and its last known position.
+ */
+export interface VendorStore {
+  list(): LiveVendor[];
+  get(id: string): LiveVendor | undefined;
+  register(profile: VendorProfile): LiveVendor;
+  setStatus(id: string, status: VendorStatus, coords?: LatLng): LiveVendor | undefined;
+  setPosition(id: string, coords: LatLng): LiveVendor | undefined;
+  // Marks the vendor as still reporting without changing anything else
+  touch(id: string): LiveVendor | undefined;
+  addReview(id: string, review: Review): LiveVendor | undefined;
+  // Stock held or given back by orders taken on the server
+  setMenu(id: string, menu: MenuItem[]): LiveVendor | undefined;
+  remove(id: string): boolean;
+}
+
+const FLUSH_DELAY_MS = 500;
+
+// Explorers post reviews straight to the store, so a hub re-registering from an older copy must not drop them
+const mergeReviews = (incoming: Review[] = [], stored: Review[] = []) =>
+  [...incoming, ...stored.filter(r => !incoming.some(i => i.id === r.id))];
+
+export const openVendorStore = async (filePath: string): Promise<VendorStore> => {
+  const vendors = new Map<string, LiveVendor>();
+
+  try {
+    const saved: LiveVendor[] = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    saved.forEach(v => vendors.set(v.profile.id, v));
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') console.warn(`Vendor store at ${filePath} unreadable, starting empty:`, err.message);
+  }
+
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Position updates arrive every few seconds; writes are batched and go through a temp file
+  const scheduleFlush = () => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(async () => {
+      flushTimer = null;
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify([...vendors.values()], null, 2));
+        await fs.rename(tmp, filePath);
+      } catch (err) {
+        console.error('Vendor store flush failed:', err);
+      }
+    }, FLUSH_DELAY_MS);
+  };
+
+  const update = (id: string, patch: Partial<LiveVendor>) => {
+    const current = vendors.get(id);
+    if (!current) return undefined;
+    const next = { ...current, ...patch, updatedAt: Date.now() };
+    vendors.set(id, next);
+    scheduleFlush();
+    return next;
+  };
+
+  return {
+    list: () => [...vendors.values()],
+    get: id => vendors.get(id),
+    register: profile => {
+      const current = vendors.get(profile.id);
+      const next: LiveVendor = {
+        profile: { ...profile, reviews: mergeReviews(profile.reviews, current?.profile.reviews) },
+        status: current?.status ?? VendorStatus.OFFLINE,
+        coords: current?.coords ?? profile.lastLocation ?? null,
+        updatedAt: Date.now()
+      };
+      vendors.set(profile.id, next);
+      scheduleFlush();
+      return next;
+    },
+    setStatus: (id, status, coords) => update(id, coords ? { status, coords } : { status }),
+    setPosition: (id, coords) => update(id, { coords }),
+    touch: id => update(id, {}),
+    addReview: (id, review) => {
+      const current = vendors.get(id);
+      if (!current || current.profile.reviews?.some(r => r.id === review.id)) return current;
+      return update(id, { profile: { ...current.profile, reviews: [review, ...(current.profile.reviews || [])] } });
+    },
+    setMenu: (id, menu) => {
+      const current = vendors.get(id);
+      return current && update(id, { profile: { ...current.profile, menu } });
+    },
+    remove: id => {
+      const removed = vendors.delete(id);
+      if (removed) scheduleFlush();
+      return removed;
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { AgentLog } from "../types";
+
+/**
+ * Agent Event Bus
+ * Lets service-layer code (schema repair, retries, caching) surface what it did
+ * in the UI agent log without knowing about React state.
+ */
+export interface AgentEvent {
+  agent: AgentLog['agent'];
+  message: string;
+  status: AgentLog['status'];
+}
+
+type AgentEventListener = (event: AgentEvent) => void;
+
+const listeners = new Set<AgentEventListener>();
+
+export const subscribeAgentEvents = (listener: AgentEventListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const emitAgentEvent = (agent: AgentLog['agent'], message: string, status: AgentLog['status'] = 'processing') => {
+  listeners.forEach(listener => listener({ agent, message, status }));
+};
@@ -0,0 +1,131 @@
+import { Shop, SpatialAnalytics } from "../types";
+import { PRICE_BANDS, PriceBand, priceBandOf } from "./gridFilters";
+
+/**
+ * Analytics Engine
+ * Everything countable about a sector is computed here, deterministically: the
+ * cuisine mix, the price spectrum from menu prices (or a node's typical price) and the legendary
+ * ranking from node scores. The analytics agent only narrates the result, from
+ * the compact digest built by summarizeSector.
+ */
+export type SectorFigures = Pick<SpatialAnalytics, 'cuisineDistribution' | 'priceSpectrum' | 'legendaryIndex'>;
+
+const LEGEND_COUNT = 5;
+const DIGEST_CUISINES = 8;
+const UNLABELLED = 'Unlabelled';
+const UNPRICED = 'Unpriced';
+
+/**
+ * Rounds shares to whole percentages that still add up to 100, handing the
+ * leftover points to the largest remainders (ties go to the earlier entry).
+ */
+const wholePercentages = (counts: number[]): number[] => {
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return counts.map(() => 0);
+  const exact = counts.map(n => (n / total) * 100);
+  const floors = exact.map(Math.floor);
+  const leftover = 100 - floors.reduce((sum, n) => sum + n, 0);
+  const byRemainder = exact.map((e, i) => ({ i, r: e - floors[i] })).sort((a, b) => b.r - a.r || a.i - b.i);
+  for (const { i } of byRemainder.slice(0, leftover)) floors[i]++;
+  return floors;
+};
+
+// Cuisines are grouped case-insensitively and keep the first spelling seen
+export const computeCuisineDistribution = (shops: Shop[]): SpatialAnalytics['cuisineDistribution'] => {
+  const groups: Record<string, { label: string; count: number }> = {};
+  for (const shop of shops) {
+    const label = shop.cuisine?.trim() || UNLABELLED;
+    const key = label.toLowerCase();
+    groups[key] = { label: groups[key]?.label ?? label, count: (groups[key]?.count ?? 0) + 1 };
+  }
+  const sorted = Object.values(groups).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  const percentages = wholePercentages(sorted.map(g => g.count));
+  return sorted.map((g, i) => ({ ...g, percentage: percentages[i] }));
+};
+
+const bandRange = (band: PriceBand, floor: number) => {
+  const { label, max } = PRICE_BANDS[band];
+  if (max === Infinity) return `${label} (over ₹${floor})`;
+  return floor === 0 ? `${label} (up to ₹${max})` : `${label} (₹${floor + 1}–${max})`;
+};
+
+// Bands follow the grid filters, judged on each node's cheapest dish
+export const computePriceSpectrum = (shops: Shop[]): SpatialAnalytics['priceSpectrum'] => {
+  const bands = Object.keys(PRICE_BANDS) as PriceBand[];
+  const spectrum = bands.map((band, i) => ({
+    range: bandRange(band, i === 0 ? 0 : PRICE_BANDS[bands[i - 1]].max),
+    nodes: shops.filter(shop => priceBandOf(shop) === band).map(shop => shop.name)
+  }));
+  const unpriced = shops.filter(shop => priceBandOf(shop) === null).map(shop => shop.name);
+  return unpriced.length > 0 ? [...spectrum, { range: UNPRICED, nodes: unpriced }] : spectrum;
+};
+
+const REASONING_LABELS: Record<keyof NonNullable<Shop['successReasoning']>, string> = {
+  locationGravity: 'location gravity',
+  flavorMoat: 'flavor moat',
+  socialResonance: 'social resonance',
+  economicFit: 'economic fit'
+};
+
+/**
+ * A node's legend score: its success reasoning average, blended 70/30 with its
+ * review average when it has both. Nodes with neither are not ranked.
+ */
+export const legendScore = (shop: Shop): { score: number; reasoning: string } | null => {
+  const r = shop.successReasoning;
+  const ratings = (shop.reviews || []).map(review => review.rating).filter(n => n > 0);
+  const reviewScore = ratings.length > 0 ? (ratings.reduce((sum, n) => sum + n, 0) / ratings.length) * 20 : null;
+  const parts: string[] = [];
+  let score: number | null = null;
+  if (r) {
+    const strongest = (Object.keys(REASONING_LABELS) as (keyof typeof REASONING_LABELS)[])
+      .sort((a, b) => r[b] - r[a])
+      .slice(0, 2);
+    parts.push(`Strongest on ${strongest.map(k => `${REASONING_LABELS[k]} (${Math.round(r[k])})`).join(' and ')}`);
+    score = (r.locationGravity + r.flavorMoat + r.socialResonance + r.economicFit) / 4;
+  }
+  if (reviewScore !== null) {
+    parts.push(`${(reviewScore / 20).toFixed(1)}★ from ${ratings.length} review(s)`);
+    score = score === null ? reviewScore : score * 0.7 + reviewScore * 0.3;
+  }
+  if (score === null) return null;
+  return { score: Math.round(score), reasoning: `${parts.join('; ')}.` };
+};
+
+export const computeLegendaryIndex = (shops: Shop[], limit: number = LEGEND_COUNT): SpatialAnalytics['legendaryIndex'] =>
+  shops
+    .flatMap(shop => {
+      const legend = legendScore(shop);
+      return legend ? [{ name: shop.name, ...legend }] : [];
+    })
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+
+export const computeSectorFigures = (shops: Shop[]): SectorFigures => ({
+  cuisineDistribution: computeCuisineDistribution(shops),
+  priceSpectrum: computePriceSpectrum(shops),
+  legendaryIndex: computeLegendaryIndex(shops)
+});
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+// Menu-less nodes stand in with their typical price
+const dishPricesOf = (shop: Shop): number[] => {
+  const prices = (shop.menu || []).map(item => item.price).filter(p => p > 0);
+  return prices.length > 0 ? prices : shop.typicalPrice ? [shop.typicalPrice] : [];
+};
+
+// What the narrative agent sees: bounded in size however many nodes the sector holds
+export const summarizeSector = (shops: Shop[], figures: SectorFigures) => ({
+  nodeCount: shops.length,
+  cuisines: figures.cuisineDistribution.slice(0, DIGEST_CUISINES).map(({ label, count }) => ({ label, count })),
+  otherCuisines: Math.max(0, figures.cuisineDistribution.length - DIGEST_CUISINES),
+  priceBands: figures.priceSpectrum.map(({ range, nodes }) => ({ range, count: nodes.length })),
+  medianDishPrice: median(shops.flatMap(dishPricesOf)),
+  legends: figures.legendaryIndex.map(({ name, score }) => ({ name, score }))
+});
@@ -0,0 +1,95 @@
+import { AnalyticsSnapshot, Sector, Shop, SpatialAnalytics, VendorStatus } from "../types";
+import { logisticsScoreOf, safetyScoreOf } from "./gridFilters";
+import { legendScore } from "./analyticsEngine";
+import { average } from "./sectors";
+import { csvCell } from "./gridExchange";
+
+/**
+ * Analytics History
+ * Each analytics run, over a sector or the whole grid, is kept as a dated
+ * snapshot instead of replacing the last one. Charting them per sector shows
+ * whether live vendor presence is actually growing week over week, and the
+ * history exports as CSV or JSON for reports.
+ */
+export interface TrendSeries {
+  label: string;
+  values: (number | null)[];
+}
+
+// Runs kept per sector; older ones are dropped first
+const MAX_SNAPSHOTS_PER_SCOPE = 400;
+const TREND_CUISINES = 5;
+const WHOLE_GRID = 'Whole grid';
+
+/**
+ * The node count and averages describe exactly the shops the analytics ran on,
+ * so they agree with its cuisine distribution. Live vendors are counted from
+ * their own population, which for the whole grid is not part of the analysis.
+ */
+export const takeSnapshot = (sectorId: string | null, shops: Shop[], analytics: SpatialAnalytics, live: Shop[] = shops): AnalyticsSnapshot => ({
+  id: `snapshot-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  sectorId,
+  takenAt: new Date().toISOString(),
+  nodeCount: shops.length,
+  liveVendorCount: live.filter(s => s.isVendor && s.status === VendorStatus.ONLINE).length,
+  avgSafety: average(shops.map(safetyScoreOf)),
+  avgLogistics: average(shops.map(logisticsScoreOf)),
+  avgLegendScore: average(shops.map(shop => legendScore(shop)?.score ?? null)),
+  cuisineDistribution: analytics.cuisineDistribution,
+  sectorSummary: analytics.sectorSummary
+});
+
+// Overflow is trimmed by position, so it can never take out a snapshot of another scope
+export const recordSnapshot = (history: AnalyticsSnapshot[], snapshot: AnalyticsSnapshot): AnalyticsSnapshot[] => {
+  const overflow = history.filter(s => s.sectorId === snapshot.sectorId).length + 1 - MAX_SNAPSHOTS_PER_SCOPE;
+  let dropped = 0;
+  return [...history.filter(s => s.sectorId !== snapshot.sectorId || dropped++ >= overflow), snapshot];
+};
+
+export const snapshotsFor = (history: AnalyticsSnapshot[], sectorId: string | null) =>
+  history.filter(s => s.sectorId === sectorId).sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+
+// Share of nodes over time for the cuisines with the highest average share across the runs
+export const cuisineTrend = (snapshots: AnalyticsSnapshot[], limit: number = TREND_CUISINES): TrendSeries[] => {
+  const shareIn = (snapshot: AnalyticsSnapshot, label: string) =>
+    snapshot.cuisineDistribution.find(c => c.label.toLowerCase() === label.toLowerCase())?.percentage ?? 0;
+  const labels: string[] = [];
+  for (const snapshot of snapshots) {
+    for (const { label } of snapshot.cuisineDistribution) {
+      if (!labels.some(l => l.toLowerCase() === label.toLowerCase())) labels.push(label);
+    }
+  }
+  return labels
+    .map(label => ({ label, values: snapshots.map(s => shareIn(s, label)) }))
+    .sort((x, y) => y.values.reduce((sum, v) => sum + v, 0) - x.values.reduce((sum, v) => sum + v, 0))
+    .slice(0, limit);
+};
+
+const scopeName = (sectorId: string | null, sectors: Sector[]) =>
+  sectorId === null ? WHOLE_GRID : sectors.find(s => s.id === sectorId)?.name ?? sectorId;
+
+export const historyToCSV = (history: AnalyticsSnapshot[], sectors: Sector[]): string => {
+  const headers = ['taken_at', 'sector', 'node_count', 'live_vendor_count', 'avg_safety', 'avg_logistics', 'avg_legend_score', 'cuisine_distribution', 'summary'];
+  const rows = [...history]
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+    .map(s => [
+      s.takenAt,
+      scopeName(s.sectorId, sectors),
+      s.nodeCount,
+      s.liveVendorCount,
+      s.avgSafety,
+      s.avgLogistics,
+      s.avgLegendScore,
+      s.cuisineDistribution.map(c => `${c.label} ${c.percentage}%`).join('; '),
+      s.sectorSummary
+    ]);
+  return [headers, ...rows].map(line => line.map(csvCell).join(',')).join('\r\n');
+};
+
+export const historyToJSON = (history: AnalyticsSnapshot[], sectors: Sector[]) => ({
+  exportedAt: new Date().toISOString(),
+  sectors: sectors.map(({ id, name, shape }) => ({ id, name, shape })),
+  snapshots: [...history]
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+    .map(s => ({ ...s, sector: scopeName(s.sectorId, sectors) }))
+});
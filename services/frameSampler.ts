@@ -0,0 +1,140 @@
+/**
+ * Frame Sampler
+ * Turns an uploaded stall video or a batch of photos into a handful of real,
+ * timestamped frames for the Lens agent. Decoding and downscaling happen in the
+ * browser, so only small JPEG frames ever leave the device.
+ */
+export interface SampledFrame {
+  id: string;
+  // Offset into the video, or since the earliest photo, as "mm:ss"
+  timestamp: string;
+  seconds: number;
+  sourceName: string;
+  mimeType: 'image/jpeg';
+  // Base64 JPEG without the data: prefix, as the model expects it
+  data: string;
+  // Small data URL kept with the analysis for the Lens tab
+  thumbnail: string;
+}
+
+export interface SampleOptions {
+  maxFrames?: number;
+  signal?: AbortSignal;
+}
+
+type Capture = Omit<SampledFrame, 'id'>;
+
+const MAX_FRAMES = 8;
+// Longest edge sent to the model; enough to read a menu board
+const MODEL_EDGE = 768;
+const THUMBNAIL_EDGE = 160;
+const JPEG_QUALITY = 0.7;
+
+export const formatTimestamp = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${String(Math.floor(whole / 60)).padStart(2, '0')}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const abortError = () => new DOMException('Frame sampling cancelled.', 'AbortError');
+
+const toJpeg = (source: CanvasImageSource, width: number, height: number, edge: number) => {
+  const scale = Math.min(1, edge / Math.max(width, height, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas drawing is not available in this browser.');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+const capture = (source: CanvasImageSource, width: number, height: number, seconds: number, sourceName: string): Capture => ({
+  timestamp: formatTimestamp(seconds),
+  seconds,
+  sourceName,
+  mimeType: 'image/jpeg',
+  data: toJpeg(source, width, height, MODEL_EDGE).split(',')[1],
+  thumbnail: toJpeg(source, width, height, THUMBNAIL_EDGE)
+});
+
+// Resolves on the next `event` from a media element, rejecting on its error or on abort
+const nextEvent = (media: HTMLMediaElement, event: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const cleanup = () => {
+      media.removeEventListener(event, onEvent);
+      media.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('This video could not be decoded by the browser.')); };
+    const onAbort = () => { cleanup(); reject(abortError()); };
+    media.addEventListener(event, onEvent);
+    media.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+// Frames sit at the middle of equal slices, skipping the often black first and last instants
+const sampleVideo = async (file: File, maxFrames: number, signal?: AbortSignal): Promise<Capture[]> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    const loaded = nextEvent(video, 'loadeddata', signal);
+    video.src = url;
+    await loaded;
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const count = duration > 0 ? maxFrames : 1;
+    const captures: Capture[] = [];
+    for (let i = 0; i < count; i++) {
+      const seconds = (duration * (i + 0.5)) / count;
+      if (duration > 0) {
+        const seeked = nextEvent(video, 'seeked', signal);
+        video.currentTime = seconds;
+        await seeked;
+      }
+      captures.push(capture(video, video.videoWidth, video.videoHeight, seconds, file.name));
+    }
+    return captures;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Photos are ordered by when they were taken, and thinned evenly past maxFrames
+const samplePhotos = async (files: File[], maxFrames: number, signal?: AbortSignal): Promise<Capture[]> => {
+  const ordered = [...files].sort((a, b) => a.lastModified - b.lastModified);
+  const picked = ordered.length <= maxFrames
+    ? ordered
+    : Array.from({ length: maxFrames }, (_, i) => ordered[Math.floor((i * ordered.length) / maxFrames)]);
+  const start = picked[0]?.lastModified ?? 0;
+  const captures: Capture[] = [];
+  for (const file of picked) {
+    if (signal?.aborted) throw abortError();
+    const bitmap = await createImageBitmap(file);
+    try {
+      captures.push(capture(bitmap, bitmap.width, bitmap.height, (file.lastModified - start) / 1000, file.name));
+    } finally {
+      bitmap.close();
+    }
+  }
+  return captures;
+};
+
+/**
+ * Samples an upload. A video takes precedence over photos picked alongside it,
+ * and only the first video is used; photos are treated as one timeline.
+ */
+export const sampleFrames = async (files: File[], { maxFrames = MAX_FRAMES, signal }: SampleOptions = {}): Promise<SampledFrame[]> => {
+  const video = files.find(f => f.type.startsWith('video/'));
+  const photos = files.filter(f => f.type.startsWith('image/'));
+  if (!video && photos.length === 0) throw new Error('Upload a video or photos of the stall.');
+  const captures = video ? await sampleVideo(video, maxFrames, signal) : await samplePhotos(photos, maxFrames, signal);
+  return captures.map((c, i) => ({ id: `frame-${i + 1}`, ...c }));
+};
+
+export const describeUpload = (frames: SampledFrame[]) => [...new Set(frames.map(f => f.sourceName))].join(', ');
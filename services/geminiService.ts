@@ -1,15 +1,52 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { Type, Modality, GenerateContentParameters } from "@google/genai";
 import { Shop, LatLng, GroundingSource, LensAnalysis, SpatialAnalytics, FlavorGenealogy, MenuItem, FoodAnalysis, FootfallPoint } from "../types";
+import { AgentKey, getModelProvider } from "./modelProvider";
+import { emitAgentEvent } from "./agentEvents";
+import { CallOptions, withRetry } from "./resilience";
+import { cachedByCell } from "./responseCache";
+import { LocaleInfo, ALL_COUNTING_WORDS, languageDirective } from "./i18n";
+import { SampledFrame, describeUpload } from "./frameSampler";
+import { computeSectorFigures, summarizeSector } from "./analyticsEngine";
+import {
+  Validated,
+  extractJson,
+  parseJsonObject,
+  toScore,
+  validateShop,
+  validateFoodAnalysis,
+  validateSectorNarrative,
+  validateFlavorGenealogy,
+  validateLensAnalysis,
+  validateParsedOrder,
+  emptyFoodAnalysis
+} from "./schemaValidation";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Every agent goes through the active provider (Gemini or the offline fixtures)
+// under its retry budget; the caller's signal cancels in-flight attempts.
+const generate = (agent: AgentKey, request: GenerateContentParameters, options: CallOptions) =>
+  withRetry(agent, signal => getModelProvider().generateContent(agent, {
+    ...request,
+    config: { ...request.config, abortSignal: signal }
+  }), options);
+
+// Surfaces schema repairs through the Healing agent and unwraps the validated value.
+const reportRepairs = <T>(label: string, result: Validated<T>): T => {
+  const { repairs } = result;
+  if (repairs.length > 0) {
+    const preview = repairs.slice(0, 3).join('; ');
+    const more = repairs.length > 3 ? ` (+${repairs.length - 3} more)` : '';
+    emitAgentEvent('Healing', `${label} output repaired ${repairs.length} field(s): ${preview}${more}`, 'resolved');
+  }
+  return result.value;
+};
 
 /**
  * Climate Grounding Agent
  * Fetches real-time weather and calculates a "Street Food Synergy Score"
  */
-export const fetchLocalWeather = async (location: LatLng) => {
-  const response = await ai.models.generateContent({
+const fetchLiveWeather = async (location: LatLng, options: CallOptions) => {
+  const response = await generate('weather', {
     model: "gemini-3-flash-preview",
     contents: `SEARCH MISSION: Get current real-time weather for coordinates (${location.lat}, ${location.lng}). 
     Analyze the impact on street food vendors and outdoor dining.
@@ -40,7 +77,7 @@ export const fetchLocalWeather = async (location: LatLng) => {
         }
       }
     }
-  });
+  }, options);
 
   // Aggressive cleaning to strip grounding citations and truncate extra verbiage
   const clean = (str: any, isTemp: boolean = false) => {
@@ -59,31 +96,28 @@ export const fetchLocalWeather = async (location: LatLng) => {
     return cleaned;
   };
 
-  try {
-    const text = response.text || "";
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    const rawJson = jsonMatch ? jsonMatch[0] : text;
-    
-    const data = JSON.parse(rawJson);
-    
-    return {
+  const data = parseJsonObject(response.text);
+  const repairs: string[] = [];
+  return reportRepairs('Weather', {
+    value: {
       temp: clean(data.temp, true) || "28°C",
       condition: clean(data.condition) || "Clear",
-      impactScore: typeof data.impactScore === 'number' ? data.impactScore : 80,
+      impactScore: toScore(data.impactScore, 'impactScore', repairs, 80),
       reasoning: clean(data.reasoning) || "Local thermal conditions are stable."
-    };
-  } catch (e) {
-    console.error("Weather extraction failure:", e);
-    return { temp: "28°C", condition: "Clear", impactScore: 80, reasoning: "Local thermal conditions are stable." };
-  }
+    },
+    repairs
+  });
 };
 
+export const fetchLocalWeather = (location: LatLng, options: CallOptions = {}) =>
+  cachedByCell('weather', location, '', () => fetchLiveWeather(location, options));
+
 /**
  * Predictive Footfall Agent
  * Uses Gemini 3 to reason about expected wait times and demand based on 
  * shop type, neighborhood, and current time context.
  */
-export const predictFootfallAgent = async (shop: Shop, location: LatLng) => {
+export const predictFootfallAgent = async (shop: Shop, location: LatLng, options: CallOptions = {}) => {
   const now = new Date();
   const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
   const currentContext = {
@@ -91,7 +125,7 @@ export const predictFootfallAgent = async (shop: Shop, location: LatLng) => {
     time: now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
   };
 
-  const response = await ai.models.generateContent({
+  const response = await generate('footfall', {
     model: "gemini-3-flash-preview",
     contents: `MISSION: SPATIAL PREDICTION. 
     REASON about the expected footfall and wait time for this food node:
@@ -106,7 +140,7 @@ export const predictFootfallAgent = async (shop: Shop, location: LatLng) => {
     EXAMPLE STYLE: "It's Friday at 7 PM and it's raining in Mylapore; expect the Bajjis at Jannal Kadai to have a 20-minute wait due to high demand for hot snacks in this weather."
     
     Be specific, use local flavor, and return ONLY the sentence. Do not include introductory text.`,
-  });
+  }, options);
   return (response.text || "").trim();
 };
 
@@ -114,14 +148,14 @@ export const predictFootfallAgent = async (shop: Shop, location: LatLng) => {
  * Discovery Agent
  * Refined to use Gemini 3 Flash Preview with Google Search Grounding to find local nodes.
  */
-export const discoveryAgent = async (query: string, location: LatLng) => {
-  const response = await ai.models.generateContent({
+const runDiscovery = async (query: string, location: LatLng, options: CallOptions) => {
+  const response = await generate('discovery', {
     model: "gemini-3-flash-preview",
     contents: `SPATIAL DISCOVERY MISSION: Identify approximately 10 real, legendary street food spots, iconic eateries, and hidden culinary gems within a 5km radius of the coordinates: Latitude ${location.lat}, Longitude ${location.lng}. 
     
     INSTRUCTIONS:
     1. Use Google Search to find high-accuracy, real-world data about food spots near this location.
-    2. For each identified location, provide: Name, precise lat/lng coordinates, emoji, cuisine type, a 1-sentence vivid description, and a short address.
+    2. For each identified location, provide: Name, precise lat/lng coordinates, emoji, cuisine type, a 1-sentence vivid description, a short address, and typicalPrice: the usual price in INR of one dish there.
     3. SUCCESS REASONING:
        - locationGravity: Score (0-100) based on transit flow.
        - flavorMoat: Score (0-100) based on dish uniqueness.
@@ -141,6 +175,7 @@ export const discoveryAgent = async (query: string, location: LatLng) => {
           "cuisine": "Type", 
           "description": "Story", 
           "address": "Address",
+          "typicalPrice": 80,
           "successReasoning": { "locationGravity": 85, "flavorMoat": 90, "socialResonance": 75, "economicFit": 80 },
           "safetyMetrics": { "crimeSafety": 85, "policeProximity": 70, "footfallIntensity": 90, "lighting": 80, "vibe: 95, "nearestPoliceStations": ["Name 1"] },
           "urbanLogistics": { "transitAccessibility": 90, "walkabilityScore": 85, "parkingAvailability": 40, "publicTransportNodes": ["Stop A"] },
@@ -152,21 +187,18 @@ export const discoveryAgent = async (query: string, location: LatLng) => {
     config: {
       tools: [{ googleSearch: {} }]
     }
-  });
+  }, options);
 
   const text = (response.text || "").trim();
-  let data: { shops?: any[], logs?: string[] } = { shops: [], logs: [] };
-  
-  try {
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      data = JSON.parse(jsonMatch[0]);
-    } else {
-      data.logs = ["Search grounding active but failed to return structured results."];
-    }
-  } catch (e) {
-    console.error("Discovery Parse Error:", e);
-    data.logs = ["Telemetry corruption detected in search result stream."];
+  let data: { shops?: unknown, logs?: unknown } = { shops: [], logs: [] };
+
+  const extracted = extractJson(text);
+  if (extracted && typeof extracted === 'object') {
+    data = extracted as typeof data;
+  } else {
+    data.logs = [text.includes('{')
+      ? "Telemetry corruption detected in search result stream."
+      : "Search grounding active but failed to return structured results."];
   }
 
   const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
@@ -175,21 +207,27 @@ export const discoveryAgent = async (query: string, location: LatLng) => {
     uri: c.web?.uri || c.maps?.uri || "#"
   }));
 
-  const sanitizedShops = (data.shops || []).map((s: any, idx: number) => ({
-    ...s,
-    id: s.id && typeof s.id === 'string' && s.id.startsWith('sync-') ? s.id : `sync-${idx}-${Date.now()}`,
-    isVendor: false,
-    reviews: [],
-    successReasoning: s.successReasoning || { locationGravity: 70, flavorMoat: 70, socialResonance: 70, economicFit: 70 },
-    safetyMetrics: s.safetyMetrics || { crimeSafety: 70, policeProximity: 70, footfallIntensity: 70, lighting: 70, vibe: 70, nearestPoliceStations: [] },
-    urbanLogistics: s.urbanLogistics || { transitAccessibility: 50, walkabilityScore: 50, parkingAvailability: 50, publicTransportNodes: [] },
-    predictedFootfall: s.predictedFootfall || [{ period: "Lunch", volume: 70 }]
-  }));
+  const repairs: string[] = [];
+  const rawShops = Array.isArray(data.shops) ? data.shops : [];
+  const sanitizedShops = rawShops.flatMap((s: unknown, idx: number) => {
+    const shop = validateShop(s, `sync-${idx}-${Date.now()}`, `shops[${idx}]`, repairs);
+    if (!shop) return [];
+    return [{ ...shop, id: shop.id.startsWith('sync-') ? shop.id : `sync-${idx}-${Date.now()}` }];
+  });
+  const logs = Array.isArray(data.logs) ? data.logs.filter((l): l is string => typeof l === 'string') : [];
 
-  return { shops: sanitizedShops as Shop[], logs: (data.logs || ["Sector scanned via Search Grounding."]) as string[], sources };
+  return {
+    shops: reportRepairs('Discovery', { value: sanitizedShops, repairs }),
+    logs: logs.length > 0 ? logs : ["Sector scanned via Search Grounding."],
+    sources
+  };
 };
 
-export const analyzeFoodImage = async (base64Data: string, mimeType: string): Promise<FoodAnalysis> => {
+// Empty scans are not cached so a retry can still find nodes in the same cell
+export const discoveryAgent = (query: string, location: LatLng, options: CallOptions = {}) =>
+  cachedByCell('discovery', location, query, () => runDiscovery(query, location, options), result => result.shops.length > 0);
+
+export const analyzeFoodImage = async (base64Data: string, mimeType: string, options: CallOptions = {}): Promise<FoodAnalysis> => {
   const imagePart = {
     inlineData: {
       mimeType: mimeType,
@@ -230,14 +268,14 @@ export const analyzeFoodImage = async (base64Data: string, mimeType: string): Pr
     STRICT FORMAT: Provide PART A and then PART B as a JSON block.`,
   };
 
-  const response = await ai.models.generateContent({
+  const response = await generate('foodImage', {
     model: "gemini-3-flash-preview",
     contents: { parts: [imagePart, textPart] },
-  });
+  }, options);
 
   const text = response.text || "";
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  
+  const json = extractJson(text);
+
   const narrative = text
     .replace(/\{[\s\S]*\}/, "") 
     .replace(/PART\s*[AB]/gi, "") 
@@ -247,37 +285,27 @@ export const analyzeFoodImage = async (base64Data: string, mimeType: string): Pr
     .replace(/```/gi, "") 
     .trim();
 
-  if (jsonMatch) {
-    try {
-      const data = JSON.parse(jsonMatch[0]);
-      return { ...data, narrative };
-    } catch (e) {
-      console.error("Image Analysis JSON error:", e);
-    }
+  if (json) {
+    return reportRepairs('Food Lens', validateFoodAnalysis(json, narrative));
   }
 
-  return { 
-    name: "Unknown Entity", 
-    protein: "0g", 
-    calories: "0kcal", 
-    carbs: "0g", 
-    history_tags: [], 
-    authenticity_score: "0%", 
-    recommended_shops: [],
-    narrative: narrative || "Analysis failed to produce structured data."
-  };
+  return emptyFoodAnalysis(narrative || "Analysis failed to produce structured data.");
 };
 
-export const generateSpatialAnalytics = async (shops: Shop[]): Promise<SpatialAnalytics> => {
-  const response = await ai.models.generateContent({
+/**
+ * Spatial Analytics Agent
+ * The figures are computed locally by the analytics engine; the model only
+ * writes the sector narrative and customer segments, from a bounded digest.
+ */
+export const generateSpatialAnalytics = async (shops: Shop[], options: CallOptions = {}): Promise<SpatialAnalytics> => {
+  const figures = computeSectorFigures(shops);
+  const response = await generate('analytics', {
     model: "gemini-3-flash-preview",
-    contents: `Analyze this dataset of local food nodes: ${JSON.stringify(shops)}. 
-    Generate a high-level spatial intelligence dashboard dataset. 
-    1. cuisineDistribution: Count and percentage for each cuisine category.
-    2. priceSpectrum: Group nodes into "Street (Cheap)", "Mid-Range", and "Premium" based on their descriptions/cuisine.
-    3. legendaryIndex: Pick the top 5 most "legendary" nodes and give them a score (1-100) with a brief causal reasoning.
-    4. customerSegmentation: Identify the top 4 demographic segments for this specific food grid.
-    5. sectorSummary: A 2-sentence synthesis of the food culture in this grid sector.
+    contents: `Sector digest of local food nodes (computed figures, treat them as exact): ${JSON.stringify(summarizeSector(shops, figures))}.
+    Write only the narrative for this sector's intelligence dashboard.
+    1. customerSegmentation: Identify the top 4 demographic segments for this food grid, each with a description and its relative volume (1-100).
+    2. sectorSummary: A 2-sentence synthesis of the food culture in this grid sector.
+    Do not restate or recompute the figures.
     
     RETURN ONLY RAW JSON.`,
     config: {
@@ -285,41 +313,6 @@ export const generateSpatialAnalytics = async (shops: Shop[]): Promise<SpatialAn
       responseSchema: {
         type: Type.OBJECT,
         properties: {
-          cuisineDistribution: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                label: { type: Type.STRING },
-                count: { type: Type.NUMBER },
-                percentage: { type: Type.NUMBER }
-              },
-              required: ["label", "count", "percentage"]
-            }
-          },
-          priceSpectrum: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                range: { type: Type.STRING },
-                nodes: { type: Type.ARRAY, items: { type: Type.STRING } }
-              },
-              required: ["range", "nodes"]
-            }
-          },
-          legendaryIndex: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                score: { type: Type.NUMBER },
-                reasoning: { type: Type.STRING }
-              },
-              required: ["name", "score", "reasoning"]
-            }
-          },
           customerSegmentation: {
             type: Type.ARRAY,
             items: {
@@ -334,15 +327,15 @@ export const generateSpatialAnalytics = async (shops: Shop[]): Promise<SpatialAn
           },
           sectorSummary: { type: Type.STRING }
         },
-        required: ["cuisineDistribution", "priceSpectrum", "legendaryIndex", "customerSegmentation", "sectorSummary"]
+        required: ["customerSegmentation", "sectorSummary"]
       }
     }
-  });
-  return JSON.parse(response.text || "{}");
+  }, options);
+  return { ...figures, ...reportRepairs('Analytics', validateSectorNarrative(parseJsonObject(response.text))) };
 };
 
-export const getFlavorGenealogy = async (location: LatLng): Promise<FlavorGenealogy> => {
-  const response = await ai.models.generateContent({
+const traceFlavorGenealogy = async (location: LatLng, options: CallOptions): Promise<FlavorGenealogy> => {
+  const response = await generate('genealogy', {
     model: "gemini-3-pro-preview",
     contents: `MISSION: CROSS-TEMPORAL FLAVOR REASONING for location (${location.lat}, ${location.lng}). Trace the historical staples, spice migration, and icons across eras.`,
     config: {
@@ -371,14 +364,18 @@ export const getFlavorGenealogy = async (location: LatLng): Promise<FlavorGeneal
         required: ["neighborhood", "summary", "timeline"]
       }
     }
-  });
-  return JSON.parse(response.text || "{}");
+  }, options);
+  return reportRepairs('Genealogy', validateFlavorGenealogy(parseJsonObject(response.text)));
 };
 
-export const parseOrderAgent = async (userInput: string, menu: MenuItem[]) => {
-  const response = await ai.models.generateContent({
+export const getFlavorGenealogy = (location: LatLng, options: CallOptions = {}): Promise<FlavorGenealogy> =>
+  cachedByCell('genealogy', location, '', () => traceFlavorGenealogy(location, options));
+
+// The customer may speak any registered language, not just the UI one, so every counting word is offered
+export const parseOrderAgent = async (userInput: string, menu: MenuItem[], language: LocaleInfo, options: CallOptions = {}) => {
+  const response = await generate('order', {
     model: "gemini-3-flash-preview",
-    contents: `Extract order: "${userInput}" from Menu: ${JSON.stringify(menu)}. Map Tamil counts to numbers.`,
+    contents: `Extract order: "${userInput}" from Menu: ${JSON.stringify(menu)}. The customer most likely speaks ${language.promptLanguage}. Map spoken counts to numbers using ${JSON.stringify(ALL_COUNTING_WORDS)}. When an item has variants, set "variant" to the variant named or implied (e.g. "half plate"), and list any requested add-ons from its modifiers.`,
     config: {
       responseMimeType: "application/json",
       responseSchema: {
@@ -390,6 +387,8 @@ export const parseOrderAgent = async (userInput: string, menu: MenuItem[]) => {
               type: Type.OBJECT,
               properties: {
                 name: { type: Type.STRING },
+                variant: { type: Type.STRING },
+                modifiers: { type: Type.ARRAY, items: { type: Type.STRING } },
                 quantity: { type: Type.NUMBER },
                 price: { type: Type.NUMBER }
               },
@@ -401,12 +400,12 @@ export const parseOrderAgent = async (userInput: string, menu: MenuItem[]) => {
         required: ["orderItems", "totalPrice"]
       }
     }
-  });
-  return JSON.parse(response.text || "{\"orderItems\":[], \"totalPrice\":0}");
+  }, options);
+  return reportRepairs('Order', validateParsedOrder(parseJsonObject(response.text)));
 };
 
-export const spatialLensAnalysis = async (location: LatLng, shopName: string): Promise<LensAnalysis> => {
-  const response = await ai.models.generateContent({
+export const spatialLensAnalysis = async (location: LatLng, shopName: string, options: CallOptions = {}): Promise<LensAnalysis> => {
+  const response = await generate('lens', {
     model: "gemini-3-flash-preview",
     contents: `MISSION: 'Lens Mode' Intensive Spatial Intelligence Scrape for "${shopName}" at (${location.lat}, ${location.lng}). Ground observations in real visual layout details.`,
     config: {
@@ -445,73 +444,152 @@ export const spatialLensAnalysis = async (location: LatLng, shopName: string): P
         }
       }
     }
-  });
+  }, options);
+
+  return reportRepairs('Lens', validateLensAnalysis(parseJsonObject(response.text)));
+};
+
+/**
+ * Lens Frame Agent
+ * Reasons over frames sampled from an uploaded stall video or photo set. The
+ * model only describes the frames; their ids, timestamps and thumbnails come
+ * from the sampler, so nothing on screen is imagined.
+ */
+export const analyzeLensFrames = async (frames: SampledFrame[], location: LatLng, shopName: string, options: CallOptions = {}): Promise<LensAnalysis> => {
+  const frameParts = frames.flatMap(frame => [
+    { text: `Frame ${frame.id} at ${frame.timestamp} (${frame.sourceName}):` },
+    { inlineData: { mimeType: frame.mimeType, data: frame.data } }
+  ]);
+  const instructions = {
+    text: `MISSION: 'Lens Mode' spatial read of "${shopName}" at (${location.lat}, ${location.lng}) from the ${frames.length} frames above.
+    Describe each frame once in "extractedFrames", using its id as given.
+    Every observation must cite the single frame it is visible in through "frameId". Report only what the frames show.`
+  };
+  const response = await generate('lensFrames', {
+    model: "gemini-3-flash-preview",
+    contents: { parts: [...frameParts, instructions] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          observations: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                frameId: { type: Type.STRING },
+                type: { type: Type.STRING },
+                detail: { type: Type.STRING },
+                causalBottleneck: { type: Type.STRING }
+              },
+              required: ["frameId", "type", "detail"]
+            }
+          },
+          extractedFrames: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                description: { type: Type.STRING },
+                category: { type: Type.STRING },
+                spatialInsight: { type: Type.STRING }
+              }
+            }
+          },
+          recommendation: { type: Type.STRING }
+        }
+      }
+    }
+  }, options);
 
-  return JSON.parse(response.text || "{}");
+  const analysis = reportRepairs('Lens', validateLensAnalysis(parseJsonObject(response.text), frames.map(f => f.id)));
+  return {
+    ...analysis,
+    extractedFrames: frames.map(frame => {
+      const described = analysis.extractedFrames.find(f => f.id === frame.id);
+      return {
+        id: frame.id,
+        timestamp: frame.timestamp,
+        description: described?.description ?? '',
+        category: described?.category ?? 'Perspective',
+        spatialInsight: described?.spatialInsight ?? '',
+        thumbnail: frame.thumbnail
+      };
+    }),
+    videoSource: describeUpload(frames)
+  };
 };
 
-export const getTamilTextSummary = async (shop: Shop) => {
-  const response = await ai.models.generateContent({
+// `language` is the explorer's UI language; the English copy is always returned alongside it
+export const getTextSummary = async (shop: Shop, language: LocaleInfo, options: CallOptions = {}) => {
+  const response = await generate('summary', {
     model: "gemini-3-flash-preview",
-    contents: `Write a summary of ${shop.name} in Tamil and English as JSON { "tamil": "...", "english": "..." }.`,
+    contents: `Write a summary of ${shop.name} in ${language.promptLanguage} and English as JSON { "local": "<${language.promptLanguage}>", "english": "..." }. ${language.promptStyle}`,
     config: {
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.OBJECT,
         properties: {
-          tamil: { type: Type.STRING },
+          local: { type: Type.STRING },
           english: { type: Type.STRING }
         }
       }
     }
-  });
-  return JSON.parse(response.text || "{}");
+  }, options);
+  const data = parseJsonObject(response.text);
+  return {
+    local: typeof data.local === 'string' ? data.local : "",
+    english: typeof data.english === 'string' ? data.english : ""
+  };
 };
 
-export const getTamilAudioSummary = async (shop: Shop) => {
-  const summary = await getTamilTextSummary(shop);
-  const response = await ai.models.generateContent({
+export const getAudioSummary = async (shop: Shop, language: LocaleInfo, options: CallOptions = {}) => {
+  const summary = await getTextSummary(shop, language, options);
+  const response = await generate('summaryAudio', {
     model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: `Cheerfully in Tamil: ${summary.tamil}` }] }],
+    contents: [{ parts: [{ text: `Cheerfully in ${language.promptLanguage}: ${summary.local}` }] }],
     config: {
       responseModalities: [Modality.AUDIO],
-      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: language.voices.summary } } }
     }
-  });
+  }, options);
   return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
 };
 
-export const generateVendorBio = async (name: string, cuisine: string) => {
-  const response = await ai.models.generateContent({
+export const generateVendorBio = async (name: string, cuisine: string, language: LocaleInfo, options: CallOptions = {}) => {
+  const response = await generate('bio', {
     model: "gemini-3-flash-preview",
-    contents: `Bio for ${name} selling ${cuisine}.`,
-  });
+    contents: `Bio for ${name} selling ${cuisine}. ${languageDirective(language)}`,
+  }, options);
   return (response.text || "").trim();
 };
 
-export const spatialAlertAgent = async (vendorName: string, location: LatLng) => {
-  const textResponse = await ai.models.generateContent({
+export const spatialAlertAgent = async (vendorName: string, location: LatLng, language: LocaleInfo, options: CallOptions = {}) => {
+  const textResponse = await generate('alertText', {
     model: "gemini-3-flash-preview",
-    contents: `Vendor ${vendorName} live at ${location.lat}, ${location.lng}.`,
-  });
-  const audioResponse = await ai.models.generateContent({
+    contents: `Vendor ${vendorName} live at ${location.lat}, ${location.lng}. Announce it. ${languageDirective(language)}`,
+  }, options);
+  const audioResponse = await generate('alertAudio', {
     model: "gemini-2.5-flash-preview-tts",
     contents: [{ parts: [{ text: `Excitedly: ${textResponse.text}` }] }],
     config: {
       responseModalities: [Modality.AUDIO],
-      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } }
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: language.voices.alert } } }
     }
-  });
+  }, options);
   return {
-    tamilSummary: textResponse.text || "",
+    summary: textResponse.text || "",
     audioData: audioResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data
   };
 };
 
-export const spatialChatAgent = async (message: string, location: LatLng) => {
-  const response = await ai.models.generateContent({
+export const spatialChatAgent = async (message: string, location: LatLng, language: LocaleInfo, options: CallOptions = {}) => {
+  const response = await generate('chat', {
     model: "gemini-2.5-flash",
-    contents: `User location: ${location.lat}, ${location.lng}. Inquiry: ${message}.`,
+    contents: `User location: ${location.lat}, ${location.lng}. Inquiry: ${message}. ${languageDirective(language)}`,
     config: { 
       tools: [{ googleMaps: {} }, { googleSearch: {} }],
       toolConfig: {
@@ -523,7 +601,7 @@ export const spatialChatAgent = async (message: string, location: LatLng) => {
         }
       }
     }
-  });
+  }, options);
   const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
   const sources: GroundingSource[] = groundingChunks.map((c: any) => ({
     title: c.web?.title || c.maps?.title || "Verification Source",
@@ -0,0 +1,166 @@
+import { LatLng } from "../types";
+import { haversineMeters } from "./geo";
+
+/**
+ * GPS Tracker
+ * Continuous position tracking for push-cart vendors. Raw fixes are smoothed
+ * (a per-axis Kalman filter weighted by reported accuracy), thinned by a
+ * movement threshold, and sampled less often when the battery runs low.
+ */
+export interface TrackedFix {
+  coords: LatLng;
+  accuracy: number;
+  timestamp: number;
+}
+
+export interface SamplingProfile {
+  name: 'precise' | 'balanced' | 'saver';
+  intervalMs: number;
+  minMoveMeters: number;
+  highAccuracy: boolean;
+}
+
+export interface TrackerCallbacks {
+  onFix: (fix: TrackedFix) => void;
+  onProfileChange?: (profile: SamplingProfile) => void;
+  // fatal is set when tracking has stopped itself (e.g. permission revoked)
+  onError?: (message: string, fatal: boolean) => void;
+}
+
+export const SAMPLING_PROFILES: Record<SamplingProfile['name'], SamplingProfile> = {
+  precise: { name: 'precise', intervalMs: 5000, minMoveMeters: 10, highAccuracy: true },
+  balanced: { name: 'balanced', intervalMs: 15000, minMoveMeters: 20, highAccuracy: true },
+  saver: { name: 'saver', intervalMs: 60000, minMoveMeters: 40, highAccuracy: false }
+};
+
+// Fixes this coarse are cell-tower guesses and would drag the cart across the block
+const MAX_ACCURACY_METERS = 100;
+// Expected walking-speed drift of a cart, used to grow the filter's uncertainty between fixes
+const PROCESS_NOISE_MPS = 1.5;
+
+interface BatteryLike extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+const pickProfile = (battery: BatteryLike | null): SamplingProfile => {
+  if (!battery) return SAMPLING_PROFILES.balanced;
+  if (battery.charging) return SAMPLING_PROFILES.precise;
+  return battery.level <= 0.2 ? SAMPLING_PROFILES.saver : SAMPLING_PROFILES.balanced;
+};
+
+// Smooths latitude and longitude independently; variance is tracked in square meters.
+const createSmoother = () => {
+  let estimate: LatLng | null = null;
+  let variance = 0;
+  let lastTimestamp = 0;
+
+  return (coords: LatLng, accuracy: number, timestamp: number): LatLng => {
+    const measurementVariance = Math.max(accuracy, 1) ** 2;
+    if (!estimate) {
+      estimate = coords;
+      variance = measurementVariance;
+    } else {
+      const elapsedSec = Math.max(0, (timestamp - lastTimestamp) / 1000);
+      variance += elapsedSec * PROCESS_NOISE_MPS ** 2;
+      const gain = variance / (variance + measurementVariance);
+      estimate = {
+        lat: estimate.lat + gain * (coords.lat - estimate.lat),
+        lng: estimate.lng + gain * (coords.lng - estimate.lng)
+      };
+      variance *= 1 - gain;
+    }
+    lastTimestamp = timestamp;
+    return estimate;
+  };
+};
+
+/**
+ * Starts tracking and returns a function that stops it. The first accepted fix
+ * is always reported so the vendor's node snaps to the device position.
+ */
+export const startGpsTracking = (callbacks: TrackerCallbacks): (() => void) => {
+  if (!navigator.geolocation) {
+    callbacks.onError?.('Geolocation API not available in this environment.', true);
+    return () => {};
+  }
+
+  let stopped = false;
+  let watchId: number | null = null;
+  let battery: BatteryLike | null = null;
+  let profile = pickProfile(null);
+  let lastSampleAt = 0;
+  let lastReported: LatLng | null = null;
+  const smooth = createSmoother();
+
+  const handlePosition = (position: GeolocationPosition) => {
+    const { latitude, longitude, accuracy } = position.coords;
+    // Until something usable has been reported, a coarse fix beats no fix
+    if (accuracy > MAX_ACCURACY_METERS && lastReported) return;
+
+    const smoothed = smooth({ lat: latitude, lng: longitude }, accuracy, position.timestamp);
+    if (position.timestamp - lastSampleAt < profile.intervalMs && lastReported) return;
+    lastSampleAt = position.timestamp;
+
+    // Movement smaller than the fix's own uncertainty is jitter, not travel
+    const threshold = Math.max(profile.minMoveMeters, Math.min(accuracy, MAX_ACCURACY_METERS) / 2);
+    if (lastReported && haversineMeters(lastReported, smoothed) < threshold) return;
+
+    lastReported = smoothed;
+    callbacks.onFix({
+      coords: { lat: +smoothed.lat.toFixed(6), lng: +smoothed.lng.toFixed(6) },
+      accuracy: Math.round(accuracy),
+      timestamp: position.timestamp
+    });
+  };
+
+  const handleError = (error: GeolocationPositionError) => {
+    if (error.code === error.PERMISSION_DENIED) {
+      stop();
+      callbacks.onError?.('Location permission denied. Tracking stopped.', true);
+    } else {
+      callbacks.onError?.(`Satellite link disrupted (${error.message || 'unknown error'}). Still listening...`, false);
+    }
+  };
+
+  const watch = () => {
+    if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+    watchId = navigator.geolocation.watchPosition(handlePosition, handleError, {
+      enableHighAccuracy: profile.highAccuracy,
+      maximumAge: profile.intervalMs / 2,
+      timeout: Math.max(profile.intervalMs * 2, 20000)
+    });
+  };
+
+  // Accuracy mode is fixed per watch, so a profile change restarts the watch
+  const applyBattery = () => {
+    const next = pickProfile(battery);
+    if (stopped || next.name === profile.name) return;
+    profile = next;
+    callbacks.onProfileChange?.(profile);
+    watch();
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+    watchId = null;
+    battery?.removeEventListener('levelchange', applyBattery);
+    battery?.removeEventListener('chargingchange', applyBattery);
+  };
+
+  callbacks.onProfileChange?.(profile);
+  watch();
+
+  // The Battery Status API is Chromium-only; elsewhere tracking stays on the balanced profile
+  const getBattery = (navigator as any).getBattery as (() => Promise<BatteryLike>) | undefined;
+  getBattery?.call(navigator).then(b => {
+    if (stopped) return;
+    battery = b;
+    b.addEventListener('levelchange', applyBattery);
+    b.addEventListener('chargingchange', applyBattery);
+    applyBattery();
+  }).catch(() => {});
+
+  return stop;
+};
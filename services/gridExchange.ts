@@ -0,0 +1,233 @@
+import { Shop, SafetyMetrics, UrbanLogistics, SuccessReasoning } from "../types";
+import { validateShop } from "./schemaValidation";
+
+/**
+ * Grid Exchange
+ * GeoJSON / CSV export of the grid for GIS tools, and import of curated lists back in.
+ * Nested metrics are flattened into prefixed scalar columns (safety_lighting, footfall_7pm-10pm, ...).
+ */
+
+type FlatRow = Record<string, string | number | boolean>;
+
+export interface ImportResult {
+  shops: Shop[];
+  repairs: string[];
+}
+
+export type ConflictStrategy = 'keep' | 'replace';
+
+export interface MergeResult {
+  shops: Shop[];
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+const SAFETY_FIELDS: (keyof SafetyMetrics)[] = ['crimeSafety', 'policeProximity', 'footfallIntensity', 'lighting', 'vibe'];
+const LOGISTICS_FIELDS: (keyof UrbanLogistics)[] = ['transitAccessibility', 'walkabilityScore', 'parkingAvailability'];
+const SUCCESS_FIELDS: (keyof SuccessReasoning)[] = ['locationGravity', 'flavorMoat', 'socialResonance', 'economicFit'];
+const LIST_SEPARATOR = '; ';
+
+const flattenShop = (shop: Shop): FlatRow => {
+  const row: FlatRow = {
+    id: shop.id,
+    name: shop.name,
+    lat: shop.coords.lat,
+    lng: shop.coords.lng,
+    cuisine: shop.cuisine || '',
+    emoji: shop.emoji || '',
+    address: shop.address || '',
+    description: shop.description || '',
+    isVendor: shop.isVendor,
+    status: shop.status || ''
+  };
+  if (shop.hygieneScore !== undefined) row.hygieneScore = shop.hygieneScore;
+  if (shop.typicalPrice !== undefined) row.typicalPrice = shop.typicalPrice;
+  if (shop.safetyMetrics) {
+    SAFETY_FIELDS.forEach(f => { row[`safety_${f}`] = shop.safetyMetrics![f] as number; });
+    row.safety_nearestPoliceStations = (shop.safetyMetrics.nearestPoliceStations || []).join(LIST_SEPARATOR);
+  }
+  if (shop.urbanLogistics) {
+    LOGISTICS_FIELDS.forEach(f => { row[`logistics_${f}`] = shop.urbanLogistics![f] as number; });
+    row.logistics_publicTransportNodes = (shop.urbanLogistics.publicTransportNodes || []).join(LIST_SEPARATOR);
+  }
+  if (shop.successReasoning) {
+    SUCCESS_FIELDS.forEach(f => { row[`success_${f}`] = shop.successReasoning![f]; });
+  }
+  (shop.predictedFootfall || []).forEach(p => { row[`footfall_${p.period}`] = p.volume; });
+  return row;
+};
+
+// Inverse of flattenShop; also accepts common survey headers (latitude, longitude, lon).
+const unflattenRow = (row: Record<string, any>): Record<string, any> => {
+  const pick = (prefix: string, fields: string[]) => {
+    const present = fields.filter(f => row[`${prefix}_${f}`] !== undefined && row[`${prefix}_${f}`] !== '');
+    if (present.length === 0) return undefined;
+    return Object.fromEntries(present.map(f => [f, row[`${prefix}_${f}`]]));
+  };
+  const splitList = (v: unknown) => (typeof v === 'string' && v ? v.split(/;\s*/) : []);
+
+  const safety = pick('safety', SAFETY_FIELDS);
+  const logistics = pick('logistics', LOGISTICS_FIELDS);
+  const footfall = Object.keys(row)
+    .filter(k => k.startsWith('footfall_'))
+    .map(k => ({ period: k.slice('footfall_'.length), volume: row[k] }));
+
+  return {
+    id: row.id,
+    name: row.name,
+    coords: { lat: row.lat ?? row.latitude, lng: row.lng ?? row.lon ?? row.longitude },
+    cuisine: row.cuisine,
+    emoji: row.emoji,
+    address: row.address,
+    description: row.description,
+    typicalPrice: row.typicalPrice,
+    successReasoning: pick('success', SUCCESS_FIELDS),
+    safetyMetrics: safety && { ...safety, nearestPoliceStations: splitList(row.safety_nearestPoliceStations) },
+    urbanLogistics: logistics && { ...logistics, publicTransportNodes: splitList(row.logistics_publicTransportNodes) },
+    predictedFootfall: footfall.length > 0 ? footfall : undefined
+  };
+};
+
+// --- Export ---
+
+export const shopsToGeoJSON = (shops: Shop[]) => ({
+  type: 'FeatureCollection' as const,
+  features: shops.map(shop => {
+    const { lat, lng, ...properties } = flattenShop(shop);
+    return {
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [lng, lat] },
+      properties
+    };
+  })
+});
+
+export const csvCell = (v: unknown) => {
+  const text = v === undefined || v === null ? '' : String(v);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const shopsToCSV = (shops: Shop[]): string => {
+  const rows = shops.map(flattenShop);
+  const headers = [...new Set(rows.flatMap(r => Object.keys(r)))];
+  return [headers, ...rows.map(r => headers.map(h => r[h]))]
+    .map(line => line.map(csvCell).join(','))
+    .join('\r\n');
+};
+
+export const downloadTextFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Import ---
+
+// Imported ids are namespaced so they can never collide with vendor profile or live-signal ids.
+const importedId = (rawId: unknown, index: number, stamp: number) => {
+  const id = typeof rawId === 'string' || typeof rawId === 'number' ? String(rawId).trim() : '';
+  if (!id) return `import-${index}-${stamp}`;
+  return /^(seed|sync|import)-/.test(id) ? id : `import-${id}`;
+};
+
+const toShops = (rows: Record<string, any>[]): ImportResult => {
+  const repairs: string[] = [];
+  const stamp = Date.now();
+  const shops = rows.flatMap((row, i) => {
+    const shop = validateShop(unflattenRow(row), '', `row ${i + 1}`, repairs);
+    return shop ? [{ ...shop, id: importedId(row.id, i, stamp), isVendor: false, status: undefined }] : [];
+  });
+  return { shops, repairs };
+};
+
+export const parseGeoJSON = (text: string): ImportResult => {
+  const data = JSON.parse(text);
+  const features: any[] = data?.type === 'FeatureCollection' ? data.features : data?.type === 'Feature' ? [data] : [];
+  if (!Array.isArray(features) || features.length === 0) {
+    throw new Error('No GeoJSON features found.');
+  }
+  return toShops(features
+    .filter(f => f?.geometry?.type === 'Point' && Array.isArray(f.geometry.coordinates))
+    .map(f => ({ ...f.properties, lng: f.geometry.coordinates[0], lat: f.geometry.coordinates[1] })));
+};
+
+// RFC 4180 parsing: quoted cells may contain commas, quotes ("") and line breaks.
+const parseCSVRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  row.push(cell);
+  if (row.some(c => c !== '')) rows.push(row);
+  return rows;
+};
+
+export const parseCSV = (text: string): ImportResult => {
+  const [header, ...body] = parseCSVRows(text.replace(/^\uFEFF/, ''));
+  if (!header || body.length === 0) throw new Error('CSV has no data rows.');
+  const keys = header.map(h => h.trim());
+  // Numeric cells become numbers up front so they are not reported as schema repairs
+  const cellValue = (cell: string | undefined) => (cell && /^-?\d+(\.\d+)?$/.test(cell.trim()) ? parseFloat(cell) : cell ?? '');
+  return toShops(body.map(cells => Object.fromEntries(keys.map((k, i) => [k, cellValue(cells[i])]))));
+};
+
+export const parseGridFile = (filename: string, text: string): ImportResult =>
+  /\.csv$/i.test(filename) ? parseCSV(text) : parseGeoJSON(text);
+
+// --- Merge ---
+
+// Letters and digits of any script, so non-Latin names keep what tells them apart
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+
+// Same id, or same name within ~30m, counts as the same node. Names with nothing left to compare never match.
+const findConflict = (shops: Shop[], candidate: Shop) => shops.findIndex(s =>
+  s.id === candidate.id || (
+    normalizeName(candidate.name) !== '' &&
+    normalizeName(s.name) === normalizeName(candidate.name) &&
+    Math.abs(s.coords.lat - candidate.coords.lat) < 0.0003 &&
+    Math.abs(s.coords.lng - candidate.coords.lng) < 0.0003
+  ));
+
+export const mergeImportedShops = (existing: Shop[], incoming: Shop[], strategy: ConflictStrategy): MergeResult => {
+  const shops = [...existing];
+  let added = 0, replaced = 0, skipped = 0;
+  const seen = new Set<string>();
+
+  incoming.forEach(shop => {
+    if (seen.has(shop.id)) { skipped++; return; }
+    seen.add(shop.id);
+
+    const index = findConflict(shops, shop);
+    if (index === -1) {
+      shops.push(shop);
+      added++;
+    } else if (strategy === 'replace' && !shops[index].isVendor) {
+      // Keep the grid's id and reviews so references to the node stay valid
+      shops[index] = { ...shop, id: shops[index].id, reviews: shops[index].reviews };
+      replaced++;
+    } else {
+      skipped++;
+    }
+  });
+  return { shops, added, replaced, skipped };
+};
@@ -0,0 +1,170 @@
+import { LatLng, Shop, SpatialAnalytics, VendorStatus } from "../types";
+import { haversineMeters } from "./geo";
+import { isOpenAt, parseIntervals, scheduleOf } from "./schedule";
+
+/**
+ * Grid Filters
+ * One filter and sort model shared by the discovery list and the map, so both
+ * always show the same nodes. Filters left at their defaults match everything.
+ */
+export type ShopOrigin = 'live' | 'offline' | 'synced' | 'seed' | 'imported';
+export type PriceBand = 'street' | 'mid' | 'premium';
+export type GridSort = 'distance' | 'legendary' | 'footfall';
+
+export interface GridFilters {
+  // Empty lists match every node
+  cuisines: string[];
+  origins: ShopOrigin[];
+  priceBands: PriceBand[];
+  // 0 disables the threshold
+  minSafety: number;
+  minWalkability: number;
+  openNow: boolean;
+  maxDistanceKm: number | null;
+  sortBy: GridSort;
+}
+
+export interface FilterContext {
+  location: LatLng;
+  now: Date;
+  legendaryIndex?: SpatialAnalytics['legendaryIndex'];
+}
+
+export const DEFAULT_GRID_FILTERS: GridFilters = {
+  cuisines: [],
+  origins: [],
+  priceBands: [],
+  minSafety: 0,
+  minWalkability: 0,
+  openNow: false,
+  maxDistanceKm: null,
+  sortBy: 'distance'
+};
+
+export const ORIGIN_LABELS: Record<ShopOrigin, string> = {
+  live: 'Live',
+  offline: 'Offline',
+  synced: 'AI-Synced',
+  seed: 'Seed',
+  imported: 'Imported'
+};
+
+// Same bands as the analytics price spectrum, judged on a node's cheapest dish or, without a menu, its typical price
+export const PRICE_BANDS: Record<PriceBand, { label: string; max: number }> = {
+  street: { label: 'Street', max: 100 },
+  mid: { label: 'Mid-Range', max: 300 },
+  premium: { label: 'Premium', max: Infinity }
+};
+
+export const originOf = (shop: Shop): ShopOrigin => {
+  if (shop.isVendor) return shop.status === VendorStatus.ONLINE ? 'live' : 'offline';
+  if (shop.id.startsWith('seed')) return 'seed';
+  if (shop.id.startsWith('import')) return 'imported';
+  return 'synced';
+};
+
+export const priceBandOf = (shop: Shop): PriceBand | null => {
+  const prices = (shop.menu || []).map(m => m.price).filter(p => p > 0);
+  const cheapest = prices.length > 0 ? Math.min(...prices) : shop.typicalPrice;
+  if (!cheapest || cheapest <= 0) return null;
+  return (Object.keys(PRICE_BANDS) as PriceBand[]).find(band => cheapest <= PRICE_BANDS[band].max) || 'premium';
+};
+
+// These match the composites on the node's spatial dashboard
+export const safetyScoreOf = (shop: Shop): number | null => {
+  const s = shop.safetyMetrics;
+  return s ? Math.round((s.crimeSafety + s.policeProximity + s.lighting) / 3) : null;
+};
+
+export const logisticsScoreOf = (shop: Shop): number | null => {
+  const u = shop.urbanLogistics;
+  return u ? Math.round((u.transitAccessibility + u.walkabilityScore + u.parkingAvailability) / 3) : null;
+};
+
+export const distanceKm = (shop: Shop, location: LatLng) => haversineMeters(location, shop.coords) / 1000;
+
+// The analytics agent's legendary index when it has scored the node, otherwise its success reasoning average
+export const legendaryScoreOf = (shop: Shop, legendaryIndex?: SpatialAnalytics['legendaryIndex']): number | null => {
+  const ranked = legendaryIndex?.find(l => l.name.toLowerCase() === shop.name.toLowerCase());
+  if (ranked) return ranked.score;
+  const r = shop.successReasoning;
+  return r ? Math.round((r.locationGravity + r.flavorMoat + r.socialResonance + r.economicFit) / 4) : null;
+};
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+/**
+ * Minutes from `now` until a footfall window ("7pm-10pm") starts: 0 while inside
+ * it, null when the period cannot be read.
+ */
+export const minutesUntilPeriod = (period: string, now: Date): number | null => {
+  const span = parseIntervals(period)?.[0];
+  if (!span) return null;
+  const current = minutesOfDay(now);
+  const open = toMinutes(span.open);
+  const close = toMinutes(span.close);
+  const inside = close > open ? current >= open && current < close : current >= open || current < close;
+  return inside ? 0 : (open - current + 24 * 60) % (24 * 60);
+};
+
+// Predicted volume for the window covering `now`; between windows the next one to start, since that is when a visitor arrives
+export const footfallAt = (shop: Shop, now: Date): number | null => {
+  let best: { volume: number; wait: number } | null = null;
+  for (const point of shop.predictedFootfall || []) {
+    const wait = minutesUntilPeriod(point.period, now);
+    if (wait === null) continue;
+    if (!best || wait < best.wait) best = { volume: point.volume, wait };
+  }
+  return best ? best.volume : null;
+};
+
+export const cuisinesOf = (shops: Shop[]) =>
+  [...new Set(shops.map(s => s.cuisine?.trim()).filter((c): c is string => !!c))].sort((a, b) => a.localeCompare(b));
+
+export const countActiveFilters = (filters: GridFilters) =>
+  [
+    filters.cuisines.length > 0,
+    filters.origins.length > 0,
+    filters.priceBands.length > 0,
+    filters.minSafety > 0,
+    filters.minWalkability > 0,
+    filters.openNow,
+    filters.maxDistanceKm !== null
+  ].filter(Boolean).length;
+
+// Nodes missing the data a filter needs (no hours, no menu, no metrics) are hidden by that filter
+const matches = (shop: Shop, filters: GridFilters, ctx: FilterContext) => {
+  if (filters.cuisines.length > 0 && !filters.cuisines.includes(shop.cuisine?.trim() || '')) return false;
+  if (filters.origins.length > 0 && !filters.origins.includes(originOf(shop))) return false;
+  if (filters.priceBands.length > 0) {
+    const band = priceBandOf(shop);
+    if (!band || !filters.priceBands.includes(band)) return false;
+  }
+  if (filters.minSafety > 0 && (safetyScoreOf(shop) ?? -1) < filters.minSafety) return false;
+  if (filters.minWalkability > 0 && (shop.urbanLogistics?.walkabilityScore ?? -1) < filters.minWalkability) return false;
+  if (filters.openNow) {
+    const schedule = scheduleOf(shop);
+    if (!schedule || !isOpenAt(schedule, ctx.now).isOpen) return false;
+  }
+  if (filters.maxDistanceKm !== null && distanceKm(shop, ctx.location) > filters.maxDistanceKm) return false;
+  return true;
+};
+
+export const applyGridFilters = (shops: Shop[], filters: GridFilters, ctx: FilterContext): Shop[] => {
+  const sortKey = (shop: Shop): number => {
+    if (filters.sortBy === 'distance') return distanceKm(shop, ctx.location);
+    // Highest first; unscored nodes sink to the bottom
+    const score = filters.sortBy === 'legendary' ? legendaryScoreOf(shop, ctx.legendaryIndex) : footfallAt(shop, ctx.now);
+    return score === null ? Infinity : -score;
+  };
+  return shops
+    .filter(shop => matches(shop, filters, ctx))
+    .map(shop => ({ shop, key: sortKey(shop) }))
+    .sort((a, b) => (a.key === b.key ? 0 : a.key - b.key))
+    .map(({ shop }) => shop);
+};
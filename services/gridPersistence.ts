@@ -0,0 +1,131 @@
+import { Shop, VendorProfile, SpatialAnalytics, FlavorGenealogy, LensAnalysis, ChatMessage, LatLng, Order, AlertPreferences, Sector, AnalyticsSnapshot } from "../types";
+import { openKeyValueStore } from "./idbStore";
+import { DEFAULT_SCHEDULE, parseLegacyHours } from "./schedule";
+import { DEFAULT_ALERT_PREFERENCES } from "./proximityAlerts";
+import { Locale, DEFAULT_LOCALE } from "./i18n";
+
+/**
+ * Grid Persistence
+ * The whole Neural Grid is stored as one versioned snapshot in IndexedDB.
+ * Older snapshots are upgraded step by step through MIGRATIONS on load.
+ */
+export const GRID_SCHEMA_VERSION = 8;
+
+export interface GridSnapshot {
+  version: number;
+  savedAt: number;
+  // Seed, discovered and imported nodes. Vendor nodes are rebuilt from myProfiles,
+  // and live signals are session-bound so they always restore offline.
+  shops: Shop[];
+  myProfiles: VendorProfile[];
+  // Orders of every partner hub, filtered by profileId for each hub's queue and history
+  orders: Order[];
+  analytics: SpatialAnalytics | null;
+  flavorHistory: FlavorGenealogy | null;
+  lensAnalysis: LensAnalysis | null;
+  lensTargetName: string;
+  chatHistory: ChatMessage[];
+  location: LatLng | null;
+  alertPreferences: AlertPreferences;
+  locale: Locale;
+  sectors: Sector[];
+  // Every analytics run, oldest first, for the sector trend charts
+  analyticsHistory: AnalyticsSnapshot[];
+}
+
+// Pre-IndexedDB builds only kept vendor profiles, under this localStorage key.
+const LEGACY_PROFILES_KEY = 'geomind_profiles';
+const SNAPSHOT_KEY = 'current';
+
+// A snapshot as an older build left it: only the version is known up front,
+// and each migration narrows the fields it touches.
+type PastSnapshot = { version?: number; [field: string]: unknown };
+// v0: the legacy localStorage payload, a bare VendorProfile[]
+type LegacySnapshot = { version: 0; profiles: unknown };
+
+const store = openKeyValueStore<GridSnapshot | PastSnapshot>('gstreats-grid', 'snapshots');
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const recordsOf = (v: unknown): Record<string, unknown>[] => Array.isArray(v) ? v.filter(isRecord) : [];
+
+// MIGRATIONS[n] upgrades a version-n snapshot to version n + 1.
+const MIGRATIONS: Record<number, (snapshot: PastSnapshot) => PastSnapshot> = {
+  0: (legacy: PastSnapshot) => ({
+    version: 1,
+    savedAt: Date.now(),
+    shops: [],
+    myProfiles: recordsOf(legacy.profiles),
+    analytics: null,
+    flavorHistory: null,
+    lensAnalysis: null,
+    lensTargetName: '',
+    chatHistory: [],
+    location: null
+  }),
+  // v1: vendor hours were a free-text "12:00 - 23:00" string
+  1: snapshot => ({
+    ...snapshot,
+    version: 2,
+    myProfiles: recordsOf(snapshot.myProfiles).map(({ hours, ...profile }) => ({
+      ...profile,
+      schedule: parseLegacyHours(typeof hours === 'string' ? hours : undefined) ?? DEFAULT_SCHEDULE
+    }))
+  }),
+  // v2: orders were not persisted
+  2: snapshot => ({ ...snapshot, version: 3, orders: [] }),
+  // v3: explorers could not follow vendors
+  3: snapshot => ({ ...snapshot, version: 4, alertPreferences: DEFAULT_ALERT_PREFERENCES }),
+  // v4: the UI language was not persisted
+  4: snapshot => ({ ...snapshot, version: 5, locale: DEFAULT_LOCALE }),
+  // v5: sectors could not be drawn
+  5: snapshot => ({ ...snapshot, version: 6, sectors: [] }),
+  // v6: analytics runs overwrote each other
+  6: snapshot => ({ ...snapshot, version: 7, analyticsHistory: [] }),
+  // v7: a hand-set sold-out flag was inferred from stock left over; a flag without a sell-out behind it was set by hand
+  7: snapshot => ({
+    ...snapshot,
+    version: 8,
+    myProfiles: recordsOf(snapshot.myProfiles).map(profile => ({
+      ...profile,
+      menu: recordsOf(profile.menu).map(item =>
+        item.isSoldOut && !(typeof item.stock === 'number' && item.stock <= 0) ? { ...item, pulledByVendor: true } : item)
+    }))
+  })
+};
+
+export const migrateSnapshot = (raw: unknown): GridSnapshot => {
+  if (!isRecord(raw)) throw new Error('Grid snapshot is not an object.');
+  let snapshot: PastSnapshot = raw;
+  let version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > GRID_SCHEMA_VERSION) {
+    throw new Error(`Grid snapshot v${version} is newer than this build (v${GRID_SCHEMA_VERSION}).`);
+  }
+  while (version < GRID_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No grid migration from v${version}.`);
+    snapshot = migrate(snapshot);
+    version = snapshot.version ?? version + 1;
+  }
+  // Every step up to the current version has filled in its fields
+  return snapshot as unknown as GridSnapshot;
+};
+
+const readLegacyProfiles = (): LegacySnapshot | null => {
+  try {
+    const saved = localStorage.getItem(LEGACY_PROFILES_KEY);
+    return saved ? { version: 0, profiles: JSON.parse(saved) } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadGridSnapshot = async (): Promise<GridSnapshot | null> => {
+  const raw = (await store.get(SNAPSHOT_KEY)) ?? readLegacyProfiles();
+  return raw ? migrateSnapshot(raw) : null;
+};
+
+export const saveGridSnapshot = async (snapshot: Omit<GridSnapshot, 'version' | 'savedAt'>) => {
+  await store.set(SNAPSHOT_KEY, { ...snapshot, version: GRID_SCHEMA_VERSION, savedAt: Date.now() });
+  // Once the snapshot holds the profiles, the legacy key would only shadow newer edits
+  localStorage.removeItem(LEGACY_PROFILES_KEY);
+};
@@ -0,0 +1,97 @@
+import { LatLng, Shop } from "../types";
+import { minutesUntilPeriod } from "./gridFilters";
+
+/**
+ * Heatmap Surfaces
+ * Turns per-shop metrics into a continuous surface by inverse-distance
+ * weighting (IDW). Each shop influences a fixed radius; the surface fades out
+ * with distance from the nearest shop so empty streets stay uncoloured.
+ */
+export type HeatLayer = 'footfall' | 'safety' | 'transit';
+
+export interface HeatmapSettings {
+  layer: HeatLayer;
+  // Footfall window, e.g. "7pm-10pm"; ignored by the other layers
+  period: string;
+}
+
+export interface HeatSample {
+  coords: LatLng;
+  // 0-100
+  value: number;
+}
+
+export interface HeatReading {
+  value: number;
+  // 1 on top of a shop, falling to 0 at the influence radius
+  coverage: number;
+}
+
+type Rgb = [number, number, number];
+
+// Low → high stops for each layer
+export const HEAT_LAYERS: Record<HeatLayer, { label: string; ramp: Rgb[] }> = {
+  footfall: { label: 'Footfall', ramp: [[59, 130, 246], [250, 204, 21], [239, 68, 68]] },
+  safety: { label: 'Safety', ramp: [[239, 68, 68], [250, 204, 21], [16, 185, 129]] },
+  transit: { label: 'Transit', ramp: [[88, 28, 135], [99, 102, 241], [34, 211, 238]] }
+};
+
+// The windows every footfall prediction is reported in
+export const FOOTFALL_PERIODS = ['6am-10am', '11am-2pm', '3pm-6pm', '7pm-10pm', '11pm-2am'];
+
+export const INFLUENCE_RADIUS_METERS = 800;
+const IDW_POWER = 2;
+const METERS_PER_DEGREE_LAT = 111320;
+
+// The window covering `now`, or the next to start
+export const footfallPeriodAt = (now: Date) => {
+  const waits = FOOTFALL_PERIODS.map(p => minutesUntilPeriod(p, now) ?? Infinity);
+  return FOOTFALL_PERIODS[waits.indexOf(Math.min(...waits))];
+};
+
+export const heatSamples = (shops: Shop[], settings: HeatmapSettings): HeatSample[] =>
+  shops.flatMap(shop => {
+    let value: number | undefined;
+    if (settings.layer === 'footfall') value = shop.predictedFootfall?.find(p => p.period === settings.period)?.volume;
+    // Lighting and crime safety are what a visitor feels after dark
+    else if (settings.layer === 'safety') value = shop.safetyMetrics && (shop.safetyMetrics.crimeSafety + shop.safetyMetrics.lighting) / 2;
+    else value = shop.urbanLogistics?.transitAccessibility;
+    return typeof value === 'number' && Number.isFinite(value) ? [{ coords: shop.coords, value: Math.min(100, Math.max(0, value)) }] : [];
+  });
+
+/**
+ * IDW estimate at a point from the samples within the influence radius. Uses an
+ * equirectangular distance, which is plenty at street scale and runs once per
+ * canvas cell. Returns null outside every sample's radius.
+ */
+export const interpolateAt = (samples: HeatSample[], point: LatLng): HeatReading | null => {
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((point.lat * Math.PI) / 180);
+  let weighted = 0;
+  let totalWeight = 0;
+  let nearest = Infinity;
+  for (const sample of samples) {
+    const dy = (sample.coords.lat - point.lat) * METERS_PER_DEGREE_LAT;
+    const dx = (sample.coords.lng - point.lng) * metersPerDegreeLng;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance > INFLUENCE_RADIUS_METERS) continue;
+    if (distance < 1) return { value: sample.value, coverage: 1 };
+    const weight = 1 / distance ** IDW_POWER;
+    weighted += weight * sample.value;
+    totalWeight += weight;
+    nearest = Math.min(nearest, distance);
+  }
+  if (totalWeight === 0) return null;
+  return { value: weighted / totalWeight, coverage: 1 - nearest / INFLUENCE_RADIUS_METERS };
+};
+
+export const rampColor = (layer: HeatLayer, value: number): Rgb => {
+  const ramp = HEAT_LAYERS[layer].ramp;
+  const position = (Math.min(100, Math.max(0, value)) / 100) * (ramp.length - 1);
+  const i = Math.min(ramp.length - 2, Math.floor(position));
+  const t = position - i;
+  return ramp[i].map((c, k) => Math.round(c + (ramp[i + 1][k] - c) * t)) as Rgb;
+};
+
+// CSS gradient for the legend
+export const rampGradient = (layer: HeatLayer) =>
+  `linear-gradient(to right, ${HEAT_LAYERS[layer].ramp.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})`;
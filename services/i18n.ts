@@ -0,0 +1,191 @@
+import { en, MessageKey } from "./messages/en";
+import { ta } from "./messages/ta";
+import { te } from "./messages/te";
+import { hi } from "./messages/hi";
+import { ml } from "./messages/ml";
+import { bn } from "./messages/bn";
+
+/**
+ * Localization
+ * UI strings live in per-language catalogs (services/messages) keyed by the
+ * English bundle. Messages use a subset of ICU MessageFormat:
+ *
+ *   {name}                                       plain argument
+ *   {count, number}  {price, currency}           locale number / ₹ amount
+ *   {count, plural, =0 {none} one {# stall} other {# stalls}}
+ *   {status, select, live {On air} other {Off air}}
+ *
+ * A key missing from a catalog falls back to English.
+ *
+ * LOCALES is the language registry: adding a language means one entry here
+ * plus a catalog; speech, voices, agent prompts and order parsing follow it.
+ */
+export type Locale = 'en' | 'ta' | 'te' | 'hi' | 'ml' | 'bn';
+export type { MessageKey };
+export type MessageValues = Record<string, string | number>;
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+export interface LocaleInfo {
+  nativeName: string;
+  // BCP 47 tag for speech recognition, speech synthesis and Intl formatting
+  speechCode: string;
+  // Gemini TTS voices for spoken shop summaries and live-vendor announcements
+  voices: { summary: string; alert: string };
+  // How agents are told which language to answer in
+  promptLanguage: string;
+  // Script and register agents should write in, appended to their prompts
+  promptStyle: string;
+  // Spoken quantities, romanised and in native script ("rendu" → 2)
+  countingWords: Record<string, number>;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: {
+    nativeName: 'English',
+    speechCode: 'en-IN',
+    voices: { summary: 'Kore', alert: 'Puck' },
+    promptLanguage: 'English',
+    promptStyle: 'Use simple Indian English.',
+    countingWords: { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 }
+  },
+  ta: {
+    nativeName: 'தமிழ்',
+    speechCode: 'ta-IN',
+    voices: { summary: 'Kore', alert: 'Puck' },
+    promptLanguage: 'Tamil',
+    promptStyle: 'Write in Tamil script, in the everyday spoken Tamil of Chennai.',
+    countingWords: {
+      onnu: 1, rendu: 2, moonu: 3, naalu: 4, anju: 5, aaru: 6, ezhu: 7, ettu: 8, ombodhu: 9, pathu: 10,
+      'ஒன்னு': 1, 'ஒன்று': 1, 'ரெண்டு': 2, 'இரண்டு': 2, 'மூணு': 3, 'மூன்று': 3, 'நாலு': 4, 'அஞ்சு': 5, 'ஐந்து': 5
+    }
+  },
+  te: {
+    nativeName: 'తెలుగు',
+    speechCode: 'te-IN',
+    voices: { summary: 'Leda', alert: 'Fenrir' },
+    promptLanguage: 'Telugu',
+    promptStyle: 'Write in Telugu script, in plain conversational Telugu.',
+    countingWords: {
+      okati: 1, rendu: 2, moodu: 3, naalugu: 4, aidu: 5, aaru: 6, edu: 7, enimidi: 8, tommidi: 9, padi: 10,
+      'ఒకటి': 1, 'రెండు': 2, 'మూడు': 3, 'నాలుగు': 4, 'ఐదు': 5
+    }
+  },
+  hi: {
+    nativeName: 'हिन्दी',
+    speechCode: 'hi-IN',
+    voices: { summary: 'Aoede', alert: 'Puck' },
+    promptLanguage: 'Hindi',
+    promptStyle: 'Write in Devanagari script, in simple spoken Hindi.',
+    countingWords: {
+      ek: 1, do: 2, teen: 3, char: 4, paanch: 5, chhe: 6, saat: 7, aath: 8, nau: 9, das: 10,
+      'एक': 1, 'दो': 2, 'तीन': 3, 'चार': 4, 'पांच': 5, 'पाँच': 5
+    }
+  },
+  ml: {
+    nativeName: 'മലയാളം',
+    speechCode: 'ml-IN',
+    voices: { summary: 'Kore', alert: 'Charon' },
+    promptLanguage: 'Malayalam',
+    promptStyle: 'Write in Malayalam script, in plain conversational Malayalam.',
+    countingWords: {
+      onnu: 1, randu: 2, moonnu: 3, naalu: 4, anchu: 5, aaru: 6, ezhu: 7, ettu: 8, onpathu: 9, pathu: 10,
+      'ഒന്ന്': 1, 'രണ്ട്': 2, 'മൂന്ന്': 3, 'നാല്': 4, 'അഞ്ച്': 5
+    }
+  },
+  bn: {
+    nativeName: 'বাংলা',
+    speechCode: 'bn-IN',
+    voices: { summary: 'Aoede', alert: 'Fenrir' },
+    promptLanguage: 'Bengali',
+    promptStyle: 'Write in Bengali script, in simple spoken Bengali.',
+    countingWords: {
+      ek: 1, dui: 2, tin: 3, char: 4, panch: 5, chhoy: 6, saat: 7, aat: 8, noy: 9, dosh: 10,
+      'এক': 1, 'দুই': 2, 'দুটো': 2, 'তিন': 3, 'চার': 4, 'পাঁচ': 5
+    }
+  }
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, string>>> = { en, ta, te, hi, ml, bn };
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+// The sentence every agent prompt ends with, e.g. "Answer in Tamil. Write in Tamil script, ..."
+export const languageDirective = (info: LocaleInfo) => `Answer in ${info.promptLanguage}. ${info.promptStyle}`;
+
+// Counting words of every registered language, since a customer may not speak the UI language.
+// Romanised words shared between languages ("rendu", "char") agree on their value.
+export const ALL_COUNTING_WORDS: Record<string, number> = Object.assign({}, ...Object.values(LOCALES).map(info => info.countingWords));
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(LOCALES[locale].speechCode, options).format(value);
+
+// Whole rupees print without paise; anything else always shows both paise digits (₹120.50)
+export const formatCurrency = (locale: Locale, amount: number) => {
+  const digits = Number.isInteger(Math.round(amount * 100) / 100) ? 0 : 2;
+  return formatNumber(locale, amount, { style: 'currency', currency: 'INR', minimumFractionDigits: digits, maximumFractionDigits: digits });
+};
+
+// Index of the "}" that closes the "{" at `start`, or -1
+const closingBrace = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// "=0 {none} one {# stall} other {# stalls}" → { '=0': 'none', one: '# stall', other: '# stalls' }
+const parseBranches = (text: string) => {
+  const branches: Record<string, string> = {};
+  let i = 0;
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open === -1) break;
+    const close = closingBrace(text, open);
+    if (close === -1) break;
+    branches[text.slice(i, open).trim()] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+  return branches;
+};
+
+const formatArgument = (locale: Locale, body: string, values: MessageValues): string => {
+  const [name, type] = body.split(',').map(part => part.trim());
+  const value = values[name];
+  if (value === undefined) return `{${name}}`;
+  if (!type) return typeof value === 'number' ? formatNumber(locale, value) : value;
+  if (type === 'number') return formatNumber(locale, Number(value));
+  if (type === 'currency') return formatCurrency(locale, Number(value));
+
+  // Branch text may itself contain commas, so branches are read from after the second one
+  const branches = parseBranches(body.slice(body.indexOf(',', body.indexOf(',') + 1) + 1));
+  if (type === 'plural') {
+    const n = Number(value);
+    const branch = branches[`=${n}`] ?? branches[new Intl.PluralRules(LOCALES[locale].speechCode).select(n)] ?? branches.other ?? '';
+    return formatMessage(locale, branch.replace(/#/g, formatNumber(locale, n)), values);
+  }
+  if (type === 'select') return formatMessage(locale, branches[String(value)] ?? branches.other ?? '', values);
+  return String(value);
+};
+
+export const formatMessage = (locale: Locale, template: string, values: MessageValues = {}): string => {
+  let out = '';
+  let i = 0;
+  while (i < template.length) {
+    const open = template.indexOf('{', i);
+    if (open === -1) break;
+    const close = closingBrace(template, open);
+    if (close === -1) break;
+    out += template.slice(i, open) + formatArgument(locale, template.slice(open + 1, close), values);
+    i = close + 1;
+  }
+  return out + template.slice(i);
+};
+
+export const translate = (locale: Locale, key: MessageKey, values?: MessageValues) =>
+  formatMessage(locale, CATALOGS[locale][key] ?? en[key], values);
+
+export const createTranslator = (locale: Locale): Translator => (key, values) => translate(locale, key, values);
@@ -0,0 +1,54 @@
+/**
+ * Minimal promise wrapper over a single IndexedDB object store.
+ * Falls back to an in-memory map where IndexedDB is unavailable (private mode, tests).
+ */
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+const request = <R>(req: IDBRequest<R>) => new Promise<R>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const createMemoryStore = <T>(): KeyValueStore<T> => {
+  const data = new Map<string, T>();
+  return {
+    get: async key => data.get(key),
+    set: async (key, value) => { data.set(key, value); },
+    delete: async key => { data.delete(key); },
+    keys: async () => [...data.keys()]
+  };
+};
+
+export const openKeyValueStore = <T>(dbName: string, storeName: string): KeyValueStore<T> => {
+  if (typeof indexedDB === 'undefined') return createMemoryStore<T>();
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const open = indexedDB.open(dbName, 1);
+        open.onupgradeneeded = () => open.result.createObjectStore(storeName);
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const database = await db();
+    return request(run(database.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: key => withStore('readonly', store => store.get(key)) as Promise<T | undefined>,
+    set: async (key, value) => { await withStore('readwrite', store => store.put(value, key)); },
+    delete: async key => { await withStore('readwrite', store => store.delete(key)); },
+    keys: async () => (await withStore('readonly', store => store.getAllKeys())).map(String)
+  };
+};
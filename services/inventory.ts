@@ -0,0 +1,81 @@
+import { MenuItem, OrderLine } from "../types";
+import { quantityOfItem } from "./menuOptions";
+
+/**
+ * Inventory
+ * Per-item stock that is reserved when an order reaches the hub's device and
+ * released if it is cancelled. Items with tracked stock sell out on their own
+ * at zero.
+ */
+export interface StockChange {
+  menu: MenuItem[];
+  // Items that did not have enough stock for the requested quantity
+  shortfalls: string[];
+  // Items that crossed into low stock or sold out with this change
+  alerts: string[];
+}
+
+const LOW_STOCK_MIN = 3;
+const LOW_STOCK_RATIO = 0.2;
+
+export const isStockTracked = (item: MenuItem) => typeof item.stock === 'number';
+
+export const remainingQuantity = (item: MenuItem | undefined): number => {
+  if (!item || item.isSoldOut) return 0;
+  return isStockTracked(item) ? Math.max(0, item.stock!) : Infinity;
+};
+
+export const isLowStock = (item: MenuItem) => {
+  if (!isStockTracked(item) || item.isSoldOut) return false;
+  const threshold = Math.max(LOW_STOCK_MIN, Math.ceil((item.dailyPrep || 0) * LOW_STOCK_RATIO));
+  return item.stock! > 0 && item.stock! <= threshold;
+};
+
+export const lowStockItems = (menu: MenuItem[]) => menu.filter(isLowStock);
+
+// Sold out at zero and back on sale when replenished, unless the vendor pulled the item by hand
+const withStock = (item: MenuItem, stock: number): MenuItem =>
+  ({ ...item, stock, isSoldOut: stock <= 0 || !!item.pulledByVendor });
+
+/**
+ * Restocks items with a daily prep quantity once per day. Returns the same array
+ * when nothing changed, so callers can skip a state update.
+ */
+export const applyDailyPrep = (menu: MenuItem[], today: string): MenuItem[] => {
+  let changed = false;
+  const next = menu.map(item => {
+    if (!item.dailyPrep || item.stockDate === today) return item;
+    changed = true;
+    // A new day also clears a hand-set sold-out flag
+    const { pulledByVendor, ...rest } = item;
+    return { ...rest, stock: item.dailyPrep, isSoldOut: false, stockDate: today };
+  });
+  return changed ? next : menu;
+};
+
+export const reserveStock = (menu: MenuItem[], lines: OrderLine[]): StockChange => {
+  const shortfalls: string[] = [];
+  const alerts: string[] = [];
+  // Variants of one item share its stock, so quantities are summed per item
+  new Set(lines.map(l => l.name)).forEach(name => {
+    const item = menu.find(m => m.name === name);
+    if (remainingQuantity(item) < quantityOfItem(lines, name)) shortfalls.push(name);
+  });
+  if (shortfalls.length > 0) return { menu, shortfalls, alerts };
+
+  const next = menu.map(item => {
+    const quantity = quantityOfItem(lines, item.name);
+    if (quantity === 0 || !isStockTracked(item)) return item;
+    const updated = withStock(item, item.stock! - quantity);
+    if (updated.isSoldOut) alerts.push(`${item.name} sold out`);
+    else if (isLowStock(updated) && !isLowStock(item)) alerts.push(`${item.name} low (${updated.stock} left)`);
+    return updated;
+  });
+  return { menu: next, shortfalls, alerts };
+};
+
+export const releaseStock = (menu: MenuItem[], lines: OrderLine[]): MenuItem[] =>
+  menu.map(item => {
+    const quantity = quantityOfItem(lines, item.name);
+    return quantity > 0 && isStockTracked(item) ? withStock(item, item.stock! + quantity) : item;
+  });
@@ -0,0 +1,129 @@
+import { LiveGridMessage, LiveVendor, VendorProfile, VendorStatus, LatLng, Review, Order, OrderStatus } from "../types";
+
+/**
+ * Live Grid Client
+ * Talks to the local live grid server (server/index.ts): REST for registration,
+ * signal changes and orders, a self-reconnecting WebSocket for the shared vendor
+ * and order feed.
+ */
+export interface LiveGridHandlers {
+  onSnapshot: (vendors: LiveVendor[]) => void;
+  onVendor: (vendor: LiveVendor) => void;
+  onRemoved: (id: string) => void;
+  onOrder: (order: Order) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+const LIVE_GRID_URL = (process.env.LIVE_GRID_URL || '').replace(/\/$/, '');
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// Well inside the server's 15-minute staleness cutoff
+export const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+
+export const isLiveGridEnabled = () => LIVE_GRID_URL !== '';
+
+let socket: WebSocket | null = null;
+
+export class LiveGridError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'LiveGridError';
+  }
+}
+
+const request = async <T>(path: string, method: string, body?: unknown): Promise<T> => {
+  if (!isLiveGridEnabled()) throw new Error('Live grid is not configured (LIVE_GRID_URL).');
+  const res = await fetch(`${LIVE_GRID_URL}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (!res.ok) {
+    const detail = await res.json().catch(() => null);
+    throw new LiveGridError(res.status, `Live grid ${method} ${path} failed (HTTP ${res.status})${detail?.error ? `: ${detail.error}` : ''}`);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+};
+
+const vendorPath = (id: string) => `/api/vendors/${encodeURIComponent(id)}`;
+
+export const registerVendor = (profile: VendorProfile) =>
+  request<LiveVendor>(vendorPath(profile.id), 'PUT', profile);
+
+export const setVendorStatus = (id: string, status: VendorStatus, coords?: LatLng) =>
+  request<LiveVendor>(`${vendorPath(id)}/status`, 'PUT', { status, coords });
+
+export const postVendorReview = (id: string, review: Review) =>
+  request<LiveVendor>(`${vendorPath(id)}/reviews`, 'POST', review);
+
+export const placeVendorOrder = (order: Order) =>
+  request<Order>(`${vendorPath(order.profileId)}/orders`, 'POST', order);
+
+export const setVendorOrderStatus = (profileId: string, orderId: string, status: OrderStatus, note?: string) =>
+  request<Order>(`${vendorPath(profileId)}/orders/${encodeURIComponent(orderId)}/status`, 'PUT', { status, note });
+
+export const fetchVendorOrders = (profileId: string) =>
+  request<Order[]>(`${vendorPath(profileId)}/orders`, 'GET');
+
+// Goes out over the open socket when there is one; REST otherwise
+export const sendVendorPosition = async (id: string, coords: LatLng) => {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ type: 'position', id, coords }));
+    return;
+  }
+  await request<LiveVendor>(`${vendorPath(id)}/position`, 'PUT', { coords });
+};
+
+// Keeps a live hub that is not tracking GPS from being swept offline as stale
+export const sendVendorHeartbeat = async (id: string) => {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ type: 'heartbeat', id }));
+    return;
+  }
+  await request<LiveVendor>(`${vendorPath(id)}/heartbeat`, 'PUT', {});
+};
+
+export const connectLiveGrid = (handlers: LiveGridHandlers): (() => void) => {
+  if (!isLiveGridEnabled()) return () => {};
+
+  let closed = false;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const open = () => {
+    const ws = new WebSocket(`${LIVE_GRID_URL.replace(/^http/, 'ws')}/live`);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempt = 0;
+      handlers.onConnectionChange(true);
+    };
+    ws.onmessage = event => {
+      let message: LiveGridMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'snapshot') handlers.onSnapshot(message.vendors);
+      else if (message.type === 'vendor') handlers.onVendor(message.vendor);
+      else if (message.type === 'removed') handlers.onRemoved(message.id);
+      else if (message.type === 'order') handlers.onOrder(message.order);
+    };
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      if (closed) return;
+      if (attempt === 0) handlers.onConnectionChange(false);
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt++);
+      reconnectTimer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+    socket = null;
+  };
+};
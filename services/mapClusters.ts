@@ -0,0 +1,74 @@
+import { LatLng, Shop, VendorStatus } from "../types";
+
+/**
+ * Map Clusters
+ * Grid-based clustering in screen space: nodes whose projected positions share
+ * a cell at the current zoom collapse into one badge. Cell ids are stable for a
+ * given zoom, so the map can diff cluster markers the same way it diffs shops.
+ */
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface ShopCluster {
+  id: string;
+  shops: Shop[];
+  center: LatLng;
+}
+
+export interface CuisineShare {
+  cuisine: string;
+  count: number;
+  color: string;
+}
+
+// Distinct hues that stay readable once the map's inversion filter is undone
+const CUISINE_PALETTE = ['#6366F1', '#F59E0B', '#10B981', '#EC4899', '#06B6D4', '#EF4444', '#8B5CF6', '#84CC16'];
+const OTHER_COLOR = '#64748B';
+
+export const cuisineColor = (cuisine: string) => {
+  let hash = 0;
+  for (let i = 0; i < cuisine.length; i++) hash = (hash * 31 + cuisine.charCodeAt(i)) | 0;
+  return CUISINE_PALETTE[Math.abs(hash) % CUISINE_PALETTE.length];
+};
+
+/**
+ * Groups shops into clusters of `cellPx` square screen cells. Single-node cells
+ * are returned as clusters of one so callers can render them as plain markers.
+ */
+export const clusterShops = (shops: Shop[], project: (coords: LatLng) => ScreenPoint, cellPx: number, zoom: number): ShopCluster[] => {
+  const cells: Record<string, Shop[]> = {};
+  shops.forEach(shop => {
+    const p = project(shop.coords);
+    const key = `${Math.floor(p.x / cellPx)}:${Math.floor(p.y / cellPx)}`;
+    (cells[key] ||= []).push(shop);
+  });
+  return Object.entries(cells).map(([key, members]) => ({
+    id: members.length === 1 ? members[0].id : `cluster-${zoom}-${key}`,
+    shops: members,
+    center: {
+      lat: members.reduce((sum, s) => sum + s.coords.lat, 0) / members.length,
+      lng: members.reduce((sum, s) => sum + s.coords.lng, 0) / members.length
+    }
+  }));
+};
+
+// The largest cuisines in a cluster, with the remainder folded into "Other"
+export const cuisineMix = (shops: Shop[], limit: number = 3): CuisineShare[] => {
+  const counts: Record<string, number> = {};
+  shops.forEach(s => {
+    const cuisine = s.cuisine?.trim() || 'Other';
+    counts[cuisine] = (counts[cuisine] || 0) + 1;
+  });
+  const ranked = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const top = ranked.slice(0, limit).map(([cuisine, count]) => ({ cuisine, count, color: cuisine === 'Other' ? OTHER_COLOR : cuisineColor(cuisine) }));
+  const rest = ranked.slice(limit).reduce((sum, [, count]) => sum + count, 0);
+  if (rest === 0) return top;
+  const other = top.find(t => t.cuisine === 'Other');
+  return other
+    ? top.map(t => (t === other ? { ...t, count: t.count + rest } : t))
+    : [...top, { cuisine: 'Other', count: rest, color: OTHER_COLOR }];
+};
+
+export const liveCount = (shops: Shop[]) => shops.filter(s => s.isVendor && s.status === VendorStatus.ONLINE).length;
@@ -0,0 +1,96 @@
+import { CartLine, DietaryTag, MenuItem, MenuOption, OrderLine } from "../types";
+import { ParsedOrderItem } from "./schemaValidation";
+import { MessageKey } from "./i18n";
+
+/**
+ * Menu Options
+ * Variants (portion sizes with their own price), add-on modifiers and dietary
+ * tags. Cart lines are keyed by item + variant + modifiers so "Half Plate" and
+ * "Full Plate" of the same biryani are separate lines with separate prices.
+ */
+// Labels are catalog keys, translated where the badge is drawn
+export const DIETARY_TAGS: Record<DietaryTag, { label: MessageKey; tone: 'veg' | 'non-veg' | 'allergen' | 'info' }> = {
+  'veg': { label: 'diet.veg', tone: 'veg' },
+  'vegan': { label: 'diet.vegan', tone: 'veg' },
+  'jain': { label: 'diet.jain', tone: 'veg' },
+  'egg': { label: 'diet.egg', tone: 'non-veg' },
+  'non-veg': { label: 'diet.nonVeg', tone: 'non-veg' },
+  'spicy': { label: 'diet.spicy', tone: 'info' },
+  'contains-peanuts': { label: 'diet.containsPeanuts', tone: 'allergen' },
+  'contains-dairy': { label: 'diet.containsDairy', tone: 'allergen' },
+  'contains-gluten': { label: 'diet.containsGluten', tone: 'allergen' }
+};
+
+export const defaultVariant = (item: MenuItem): MenuOption | undefined => item.variants?.[0];
+
+// Modifiers are sorted so the same add-ons picked in a different order share a line
+export const lineKey = (name: string, variant: string | undefined, modifiers: string[]) =>
+  [name, variant || '', ...[...modifiers].sort()].join('|');
+
+export const unitPrice = (item: MenuItem, variant: string | undefined, modifiers: string[]) => {
+  const base = item.variants?.find(v => v.name === variant)?.price ?? item.price;
+  return base + (item.modifiers || []).filter(m => modifiers.includes(m.name)).reduce((sum, m) => sum + m.price, 0);
+};
+
+export const buildCartLine = (item: MenuItem, variant: string | undefined, modifiers: string[], quantity: number): CartLine => ({
+  key: lineKey(item.name, variant, modifiers),
+  name: item.name,
+  ...(variant ? { variant } : {}),
+  modifiers: [...modifiers].sort(),
+  quantity,
+  price: unitPrice(item, variant, modifiers)
+});
+
+// "Mutton Biryani (Half Plate) + Extra Raita"
+export const describeLine = (line: Pick<OrderLine, 'name' | 'variant' | 'modifiers'>) =>
+  `${line.name}${line.variant ? ` (${line.variant})` : ''}${line.modifiers?.length ? ` + ${line.modifiers.join(', ')}` : ''}`;
+
+// Stock is held per item, so every line of the same item draws on one count
+export const quantityOfItem = (lines: Pick<OrderLine, 'name' | 'quantity'>[], name: string) =>
+  lines.filter(l => l.name === name).reduce((sum, l) => sum + l.quantity, 0);
+
+// Letters and digits of any script, so Tamil or Hindi names compare as well as English ones
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+
+// Exact match first, then either name containing the other. A name with nothing left to compare matches nothing.
+const findByName = <T extends { name: string }>(entries: T[], text: string): T | undefined => {
+  const wanted = normalize(text);
+  if (!wanted) return undefined;
+  const named = entries.map(entry => ({ entry, name: normalize(entry.name) })).filter(e => e.name);
+  return (named.find(e => e.name === wanted) ?? named.find(e => e.name.includes(wanted) || wanted.includes(e.name)))?.entry;
+};
+
+const findOption = (options: MenuOption[] | undefined, text: string | undefined) =>
+  options && text ? findByName(options, text) : undefined;
+
+/**
+ * Maps a parsed order item back onto the menu. Names, variants and add-ons are
+ * matched loosely ("half" → "Half Plate"), and prices always come from the menu
+ * rather than the model. Returns null when the item is not on the menu.
+ */
+export const resolveOrderItem = (menu: MenuItem[], parsed: ParsedOrderItem): CartLine | null => {
+  const item = findByName(menu, parsed.name);
+  if (!item) return null;
+  const variant = (findOption(item.variants, parsed.variant) ?? defaultVariant(item))?.name;
+  const modifiers = (parsed.modifiers || [])
+    .map(m => findOption(item.modifiers, m)?.name)
+    .filter((m, i, all): m is string => !!m && all.indexOf(m) === i);
+  return buildCartLine(item, variant, modifiers, parsed.quantity);
+};
+
+/**
+ * Parses "Half Plate: 150, Full Plate: 250" into options. Returns null when any
+ * entry is missing a name or a valid price.
+ */
+export const parseOptionList = (text: string): MenuOption[] | null => {
+  const entries = text.split(',').map(e => e.trim()).filter(Boolean);
+  const options = entries.map(entry => {
+    const [name, price] = entry.split(':').map(p => p.trim());
+    const value = Number(price?.replace(/^₹/, ''));
+    return name && price && Number.isFinite(value) && value >= 0 ? { name, price: value } : null;
+  });
+  return options.every(Boolean) ? (options as MenuOption[]) : null;
+};
+
+export const formatOptionList = (options: MenuOption[] | undefined) =>
+  (options || []).map(o => `${o.name}: ${o.price}`).join(', ');
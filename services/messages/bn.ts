@@ -0,0 +1,131 @@
+import { MessageKey } from "./en";
+
+/**
+ * Bengali UI catalog. Covers navigation, ordering and chat, the screens a
+ * visitor meets first; anything else falls back to English.
+ */
+export const bn: Partial<Record<MessageKey, string>> = {
+  // --- Navigation ---
+  'nav.missionImpact': 'মিশনের প্রভাব',
+  'nav.flavorGenealogy': 'স্বাদের বংশতালিকা',
+  'nav.explorer': 'অনুসন্ধানী',
+  'nav.hub': 'হাব',
+  'nav.runScrape': 'খাবার খোঁজা শুরু করুন',
+  'nav.liveSignals': 'লাইভ সিগন্যাল ({count, number})',
+  'nav.intel': 'তথ্য',
+  'nav.legends': 'বিখ্যাত',
+  'nav.lens': 'লেন্স',
+  'nav.establishingLink': 'লিংক তৈরি হচ্ছে...',
+
+  // --- Connectivity ---
+  'offline.cachedGrid': '○ অফলাইন · সংরক্ষিত গ্রিড',
+  'offline.online': '● অনলাইন',
+  'offline.queued': '{count, number}টি অপেক্ষায়',
+  'offline.syncNow': 'এখনই সিঙ্ক করুন',
+
+  // --- Order status ---
+  'orderStatus.placed': 'অর্ডার দেওয়া হয়েছে',
+  'orderStatus.accepted': 'গৃহীত',
+  'orderStatus.preparing': 'তৈরি হচ্ছে',
+  'orderStatus.ready': 'নেওয়ার জন্য প্রস্তুত',
+  'orderStatus.picked_up': 'নেওয়া হয়েছে',
+  'orderStatus.cancelled': 'বাতিল',
+
+  // --- Order modal ---
+  'order.soldOut': 'শেষ',
+  'order.left': '{count, number}টি বাকি',
+  'order.writing': 'এজেন্ট আপনার অর্ডার লিখছে...',
+  'order.listening': 'শুনছে...',
+  'order.voicePrompt': "আপনার অর্ডার বলুন (যেমন 'দুটো বিরিয়ানি')",
+  'order.placeholder': 'যেমন 2 বিরিয়ানি...',
+  'order.processing': 'প্রক্রিয়া চলছে...',
+  'order.add': 'তালিকায় যোগ করুন',
+  'order.finalize': 'নিশ্চিত করুন ({count, number})',
+  'order.total': 'মোট',
+  'order.name': 'পিকআপের নাম',
+  'order.namePlaceholder': 'বিক্রেতা এই নাম ধরে ডাকবেন',
+  'order.back': 'ফিরে যান',
+  'order.place': 'অর্ডার দিন',
+  'order.reference': 'অর্ডার {id} · {total, currency}',
+  'order.cancel': 'অর্ডার বাতিল করুন',
+  'order.close': 'বন্ধ করুন',
+  'order.tracking': '🧾 অর্ডার {id}: {status}',
+  'order.noMenu': 'এই পার্টনার নোডের কোনো মেনু নথিভুক্ত নেই।',
+  'order.cartEmpty': 'কার্ট খালি। জিনিস বেছে নিন বা আপনার অর্ডার বলুন।',
+  'order.allSoldOut': 'বাছাই করা জিনিসগুলো এখন পাওয়া যাচ্ছে না (শেষ)।',
+  'order.stockChanged': 'স্টক বদলেছে: {changes}।',
+  'order.lineSoldOut': '{line} শেষ',
+  'order.lineReduced': '{line} কমে {count, number} হয়েছে',
+  'order.notEnoughStock': 'যথেষ্ট স্টক নেই: {items}।',
+
+  // --- Shop panel ---
+  'shop.navigate': '🛰️ পথ দেখান',
+  'shop.orderNow': '🛒 এখনই অর্ডার করুন',
+  'shop.stopAudio': 'অডিও থামান',
+
+  // --- Opening hours ---
+  'hours.openUntil': 'এখন খোলা · {time} পর্যন্ত',
+  'hours.openAllDay': '২৪/৭ খোলা',
+  'hours.closesIn': '{minutes, number} মিনিটে বন্ধ হবে',
+  'hours.opensIn': '{minutes, number} মিনিটে খুলবে',
+  'hours.opensAt': 'বন্ধ · {time}-এ খুলবে',
+  'hours.opensOn': 'বন্ধ · {day} {time}-এ খুলবে',
+  'hours.closed': 'বন্ধ',
+
+  // --- Dietary tags ---
+  'diet.veg': 'নিরামিষ',
+  'diet.vegan': 'ভিগান',
+  'diet.jain': 'জৈন',
+  'diet.egg': 'ডিম',
+  'diet.nonVeg': 'আমিষ',
+  'diet.spicy': 'ঝাল',
+  'diet.containsPeanuts': 'চিনাবাদাম আছে',
+  'diet.containsDairy': 'দুগ্ধজাত আছে',
+  'diet.containsGluten': 'গ্লুটেন আছে',
+
+  // --- Hub registration ---
+  'reg.nameRequired': 'নোড তৈরি করতে নাম ও রান্নার ধরন দরকার।',
+  'reg.hoursInvalid': '{day}-এর সময় বোঝা যায়নি: "{hours}"। যেমন 12:00 - 15:00, 18:00 - 23:00 বা Closed লিখুন।',
+  'reg.overrideInvalid': 'একটি তারিখ বেছে সময় (যেমন 18:00 - 23:00) বা Closed লিখুন।',
+  'reg.optionsInvalid': 'বিকল্পগুলো পড়া গেল না। "নাম: দাম" জোড়া কমা দিয়ে আলাদা করে লিখুন, যেমন "Half Plate: 150, Full Plate: 250"।',
+  'reg.confirmDelete': 'এই নোড সরাবেন? এর সব অবস্থান-ইতিহাস মুছে যাবে।',
+
+  // --- Food crawl ---
+  'crawl.needTwoStops': 'ক্রল পরিকল্পনার জন্য অন্তত দুটি স্টপ যোগ করুন।',
+
+  // --- Map ---
+  'map.clusterLive': '{count, number} লাইভ',
+
+  // --- Node analysis ---
+  'success.title': 'সাফল্যের যুক্তি: কারণ ও ফল',
+  'success.locationGravity': 'জায়গার টান',
+  'success.flavorMoat': 'স্বাদের বিশেষত্ব',
+  'success.socialResonance': 'মানুষের মুখে মুখে',
+  'success.economicFit': 'অর্থনৈতিক মিল',
+  'success.flowPull': 'ভিড়ের টান',
+  'success.defensibility': 'প্রতিযোগিতায় টিকে থাকা',
+  'success.hypeVelocity': 'জনপ্রিয়তার গতি',
+  'success.marginSafety': 'লাভের নিরাপত্তা',
+  'synergy.title': 'সমন্বয় ম্যাট্রিক্স',
+  'synergy.correlation': 'সম্পর্ক',
+  'synergy.standby': 'গ্রিড অপেক্ষায়...',
+  'synergy.safety': 'নিরাপ.',
+  'synergy.logistics': 'যাতা.',
+  'synergy.success': 'সাফ.',
+  'synergy.footfall': 'ভিড়',
+  'synergy.climate': 'আবহা.',
+  'synergy.safetyIndex': 'নিরাপত্তা সূচক',
+  'synergy.climatic': 'আবহাওয়ার মিল',
+  'synergy.neural': '{value, number}% সমন্বয়',
+  'synergy.grounding': 'গ্রিড গ্রাউন্ডিং চালু',
+  'synergy.hint': 'বিস্তারিত কারণের জন্য ম্যাট্রিক্সের ঘরগুলো দেখুন',
+
+  // --- Chat ---
+  'chat.thinking': 'ভাবছে...',
+  'chat.placeholder': 'গ্রিডকে জিজ্ঞেস করুন...',
+  'chat.send': 'পাঠান',
+  'chat.queued': 'আপনি অফলাইনে আছেন। সংযোগ ফিরলেই উত্তর দেব।',
+  'chat.queueFailed': 'কয়েকবার চেষ্টা করেও প্রশ্নটি পাঠানো যায়নি। অনুগ্রহ করে আবার জিজ্ঞাসা করুন।',
+  'chat.failed': 'গ্রিডে বিঘ্ন ঘটেছে। অনুগ্রহ করে আবার জিজ্ঞেস করুন।',
+  'chat.unsupported': 'এই ব্রাউজারে ভয়েস শনাক্তকরণ সমর্থিত নয়।'
+};
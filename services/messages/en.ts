@@ -0,0 +1,406 @@
+/**
+ * English UI catalog. Its keys define MessageKey; every other catalog
+ * translates a subset of them. Syntax is documented in services/i18n.ts.
+ */
+export const en = {
+  // --- Navigation ---
+  'nav.missionImpact': 'Mission Impact',
+  'nav.flavorGenealogy': 'Flavor Genealogy',
+  'nav.explorer': 'Explorer',
+  'nav.hub': 'Hub',
+  'nav.runScrape': 'Run Food Scrape',
+  'nav.liveSignals': 'Live Signals ({count, number})',
+  'nav.intel': 'Intel',
+  'nav.legends': 'Legends',
+  'nav.lens': 'Lens',
+  'nav.establishingLink': 'Establishing Link...',
+
+  // --- Connectivity ---
+  'offline.cachedGrid': '○ Offline · Cached Grid',
+  'offline.online': '● Online',
+  'offline.queued': '{count, plural, one {# Queued} other {# Queued}}',
+  'offline.syncNow': 'Sync Now',
+
+  // --- Vendor hub ---
+  'hub.expertise': '{cuisine} Expertise',
+  'hub.activateSignal': 'ACTIVATE LIVE SIGNAL',
+  'hub.deactivateSignal': 'DEACTIVATE LIVE SIGNAL',
+  'hub.fix': 'Fix: {lat} N, {lng} E',
+  'hub.syncGps': '🛰️ Sync GPS',
+  'hub.track': '📍 Track',
+  'hub.tracking': '📍 Tracking · {name}',
+  'hub.trackHint': 'Follow this device while the signal is live',
+  'hub.trackDisabledHint': 'Activate the live signal to track',
+  'hub.editNode': 'Edit Node',
+  'hub.stockWatch': '⚠ Stock Watch',
+  'hub.unitsLeft': '{name}: {count, plural, one {# left} other {# left}}',
+  'hub.soldOut': '{name}: sold out',
+  'hub.initialize': 'Initialize Partner Node',
+  'hub.manage': 'Manage',
+
+  // --- Vendor orders ---
+  'orders.queue': 'Order Queue · {count, number}',
+  'orders.history': '{open, select, true {Hide} other {Show}} History ({count, number})',
+  'orders.none': 'No open orders',
+  'orders.decline': 'Decline',
+  'orders.cancel': 'Cancel',
+  'orders.accept': 'Accept',
+  'orders.mark': 'Mark {status}',
+  'orders.summary': '{count, plural, one {# item} other {# items}} · {total, currency}',
+  'orderStatus.placed': 'Placed',
+  'orderStatus.accepted': 'Accepted',
+  'orderStatus.preparing': 'Preparing',
+  'orderStatus.ready': 'Ready for Pickup',
+  'orderStatus.picked_up': 'Picked Up',
+  'orderStatus.cancelled': 'Cancelled',
+
+  // --- Flavor genealogy ---
+  'history.title': 'Cross-Temporal Synthesis',
+  'history.trace': '📷 Trace Visual Genealogy',
+  'history.reasoning': 'REASONING OVER HISTORICAL TOKENS...',
+  'history.authenticity': 'Authenticity Grid: {score}',
+  'history.protein': 'Protein',
+  'history.energy': 'Energy',
+  'history.carbs': 'Carbs',
+  'history.recommendations': 'Grid Recommendations',
+  'history.nutritionNote': '* Nutritional data is an AI estimate for educational purposes',
+  'history.evolution': '{neighborhood} Evolution',
+  'history.staples': 'Notable Staples',
+
+  // --- Mission impact ---
+  'impact.title': 'Mission: Street Visibility',
+  'impact.intro': 'In Tamil Nadu, street vendors are the backbone of the urban grid. However, a massive digital divide exists.',
+  'impact.identified': 'Govt Identified',
+  'impact.estimated': 'Estimated Total',
+  'impact.solution': 'The Solution: EyAI',
+  'impact.liveGrid': 'Live Grid Sync',
+  'impact.liveGridDesc': 'Allowing half a million vendors to broadcast their location.',
+  'impact.reasoning': 'Spatial Reasoning',
+  'impact.reasoningDesc': 'Gemini-powered wait time and footfall predictions.',
+  'impact.genealogy': 'Flavor Genealogy',
+  'impact.genealogyDesc': 'Tracing the cultural migration of street food icons.',
+  'impact.objective': 'Target Objective',
+  'impact.objectiveQuote': '"Syncing {count, number} Micro-Economies"',
+
+  // --- Agent logs ---
+  'logs.runVerification': '🚀 Run Autonomous Verification',
+  'logs.verifying': 'Running Coordination Loop...',
+
+  // --- Discovery and analytics ---
+  'discovery.calibrating': 'CALIBRATING SPATIAL GRID...',
+  'discovery.nodes': 'Nodes',
+  'discovery.intelligence': 'Intelligence',
+  'discovery.sectors': 'Sectors',
+  'analytics.generating': 'GENERATING SPATIAL INSIGHTS...',
+  'analytics.sectorSynthesis': 'Sector Synthesis',
+  'analytics.flavorVariance': 'Flavor Variance',
+  'analytics.economicZoning': 'Economic Zoning',
+  'analytics.legendary': 'Legendary Calibration',
+  'analytics.demographics': 'Grid Demographics',
+  'analytics.empty': 'No Intelligence Data available in this sector.',
+  'analytics.manualSync': 'Manual Sync',
+
+  // --- Sectors ---
+  'sectors.draw': 'Draw a Sector on the Map',
+  'sectors.circle': '◯ Circle',
+  'sectors.polygon': '⬠ Polygon',
+  'sectors.circleHint': 'Click the centre, then a point on the edge.',
+  'sectors.polygonHint': 'Click each corner. Double-click or click the first corner to finish.',
+  'sectors.drawing': 'Drawing Sector',
+  'sectors.cancel': 'Cancel',
+  'sectors.namePlaceholder': 'Sector name (e.g. Mylapore)',
+  'sectors.save': 'Save Sector',
+  'sectors.discard': 'Discard',
+  'sectors.empty': 'No sectors yet. Draw one to scope analytics to a neighborhood.',
+  'sectors.radius': '{distance} radius',
+  'sectors.outline': '{count, number}-point outline',
+  'sectors.nodes': '{count, plural, one {# node} other {# nodes}}',
+  'sectors.analyze': 'Analyze',
+  'sectors.reanalyze': 'Re-analyze',
+  'sectors.analyzing': 'Analyzing...',
+  'sectors.analyzedAt': 'Analyzed {time}',
+  'sectors.pickTwo': 'Pick two sectors (A and B) to compare them side by side.',
+  'sectors.comparison': 'Sector Comparison',
+  'sectors.avgSafety': 'Avg Safety',
+  'sectors.avgLogistics': 'Avg Logistics',
+  'sectors.cuisineMix': 'Cuisine Mix',
+  'sectors.footfall': 'Footfall Curves',
+  'sectors.legends': 'Legendary Index',
+  'sectors.noData': 'No data',
+  'trends.title': 'Trends Over Time',
+  'trends.snapshots': '{count, plural, one {# snapshot} other {# snapshots}}',
+  'trends.wholeGrid': 'Whole Grid',
+  'trends.empty': 'No snapshots yet. Every analytics run is saved here with its date.',
+  'trends.needMore': 'One snapshot so far. Re-run analytics over the coming weeks to see a trend.',
+  'trends.liveVendors': 'Live Vendors',
+  'trends.nodes': 'Nodes',
+  'trends.since': 'Since {date}',
+  'trends.presence': 'Nodes & Live Vendors',
+  'trends.scores': 'Average Scores',
+  'trends.legendScore': 'Avg Legend Score',
+  'trends.cuisines': 'Cuisine Share (%)',
+  'trends.exportCsv': 'Export CSV',
+  'trends.exportJson': 'Export JSON',
+  'sites.title': 'Site Finder',
+  'sites.hint': 'Rank spots within 1.5 km for a stall, from nearby footfall, competitors, logistics, safety and the weather today.',
+  'sites.cuisinePlaceholder': 'What you sell (e.g. Chaat)',
+  'sites.period': 'Trading Window',
+  'sites.find': 'Find Spots',
+  'sites.clear': 'Clear',
+  'sites.none': 'No spots with footfall data nearby. Run a food scrape around here first.',
+  'sites.score': 'Score {score, number}',
+  'sites.away': '{distance} away',
+  'sites.factor.footfall': 'Footfall',
+  'sites.factor.competition': 'Competition',
+  'sites.factor.logistics': 'Logistics',
+  'sites.factor.safety': 'Safety',
+  'sites.factor.weather': 'Weather',
+  'sites.drivenBy': 'Driven by {reasons}.',
+  'sites.heldBackBy': 'Held back by {reasons}.',
+  'sites.reason.footfall': '{period} footfall ({value, number})',
+  'sites.reason.competition': '{count, plural, =0 {no direct competitors} one {# direct competitor} other {# direct competitors}} within {radius, number} m',
+  'sites.reason.logistics': 'urban logistics ({value, number})',
+  'sites.reason.safety': 'safety ({value, number})',
+  'sites.reason.weather': '{condition} weather resilience ({value, number})',
+
+  // --- Grid exchange ---
+  'exchange.title': 'Grid Exchange',
+  'exchange.onConflict': 'On Conflict: {strategy, select, keep {Keep Grid} other {Replace}}',
+  'exchange.import': '⬆ Import',
+
+  // --- Food crawl ---
+  'crawl.title': 'Food Crawl · {count, plural, one {# Stop} other {# Stops}}',
+  'crawl.clear': 'Clear',
+  'crawl.leg': '{minutes, plural, one {# min} other {# min}} walk · arrive {time}',
+  'crawl.closed': ' · Closed',
+  'crawl.peak': ' · Peak',
+  'crawl.total': '{km} km · {minutes, plural, one {# min} other {# min}} with stops',
+  'crawl.routing': ' · Routing streets...',
+  'crawl.replan': 'Re-plan From Here',
+  'crawl.plan': 'Plan Walking Route',
+  'crawl.add': '＋ Crawl',
+  'crawl.added': '✓ In Crawl',
+  'crawl.needTwoStops': 'Add at least two stops to plan a crawl.',
+
+  // --- Node list and filters ---
+  'list.count': '{shown, number} of {total, plural, one {# Node} other {# Nodes}}',
+  'list.distanceKm': '{km} km',
+  'list.legend': 'Legend {score}',
+  'list.footfall': 'Footfall {score}',
+  'sort.distance': 'Nearest',
+  'sort.legendary': 'Legendary',
+  'sort.footfall': 'Busiest Now',
+  'filters.title': 'Filters',
+  'filters.titleCount': 'Filters ({count, number})',
+  'filters.openNow': 'Open Now',
+  'filters.minSafety': 'Min Safety {value}',
+  'filters.minWalkability': 'Min Walkability {value}',
+  'filters.any': 'Any',
+  'filters.anyDistance': 'Any Distance',
+  'filters.withinKm': 'Within {km, number} km',
+  'filters.mapFiltered': 'Map: Filtered',
+  'filters.mapAll': 'Map: All Nodes',
+  'filters.reset': 'Reset',
+  'origin.live': 'Live',
+  'origin.offline': 'Offline',
+  'origin.synced': 'AI-Synced',
+  'origin.seed': 'Seed',
+  'origin.imported': 'Imported',
+  'price.street': 'Street',
+  'price.mid': 'Mid-Range',
+  'price.premium': 'Premium',
+
+  // --- Lens ---
+  'lens.target': 'Active Lens Target',
+  'lens.selectNode': 'Select a Food Node',
+  'lens.analyzing': 'Analyzing Visual Nodes...',
+  'lens.crossReferencing': 'Cross-referencing spatial metadata',
+  'lens.observations': 'Spatial Observations',
+  'lens.safety': 'Safety Intelligence',
+  'lens.crime': 'Crime',
+  'lens.police': 'Police',
+  'lens.lighting': 'Lighting',
+  'lens.precincts': 'Nearest Police Precincts',
+  'lens.logistics': 'Urban Logistics',
+  'lens.transit': 'Transit',
+  'lens.walkability': 'Walkability',
+  'lens.parking': 'Parking',
+  'lens.transportNodes': 'Nearby Transport Nodes',
+  'lens.traffic': 'Traffic Intelligence',
+  'lens.temporalDensity': 'Temporal Density Analysis',
+  'lens.idle': 'Lens System Idle.',
+  'lens.upload': '📹 Analyze Stall Video / Photos',
+  'lens.uploadHint': 'Frames are sampled on this device',
+  'lens.sampledFrames': 'Sampled Frames ({count, number})',
+  'lens.uploadedStall': 'Uploaded stall',
+
+  // --- Live signals and alerts ---
+  'live.count': '{count, plural, one {# Live Signal} other {# Live Signals}}',
+  'live.sharedGrid': '● Shared Grid',
+  'live.localOnly': '○ This Device Only',
+  'live.signal': 'Live Signal',
+  'alerts.title': 'Proximity Alerts',
+  'alerts.on': 'On',
+  'alerts.off': 'Off',
+  'alerts.summary': '{vendors, plural, one {# vendor} other {# vendors}} and {cuisines, plural, one {# cuisine} other {# cuisines}} followed within {radius}.',
+  'alerts.cuisines': 'Cuisines',
+  'alerts.vendors': 'Vendors',
+  'alerts.quietHours': 'Quiet Hours',
+  'alerts.until': 'to',
+  'alerts.speakOn': '🔊 Spoken Announcements On',
+  'alerts.speakOff': '🔈 Spoken Announcements Off',
+  'alerts.follow': '☆ Follow',
+  'alerts.following': '★ Following',
+
+  // --- Map ---
+  'layers.title': 'Map Layers',
+  'layers.footfall': 'Footfall',
+  'layers.safety': 'Safety',
+  'layers.transit': 'Transit',
+  'layers.low': 'Low',
+  'layers.high': 'High',
+  'map.clusterLive': '{count, number} live',
+
+  // --- Ordering ---
+  'order.soldOut': 'SOLD OUT',
+  'order.left': '{count, plural, one {# left} other {# left}}',
+  'order.writing': 'Agent is writing down your order...',
+  'order.listening': 'Listening to Signal...',
+  'order.voicePrompt': "State items to ADD via voice (e.g. 'Add 2 Biryanis')",
+  'order.placeholder': 'e.g. 2 Biryanis...',
+  'order.rec': 'REC',
+  'order.mic': 'MIC',
+  'order.processing': 'Processing...',
+  'order.add': 'Voice/Text Add',
+  'order.finalize': 'Finalize ({count, number})',
+  'order.total': 'Grid Energy Total',
+  'order.name': 'Name for Pickup',
+  'order.namePlaceholder': 'The vendor calls this name out',
+  'order.back': 'Back',
+  'order.place': 'Place Order',
+  'order.reference': 'Order {id} · {total, currency}',
+  'order.cancel': 'Cancel Order',
+  'order.close': 'Close',
+  'order.tracking': '🧾 Order {id}: {status}',
+  'order.noMenu': 'This partner node has no menu registered in the grid.',
+  'order.cartEmpty': 'Cart is empty. Select items or state your order.',
+  'order.allSoldOut': 'The selected items are currently unavailable (Sold Out).',
+  'order.stockChanged': 'Stock changed: {changes}.',
+  'order.lineSoldOut': '{line} is sold out',
+  'order.lineReduced': '{line} reduced to {count, number}',
+  'order.notEnoughStock': 'Not enough stock left for: {items}.',
+
+  // --- Hub registration ---
+  'reg.editTitle': 'Modify Node Data',
+  'reg.newTitle': 'Establish Node Signal',
+  'reg.editSubtitle': 'Updating live manifest',
+  'reg.newSubtitle': 'Onboarding legend',
+  'reg.symbol': 'Symbol',
+  'reg.alias': 'Hub Alias',
+  'reg.aliasPlaceholder': "E.g. Murali's Snacks",
+  'reg.cuisine': 'Cuisine Specialty',
+  'reg.cuisinePlaceholder': 'E.g. Authentic Rose Milk',
+  'reg.coordinates': 'Manual Coordinates (DMS)',
+  'reg.apply': 'Apply',
+  'reg.bio': 'Broadcast Bio',
+  'reg.generateBio': '✨ Gemini Bio',
+  'reg.hours': 'Operating Hours',
+  'reg.copyMonday': 'Copy Mon to All',
+  'reg.overnightHint': 'A close before the open runs past midnight (e.g. 18:00 - 02:00).',
+  'reg.overrides': 'Holidays & Special Days',
+  'reg.add': 'Add',
+  'reg.menu': 'Inventory Manifest (Menu)',
+  'reg.offShelf': 'OFF-SHELF',
+  'reg.addOns': 'Add-ons: {list}',
+  'reg.dailyPrep': 'Daily prep {count, number}',
+  'reg.stockHint': 'Units in stock (blank = untracked)',
+  'reg.restock': 'Restock',
+  'reg.markSoldOut': 'Sold Out',
+  'reg.itemPlaceholder': 'Item',
+  'reg.pricePlaceholder': 'Price',
+  'reg.prepPlaceholder': 'Daily Prep',
+  'reg.variantsPlaceholder': 'Variants (Half Plate: 150, Full Plate: 250)',
+  'reg.modifiersPlaceholder': 'Add-ons (Extra Raita: 20)',
+  'reg.addItem': '+ Add to Manifest',
+  'reg.cancel': 'Cancel',
+  'reg.save': 'Activate Partner Node',
+  'reg.nameRequired': 'Name and Cuisine are required to establish a node.',
+  'reg.hoursInvalid': 'Hours for {day} not understood: "{hours}". Use e.g. 12:00 - 15:00, 18:00 - 23:00 or Closed.',
+  'reg.overrideInvalid': 'Pick a date and enter hours (e.g. 18:00 - 23:00) or Closed.',
+  'reg.optionsInvalid': 'Could not read the options. Use "Name: price" pairs separated by commas, e.g. "Half Plate: 150, Full Plate: 250".',
+  'reg.confirmDelete': 'Confirm decommissioning? All spatial history will be purged.',
+
+  // --- Reviews ---
+  'review.title': 'Add Exploratory Review',
+  'review.alias': 'Alias',
+  'review.rating': 'Rating',
+  'review.commentary': 'Commentary',
+  'review.placeholder': 'Shared knowledge regarding flavor profile...',
+  'review.submit': 'Commit Review',
+
+  // --- Node panel ---
+  'shop.footfallEngine': 'Predictive Footfall engine',
+  'shop.successIndex': 'Success Breakdown Index',
+  'shop.fieldIntel': 'Field Intelligence ({count, number})',
+  'shop.addReview': '+ Add Review',
+  'shop.noReviews': 'No exploration logs yet.',
+  'shop.navigate': '🛰️ Navigate',
+  'shop.orderNow': '🛒 Order Now',
+  'shop.stopAudio': 'Stop Audio',
+
+  // --- Opening hours ---
+  'hours.openUntil': 'Open now · until {time}',
+  'hours.openAllDay': 'Open 24/7',
+  'hours.closesIn': 'Closes in {minutes, number} min',
+  'hours.opensIn': 'Opens in {minutes, number} min',
+  'hours.opensAt': 'Closed · opens {time}',
+  'hours.opensOn': 'Closed · opens {day} {time}',
+  'hours.closed': 'Closed',
+
+  // --- Dietary tags ---
+  'diet.veg': 'Veg',
+  'diet.vegan': 'Vegan',
+  'diet.jain': 'Jain',
+  'diet.egg': 'Egg',
+  'diet.nonVeg': 'Non-Veg',
+  'diet.spicy': 'Spicy',
+  'diet.containsPeanuts': 'Contains Peanuts',
+  'diet.containsDairy': 'Contains Dairy',
+  'diet.containsGluten': 'Contains Gluten',
+
+  // --- Node analysis ---
+  'success.title': 'Success Logic: Cause & Effect',
+  'success.locationGravity': 'Location Gravity',
+  'success.flavorMoat': 'Flavor Moat',
+  'success.socialResonance': 'Social Resonance',
+  'success.economicFit': 'Economic Fit',
+  'success.flowPull': 'Flow Pull',
+  'success.defensibility': 'Defensibility',
+  'success.hypeVelocity': 'Hype Velocity',
+  'success.marginSafety': 'Margin Safety',
+  'synergy.title': 'Diagnostic Synergy Matrix',
+  'synergy.correlation': 'Correlation',
+  'synergy.standby': 'Neural grid standby...',
+  'synergy.safety': 'Safety',
+  'synergy.logistics': 'Logi',
+  'synergy.success': 'Succ',
+  'synergy.footfall': 'Foot',
+  'synergy.climate': 'Clim',
+  'synergy.safetyIndex': 'Safety Index',
+  'synergy.climatic': 'Climatic Synergy',
+  'synergy.neural': '{value, number}% Neural Synergy',
+  'synergy.grounding': 'Grid Grounding Active',
+  'synergy.hint': 'Scan matrix nodes for detailed causal reasoning',
+
+  // --- Chat ---
+  'chat.subtitle': 'Spatial Reasoning Engine',
+  'chat.thinking': 'Thinking...',
+  'chat.placeholder': 'Query grid...',
+  'chat.send': 'Send',
+  'chat.queued': "You're offline. I'll answer this as soon as the connection returns.",
+  'chat.queueFailed': "This question could not be sent after several tries. Please ask it again.",
+  'chat.failed': 'Grid interference detected. The spatial chat agent could not recover, please ask again.',
+  'chat.unsupported': 'Speech recognition not supported in this browser.'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,131 @@
+import { MessageKey } from "./en";
+
+/**
+ * Hindi UI catalog. Covers navigation, ordering and chat, the screens a
+ * visitor meets first; anything else falls back to English.
+ */
+export const hi: Partial<Record<MessageKey, string>> = {
+  // --- Navigation ---
+  'nav.missionImpact': 'मिशन प्रभाव',
+  'nav.flavorGenealogy': 'स्वाद की वंशावली',
+  'nav.explorer': 'खोजकर्ता',
+  'nav.hub': 'हब',
+  'nav.runScrape': 'खाने की खोज चलाएँ',
+  'nav.liveSignals': 'लाइव सिग्नल ({count, number})',
+  'nav.intel': 'जानकारी',
+  'nav.legends': 'मशहूर',
+  'nav.lens': 'लेंस',
+  'nav.establishingLink': 'लिंक बन रहा है...',
+
+  // --- Connectivity ---
+  'offline.cachedGrid': '○ ऑफ़लाइन · सेव किया ग्रिड',
+  'offline.online': '● ऑनलाइन',
+  'offline.queued': '{count, number} कतार में',
+  'offline.syncNow': 'अभी सिंक करें',
+
+  // --- Order status ---
+  'orderStatus.placed': 'ऑर्डर दिया गया',
+  'orderStatus.accepted': 'स्वीकार किया गया',
+  'orderStatus.preparing': 'बन रहा है',
+  'orderStatus.ready': 'लेने के लिए तैयार',
+  'orderStatus.picked_up': 'ले लिया गया',
+  'orderStatus.cancelled': 'रद्द',
+
+  // --- Order modal ---
+  'order.soldOut': 'खत्म',
+  'order.left': '{count, number} बचे',
+  'order.writing': 'एजेंट आपका ऑर्डर लिख रहा है...',
+  'order.listening': 'सुन रहा है...',
+  'order.voicePrompt': "अपना ऑर्डर बोलिए (जैसे 'दो बिरयानी')",
+  'order.placeholder': 'जैसे 2 बिरयानी...',
+  'order.processing': 'प्रोसेस हो रहा है...',
+  'order.add': 'सूची में जोड़ें',
+  'order.finalize': 'पक्का करें ({count, number})',
+  'order.total': 'कुल',
+  'order.name': 'पिकअप के लिए नाम',
+  'order.namePlaceholder': 'विक्रेता यही नाम पुकारेंगे',
+  'order.back': 'वापस',
+  'order.place': 'ऑर्डर दें',
+  'order.reference': 'ऑर्डर {id} · {total, currency}',
+  'order.cancel': 'ऑर्डर रद्द करें',
+  'order.close': 'बंद करें',
+  'order.tracking': '🧾 ऑर्डर {id}: {status}',
+  'order.noMenu': 'इस पार्टनर नोड का कोई मेन्यू दर्ज नहीं है।',
+  'order.cartEmpty': 'कार्ट खाली है। चीज़ें चुनें या अपना ऑर्डर बोलें।',
+  'order.allSoldOut': 'चुनी गई चीज़ें अभी उपलब्ध नहीं हैं (ख़त्म)।',
+  'order.stockChanged': 'स्टॉक बदल गया: {changes}।',
+  'order.lineSoldOut': '{line} ख़त्म हो गया',
+  'order.lineReduced': '{line} घटाकर {count, number} किया गया',
+  'order.notEnoughStock': 'इनका स्टॉक कम है: {items}।',
+
+  // --- Shop panel ---
+  'shop.navigate': '🛰️ रास्ता दिखाएँ',
+  'shop.orderNow': '🛒 अभी ऑर्डर करें',
+  'shop.stopAudio': 'ऑडियो रोकें',
+
+  // --- Opening hours ---
+  'hours.openUntil': 'अभी खुला है · {time} तक',
+  'hours.openAllDay': '24/7 खुला',
+  'hours.closesIn': '{minutes, number} मिनट में बंद होगा',
+  'hours.opensIn': '{minutes, number} मिनट में खुलेगा',
+  'hours.opensAt': 'बंद है · {time} खुलेगा',
+  'hours.opensOn': 'बंद है · {day} {time} खुलेगा',
+  'hours.closed': 'बंद',
+
+  // --- Dietary tags ---
+  'diet.veg': 'शाकाहारी',
+  'diet.vegan': 'वीगन',
+  'diet.jain': 'जैन',
+  'diet.egg': 'अंडा',
+  'diet.nonVeg': 'मांसाहारी',
+  'diet.spicy': 'तीखा',
+  'diet.containsPeanuts': 'मूंगफली है',
+  'diet.containsDairy': 'डेयरी है',
+  'diet.containsGluten': 'ग्लूटेन है',
+
+  // --- Hub registration ---
+  'reg.nameRequired': 'नोड बनाने के लिए नाम और व्यंजन ज़रूरी हैं।',
+  'reg.hoursInvalid': '{day} का समय समझ नहीं आया: "{hours}"। जैसे 12:00 - 15:00, 18:00 - 23:00 या Closed लिखें।',
+  'reg.overrideInvalid': 'तारीख चुनें और समय (जैसे 18:00 - 23:00) या Closed लिखें।',
+  'reg.optionsInvalid': 'विकल्प पढ़े नहीं जा सके। "नाम: दाम" जोड़े कॉमा से अलग करके लिखें, जैसे "Half Plate: 150, Full Plate: 250"।',
+  'reg.confirmDelete': 'यह नोड हटाएँ? इसका पूरा स्थान इतिहास मिट जाएगा।',
+
+  // --- Food crawl ---
+  'crawl.needTwoStops': 'क्रॉल की योजना के लिए कम से कम दो पड़ाव जोड़ें।',
+
+  // --- Map ---
+  'map.clusterLive': '{count, number} लाइव',
+
+  // --- Node analysis ---
+  'success.title': 'सफलता का तर्क: कारण और असर',
+  'success.locationGravity': 'जगह का खिंचाव',
+  'success.flavorMoat': 'स्वाद की ख़ासियत',
+  'success.socialResonance': 'लोगों में चर्चा',
+  'success.economicFit': 'आर्थिक मेल',
+  'success.flowPull': 'भीड़ का खिंचाव',
+  'success.defensibility': 'मुक़ाबले में टिकाऊपन',
+  'success.hypeVelocity': 'चर्चा की रफ़्तार',
+  'success.marginSafety': 'मुनाफ़े की सुरक्षा',
+  'synergy.title': 'तालमेल मैट्रिक्स',
+  'synergy.correlation': 'संबंध',
+  'synergy.standby': 'ग्रिड तैयार है...',
+  'synergy.safety': 'सुरक्षा',
+  'synergy.logistics': 'पहुँच',
+  'synergy.success': 'सफल.',
+  'synergy.footfall': 'भीड़',
+  'synergy.climate': 'मौसम',
+  'synergy.safetyIndex': 'सुरक्षा सूचकांक',
+  'synergy.climatic': 'मौसम का तालमेल',
+  'synergy.neural': '{value, number}% तालमेल',
+  'synergy.grounding': 'ग्रिड ग्राउंडिंग चालू',
+  'synergy.hint': 'विस्तृत कारणों के लिए मैट्रिक्स के खाने देखें',
+
+  // --- Chat ---
+  'chat.thinking': 'सोच रहा है...',
+  'chat.placeholder': 'ग्रिड से पूछें...',
+  'chat.send': 'भेजें',
+  'chat.queued': 'आप ऑफ़लाइन हैं। कनेक्शन लौटते ही जवाब दूँगा।',
+  'chat.queueFailed': 'कई कोशिशों के बाद भी यह सवाल भेजा नहीं जा सका। कृपया फिर से पूछें।',
+  'chat.failed': 'ग्रिड में रुकावट आई। कृपया फिर से पूछें।',
+  'chat.unsupported': 'इस ब्राउज़र में आवाज़ पहचान उपलब्ध नहीं है।'
+};
@@ -0,0 +1,131 @@
+import { MessageKey } from "./en";
+
+/**
+ * Malayalam UI catalog. Covers navigation, ordering and chat, the screens a
+ * visitor meets first; anything else falls back to English.
+ */
+export const ml: Partial<Record<MessageKey, string>> = {
+  // --- Navigation ---
+  'nav.missionImpact': 'മിഷൻ സ്വാധീനം',
+  'nav.flavorGenealogy': 'രുചിയുടെ വംശാവലി',
+  'nav.explorer': 'പര്യവേക്ഷകൻ',
+  'nav.hub': 'ഹബ്',
+  'nav.runScrape': 'ഭക്ഷണ തിരച്ചിൽ തുടങ്ങുക',
+  'nav.liveSignals': 'ലൈവ് സിഗ്നലുകൾ ({count, number})',
+  'nav.intel': 'വിവരങ്ങൾ',
+  'nav.legends': 'പ്രശസ്തർ',
+  'nav.lens': 'ലെൻസ്',
+  'nav.establishingLink': 'ലിങ്ക് സ്ഥാപിക്കുന്നു...',
+
+  // --- Connectivity ---
+  'offline.cachedGrid': '○ ഓഫ്‌ലൈൻ · സേവ് ചെയ്ത ഗ്രിഡ്',
+  'offline.online': '● ഓൺലൈൻ',
+  'offline.queued': '{count, number} കാത്തിരിക്കുന്നു',
+  'offline.syncNow': 'ഇപ്പോൾ സിങ്ക് ചെയ്യുക',
+
+  // --- Order status ---
+  'orderStatus.placed': 'ഓർഡർ ചെയ്തു',
+  'orderStatus.accepted': 'സ്വീകരിച്ചു',
+  'orderStatus.preparing': 'തയ്യാറാക്കുന്നു',
+  'orderStatus.ready': 'എടുക്കാൻ തയ്യാർ',
+  'orderStatus.picked_up': 'എടുത്തു',
+  'orderStatus.cancelled': 'റദ്ദാക്കി',
+
+  // --- Order modal ---
+  'order.soldOut': 'തീർന്നു',
+  'order.left': '{count, number} ബാക്കി',
+  'order.writing': 'ഏജന്റ് നിങ്ങളുടെ ഓർഡർ എഴുതുന്നു...',
+  'order.listening': 'കേൾക്കുന്നു...',
+  'order.voicePrompt': "നിങ്ങളുടെ ഓർഡർ പറയൂ (ഉദാ. 'രണ്ട് ബിരിയാണി')",
+  'order.placeholder': 'ഉദാ. 2 ബിരിയാണി...',
+  'order.processing': 'പ്രോസസ്സ് ചെയ്യുന്നു...',
+  'order.add': 'പട്ടികയിൽ ചേർക്കുക',
+  'order.finalize': 'ഉറപ്പാക്കുക ({count, number})',
+  'order.total': 'ആകെ',
+  'order.name': 'വാങ്ങാനെത്തുന്നയാളുടെ പേര്',
+  'order.namePlaceholder': 'കച്ചവടക്കാരൻ ഈ പേര് വിളിക്കും',
+  'order.back': 'പിന്നോട്ട്',
+  'order.place': 'ഓർഡർ ചെയ്യുക',
+  'order.reference': 'ഓർഡർ {id} · {total, currency}',
+  'order.cancel': 'ഓർഡർ റദ്ദാക്കുക',
+  'order.close': 'അടയ്ക്കുക',
+  'order.tracking': '🧾 ഓർഡർ {id}: {status}',
+  'order.noMenu': 'ഈ പങ്കാളി നോഡിന് മെനു രജിസ്റ്റർ ചെയ്തിട്ടില്ല.',
+  'order.cartEmpty': 'കാർട്ട് ശൂന്യമാണ്. ഇനങ്ങൾ തിരഞ്ഞെടുക്കുക അല്ലെങ്കിൽ ഓർഡർ പറയുക.',
+  'order.allSoldOut': 'തിരഞ്ഞെടുത്ത ഇനങ്ങൾ ഇപ്പോൾ ലഭ്യമല്ല (തീർന്നു).',
+  'order.stockChanged': 'സ്റ്റോക്ക് മാറി: {changes}.',
+  'order.lineSoldOut': '{line} തീർന്നു',
+  'order.lineReduced': '{line} {count, number} ആയി കുറച്ചു',
+  'order.notEnoughStock': 'ആവശ്യത്തിന് സ്റ്റോക്ക് ഇല്ല: {items}.',
+
+  // --- Shop panel ---
+  'shop.navigate': '🛰️ വഴി കാണിക്കുക',
+  'shop.orderNow': '🛒 ഇപ്പോൾ ഓർഡർ ചെയ്യുക',
+  'shop.stopAudio': 'ഓഡിയോ നിർത്തുക',
+
+  // --- Opening hours ---
+  'hours.openUntil': 'ഇപ്പോൾ തുറന്നിരിക്കുന്നു · {time} വരെ',
+  'hours.openAllDay': '24/7 തുറന്നിരിക്കും',
+  'hours.closesIn': '{minutes, number} മിനിറ്റിൽ അടയ്ക്കും',
+  'hours.opensIn': '{minutes, number} മിനിറ്റിൽ തുറക്കും',
+  'hours.opensAt': 'അടച്ചിരിക്കുന്നു · {time}-ന് തുറക്കും',
+  'hours.opensOn': 'അടച്ചിരിക്കുന്നു · {day} {time}-ന് തുറക്കും',
+  'hours.closed': 'അടച്ചിരിക്കുന്നു',
+
+  // --- Dietary tags ---
+  'diet.veg': 'വെജ്',
+  'diet.vegan': 'വീഗൻ',
+  'diet.jain': 'ജെയിൻ',
+  'diet.egg': 'മുട്ട',
+  'diet.nonVeg': 'നോൺ-വെജ്',
+  'diet.spicy': 'എരിവ്',
+  'diet.containsPeanuts': 'നിലക്കടല അടങ്ങിയിരിക്കുന്നു',
+  'diet.containsDairy': 'പാലുൽപ്പന്നം അടങ്ങിയിരിക്കുന്നു',
+  'diet.containsGluten': 'ഗ്ലൂട്ടൻ അടങ്ങിയിരിക്കുന്നു',
+
+  // --- Hub registration ---
+  'reg.nameRequired': 'നോഡ് സ്ഥാപിക്കാൻ പേരും വിഭവ ഇനവും ആവശ്യമാണ്.',
+  'reg.hoursInvalid': '{day} സമയം മനസ്സിലായില്ല: "{hours}". ഉദാ. 12:00 - 15:00, 18:00 - 23:00 അല്ലെങ്കിൽ Closed എന്ന് എഴുതുക.',
+  'reg.overrideInvalid': 'ഒരു തീയതി തിരഞ്ഞെടുത്ത് സമയം (ഉദാ. 18:00 - 23:00) അല്ലെങ്കിൽ Closed നൽകുക.',
+  'reg.optionsInvalid': 'ഓപ്ഷനുകൾ വായിക്കാനായില്ല. "പേര്: വില" ജോഡികൾ കോമ ഇട്ട് എഴുതുക, ഉദാ. "Half Plate: 150, Full Plate: 250".',
+  'reg.confirmDelete': 'ഈ നോഡ് നീക്കം ചെയ്യട്ടെ? അതിന്റെ മുഴുവൻ സ്ഥല ചരിത്രവും മായ്ക്കപ്പെടും.',
+
+  // --- Food crawl ---
+  'crawl.needTwoStops': 'യാത്ര ആസൂത്രണം ചെയ്യാൻ കുറഞ്ഞത് രണ്ട് സ്റ്റോപ്പുകൾ ചേർക്കുക.',
+
+  // --- Map ---
+  'map.clusterLive': '{count, number} ലൈവ്',
+
+  // --- Node analysis ---
+  'success.title': 'വിജയത്തിന്റെ യുക്തി: കാരണവും ഫലവും',
+  'success.locationGravity': 'സ്ഥലത്തിന്റെ ആകർഷണം',
+  'success.flavorMoat': 'രുചിയുടെ സവിശേഷത',
+  'success.socialResonance': 'സാമൂഹിക സ്വീകാര്യത',
+  'success.economicFit': 'സാമ്പത്തിക യോജിപ്പ്',
+  'success.flowPull': 'ജനങ്ങളുടെ ഒഴുക്ക്',
+  'success.defensibility': 'മത്സരം നേരിടാനുള്ള കരുത്ത്',
+  'success.hypeVelocity': 'പ്രചാരത്തിന്റെ വേഗം',
+  'success.marginSafety': 'ലാഭ സുരക്ഷ',
+  'synergy.title': 'സമന്വയ മാട്രിക്സ്',
+  'synergy.correlation': 'പരസ്പരബന്ധം',
+  'synergy.standby': 'ഗ്രിഡ് കാത്തിരിക്കുന്നു...',
+  'synergy.safety': 'സുരക്ഷ',
+  'synergy.logistics': 'ഗതാ.',
+  'synergy.success': 'വിജ.',
+  'synergy.footfall': 'തിരക്ക്',
+  'synergy.climate': 'കാലാ.',
+  'synergy.safetyIndex': 'സുരക്ഷാ സൂചിക',
+  'synergy.climatic': 'കാലാവസ്ഥാ യോജിപ്പ്',
+  'synergy.neural': '{value, number}% സമന്വയം',
+  'synergy.grounding': 'ഗ്രിഡ് ഗ്രൗണ്ടിംഗ് സജീവം',
+  'synergy.hint': 'വിശദമായ കാരണങ്ങൾക്ക് മാട്രിക്സ് കളങ്ങൾ നോക്കുക',
+
+  // --- Chat ---
+  'chat.thinking': 'ആലോചിക്കുന്നു...',
+  'chat.placeholder': 'ഗ്രിഡിനോട് ചോദിക്കൂ...',
+  'chat.send': 'അയയ്ക്കുക',
+  'chat.queued': 'നിങ്ങൾ ഓഫ്‌ലൈനാണ്. കണക്ഷൻ തിരികെ വന്നാലുടൻ മറുപടി നൽകാം.',
+  'chat.queueFailed': 'പലതവണ ശ്രമിച്ചിട്ടും ഈ ചോദ്യം അയയ്ക്കാനായില്ല. ദയവായി വീണ്ടും ചോദിക്കൂ.',
+  'chat.failed': 'ഗ്രിഡിൽ തടസ്സം. ദയവായി വീണ്ടും ചോദിക്കൂ.',
+  'chat.unsupported': 'ഈ ബ്രൗസറിൽ ശബ്ദ തിരിച്ചറിയൽ ലഭ്യമല്ല.'
+};
@@ -0,0 +1,406 @@
+import { MessageKey } from "./en";
+
+/**
+ * Tamil UI catalog. Kept complete so the Tamil interface never falls back to
+ * English mid-screen; brand names and dish names stay as written.
+ */
+export const ta: Record<MessageKey, string> = {
+  // --- Navigation ---
+  'nav.missionImpact': 'இயக்கத்தின் தாக்கம்',
+  'nav.flavorGenealogy': 'சுவை வரலாறு',
+  'nav.explorer': 'தேடுபவர்',
+  'nav.hub': 'கடை',
+  'nav.runScrape': 'உணவு தேடலைத் தொடங்கு',
+  'nav.liveSignals': 'நேரலை கடைகள் ({count, number})',
+  'nav.intel': 'தகவல்',
+  'nav.legends': 'புகழ்பெற்றவை',
+  'nav.lens': 'லென்ஸ்',
+  'nav.establishingLink': 'இணைப்பு ஏற்படுத்தப்படுகிறது...',
+
+  // --- Connectivity ---
+  'offline.cachedGrid': '○ இணைப்பு இல்லை · சேமித்த வரைபடம்',
+  'offline.online': '● இணைப்பில்',
+  'offline.queued': '{count, plural, one {# காத்திருக்கிறது} other {# காத்திருக்கின்றன}}',
+  'offline.syncNow': 'இப்போது ஒத்திசை',
+
+  // --- Vendor hub ---
+  'hub.expertise': '{cuisine} நிபுணர்',
+  'hub.activateSignal': 'நேரலையைத் தொடங்கு',
+  'hub.deactivateSignal': 'நேரலையை நிறுத்து',
+  'hub.fix': 'இருப்பிடம்: {lat} வ, {lng} கி',
+  'hub.syncGps': '🛰️ GPS ஒத்திசை',
+  'hub.track': '📍 பின்தொடர்',
+  'hub.tracking': '📍 பின்தொடர்கிறது · {name}',
+  'hub.trackHint': 'நேரலையில் இருக்கும்போது இந்தச் சாதனத்தைப் பின்தொடரும்',
+  'hub.trackDisabledHint': 'பின்தொடர நேரலையைத் தொடங்கவும்',
+  'hub.editNode': 'திருத்து',
+  'hub.stockWatch': '⚠ இருப்பு கவனம்',
+  'hub.unitsLeft': '{name}: {count, plural, one {# மீதம்} other {# மீதம்}}',
+  'hub.soldOut': '{name}: தீர்ந்தது',
+  'hub.initialize': 'புதிய கடையைப் பதிவு செய்',
+  'hub.manage': 'நிர்வகி',
+
+  // --- Vendor orders ---
+  'orders.queue': 'ஆர்டர் வரிசை · {count, number}',
+  'orders.history': 'வரலாற்றை {open, select, true {மறை} other {காட்டு}} ({count, number})',
+  'orders.none': 'திறந்த ஆர்டர்கள் இல்லை',
+  'orders.decline': 'நிராகரி',
+  'orders.cancel': 'ரத்து செய்',
+  'orders.accept': 'ஏற்றுக்கொள்',
+  'orders.mark': '{status} எனக் குறி',
+  'orders.summary': '{count, plural, one {# பொருள்} other {# பொருட்கள்}} · {total, currency}',
+  'orderStatus.placed': 'பதிவானது',
+  'orderStatus.accepted': 'ஏற்கப்பட்டது',
+  'orderStatus.preparing': 'தயாராகிறது',
+  'orderStatus.ready': 'எடுக்கத் தயார்',
+  'orderStatus.picked_up': 'பெறப்பட்டது',
+  'orderStatus.cancelled': 'ரத்தானது',
+
+  // --- Flavor genealogy ---
+  'history.title': 'காலம் கடந்த ஆய்வு',
+  'history.trace': '📷 உணவின் வரலாற்றைக் கண்டறி',
+  'history.reasoning': 'வரலாற்றுத் தரவுகளை ஆராய்கிறது...',
+  'history.authenticity': 'நம்பகத்தன்மை: {score}',
+  'history.protein': 'புரதம்',
+  'history.energy': 'ஆற்றல்',
+  'history.carbs': 'மாவுச்சத்து',
+  'history.recommendations': 'பரிந்துரைக்கப்பட்ட கடைகள்',
+  'history.nutritionNote': '* ஊட்டச்சத்து விவரங்கள் AI மதிப்பீடு மட்டுமே, கல்விக்காக',
+  'history.evolution': '{neighborhood} பரிணாமம்',
+  'history.staples': 'பிரபல உணவுகள்',
+
+  // --- Mission impact ---
+  'impact.title': 'இலக்கு: தெருக் கடைகளுக்கு அடையாளம்',
+  'impact.intro': 'தமிழ்நாட்டில் தெருவோர வியாபாரிகளே நகரத்தின் முதுகெலும்பு. ஆனால் பெரிய டிஜிட்டல் இடைவெளி உள்ளது.',
+  'impact.identified': 'அரசு அடையாளம் கண்டவை',
+  'impact.estimated': 'மதிப்பிடப்பட்ட மொத்தம்',
+  'impact.solution': 'தீர்வு: EyAI',
+  'impact.liveGrid': 'நேரலை ஒத்திசைவு',
+  'impact.liveGridDesc': 'ஐந்து லட்சம் வியாபாரிகள் தங்கள் இருப்பிடத்தை அறிவிக்க உதவுகிறது.',
+  'impact.reasoning': 'இட அறிவு',
+  'impact.reasoningDesc': 'Gemini மூலம் காத்திருப்பு நேரம் மற்றும் கூட்டக் கணிப்புகள்.',
+  'impact.genealogy': 'சுவை வரலாறு',
+  'impact.genealogyDesc': 'தெரு உணவுகளின் கலாச்சாரப் பயணத்தைக் கண்டறிதல்.',
+  'impact.objective': 'இலக்கு',
+  'impact.objectiveQuote': '"{count, number} சிறு பொருளாதாரங்களை இணைத்தல்"',
+
+  // --- Agent logs ---
+  'logs.runVerification': '🚀 தானியங்கி சரிபார்ப்பைத் தொடங்கு',
+  'logs.verifying': 'முகவர்கள் ஒருங்கிணைக்கிறார்கள்...',
+
+  // --- Discovery and analytics ---
+  'discovery.calibrating': 'வரைபடத்தைச் சீரமைக்கிறது...',
+  'discovery.nodes': 'கடைகள்',
+  'discovery.intelligence': 'பகுப்பாய்வு',
+  'discovery.sectors': 'பகுதிகள்',
+  'analytics.generating': 'பகுப்பாய்வு உருவாகிறது...',
+  'analytics.sectorSynthesis': 'பகுதிச் சுருக்கம்',
+  'analytics.flavorVariance': 'சுவை வகைகள்',
+  'analytics.economicZoning': 'விலைப் பிரிவுகள்',
+  'analytics.legendary': 'புகழ் மதிப்பீடு',
+  'analytics.demographics': 'வாடிக்கையாளர் பிரிவுகள்',
+  'analytics.empty': 'இந்தப் பகுதிக்கு பகுப்பாய்வுத் தரவு இல்லை.',
+  'analytics.manualSync': 'கைமுறை ஒத்திசைவு',
+
+  // --- Sectors ---
+  'sectors.draw': 'வரைபடத்தில் ஒரு பகுதியை வரையவும்',
+  'sectors.circle': '◯ வட்டம்',
+  'sectors.polygon': '⬠ பலகோணம்',
+  'sectors.circleHint': 'மையத்தைக் கிளிக் செய்து, பின் விளிம்பில் ஒரு புள்ளியைக் கிளிக் செய்யவும்.',
+  'sectors.polygonHint': 'ஒவ்வொரு மூலையையும் கிளிக் செய்யவும். முடிக்க இருமுறை கிளிக் செய்யவும் அல்லது முதல் மூலையைக் கிளிக் செய்யவும்.',
+  'sectors.drawing': 'பகுதி வரையப்படுகிறது',
+  'sectors.cancel': 'ரத்து',
+  'sectors.namePlaceholder': 'பகுதியின் பெயர் (எ.கா. மயிலாப்பூர்)',
+  'sectors.save': 'பகுதியைச் சேமி',
+  'sectors.discard': 'நீக்கு',
+  'sectors.empty': 'இன்னும் பகுதிகள் இல்லை. ஒரு சுற்றுப்புறத்துக்கான பகுப்பாய்வுக்கு ஒன்றை வரையவும்.',
+  'sectors.radius': '{distance} ஆரம்',
+  'sectors.outline': '{count, number} புள்ளி எல்லை',
+  'sectors.nodes': '{count, number} கடைகள்',
+  'sectors.analyze': 'பகுப்பாய்',
+  'sectors.reanalyze': 'மீண்டும் பகுப்பாய்',
+  'sectors.analyzing': 'பகுப்பாய்கிறது...',
+  'sectors.analyzedAt': '{time} அன்று பகுப்பாய்வு',
+  'sectors.pickTwo': 'ஒப்பிட இரண்டு பகுதிகளை (A, B) தேர்ந்தெடுக்கவும்.',
+  'sectors.comparison': 'பகுதி ஒப்பீடு',
+  'sectors.avgSafety': 'சராசரி பாதுகாப்பு',
+  'sectors.avgLogistics': 'சராசரி போக்குவரத்து வசதி',
+  'sectors.cuisineMix': 'உணவு வகை கலவை',
+  'sectors.footfall': 'கூட்ட வளைவுகள்',
+  'sectors.legends': 'பிரபல குறியீடு',
+  'sectors.noData': 'தரவு இல்லை',
+  'trends.title': 'காலப்போக்கில் மாற்றங்கள்',
+  'trends.snapshots': '{count, number} பதிவுகள்',
+  'trends.wholeGrid': 'முழு வரைபடம்',
+  'trends.empty': 'இன்னும் பதிவுகள் இல்லை. ஒவ்வொரு பகுப்பாய்வும் தேதியுடன் இங்கே சேமிக்கப்படும்.',
+  'trends.needMore': 'இதுவரை ஒரு பதிவு மட்டுமே. மாற்றத்தைக் காண வரும் வாரங்களில் மீண்டும் பகுப்பாய்வு செய்யவும்.',
+  'trends.liveVendors': 'நேரலை வியாபாரிகள்',
+  'trends.nodes': 'கடைகள்',
+  'trends.since': '{date} முதல்',
+  'trends.presence': 'கடைகள் & நேரலை வியாபாரிகள்',
+  'trends.scores': 'சராசரி மதிப்பெண்கள்',
+  'trends.legendScore': 'சராசரி புகழ் மதிப்பெண்',
+  'trends.cuisines': 'உணவு வகைப் பங்கு (%)',
+  'trends.exportCsv': 'CSV ஏற்றுமதி',
+  'trends.exportJson': 'JSON ஏற்றுமதி',
+  'sites.title': 'இட தேர்வாளர்',
+  'sites.hint': 'அருகிலுள்ள கூட்டம், போட்டியாளர்கள், போக்குவரத்து, பாதுகாப்பு மற்றும் இன்றைய வானிலை கொண்டு 1.5 கி.மீ.க்குள் கடை வைக்க ஏற்ற இடங்களை வரிசைப்படுத்துகிறது.',
+  'sites.cuisinePlaceholder': 'நீங்கள் விற்பது (எ.கா. சாட்)',
+  'sites.period': 'வியாபார நேரம்',
+  'sites.find': 'இடங்களைத் தேடு',
+  'sites.clear': 'அழி',
+  'sites.none': 'அருகில் கூட்டத் தரவு உள்ள இடங்கள் இல்லை. முதலில் இங்கே உணவுத் தேடலை இயக்கவும்.',
+  'sites.score': 'மதிப்பெண் {score, number}',
+  'sites.away': '{distance} தொலைவில்',
+  'sites.factor.footfall': 'கூட்டம்',
+  'sites.factor.competition': 'போட்டி',
+  'sites.factor.logistics': 'போக்குவரத்து',
+  'sites.factor.safety': 'பாதுகாப்பு',
+  'sites.factor.weather': 'வானிலை',
+  'sites.drivenBy': 'உயர்த்தியவை: {reasons}.',
+  'sites.heldBackBy': 'குறைத்தவை: {reasons}.',
+  'sites.reason.footfall': '{period} கூட்டம் ({value, number})',
+  'sites.reason.competition': '{radius, number} மீ.க்குள் {count, plural, =0 {நேரடிப் போட்டியாளர் இல்லை} other {# நேரடிப் போட்டியாளர்கள்}}',
+  'sites.reason.logistics': 'நகரப் போக்குவரத்து வசதி ({value, number})',
+  'sites.reason.safety': 'பாதுகாப்பு ({value, number})',
+  'sites.reason.weather': '{condition} வானிலையைத் தாங்கும் திறன் ({value, number})',
+
+  // --- Grid exchange ---
+  'exchange.title': 'தரவு பரிமாற்றம்',
+  'exchange.onConflict': 'முரண்பாட்டில்: {strategy, select, keep {இருப்பதை வை} other {மாற்று}}',
+  'exchange.import': '⬆ இறக்குமதி',
+
+  // --- Food crawl ---
+  'crawl.title': 'உணவுச் சுற்று · {count, plural, one {# நிறுத்தம்} other {# நிறுத்தங்கள்}}',
+  'crawl.clear': 'அழி',
+  'crawl.leg': '{minutes, number} நிமிட நடை · {time} வருகை',
+  'crawl.closed': ' · மூடியிருக்கும்',
+  'crawl.peak': ' · கூட்டம் அதிகம்',
+  'crawl.total': '{km} கி.மீ · நிறுத்தங்களுடன் {minutes, number} நிமிடம்',
+  'crawl.routing': ' · தெருப் பாதை கணக்கிடுகிறது...',
+  'crawl.replan': 'இங்கிருந்து மீண்டும் திட்டமிடு',
+  'crawl.plan': 'நடைப் பாதையைத் திட்டமிடு',
+  'crawl.add': '＋ சுற்றில் சேர்',
+  'crawl.added': '✓ சுற்றில் உள்ளது',
+  'crawl.needTwoStops': 'பயணத்தைத் திட்டமிடக் குறைந்தது இரண்டு நிறுத்தங்களைச் சேருங்கள்.',
+
+  // --- Node list and filters ---
+  'list.count': '{total, number} இல் {shown, number} கடைகள்',
+  'list.distanceKm': '{km} கி.மீ',
+  'list.legend': 'புகழ் {score}',
+  'list.footfall': 'கூட்டம் {score}',
+  'sort.distance': 'அருகில்',
+  'sort.legendary': 'புகழ்பெற்றவை',
+  'sort.footfall': 'இப்போது பரபரப்பு',
+  'filters.title': 'வடிகட்டிகள்',
+  'filters.titleCount': 'வடிகட்டிகள் ({count, number})',
+  'filters.openNow': 'இப்போது திறந்தவை',
+  'filters.minSafety': 'குறைந்தபட்ச பாதுகாப்பு {value}',
+  'filters.minWalkability': 'குறைந்தபட்ச நடைவசதி {value}',
+  'filters.any': 'ஏதேனும்',
+  'filters.anyDistance': 'எந்தத் தூரமும்',
+  'filters.withinKm': '{km, number} கி.மீக்குள்',
+  'filters.mapFiltered': 'வரைபடம்: வடிகட்டியவை',
+  'filters.mapAll': 'வரைபடம்: அனைத்தும்',
+  'filters.reset': 'மீட்டமை',
+  'origin.live': 'நேரலை',
+  'origin.offline': 'நேரலையில் இல்லை',
+  'origin.synced': 'AI கண்டவை',
+  'origin.seed': 'அடிப்படை',
+  'origin.imported': 'இறக்கியவை',
+  'price.street': 'தெருவோரம்',
+  'price.mid': 'நடுத்தரம்',
+  'price.premium': 'உயர்தரம்',
+
+  // --- Lens ---
+  'lens.target': 'லென்ஸ் இலக்கு',
+  'lens.selectNode': 'ஒரு கடையைத் தேர்ந்தெடுக்கவும்',
+  'lens.analyzing': 'காட்சிகளை ஆராய்கிறது...',
+  'lens.crossReferencing': 'இடத் தரவுகளுடன் ஒப்பிடுகிறது',
+  'lens.observations': 'இடக் கண்காணிப்புகள்',
+  'lens.safety': 'பாதுகாப்புத் தகவல்',
+  'lens.crime': 'குற்றம்',
+  'lens.police': 'காவல்',
+  'lens.lighting': 'வெளிச்சம்',
+  'lens.precincts': 'அருகிலுள்ள காவல் நிலையங்கள்',
+  'lens.logistics': 'நகரப் போக்குவரத்து',
+  'lens.transit': 'பொதுப் போக்குவரத்து',
+  'lens.walkability': 'நடைவசதி',
+  'lens.parking': 'வாகன நிறுத்தம்',
+  'lens.transportNodes': 'அருகிலுள்ள போக்குவரத்து மையங்கள்',
+  'lens.traffic': 'போக்குவரத்துத் தகவல்',
+  'lens.temporalDensity': 'நேர வாரியான கூட்ட ஆய்வு',
+  'lens.idle': 'லென்ஸ் செயலற்று உள்ளது.',
+  'lens.upload': '📹 கடையின் வீடியோ / படங்களை ஆய்வு செய்',
+  'lens.uploadHint': 'படச்சட்டங்கள் இந்தச் சாதனத்திலேயே எடுக்கப்படுகின்றன',
+  'lens.sampledFrames': 'எடுக்கப்பட்ட படச்சட்டங்கள் ({count, number})',
+  'lens.uploadedStall': 'பதிவேற்றிய கடை',
+
+  // --- Live signals and alerts ---
+  'live.count': '{count, plural, one {# நேரலை கடை} other {# நேரலை கடைகள்}}',
+  'live.sharedGrid': '● பகிர்ந்த வரைபடம்',
+  'live.localOnly': '○ இந்தச் சாதனம் மட்டும்',
+  'live.signal': 'நேரலையில்',
+  'alerts.title': 'அருகாமை அறிவிப்புகள்',
+  'alerts.on': 'இயக்கம்',
+  'alerts.off': 'நிறுத்தம்',
+  'alerts.summary': '{radius} தூரத்துக்குள் {vendors, plural, one {# கடை} other {# கடைகள்}}, {cuisines, plural, one {# உணவு வகை} other {# உணவு வகைகள்}} பின்தொடரப்படுகின்றன.',
+  'alerts.cuisines': 'உணவு வகைகள்',
+  'alerts.vendors': 'கடைகள்',
+  'alerts.quietHours': 'அமைதி நேரம்',
+  'alerts.until': 'முதல்',
+  'alerts.speakOn': '🔊 குரல் அறிவிப்பு இயக்கத்தில்',
+  'alerts.speakOff': '🔈 குரல் அறிவிப்பு நிறுத்தத்தில்',
+  'alerts.follow': '☆ பின்தொடர்',
+  'alerts.following': '★ பின்தொடர்கிறீர்கள்',
+
+  // --- Map ---
+  'layers.title': 'வரைபட அடுக்குகள்',
+  'layers.footfall': 'கூட்டம்',
+  'layers.safety': 'பாதுகாப்பு',
+  'layers.transit': 'போக்குவரத்து',
+  'layers.low': 'குறைவு',
+  'layers.high': 'அதிகம்',
+  'map.clusterLive': '{count, number} நேரலை',
+
+  // --- Ordering ---
+  'order.soldOut': 'தீர்ந்தது',
+  'order.left': '{count, plural, one {# மீதம்} other {# மீதம்}}',
+  'order.writing': 'முகவர் உங்கள் ஆர்டரை எழுதுகிறார்...',
+  'order.listening': 'கேட்கிறது...',
+  'order.voicePrompt': "உங்கள் ஆர்டரைச் சொல்லுங்கள் (எ.கா. 'biryani rendu venum')",
+  'order.placeholder': 'எ.கா. 2 பிரியாணி...',
+  'order.rec': 'பதிவு',
+  'order.mic': 'மைக்',
+  'order.processing': 'சரிபார்க்கிறது...',
+  'order.add': 'பட்டியலில் சேர்',
+  'order.finalize': 'சரிபார்க்கவும் ({count, number})',
+  'order.total': 'மொத்தத் தொகை',
+  'order.name': 'எடுத்துச் செல்பவர் பெயர்',
+  'order.namePlaceholder': 'கடைக்காரர் இந்தப் பெயரைச் சொல்லி அழைப்பார்',
+  'order.back': 'பின்செல்',
+  'order.place': 'ஆர்டர் செய்',
+  'order.reference': 'ஆர்டர் {id} · {total, currency}',
+  'order.cancel': 'ஆர்டரை ரத்து செய்',
+  'order.close': 'மூடு',
+  'order.tracking': '🧾 ஆர்டர் {id}: {status}',
+  'order.noMenu': 'இந்தக் கூட்டாளர் நோடுக்கு மெனு பதிவு செய்யப்படவில்லை.',
+  'order.cartEmpty': 'கூடை காலியாக உள்ளது. பொருட்களைத் தேர்ந்தெடுங்கள் அல்லது உங்கள் ஆர்டரைச் சொல்லுங்கள்.',
+  'order.allSoldOut': 'தேர்ந்தெடுத்த பொருட்கள் இப்போது கிடைக்கவில்லை (தீர்ந்துவிட்டன).',
+  'order.stockChanged': 'இருப்பு மாறியது: {changes}.',
+  'order.lineSoldOut': '{line} தீர்ந்துவிட்டது',
+  'order.lineReduced': '{line} {count, number} ஆகக் குறைக்கப்பட்டது',
+  'order.notEnoughStock': 'போதுமான இருப்பு இல்லை: {items}.',
+
+  // --- Hub registration ---
+  'reg.editTitle': 'கடை விவரங்களைத் திருத்து',
+  'reg.newTitle': 'புதிய கடையைத் தொடங்கு',
+  'reg.editSubtitle': 'நேரலை விவரங்கள் புதுப்பிக்கப்படுகின்றன',
+  'reg.newSubtitle': 'புதிய ஜாம்பவானை வரவேற்கிறோம்',
+  'reg.symbol': 'சின்னம்',
+  'reg.alias': 'கடையின் பெயர்',
+  'reg.aliasPlaceholder': 'எ.கா. முரளி ஸ்நாக்ஸ்',
+  'reg.cuisine': 'சிறப்பு உணவு',
+  'reg.cuisinePlaceholder': 'எ.கா. ரோஸ் மில்க்',
+  'reg.coordinates': 'இருப்பிட ஆயத்தொலைவுகள் (DMS)',
+  'reg.apply': 'பயன்படுத்து',
+  'reg.bio': 'கடை அறிமுகம்',
+  'reg.generateBio': '✨ Gemini அறிமுகம்',
+  'reg.hours': 'வேலை நேரம்',
+  'reg.copyMonday': 'திங்கள் நேரத்தை எல்லா நாட்களுக்கும்',
+  'reg.overnightHint': 'திறப்பதற்கு முன் மூடும் நேரம் என்றால் நள்ளிரவைத் தாண்டும் (எ.கா. 18:00 - 02:00).',
+  'reg.overrides': 'விடுமுறைகள் மற்றும் சிறப்பு நாட்கள்',
+  'reg.add': 'சேர்',
+  'reg.menu': 'உணவுப் பட்டியல்',
+  'reg.offShelf': 'இருப்பில் இல்லை',
+  'reg.addOns': 'கூடுதல்: {list}',
+  'reg.dailyPrep': 'தினசரி தயாரிப்பு {count, number}',
+  'reg.stockHint': 'இருப்பு எண்ணிக்கை (காலி = கணக்கில்லை)',
+  'reg.restock': 'மீண்டும் இருப்பு',
+  'reg.markSoldOut': 'தீர்ந்தது',
+  'reg.itemPlaceholder': 'உணவு',
+  'reg.pricePlaceholder': 'விலை',
+  'reg.prepPlaceholder': 'தினசரி தயாரிப்பு',
+  'reg.variantsPlaceholder': 'அளவுகள் (Half Plate: 150, Full Plate: 250)',
+  'reg.modifiersPlaceholder': 'கூடுதல் (Extra Raita: 20)',
+  'reg.addItem': '+ பட்டியலில் சேர்',
+  'reg.cancel': 'ரத்து',
+  'reg.save': 'கடையைச் செயல்படுத்து',
+  'reg.nameRequired': 'நோடை அமைக்கப் பெயரும் உணவு வகையும் தேவை.',
+  'reg.hoursInvalid': '{day} நேரம் புரியவில்லை: "{hours}". எ.கா. 12:00 - 15:00, 18:00 - 23:00 அல்லது Closed என எழுதுங்கள்.',
+  'reg.overrideInvalid': 'ஒரு தேதியைத் தேர்ந்தெடுத்து நேரத்தை (எ.கா. 18:00 - 23:00) அல்லது Closed என உள்ளிடுங்கள்.',
+  'reg.optionsInvalid': 'தேர்வுகளைப் படிக்க முடியவில்லை. "பெயர்: விலை" ஜோடிகளைக் காற்புள்ளியால் பிரித்து எழுதுங்கள், எ.கா. "Half Plate: 150, Full Plate: 250".',
+  'reg.confirmDelete': 'இந்த நோடை நீக்கவா? அதன் முழு இட வரலாறும் அழிக்கப்படும்.',
+
+  // --- Reviews ---
+  'review.title': 'உங்கள் மதிப்புரையைச் சேர்க்கவும்',
+  'review.alias': 'புனைபெயர்',
+  'review.rating': 'மதிப்பீடு',
+  'review.commentary': 'கருத்து',
+  'review.placeholder': 'சுவையைப் பற்றி உங்கள் அனுபவம்...',
+  'review.submit': 'மதிப்புரையைச் சமர்ப்பி',
+
+  // --- Node panel ---
+  'shop.footfallEngine': 'கூட்டக் கணிப்பு',
+  'shop.successIndex': 'வெற்றிக் காரணிகள்',
+  'shop.fieldIntel': 'மதிப்புரைகள் ({count, number})',
+  'shop.addReview': '+ மதிப்புரை எழுது',
+  'shop.noReviews': 'இன்னும் மதிப்புரைகள் இல்லை.',
+  'shop.navigate': '🛰️ வழிகாட்டு',
+  'shop.orderNow': '🛒 இப்போது ஆர்டர் செய்',
+  'shop.stopAudio': 'ஒலியை நிறுத்து',
+
+  // --- Opening hours ---
+  'hours.openUntil': 'இப்போது திறந்துள்ளது · {time} வரை',
+  'hours.openAllDay': '24/7 திறந்திருக்கும்',
+  'hours.closesIn': '{minutes, number} நிமிடத்தில் மூடப்படும்',
+  'hours.opensIn': '{minutes, number} நிமிடத்தில் திறக்கப்படும்',
+  'hours.opensAt': 'மூடியுள்ளது · {time} திறக்கும்',
+  'hours.opensOn': 'மூடியுள்ளது · {day} {time} திறக்கும்',
+  'hours.closed': 'மூடப்பட்டது',
+
+  // --- Dietary tags ---
+  'diet.veg': 'சைவம்',
+  'diet.vegan': 'வீகன்',
+  'diet.jain': 'ஜெயின்',
+  'diet.egg': 'முட்டை',
+  'diet.nonVeg': 'அசைவம்',
+  'diet.spicy': 'காரம்',
+  'diet.containsPeanuts': 'வேர்க்கடலை உள்ளது',
+  'diet.containsDairy': 'பால் பொருள் உள்ளது',
+  'diet.containsGluten': 'குளூட்டன் உள்ளது',
+
+  // --- Node analysis ---
+  'success.title': 'வெற்றியின் காரணமும் விளைவும்',
+  'success.locationGravity': 'இடத்தின் ஈர்ப்பு',
+  'success.flavorMoat': 'சுவையின் தனித்துவம்',
+  'success.socialResonance': 'சமூகப் பேச்சு',
+  'success.economicFit': 'பொருளாதாரப் பொருத்தம்',
+  'success.flowPull': 'மக்கள் வருகை',
+  'success.defensibility': 'போட்டியைத் தாங்கும் திறன்',
+  'success.hypeVelocity': 'பிரபலமாகும் வேகம்',
+  'success.marginSafety': 'லாப பாதுகாப்பு',
+  'synergy.title': 'ஒருங்கிணைப்பு அணி',
+  'synergy.correlation': 'தொடர்பு',
+  'synergy.standby': 'கிரிட் காத்திருக்கிறது...',
+  'synergy.safety': 'பாது.',
+  'synergy.logistics': 'போக்.',
+  'synergy.success': 'வெற்.',
+  'synergy.footfall': 'வருகை',
+  'synergy.climate': 'வானிலை',
+  'synergy.safetyIndex': 'பாதுகாப்புக் குறியீடு',
+  'synergy.climatic': 'வானிலைப் பொருத்தம்',
+  'synergy.neural': '{value, number}% ஒருங்கிணைப்பு',
+  'synergy.grounding': 'கிரிட் தரவு இணைப்பில்',
+  'synergy.hint': 'விரிவான காரணங்களுக்கு அணியின் கட்டங்களைத் தொடுங்கள்',
+
+  // --- Chat ---
+  'chat.subtitle': 'இட அறிவு இயந்திரம்',
+  'chat.thinking': 'யோசிக்கிறது...',
+  'chat.placeholder': 'கேள்வி கேளுங்கள்...',
+  'chat.send': 'அனுப்பு',
+  'chat.queued': 'இணைப்பு இல்லை. இணைப்பு திரும்பியதும் பதில் சொல்கிறேன்.',
+  'chat.queueFailed': 'பலமுறை முயன்றும் இந்தக் கேள்வியை அனுப்ப முடியவில்லை. மீண்டும் கேளுங்கள்.',
+  'chat.failed': 'இணைப்பில் குறுக்கீடு. அரட்டை முகவரால் மீள முடியவில்லை, மீண்டும் கேளுங்கள்.',
+  'chat.unsupported': 'இந்த உலாவியில் குரல் அறிதல் இல்லை.'
+};
@@ -0,0 +1,131 @@
+import { MessageKey } from "./en";
+
+/**
+ * Telugu UI catalog. Covers navigation, ordering and chat, the screens a
+ * visitor meets first; anything else falls back to English.
+ */
+export const te: Partial<Record<MessageKey, string>> = {
+  // --- Navigation ---
+  'nav.missionImpact': 'మిషన్ ప్రభావం',
+  'nav.flavorGenealogy': 'రుచి వంశావళి',
+  'nav.explorer': 'అన్వేషకుడు',
+  'nav.hub': 'హబ్',
+  'nav.runScrape': 'ఆహార శోధన ప్రారంభించు',
+  'nav.liveSignals': 'లైవ్ సిగ్నల్స్ ({count, number})',
+  'nav.intel': 'సమాచారం',
+  'nav.legends': 'ప్రముఖులు',
+  'nav.lens': 'లెన్స్',
+  'nav.establishingLink': 'లింక్ ఏర్పాటవుతోంది...',
+
+  // --- Connectivity ---
+  'offline.cachedGrid': '○ ఆఫ్‌లైన్ · సేవ్ చేసిన గ్రిడ్',
+  'offline.online': '● ఆన్‌లైన్',
+  'offline.queued': '{count, number} వేచి ఉన్నాయి',
+  'offline.syncNow': 'ఇప్పుడే సింక్ చేయి',
+
+  // --- Order status ---
+  'orderStatus.placed': 'ఆర్డర్ చేయబడింది',
+  'orderStatus.accepted': 'అంగీకరించబడింది',
+  'orderStatus.preparing': 'తయారవుతోంది',
+  'orderStatus.ready': 'తీసుకోవడానికి సిద్ధం',
+  'orderStatus.picked_up': 'తీసుకున్నారు',
+  'orderStatus.cancelled': 'రద్దు చేయబడింది',
+
+  // --- Order modal ---
+  'order.soldOut': 'అయిపోయింది',
+  'order.left': '{count, number} మిగిలాయి',
+  'order.writing': 'ఏజెంట్ మీ ఆర్డర్ రాస్తోంది...',
+  'order.listening': 'వింటోంది...',
+  'order.voicePrompt': "మీ ఆర్డర్ చెప్పండి (ఉదా. 'రెండు బిర్యానీ')",
+  'order.placeholder': 'ఉదా. 2 బిర్యానీ...',
+  'order.processing': 'ప్రాసెస్ అవుతోంది...',
+  'order.add': 'జాబితాలో చేర్చు',
+  'order.finalize': 'నిర్ధారించు ({count, number})',
+  'order.total': 'మొత్తం',
+  'order.name': 'పికప్ కోసం పేరు',
+  'order.namePlaceholder': 'విక్రేత ఈ పేరుతో పిలుస్తారు',
+  'order.back': 'వెనక్కి',
+  'order.place': 'ఆర్డర్ చేయి',
+  'order.reference': 'ఆర్డర్ {id} · {total, currency}',
+  'order.cancel': 'ఆర్డర్ రద్దు చేయి',
+  'order.close': 'మూసివేయి',
+  'order.tracking': '🧾 ఆర్డర్ {id}: {status}',
+  'order.noMenu': 'ఈ భాగస్వామి నోడ్‌కు మెనూ నమోదు కాలేదు.',
+  'order.cartEmpty': 'కార్ట్ ఖాళీగా ఉంది. వస్తువులు ఎంచుకోండి లేదా మీ ఆర్డర్ చెప్పండి.',
+  'order.allSoldOut': 'ఎంచుకున్న వస్తువులు ప్రస్తుతం అందుబాటులో లేవు (అయిపోయాయి).',
+  'order.stockChanged': 'స్టాక్ మారింది: {changes}.',
+  'order.lineSoldOut': '{line} అయిపోయింది',
+  'order.lineReduced': '{line} {count, number}కి తగ్గించబడింది',
+  'order.notEnoughStock': 'తగినంత స్టాక్ లేదు: {items}.',
+
+  // --- Shop panel ---
+  'shop.navigate': '🛰️ దారి చూపు',
+  'shop.orderNow': '🛒 ఇప్పుడే ఆర్డర్ చేయి',
+  'shop.stopAudio': 'ఆడియో ఆపండి',
+
+  // --- Opening hours ---
+  'hours.openUntil': 'ఇప్పుడు తెరిచి ఉంది · {time} వరకు',
+  'hours.openAllDay': '24/7 తెరిచి ఉంటుంది',
+  'hours.closesIn': '{minutes, number} నిమిషాల్లో మూసివేస్తారు',
+  'hours.opensIn': '{minutes, number} నిమిషాల్లో తెరుస్తారు',
+  'hours.opensAt': 'మూసి ఉంది · {time}కి తెరుస్తారు',
+  'hours.opensOn': 'మూసి ఉంది · {day} {time}కి తెరుస్తారు',
+  'hours.closed': 'మూసి ఉంది',
+
+  // --- Dietary tags ---
+  'diet.veg': 'శాకాహారం',
+  'diet.vegan': 'వీగన్',
+  'diet.jain': 'జైన్',
+  'diet.egg': 'గుడ్డు',
+  'diet.nonVeg': 'మాంసాహారం',
+  'diet.spicy': 'కారం',
+  'diet.containsPeanuts': 'వేరుశెనగ ఉంది',
+  'diet.containsDairy': 'పాల పదార్థాలు ఉన్నాయి',
+  'diet.containsGluten': 'గ్లూటెన్ ఉంది',
+
+  // --- Hub registration ---
+  'reg.nameRequired': 'నోడ్ ఏర్పాటుకు పేరు మరియు వంటకం రకం తప్పనిసరి.',
+  'reg.hoursInvalid': '{day} సమయాలు అర్థం కాలేదు: "{hours}". ఉదా. 12:00 - 15:00, 18:00 - 23:00 లేదా Closed అని రాయండి.',
+  'reg.overrideInvalid': 'ఒక తేదీ ఎంచుకుని సమయాలు (ఉదా. 18:00 - 23:00) లేదా Closed నమోదు చేయండి.',
+  'reg.optionsInvalid': 'ఎంపికలను చదవలేకపోయాం. "పేరు: ధర" జతలను కామాలతో వేరు చేసి రాయండి, ఉదా. "Half Plate: 150, Full Plate: 250".',
+  'reg.confirmDelete': 'ఈ నోడ్‌ను తొలగించాలా? దాని మొత్తం స్థల చరిత్ర తొలగిపోతుంది.',
+
+  // --- Food crawl ---
+  'crawl.needTwoStops': 'క్రాల్ ప్లాన్ చేయడానికి కనీసం రెండు స్టాప్‌లు జోడించండి.',
+
+  // --- Map ---
+  'map.clusterLive': '{count, number} లైవ్',
+
+  // --- Node analysis ---
+  'success.title': 'విజయ తర్కం: కారణం & ఫలితం',
+  'success.locationGravity': 'స్థల ఆకర్షణ',
+  'success.flavorMoat': 'రుచి ప్రత్యేకత',
+  'success.socialResonance': 'సామాజిక ఆదరణ',
+  'success.economicFit': 'ఆర్థిక అనుకూలత',
+  'success.flowPull': 'జనాల రాక',
+  'success.defensibility': 'పోటీని తట్టుకునే శక్తి',
+  'success.hypeVelocity': 'ప్రచార వేగం',
+  'success.marginSafety': 'లాభ భద్రత',
+  'synergy.title': 'సమన్వయ మ్యాట్రిక్స్',
+  'synergy.correlation': 'సహసంబంధం',
+  'synergy.standby': 'గ్రిడ్ సిద్ధంగా ఉంది...',
+  'synergy.safety': 'భద్ర.',
+  'synergy.logistics': 'రవాణా',
+  'synergy.success': 'విజ.',
+  'synergy.footfall': 'రాక',
+  'synergy.climate': 'వాతా.',
+  'synergy.safetyIndex': 'భద్రతా సూచిక',
+  'synergy.climatic': 'వాతావరణ అనుకూలత',
+  'synergy.neural': '{value, number}% సమన్వయం',
+  'synergy.grounding': 'గ్రిడ్ గ్రౌండింగ్ సక్రియం',
+  'synergy.hint': 'వివరమైన కారణాల కోసం మ్యాట్రిక్స్ గడులను చూడండి',
+
+  // --- Chat ---
+  'chat.thinking': 'ఆలోచిస్తోంది...',
+  'chat.placeholder': 'గ్రిడ్‌ని అడగండి...',
+  'chat.send': 'పంపు',
+  'chat.queued': 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు. కనెక్షన్ వచ్చిన వెంటనే సమాధానం ఇస్తాను.',
+  'chat.queueFailed': 'ఎన్నిసార్లు ప్రయత్నించినా ఈ ప్రశ్నను పంపలేకపోయాం. దయచేసి మళ్ళీ అడగండి.',
+  'chat.failed': 'గ్రిడ్‌లో అంతరాయం. దయచేసి మళ్ళీ అడగండి.',
+  'chat.unsupported': 'ఈ బ్రౌజర్‌లో వాయిస్ గుర్తింపు అందుబాటులో లేదు.'
+};
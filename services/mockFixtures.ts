@@ -0,0 +1,184 @@
+import type { GenerateContentParameters } from "@google/genai";
+import type { AgentKey, MockFixture, ModelResponse } from "./modelProvider";
+import type { MenuItem } from "../types";
+import { ALL_COUNTING_WORDS } from "./i18n";
+
+/**
+ * Canned Agent Responses
+ * Shaped exactly like the raw Gemini output each agent parses, so the parsing
+ * paths in geminiService run unchanged against the offline provider.
+ */
+
+const json = (data: unknown): ModelResponse => ({ text: JSON.stringify(data) });
+
+const promptOf = (request: GenerateContentParameters): string => {
+  const { contents } = request;
+  if (typeof contents === 'string') return contents;
+  return JSON.stringify(contents);
+};
+
+const FIXTURE_SHOPS = [
+  {
+    id: "sync-fixture-1",
+    name: "Ratna Cafe",
+    coords: { lat: 13.0569, lng: 80.2765 },
+    emoji: "🍛",
+    cuisine: "Sambar Idli",
+    description: "Triplicane's bucket-of-sambar institution since 1948.",
+    address: "Triplicane High Rd, Chennai",
+    typicalPrice: 60,
+    successReasoning: { locationGravity: 88, flavorMoat: 92, socialResonance: 90, economicFit: 84 },
+    safetyMetrics: { crimeSafety: 80, policeProximity: 75, footfallIntensity: 92, lighting: 85, vibe: 90, nearestPoliceStations: ["Triplicane Police Station"] },
+    urbanLogistics: { transitAccessibility: 88, walkabilityScore: 80, parkingAvailability: 25, publicTransportNodes: ["Triplicane Bus Stop"] },
+    predictedFootfall: [
+      { period: "6am-10am", volume: 90 }, { period: "11am-2pm", volume: 70 }, { period: "3pm-6pm", volume: 45 },
+      { period: "7pm-10pm", volume: 85 }, { period: "11pm-2am", volume: 10 }
+    ]
+  },
+  {
+    id: "sync-fixture-2",
+    name: "Marina Sundal Stalls",
+    coords: { lat: 13.0500, lng: 80.2824 },
+    emoji: "🥜",
+    cuisine: "Sundal",
+    description: "Beachfront carts ladling spiced chickpeas at sunset.",
+    address: "Marina Beach, Chennai",
+    typicalPrice: 30,
+    successReasoning: { locationGravity: 95, flavorMoat: 70, socialResonance: 85, economicFit: 92 },
+    safetyMetrics: { crimeSafety: 72, policeProximity: 80, footfallIntensity: 95, lighting: 60, vibe: 96, nearestPoliceStations: ["Marina Police Station"] },
+    urbanLogistics: { transitAccessibility: 75, walkabilityScore: 90, parkingAvailability: 55, publicTransportNodes: ["Light House MRTS"] },
+    predictedFootfall: [
+      { period: "6am-10am", volume: 35 }, { period: "11am-2pm", volume: 20 }, { period: "3pm-6pm", volume: 80 },
+      { period: "7pm-10pm", volume: 98 }, { period: "11pm-2am", volume: 15 }
+    ]
+  },
+  {
+    id: "sync-fixture-3",
+    name: "Kasim Bhai Atho Kadai",
+    coords: { lat: 13.0935, lng: 80.2890 },
+    emoji: "🍜",
+    cuisine: "Burmese Atho",
+    description: "Burma-returnee noodle salads tossed with fried garlic on Beach Road.",
+    address: "Parry's Corner, Chennai",
+    typicalPrice: 90,
+    successReasoning: { locationGravity: 80, flavorMoat: 96, socialResonance: 88, economicFit: 90 },
+    safetyMetrics: { crimeSafety: 68, policeProximity: 70, footfallIntensity: 85, lighting: 65, vibe: 88, nearestPoliceStations: ["Esplanade Police Station"] },
+    urbanLogistics: { transitAccessibility: 92, walkabilityScore: 65, parkingAvailability: 20, publicTransportNodes: ["Chennai Beach Station"] },
+    predictedFootfall: [
+      { period: "6am-10am", volume: 15 }, { period: "11am-2pm", volume: 60 }, { period: "3pm-6pm", volume: 75 },
+      { period: "7pm-10pm", volume: 90 }, { period: "11pm-2am", volume: 30 }
+    ]
+  }
+];
+
+// Deterministic order extraction: "rendu biryani" or "do biryani" -> 2 x the first menu item whose name contains "biryani".
+const parseOrderFixture = (request: GenerateContentParameters): ModelResponse => {
+  const prompt = promptOf(request);
+  const input = (prompt.match(/Extract order: "(.*?)" from Menu:/)?.[1] || "").toLowerCase();
+  const menuJson = prompt.match(/from Menu: (\[.*\])/)?.[1] || "[]";
+  let menu: MenuItem[] = [];
+  try { menu = JSON.parse(menuJson); } catch { menu = []; }
+
+  const tokens = input.split(/\s+/);
+  // Generic portion words would match every variant ("half plate" vs "full plate")
+  const keywordsOf = (name: string) => name.toLowerCase().split(' ').filter(word => word.length > 2 && word !== 'plate');
+  const positionOf = (name: string) => {
+    const keyword = keywordsOf(name).find(word => input.includes(word));
+    return keyword ? tokens.findIndex(t => t.includes(keyword)) : -1;
+  };
+  const orderItems = menu.flatMap(item => {
+    const variant = item.variants?.find(v => positionOf(v.name) !== -1);
+    const at = variant ? positionOf(variant.name) : positionOf(item.name);
+    if (at === -1) return [];
+    const neighbours = [tokens[at - 1], tokens[at + 1]];
+    const quantity = neighbours.map(t => (t && (ALL_COUNTING_WORDS[t] || parseInt(t))) || 0).find(n => n > 0) || 1;
+    const modifiers = (item.modifiers || []).filter(m => positionOf(m.name) !== -1);
+    const price = (variant?.price ?? item.price) + modifiers.reduce((sum, m) => sum + m.price, 0);
+    return [{ name: item.name, ...(variant ? { variant: variant.name } : {}), modifiers: modifiers.map(m => m.name), quantity, price }];
+  });
+  return json({ orderItems, totalPrice: orderItems.reduce((sum, it) => sum + it.price * it.quantity, 0) });
+};
+
+// Ties one observation to the first and one to the last frame the request carried.
+const lensFramesFixture = (request: GenerateContentParameters): ModelResponse => {
+  const frameIds = [...promptOf(request).matchAll(/Frame (frame-\d+) at/g)].map(m => m[1]);
+  const first = frameIds[0] ?? "frame-1";
+  const last = frameIds[frameIds.length - 1] ?? first;
+  return json({
+    observations: [
+      { id: "obs-1", frameId: first, type: "bottleneck", detail: "Customers queue across the service window.", causalBottleneck: "One counter handles both ordering and pickup." },
+      { id: "obs-2", frameId: last, type: "opportunity", detail: "Open frontage beside the cart.", causalBottleneck: "Space for a separate pickup point." }
+    ],
+    extractedFrames: frameIds.map(id => ({ id, description: "Stall frontage from the street.", category: "Sidewalk", spatialInsight: "Foot traffic passes within arm's reach of the counter." })),
+    recommendation: "Split ordering and pickup across two points of the frontage."
+  });
+};
+
+export const MOCK_FIXTURES: Partial<Record<AgentKey, MockFixture>> = {
+  weather: json({ temp: "31°C", condition: "Humid", impactScore: 78, reasoning: "Sea breeze keeps evening stalls busy despite the afternoon heat." }),
+  footfall: { text: "It's a humid evening near the Marina; expect a 10-minute queue as office crowds stop for hot snacks." },
+  discovery: {
+    text: `Here is the grounded scan.\n${JSON.stringify({
+      shops: FIXTURE_SHOPS,
+      logs: ["Step 1: Replayed offline sector fixture.", "Step 2: Filtered for flavor legend status."]
+    })}`
+  },
+  foodImage: {
+    text: `PART A (Narrative): Sambar arrived with Maratha cooks in Thanjavur and never left the South. Every street bucket carries that court kitchen's tamarind. Chennai simply made it a breakfast ritual.\n\nPART B (JSON): ${JSON.stringify({
+      name: "Sambar Idli", protein: "8g", calories: "240kcal", carbs: "42g",
+      history_tags: ["Thanjavur Maratha", "Temple Kitchens"], authenticity_score: "88%",
+      recommended_shops: ["Ratna Cafe", "Murugan Idli Shop"]
+    })}`
+  },
+  analytics: json({
+    customerSegmentation: [
+      { segment: "Office Commuters", description: "Quick breakfast and evening snack runs.", volume: 40 },
+      { segment: "Beach Families", description: "Weekend sunset crowd.", volume: 30 },
+      { segment: "Students", description: "Budget late-night plates.", volume: 20 },
+      { segment: "Food Tourists", description: "Heritage trail seekers.", volume: 10 }
+    ],
+    sectorSummary: "A breakfast-heavy heritage corridor anchored by Triplicane tiffin rooms. Evening demand shifts to the Marina carts."
+  }),
+  genealogy: json({
+    neighborhood: "Triplicane",
+    summary: "From temple prasadam to Nawabi biryani, Triplicane's plates record every wave of migration.",
+    timeline: [
+      {
+        period: "1700s", profile: "Temple Offerings", description: "Parthasarathy temple kitchens define tamarind rice and sweet pongal.",
+        notableIngredients: ["Tamarind", "Jaggery"], popularItems: ["Puliyodarai", "Sakkarai Pongal"], historicalContext: "Vaishnavite temple economy."
+      },
+      {
+        period: "1850s", profile: "Nawabi Courts", description: "Arcot nobility bring dum cooking to the lanes around Wallajah mosque.",
+        notableIngredients: ["Seeraga Samba", "Mutton"], popularItems: ["Biryani", "Bread Halwa"], historicalContext: "Carnatic Nawab patronage."
+      },
+      {
+        period: "1960s", profile: "Tiffin Rooms", description: "Mansion-dwelling students sustain cheap idli-sambar counters.",
+        notableIngredients: ["Urad Dal", "Sambar Powder"], popularItems: ["Sambar Idli", "Filter Coffee"], historicalContext: "Bachelor mansions boom."
+      }
+    ]
+  }),
+  order: parseOrderFixture,
+  lens: json({
+    observations: [
+      { id: "obs-1", type: "bottleneck", detail: "Single service window faces a 1.2m sidewalk.", causalBottleneck: "Zero-setback facade forces the queue onto the carriageway." },
+      { id: "obs-2", type: "opportunity", detail: "Adjacent compound wall is unused after 6pm.", causalBottleneck: "Idle frontage could host a token counter." }
+    ],
+    extractedFrames: [
+      { id: "frame-1", timestamp: "00:04", description: "Queue spilling past the kerb.", category: "Sidewalk", spatialInsight: "Pedestrian flow splits around parked bikes." },
+      { id: "frame-2", timestamp: "00:11", description: "Wide shot of the street corner.", category: "Landscape", spatialInsight: "Corner visibility draws two-way traffic." }
+    ],
+    recommendation: "Introduce a virtual token queue and shift pickup to the compound wall after dusk.",
+    videoSource: "offline-fixture"
+  }),
+  lensFrames: lensFramesFixture,
+  summary: json({
+    local: "இது சென்னையின் பிரபலமான தெரு உணவு இடம்.",
+    english: "A beloved Chennai street food stop, replayed from the offline grid."
+  }),
+  // No inlineData: the UI treats missing audio as a silent summary.
+  summaryAudio: { candidates: [] },
+  bio: { text: "Fresh off the tawa every evening, serving the lane its favourite plate since the first streetlight came on." },
+  alertText: { text: "Vendor live aagitaanga! Seekiram vaanga, sooda irukku." },
+  alertAudio: { candidates: [] },
+  chat: { text: "Offline grid mode: try Ratna Cafe for sambar idli or the Marina sundal carts after 5pm.", candidates: [] }
+};
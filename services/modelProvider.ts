@@ -0,0 +1,86 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+/**
+ * Every model call in geminiService is tagged with the agent that issued it,
+ * so providers (and the mock fixtures) can tell the requests apart.
+ */
+export type AgentKey =
+  | 'weather'
+  | 'footfall'
+  | 'discovery'
+  | 'foodImage'
+  | 'analytics'
+  | 'genealogy'
+  | 'order'
+  | 'lens'
+  | 'lensFrames'
+  | 'summary'
+  | 'summaryAudio'
+  | 'bio'
+  | 'alertText'
+  | 'alertAudio'
+  | 'chat';
+
+export interface ModelResponse {
+  text?: string;
+  candidates?: GenerateContentResponse['candidates'];
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  generateContent(agent: AgentKey, request: GenerateContentParameters): Promise<ModelResponse>;
+}
+
+export type MockFixture = ModelResponse | ((request: GenerateContentParameters) => ModelResponse);
+
+/**
+ * Live Provider
+ * Thin pass-through to the Gemini API.
+ */
+export const createGeminiProvider = (apiKey?: string): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    generateContent: (_agent, request) => ai.models.generateContent(request)
+  };
+};
+
+/**
+ * Offline Provider
+ * Replays canned fixtures per agent so the grid can be developed and demoed without a key.
+ */
+export const createMockProvider = (
+  fixtures: Partial<Record<AgentKey, MockFixture>> = MOCK_FIXTURES,
+  latencyMs: number = 0
+): ModelProvider => ({
+  name: 'mock',
+  generateContent: async (agent, request) => {
+    const fixture = fixtures[agent];
+    if (!fixture) {
+      throw new Error(`No mock fixture registered for agent "${agent}".`);
+    }
+    if (latencyMs > 0) await new Promise(r => setTimeout(r, latencyMs));
+    return typeof fixture === 'function' ? fixture(request) : fixture;
+  }
+});
+
+// MODEL_PROVIDER=mock forces the offline provider; without an API key it is the only option.
+const resolveDefaultProvider = (): ModelProvider => {
+  const mode = process.env.MODEL_PROVIDER;
+  if (mode === 'mock' || (!mode && !process.env.API_KEY)) {
+    return createMockProvider(MOCK_FIXTURES, 400);
+  }
+  return createGeminiProvider(process.env.API_KEY);
+};
+
+let activeProvider: ModelProvider | null = null;
+
+export const getModelProvider = (): ModelProvider => {
+  if (!activeProvider) activeProvider = resolveDefaultProvider();
+  return activeProvider;
+};
+
+export const setModelProvider = (provider: ModelProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,109 @@
+import { LatLng, Order, OrderStatus, Review, VendorProfile, VendorStatus } from "../types";
+import { openKeyValueStore } from "./idbStore";
+import { Locale } from "./i18n";
+import { orderStatusName } from "./orderLifecycle";
+
+/**
+ * Offline Queue
+ * Actions that need the network (chat questions, reviews for shared vendors,
+ * signal toggles, orders and their status changes) are parked here while the device is offline and replayed in
+ * order once it reconnects. The queue lives in IndexedDB so a reload or a
+ * closed tab does not lose anything.
+ */
+export type QueuedAction =
+  | { kind: 'chat'; text: string; location: LatLng; locale: Locale; replyId: string }
+  | { kind: 'review'; vendorId: string; review: Review }
+  | { kind: 'signal'; profile: VendorProfile; status: VendorStatus; coords?: LatLng }
+  | { kind: 'order'; order: Order }
+  | { kind: 'orderStatus'; profileId: string; orderId: string; status: OrderStatus; note?: string };
+
+export interface QueueEntry {
+  id: string;
+  action: QueuedAction;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export type QueueReplayers = { [K in QueuedAction['kind']]: (action: Extract<QueuedAction, { kind: K }>) => Promise<void> };
+
+export interface FlushResult {
+  synced: QueueEntry[];
+  // Gave up after MAX_ATTEMPTS
+  dropped: QueueEntry[];
+  remaining: number;
+}
+
+const MAX_ATTEMPTS = 5;
+
+const store = openKeyValueStore<QueueEntry>('gstreats-outbox', 'entries');
+let sequence = 0;
+let flushing: Promise<FlushResult> | null = null;
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export const listQueued = async (): Promise<QueueEntry[]> => {
+  const entries = await Promise.all((await store.keys()).map(key => store.get(key)));
+  return entries.filter((e): e is QueueEntry => !!e).sort((a, b) => a.queuedAt - b.queuedAt || a.id.localeCompare(b.id));
+};
+
+// Only the last signal toggle per hub matters, so a newer one replaces any still waiting
+export const enqueue = async (action: QueuedAction): Promise<QueueEntry> => {
+  if (action.kind === 'signal') {
+    const stale = (await listQueued()).filter(e => e.action.kind === 'signal' && e.action.profile.id === action.profile.id);
+    await Promise.all(stale.map(e => store.delete(e.id)));
+  }
+  const entry: QueueEntry = { id: `${Date.now()}-${sequence++}`, action, queuedAt: Date.now(), attempts: 0 };
+  await store.set(entry.id, entry);
+  return entry;
+};
+
+export const replayAction = (action: QueuedAction, replayers: QueueReplayers) => {
+  switch (action.kind) {
+    case 'chat': return replayers.chat(action);
+    case 'review': return replayers.review(action);
+    case 'signal': return replayers.signal(action);
+    case 'order': return replayers.order(action);
+    case 'orderStatus': return replayers.orderStatus(action);
+  }
+};
+
+/**
+ * Replays the queue oldest first. Stops at the first failure while the device
+ * reports itself offline, since everything behind it would fail the same way;
+ * otherwise the failed entry is retried on the next flush. Concurrent calls
+ * share one run.
+ */
+export const flushQueue = (replayers: QueueReplayers): Promise<FlushResult> => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const synced: QueueEntry[] = [];
+    const dropped: QueueEntry[] = [];
+    for (const entry of await listQueued()) {
+      if (!isOnline()) break;
+      try {
+        await replayAction(entry.action, replayers);
+        await store.delete(entry.id);
+        synced.push(entry);
+      } catch (err: any) {
+        const failed = { ...entry, attempts: entry.attempts + 1, lastError: err?.message || 'unknown error' };
+        if (failed.attempts >= MAX_ATTEMPTS) {
+          await store.delete(entry.id);
+          dropped.push(failed);
+        } else {
+          await store.set(entry.id, failed);
+        }
+      }
+    }
+    return { synced, dropped, remaining: (await store.keys()).length };
+  })().finally(() => { flushing = null; });
+  return flushing;
+};
+
+export const describeQueuedAction = (action: QueuedAction) => {
+  if (action.kind === 'chat') return `chat question "${action.text.length > 40 ? `${action.text.slice(0, 40)}…` : action.text}"`;
+  if (action.kind === 'review') return `review by ${action.review.author}`;
+  if (action.kind === 'order') return `order ${action.order.id.slice(-4).toUpperCase()} at ${action.order.shopName}`;
+  if (action.kind === 'orderStatus') return `order ${action.orderId.slice(-4).toUpperCase()} moving to ${orderStatusName(action.status)}`;
+  return `${action.profile.name} going ${action.status === VendorStatus.ONLINE ? 'live' : 'offline'}`;
+};
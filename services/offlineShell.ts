@@ -0,0 +1,57 @@
+import { LatLng } from "../types";
+
+/**
+ * Offline Shell
+ * Registers the service worker (public/sw.js) that keeps the app shell and map
+ * tiles available without a network, and warms its tile cache around the
+ * explorer so the streets nearby still render after the signal drops.
+ */
+export const CARTO_TILE_URL = 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png';
+
+const SERVICE_WORKER_URL = process.env.SERVICE_WORKER || '';
+// Street level, where a walking explorer actually looks
+const PREFETCH_ZOOMS = [14, 15, 16];
+// Tiles on each side of the one holding the explorer
+const PREFETCH_RADIUS = 1;
+
+export const isServiceWorkerEnabled = () => SERVICE_WORKER_URL !== '' && typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = async () => {
+  if (!isServiceWorkerEnabled()) return null;
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL);
+};
+
+// Slippy-map tile holding a point (the same scheme Leaflet requests)
+const tileOf = (coords: LatLng, zoom: number) => {
+  const n = 2 ** zoom;
+  const latRad = (coords.lat * Math.PI) / 180;
+  return {
+    x: Math.floor(((coords.lng + 180) / 360) * n),
+    y: Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n)
+  };
+};
+
+export const tileUrlsAround = (coords: LatLng, zooms: number[] = PREFETCH_ZOOMS, radius: number = PREFETCH_RADIUS) => {
+  const retina = typeof window !== 'undefined' && window.devicePixelRatio > 1 ? '@2x' : '';
+  return zooms.flatMap(z => {
+    const center = tileOf(coords, z);
+    const urls: string[] = [];
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        urls.push(CARTO_TILE_URL
+          .replace('{s}', 'a')
+          .replace('{z}', String(z))
+          .replace('{x}', String(center.x + dx))
+          .replace('{y}', String(center.y + dy))
+          .replace('{r}', retina));
+      }
+    }
+    return urls;
+  });
+};
+
+// The worker fetches whatever it has not cached yet; a no-op until it controls the page
+export const prefetchTilesAround = (coords: LatLng) => {
+  if (!isServiceWorkerEnabled()) return;
+  navigator.serviceWorker.controller?.postMessage({ type: 'prefetch-tiles', urls: tileUrlsAround(coords) });
+};
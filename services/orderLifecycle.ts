@@ -0,0 +1,90 @@
+import { Order, OrderLine, OrderStatus, Shop } from "../types";
+import { MessageKey, DEFAULT_LOCALE, translate } from "./i18n";
+
+/**
+ * Order Lifecycle
+ * placed → accepted → preparing → ready → picked up, with cancellation allowed
+ * until the food is ready. Every change is appended to the order's history.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PLACED]: [OrderStatus.ACCEPTED, OrderStatus.CANCELLED],
+  [OrderStatus.ACCEPTED]: [OrderStatus.PREPARING, OrderStatus.CANCELLED],
+  [OrderStatus.PREPARING]: [OrderStatus.READY, OrderStatus.CANCELLED],
+  [OrderStatus.READY]: [OrderStatus.PICKED_UP],
+  [OrderStatus.PICKED_UP]: [],
+  [OrderStatus.CANCELLED]: []
+};
+
+// Catalog keys, translated where the status is shown
+export const ORDER_STATUS_LABELS: Record<OrderStatus, MessageKey> = {
+  [OrderStatus.PLACED]: 'orderStatus.placed',
+  [OrderStatus.ACCEPTED]: 'orderStatus.accepted',
+  [OrderStatus.PREPARING]: 'orderStatus.preparing',
+  [OrderStatus.READY]: 'orderStatus.ready',
+  [OrderStatus.PICKED_UP]: 'orderStatus.picked_up',
+  [OrderStatus.CANCELLED]: 'orderStatus.cancelled'
+};
+
+// English status for agent logs and API errors
+export const orderStatusName = (status: OrderStatus) => translate(DEFAULT_LOCALE, ORDER_STATUS_LABELS[status]);
+
+// The forward path, used for progress displays and the vendor's primary action
+export const ORDER_PROGRESS: OrderStatus[] = [
+  OrderStatus.PLACED,
+  OrderStatus.ACCEPTED,
+  OrderStatus.PREPARING,
+  OrderStatus.READY,
+  OrderStatus.PICKED_UP
+];
+
+export class OrderTransitionError extends Error {
+  constructor(order: Order, next: OrderStatus) {
+    super(`Order ${order.id} cannot move from ${orderStatusName(order.status)} to ${orderStatusName(next)}.`);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+export const canTransition = (order: Order, next: OrderStatus) => ORDER_TRANSITIONS[order.status].includes(next);
+
+export const isOrderActive = (order: Order) => ORDER_TRANSITIONS[order.status].length > 0;
+
+export const nextForwardStatus = (order: Order): OrderStatus | null => {
+  const index = ORDER_PROGRESS.indexOf(order.status);
+  return index === -1 || index === ORDER_PROGRESS.length - 1 ? null : ORDER_PROGRESS[index + 1];
+};
+
+export const profileIdForShop = (shop: Shop) => (shop.id.startsWith('live-') ? shop.id.slice('live-'.length) : shop.id);
+
+export const createOrder = (shop: Shop, items: OrderLine[], customer: string): Order => {
+  const now = Date.now();
+  return {
+    id: `order-${now}-${Math.random().toString(36).slice(2, 6)}`,
+    shopId: shop.id,
+    profileId: profileIdForShop(shop),
+    shopName: shop.name,
+    customer,
+    items: items.map(({ name, variant, modifiers, quantity, price }) => ({
+      name,
+      ...(variant ? { variant } : {}),
+      ...(modifiers?.length ? { modifiers } : {}),
+      quantity,
+      price
+    })),
+    totalPrice: items.reduce((sum, it) => sum + it.price * it.quantity, 0),
+    status: OrderStatus.PLACED,
+    placedAt: now,
+    updatedAt: now,
+    history: [{ status: OrderStatus.PLACED, at: now }]
+  };
+};
+
+export const advanceOrder = (order: Order, next: OrderStatus, note?: string): Order => {
+  if (!canTransition(order, next)) throw new OrderTransitionError(order, next);
+  const at = Date.now();
+  return {
+    ...order,
+    status: next,
+    updatedAt: at,
+    history: [...order.history, note ? { status: next, at, note } : { status: next, at }]
+  };
+};
@@ -0,0 +1,109 @@
+import { AlertPreferences, LatLng, LiveVendor, VendorStatus } from "../types";
+import { haversineMeters } from "./geo";
+import { everyDay, isOpenAt } from "./schedule";
+
+/**
+ * Proximity Alerts
+ * Tells explorers when a vendor or cuisine they follow goes live near them.
+ * Only an offline → online change seen on the live grid counts: the snapshot
+ * sent on (re)connect is the baseline, so reloading never replays old news.
+ */
+export interface ProximityAlert {
+  vendorId: string;
+  vendorName: string;
+  cuisine: string;
+  coords: LatLng;
+  distanceMeters: number;
+  reason: 'vendor' | 'cuisine';
+  // Inside quiet hours: logged, but no notification or announcement
+  muted: boolean;
+}
+
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  enabled: true,
+  followedVendorIds: [],
+  followedCuisines: [],
+  radiusMeters: 1000,
+  quietHours: { open: '22:00', close: '07:00' },
+  speak: false
+};
+
+export const ALERT_RADIUS_OPTIONS = [500, 1000, 2000, 5000];
+
+// A vendor flapping on and off (weak signal, stale sweeps) is announced once per window
+const DEDUPE_WINDOW_MS = 30 * 60 * 1000;
+
+export const isQuietTime = (prefs: AlertPreferences, date: Date) =>
+  !!prefs.quietHours && isOpenAt(everyDay([prefs.quietHours]), date).isOpen;
+
+const followReason = (vendor: LiveVendor, prefs: AlertPreferences): ProximityAlert['reason'] | null => {
+  if (prefs.followedVendorIds.includes(vendor.profile.id)) return 'vendor';
+  const cuisine = vendor.profile.cuisine?.trim().toLowerCase();
+  return cuisine && prefs.followedCuisines.some(c => c.toLowerCase() === cuisine) ? 'cuisine' : null;
+};
+
+export const createProximityWatcher = () => {
+  const online = new Set<string>();
+  const lastAlertAt: Record<string, number> = {};
+
+  return {
+    reset(vendors: LiveVendor[]) {
+      online.clear();
+      vendors.filter(v => v.status === VendorStatus.ONLINE).forEach(v => online.add(v.profile.id));
+    },
+
+    forget(id: string) {
+      online.delete(id);
+    },
+
+    // Returns the alert to raise when this update is a followed vendor going live within the radius
+    observe(vendor: LiveVendor, prefs: AlertPreferences, location: LatLng, now: Date): ProximityAlert | null {
+      const id = vendor.profile.id;
+      const wasOnline = online.has(id);
+      if (vendor.status === VendorStatus.ONLINE) online.add(id);
+      else online.delete(id);
+      if (wasOnline || vendor.status !== VendorStatus.ONLINE || !vendor.coords || !prefs.enabled) return null;
+
+      const reason = followReason(vendor, prefs);
+      if (!reason) return null;
+      const distanceMeters = haversineMeters(location, vendor.coords);
+      if (distanceMeters > prefs.radiusMeters) return null;
+      if (now.getTime() - (lastAlertAt[id] ?? -Infinity) < DEDUPE_WINDOW_MS) return null;
+      lastAlertAt[id] = now.getTime();
+
+      return {
+        vendorId: id,
+        vendorName: vendor.profile.name,
+        cuisine: vendor.profile.cuisine,
+        coords: vendor.coords,
+        distanceMeters,
+        reason,
+        muted: isQuietTime(prefs, now)
+      };
+    }
+  };
+};
+
+export const describeAlert = (alert: ProximityAlert) =>
+  `${alert.vendorName} (${alert.cuisine}) just went live ${alert.distanceMeters < 1000 ? `${Math.round(alert.distanceMeters)} m` : `${(alert.distanceMeters / 1000).toFixed(1)} km`} away.`;
+
+export const requestAlertPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// The tag collapses repeats for the same vendor in the OS notification tray
+export const showAlertNotification = (alert: ProximityAlert, body: string = describeAlert(alert)) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  new Notification(`${alert.vendorName} is live nearby`, { body, tag: `vendor-live-${alert.vendorId}` });
+  return true;
+};
+
+// Fallback voice when the alert agent returns text without audio (offline fixtures, TTS quota)
+export const speakAnnouncement = (text: string, lang: string) => {
+  if (typeof speechSynthesis === 'undefined' || !text) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  speechSynthesis.speak(utterance);
+};
@@ -0,0 +1,157 @@
+import { AgentKey } from "./modelProvider";
+import { emitAgentEvent } from "./agentEvents";
+
+/**
+ * Resilience Layer
+ * Shared retry / timeout / backoff policy for every model call. Real attempts,
+ * delays and outcomes are reported to the Healing agent.
+ */
+export interface RetryBudget {
+  attempts: number;
+  timeoutMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CallOptions {
+  signal?: AbortSignal;
+}
+
+// Grounded and multimodal agents get longer timeouts; cosmetic agents fail fast.
+export const RETRY_BUDGETS: Record<AgentKey, RetryBudget> = {
+  weather: { attempts: 2, timeoutMs: 15000, baseDelayMs: 800, maxDelayMs: 4000 },
+  footfall: { attempts: 2, timeoutMs: 12000, baseDelayMs: 600, maxDelayMs: 3000 },
+  discovery: { attempts: 3, timeoutMs: 45000, baseDelayMs: 1500, maxDelayMs: 8000 },
+  foodImage: { attempts: 2, timeoutMs: 40000, baseDelayMs: 1500, maxDelayMs: 6000 },
+  analytics: { attempts: 3, timeoutMs: 30000, baseDelayMs: 1000, maxDelayMs: 6000 },
+  genealogy: { attempts: 3, timeoutMs: 45000, baseDelayMs: 1500, maxDelayMs: 8000 },
+  order: { attempts: 3, timeoutMs: 12000, baseDelayMs: 500, maxDelayMs: 3000 },
+  lens: { attempts: 2, timeoutMs: 40000, baseDelayMs: 1500, maxDelayMs: 6000 },
+  lensFrames: { attempts: 2, timeoutMs: 60000, baseDelayMs: 1500, maxDelayMs: 6000 },
+  summary: { attempts: 2, timeoutMs: 15000, baseDelayMs: 800, maxDelayMs: 4000 },
+  summaryAudio: { attempts: 1, timeoutMs: 20000, baseDelayMs: 0, maxDelayMs: 0 },
+  bio: { attempts: 2, timeoutMs: 12000, baseDelayMs: 600, maxDelayMs: 3000 },
+  alertText: { attempts: 2, timeoutMs: 12000, baseDelayMs: 600, maxDelayMs: 3000 },
+  alertAudio: { attempts: 1, timeoutMs: 20000, baseDelayMs: 0, maxDelayMs: 0 },
+  chat: { attempts: 3, timeoutMs: 30000, baseDelayMs: 1000, maxDelayMs: 6000 }
+};
+
+const AGENT_LABELS: Record<AgentKey, string> = {
+  weather: 'Climate grounding',
+  footfall: 'Footfall prediction',
+  discovery: 'Discovery scrape',
+  foodImage: 'Food lens',
+  analytics: 'Spatial analytics',
+  genealogy: 'Flavor genealogy',
+  order: 'Order parsing',
+  lens: 'Lens analysis',
+  lensFrames: 'Lens frame analysis',
+  summary: 'Node summary',
+  summaryAudio: 'Voice summary',
+  bio: 'Bio generation',
+  alertText: 'Signal alert',
+  alertAudio: 'Signal alert voice',
+  chat: 'Spatial chat'
+};
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException ? err.name === 'AbortError' : (err as any)?.name === 'AbortError';
+
+const abortError = () => new DOMException('Agent call cancelled.', 'AbortError');
+
+class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`timed out after ${ms}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Auth and malformed-request errors will not improve on retry; throttling and server errors might.
+const isRetryable = (err: unknown): boolean => {
+  if (err instanceof TimeoutError) return true;
+  const status = typeof (err as any)?.status === 'number' ? (err as any).status : undefined;
+  if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+  const message = String((err as any)?.message || '');
+  return !/api key|permission|invalid argument|no mock fixture/i.test(message);
+};
+
+const describeError = (err: unknown) => {
+  const status = (err as any)?.status;
+  const message = String((err as any)?.message || err).split('\n')[0].slice(0, 120);
+  return status ? `HTTP ${status}: ${message}` : message;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt under its own controller so a timeout cancels only that attempt.
+const runAttempt = <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal) => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  outer?.addEventListener('abort', forwardAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const guard = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+    controller.signal.addEventListener('abort', () => {
+      if (outer?.aborted) reject(abortError());
+    }, { once: true });
+  });
+
+  return Promise.race([task(controller.signal), guard]).finally(() => {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', forwardAbort);
+  });
+};
+
+export const backoffDelay = (budget: RetryBudget, attempt: number) => {
+  const exponential = Math.min(budget.maxDelayMs, budget.baseDelayMs * 2 ** (attempt - 1));
+  // Half-jitter keeps concurrent agents from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+export const withRetry = async <T>(
+  agent: AgentKey,
+  task: (signal: AbortSignal) => Promise<T>,
+  options: CallOptions = {}
+): Promise<T> => {
+  const budget = RETRY_BUDGETS[agent];
+  const label = AGENT_LABELS[agent];
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) throw abortError();
+    try {
+      const result = await runAttempt(task, budget.timeoutMs, options.signal);
+      if (attempt > 1) {
+        emitAgentEvent('Healing', `${label} recovered on attempt ${attempt}/${budget.attempts} after ${Date.now() - startedAt}ms.`, 'resolved');
+      }
+      return result;
+    } catch (err) {
+      if (options.signal?.aborted || isAbortError(err)) throw abortError();
+
+      const reason = describeError(err);
+      if (attempt >= budget.attempts || !isRetryable(err)) {
+        emitAgentEvent('Healing', `${label} failed after ${attempt} attempt(s): ${reason}.`, 'failed');
+        throw err;
+      }
+
+      const delay = backoffDelay(budget, attempt);
+      emitAgentEvent('Healing', `${label} attempt ${attempt}/${budget.attempts} failed (${reason}). Retrying in ${delay}ms...`, 'processing');
+      await sleep(delay, options.signal);
+    }
+  }
+};
@@ -0,0 +1,79 @@
+import { LatLng, AgentLog } from "../types";
+import { AgentKey } from "./modelProvider";
+import { emitAgentEvent } from "./agentEvents";
+import { encodeGeohash } from "./geo";
+import { openKeyValueStore } from "./idbStore";
+
+/**
+ * Grid-Cell Response Cache
+ * Location-bound agents are keyed by the geohash cell of their coordinates, so
+ * marker drags and revisits inside the same cell reuse the last answer.
+ */
+export interface CachePolicy {
+  ttlMs: number;
+  precision: number;
+  logAgent: AgentLog['agent'];
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export const CACHE_POLICIES: Partial<Record<AgentKey, CachePolicy>> = {
+  // ~1.2km cells: weather does not change across a few streets
+  weather: { ttlMs: 20 * MINUTE, precision: 6, logAgent: 'Spatial' },
+  // ~4.9km cells match the discovery agent's 5km scan radius
+  discovery: { ttlMs: 6 * 60 * MINUTE, precision: 5, logAgent: 'Discovery' },
+  genealogy: { ttlMs: 7 * 24 * 60 * MINUTE, precision: 5, logAgent: 'Historian' }
+};
+
+const store = openKeyValueStore<CacheEntry<unknown>>('gstreats-response-cache', 'responses');
+const memory = new Map<string, CacheEntry<unknown>>();
+
+const formatAge = (ms: number) => (ms < MINUTE ? `${Math.round(ms / 1000)}s` : `${Math.round(ms / MINUTE)}m`);
+
+const readEntry = async (key: string): Promise<CacheEntry<unknown> | undefined> => {
+  const cached = memory.get(key);
+  if (cached) return cached;
+  try {
+    const persisted = await store.get(key);
+    if (persisted) memory.set(key, persisted);
+    return persisted;
+  } catch (err) {
+    console.warn("Response cache read failed:", err);
+    return undefined;
+  }
+};
+
+export const cachedByCell = async <T>(
+  agent: AgentKey,
+  location: LatLng,
+  variant: string,
+  load: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<T> => {
+  const policy = CACHE_POLICIES[agent];
+  if (!policy) return load();
+
+  const cell = encodeGeohash(location, policy.precision);
+  const key = `${agent}:${cell}:${variant}`;
+
+  const entry = await readEntry(key);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+  if (entry && age < policy.ttlMs) {
+    emitAgentEvent(policy.logAgent, `Cache hit: ${agent} for cell ${cell} (age ${formatAge(age)}).`, 'resolved');
+    return entry.value as T;
+  }
+
+  emitAgentEvent(policy.logAgent, `Cache ${entry ? 'expired' : 'miss'}: ${agent} for cell ${cell}. Querying agent...`, 'processing');
+  const value = await load();
+  if (shouldCache(value)) {
+    const fresh = { value, storedAt: Date.now() };
+    memory.set(key, fresh);
+    store.set(key, fresh).catch(err => console.warn("Response cache write failed:", err));
+  }
+  return value;
+};
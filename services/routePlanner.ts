@@ -0,0 +1,201 @@
+import { LatLng, Shop } from "../types";
+import { haversineMeters } from "./geo";
+import { footfallAt } from "./gridFilters";
+import { isOpenAt, scheduleOf } from "./schedule";
+
+/**
+ * Route Planner
+ * Orders a food crawl so it walks the least while reaching each stop when it is
+ * open and, where possible, outside its footfall peak. Ordering is local
+ * (nearest neighbour, then 2-opt) so it works offline; an OSRM-compatible
+ * router, if configured, only refines the legs into street paths and times.
+ */
+export interface PlannedStop {
+  shop: Shop;
+  arriveAt: Date;
+  departAt: Date;
+  // False when the stop has hours and is closed on arrival; null when its hours are unknown
+  isOpen: boolean | null;
+  footfall: number | null;
+}
+
+export interface RouteLeg {
+  from: LatLng;
+  to: LatLng;
+  meters: number;
+  minutes: number;
+  // Straight line until a router supplies the street path
+  path: LatLng[];
+  routed: boolean;
+}
+
+export interface RoutePlan {
+  stops: PlannedStop[];
+  legs: RouteLeg[];
+  totalMeters: number;
+  totalMinutes: number;
+  warnings: string[];
+}
+
+export interface RoutedLeg {
+  meters: number;
+  seconds: number;
+  path: LatLng[];
+}
+
+export type LegRouter = (from: LatLng, to: LatLng) => Promise<RoutedLeg>;
+
+const WALKING_SPEED_MPS = 1.25;
+// Street grids are longer than the crow flies
+const DETOUR_FACTOR = 1.3;
+// Time spent eating at each stop
+const DWELL_MINUTES = 20;
+// Costs in "meters of walking" so they trade off against distance
+const CLOSED_PENALTY_METERS = 5000;
+const PEAK_FOOTFALL = 80;
+const PEAK_PENALTY_METERS_PER_POINT = 15;
+const MAX_TWO_OPT_PASSES = 20;
+
+const OSRM_URL = (process.env.OSRM_URL || '').replace(/\/$/, '');
+
+const walkingMeters = (from: LatLng, to: LatLng) => haversineMeters(from, to) * DETOUR_FACTOR;
+const walkingMinutes = (meters: number) => meters / WALKING_SPEED_MPS / 60;
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60000);
+
+const openOnArrival = (shop: Shop, at: Date): boolean | null => {
+  const schedule = scheduleOf(shop);
+  return schedule ? isOpenAt(schedule, at).isOpen : null;
+};
+
+// Walks an ordering from the start, timing each arrival
+const simulate = (start: LatLng, order: Shop[], departAt: Date): RoutePlan => {
+  const stops: PlannedStop[] = [];
+  const legs: RouteLeg[] = [];
+  let position = start;
+  let clock = departAt;
+  order.forEach(shop => {
+    const meters = walkingMeters(position, shop.coords);
+    const minutes = walkingMinutes(meters);
+    legs.push({ from: position, to: shop.coords, meters, minutes, path: [position, shop.coords], routed: false });
+    const arriveAt = addMinutes(clock, minutes);
+    const departStop = addMinutes(arriveAt, DWELL_MINUTES);
+    stops.push({ shop, arriveAt, departAt: departStop, isOpen: openOnArrival(shop, arriveAt), footfall: footfallAt(shop, arriveAt) });
+    position = shop.coords;
+    clock = departStop;
+  });
+  return summarize(stops, legs, departAt);
+};
+
+const summarize = (stops: PlannedStop[], legs: RouteLeg[], departAt: Date): RoutePlan => {
+  const warnings = stops.flatMap(stop => {
+    const time = stop.arriveAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    if (stop.isOpen === false) return [`${stop.shop.name} is closed at ${time}.`];
+    if ((stop.footfall ?? 0) >= PEAK_FOOTFALL) return [`${stop.shop.name} is at peak footfall around ${time}; expect a queue.`];
+    return [];
+  });
+  const last = stops[stops.length - 1];
+  return {
+    stops,
+    legs,
+    totalMeters: legs.reduce((sum, leg) => sum + leg.meters, 0),
+    totalMinutes: last ? (last.departAt.getTime() - departAt.getTime()) / 60000 : 0,
+    warnings
+  };
+};
+
+const costOf = (plan: RoutePlan) =>
+  plan.totalMeters + plan.stops.reduce((sum, stop) =>
+    sum
+    + (stop.isOpen === false ? CLOSED_PENALTY_METERS : 0)
+    + Math.max(0, (stop.footfall ?? 0) - PEAK_FOOTFALL) * PEAK_PENALTY_METERS_PER_POINT, 0);
+
+const nearestNeighbourOrder = (start: LatLng, shops: Shop[]) => {
+  const remaining = [...shops];
+  const order: Shop[] = [];
+  let position = start;
+  while (remaining.length > 0) {
+    let best = 0;
+    remaining.forEach((shop, i) => {
+      if (haversineMeters(position, shop.coords) < haversineMeters(position, remaining[best].coords)) best = i;
+    });
+    const [next] = remaining.splice(best, 1);
+    order.push(next);
+    position = next.coords;
+  }
+  return order;
+};
+
+/**
+ * Plans an open walk (no return) from `start` through every shop. Arrival
+ * times depend on the order, so each 2-opt candidate is re-timed in full;
+ * crawls are a handful of stops, which keeps that cheap.
+ */
+export const planRoute = (start: LatLng, shops: Shop[], departAt: Date = new Date()): RoutePlan => {
+  let order = nearestNeighbourOrder(start, shops);
+  let best = simulate(start, order, departAt);
+  let bestCost = costOf(best);
+
+  for (let pass = 0, improved = true; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const plan = simulate(start, candidate, departAt);
+        const cost = costOf(plan);
+        if (cost < bestCost - 1) {
+          order = candidate;
+          best = plan;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+export const isRouterEnabled = () => OSRM_URL !== '';
+
+// Any OSRM-compatible server (osrm-backend, Valhalla's OSRM shim) with a foot profile
+export const osrmRouter: LegRouter = async (from, to) => {
+  const url = `${OSRM_URL}/route/v1/foot/${from.lng},${from.lat};${to.lng},${to.lat}?overview=full&geometries=geojson`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Router returned HTTP ${res.status}`);
+  const data = await res.json();
+  const route = data?.routes?.[0];
+  if (!route) throw new Error(`Router found no route (${data?.code || 'unknown'})`);
+  return {
+    meters: route.distance,
+    seconds: route.duration,
+    path: (route.geometry?.coordinates || []).map(([lng, lat]: [number, number]) => ({ lat, lng }))
+  };
+};
+
+/**
+ * Replaces straight-line legs with routed ones and re-times the stops. A leg the
+ * router cannot serve keeps its estimate; the failure is reported in warnings.
+ */
+export const routeLegs = async (plan: RoutePlan, router: LegRouter = osrmRouter): Promise<RoutePlan> => {
+  if (plan.stops.length === 0) return plan;
+  const failures: string[] = [];
+  const legs = await Promise.all(plan.legs.map(async leg => {
+    try {
+      const routed = await router(leg.from, leg.to);
+      return { ...leg, meters: routed.meters, minutes: routed.seconds / 60, path: routed.path.length > 1 ? routed.path : leg.path, routed: true };
+    } catch (err: any) {
+      failures.push(err?.message || 'router unavailable');
+      return leg;
+    }
+  }));
+
+  const departAt = new Date(plan.stops[0].arriveAt.getTime() - plan.legs[0].minutes * 60000);
+  let clock = departAt;
+  const stops = plan.stops.map((stop, i) => {
+    const arriveAt = addMinutes(clock, legs[i].minutes);
+    clock = addMinutes(arriveAt, DWELL_MINUTES);
+    return { ...stop, arriveAt, departAt: clock, isOpen: openOnArrival(stop.shop, arriveAt), footfall: footfallAt(stop.shop, arriveAt) };
+  });
+  const refined = summarize(stops, legs, departAt);
+  if (failures.length > 0) refined.warnings.push(`Street routing failed for ${failures.length} leg(s) (${failures[0]}); using straight-line estimates.`);
+  return refined;
+};
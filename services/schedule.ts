@@ -0,0 +1,206 @@
+import { Shop, TimeInterval, WeeklySchedule } from "../types";
+import { Locale, LOCALES, translate } from "./i18n";
+
+/**
+ * Operating Hours
+ * Evaluates weekly schedules (split shifts, overnight spans, dated overrides)
+ * and converts the legacy free-text hours ("12:00 - 23:00", "6am-11pm").
+ */
+export interface OpenState {
+  isOpen: boolean;
+  // When the state next flips (closing time if open, next opening if closed); null if never within a week
+  changesAt: Date | null;
+}
+
+export interface OpenBadge {
+  label: string;
+  tone: 'open' | 'closing' | 'closed';
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTES_PER_DAY = 24 * 60;
+// Within this window the badge counts down instead of showing the clock time
+const SOON_MINUTES = 60;
+
+export const everyDay = (intervals: TimeInterval[]): WeeklySchedule => ({
+  days: WEEKDAY_LABELS.map(() => intervals.map(i => ({ ...i })))
+});
+
+export const DEFAULT_SCHEDULE = everyDay([{ open: '09:00', close: '22:00' }]);
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const intervalsForDate = (schedule: WeeklySchedule, date: Date): TimeInterval[] => {
+  const override = schedule.overrides?.find(o => o.date === toDateKey(date));
+  return override ? override.intervals : schedule.days[date.getDay()] || [];
+};
+
+// --- Parsing ---
+
+const TIME_PATTERN = '(\\d{1,2})(?:[:.](\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)?';
+const RANGE_RE = new RegExp(`^${TIME_PATTERN}\\s*(?:-|–|—|to)\\s*${TIME_PATTERN}$`, 'i');
+const ALL_DAY_RE = /^(24\s*(hours|hrs|h)|24\/7|open 24.*|all day)$/i;
+const CLOSED_RE = /^(closed|off|holiday|-)$/i;
+
+const to24h = (hour: number, minute: number, suffix: string | undefined): number | null => {
+  if (minute > 59) return null;
+  if (suffix) {
+    if (hour < 1 || hour > 12) return null;
+    const pm = suffix.toLowerCase().startsWith('p');
+    return ((hour % 12) + (pm ? 12 : 0)) * 60 + minute;
+  }
+  return hour > 24 || (hour === 24 && minute > 0) ? null : hour * 60 + minute;
+};
+
+const parseRange = (text: string): TimeInterval | null => {
+  const m = text.trim().match(RANGE_RE);
+  if (!m) return null;
+  const [, oh, om, openSuffix, ch, cm, closeSuffix] = m;
+  // "6-11pm" means 6pm; "11-3pm" means 11am, so a borrowed suffix must not put the open after the close
+  let inferredOpenSuffix = openSuffix;
+  if (!openSuffix && closeSuffix && Number(oh) <= 12) {
+    inferredOpenSuffix = Number(oh) % 12 <= Number(ch) % 12 ? closeSuffix : 'am';
+  }
+  const open = to24h(Number(oh), Number(om || 0), inferredOpenSuffix);
+  let close = to24h(Number(ch), Number(cm || 0), closeSuffix);
+  if (open === null || close === null || open === MINUTES_PER_DAY) return null;
+  // "9 to 5" is a day shift: a bare 12-hour close that would wrap past midnight is read as pm.
+  // Zero-padded 24-hour times ("18:00 - 02:00") stay overnight.
+  if (!openSuffix && !closeSuffix && !ch.startsWith('0') && Number(ch) < 12 && close <= open && close + 12 * 60 > open) {
+    close += 12 * 60;
+  }
+  return { open: formatMinutes(open), close: formatMinutes(close) };
+};
+
+/**
+ * Parses one day's hours: "12:00 - 15:00, 18:00 - 23:00", "6am-11pm", "24 hours" or "Closed".
+ * Returns null when any part of the text is not understood.
+ */
+export const parseIntervals = (text: string): TimeInterval[] | null => {
+  const trimmed = text.trim();
+  if (CLOSED_RE.test(trimmed)) return [];
+  if (ALL_DAY_RE.test(trimmed)) return [{ open: '00:00', close: '24:00' }];
+  const parts = trimmed.split(/\s*(?:,|;|&|\band\b)\s*/i).filter(Boolean);
+  if (parts.length === 0) return null;
+  const intervals = parts.map(parseRange);
+  return intervals.every(Boolean) ? (intervals as TimeInterval[]) : null;
+};
+
+// Legacy hours were a single daily pattern, so they apply to every day of the week
+export const parseLegacyHours = (hours: string | undefined): WeeklySchedule | null => {
+  if (!hours) return null;
+  const intervals = parseIntervals(hours);
+  return intervals && intervals.length > 0 ? everyDay(intervals) : null;
+};
+
+export const scheduleOf = (shop: Shop): WeeklySchedule | null => shop.schedule ?? parseLegacyHours(shop.hours);
+
+// --- Evaluation ---
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Absolute open spans from the day before `date` (overnight carry-over) through the next week, merged.
+const spansAround = (schedule: WeeklySchedule, date: Date): Span[] => {
+  const spans: Span[] = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+    intervalsForDate(schedule, day).forEach(({ open, close }) => {
+      const openMin = toMinutes(open);
+      let closeMin = toMinutes(close);
+      if (closeMin <= openMin) closeMin += MINUTES_PER_DAY;
+      spans.push({
+        start: new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, openMin).getTime(),
+        end: new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, closeMin).getTime()
+      });
+    });
+  }
+  spans.sort((a, b) => a.start - b.start);
+  // "18:00-24:00" followed by "00:00-02:00" is one continuous opening
+  return spans.reduce<Span[]>((merged, span) => {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+    else merged.push({ ...span });
+    return merged;
+  }, []);
+};
+
+export const isOpenAt = (schedule: WeeklySchedule, date: Date = new Date()): OpenState => {
+  const t = date.getTime();
+  const spans = spansAround(schedule, date);
+  const current = spans.find(s => s.start <= t && t < s.end);
+  if (current) {
+    // An opening that outlasts the evaluated week (24/7) has no closing time to report
+    const windowEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 8).getTime();
+    return { isOpen: true, changesAt: current.end >= windowEnd ? null : new Date(current.end) };
+  }
+  const next = spans.find(s => s.start > t);
+  return { isOpen: false, changesAt: next ? new Date(next.start) : null };
+};
+
+// Day and clock names are the reader's, via Intl: "Mon 6:00 pm" in English, "திங்கள் மாலை 6:00" in Tamil
+export const weekdayName = (locale: Locale, day: number) =>
+  // 7 January 2024 was a Sunday
+  new Intl.DateTimeFormat(LOCALES[locale].speechCode, { weekday: 'short' }).format(new Date(2024, 0, 7 + day));
+
+const clockTime = (locale: Locale, date: Date) =>
+  new Intl.DateTimeFormat(LOCALES[locale].speechCode, { hour: 'numeric', minute: '2-digit' }).format(date);
+
+export const describeOpenState = (state: OpenState, locale: Locale, now: Date = new Date()): OpenBadge => {
+  const minutes = state.changesAt ? Math.ceil((state.changesAt.getTime() - now.getTime()) / 60000) : Infinity;
+  if (state.isOpen) {
+    if (minutes <= SOON_MINUTES) return { label: translate(locale, 'hours.closesIn', { minutes }), tone: 'closing' };
+    return {
+      label: state.changesAt ? translate(locale, 'hours.openUntil', { time: clockTime(locale, state.changesAt) }) : translate(locale, 'hours.openAllDay'),
+      tone: 'open'
+    };
+  }
+  if (!state.changesAt) return { label: translate(locale, 'hours.closed'), tone: 'closed' };
+  if (minutes <= SOON_MINUTES) return { label: translate(locale, 'hours.opensIn', { minutes }), tone: 'closed' };
+  const time = clockTime(locale, state.changesAt);
+  const label = state.changesAt.toDateString() === now.toDateString()
+    ? translate(locale, 'hours.opensAt', { time })
+    : translate(locale, 'hours.opensOn', { day: weekdayName(locale, state.changesAt.getDay()), time });
+  return { label, tone: 'closed' };
+};
+
+// --- Formatting ---
+
+// The editable form the hours parser reads back, so it stays in English: "12:00 - 15:00, 18:00 - 23:00" or "Closed"
+export const formatIntervals = (intervals: TimeInterval[]) =>
+  intervals.length === 0 ? 'Closed' : intervals.map(i => `${i.open} - ${i.close}`).join(', ');
+
+// The display form in the reader's language
+export const describeIntervals = (intervals: TimeInterval[], locale: Locale) => {
+  if (intervals.length === 0) return translate(locale, 'hours.closed');
+  const clock = (hhmm: string) => clockTime(locale, new Date(2024, 0, 7, 0, toMinutes(hhmm)));
+  return intervals.map(i => `${clock(i.open)} – ${clock(i.close)}`).join(', ');
+};
+
+// Collapses runs of identical days: "Mon–Fri 9:00 am – 5:00 pm · Sat–Sun Closed"
+export const formatSchedule = (schedule: WeeklySchedule, locale: Locale) => {
+  const labels = schedule.days.map(intervals => describeIntervals(intervals, locale));
+  if (labels.every(l => l === labels[0])) return labels[0];
+  // Monday-first reads more naturally for a trading week
+  const order = [1, 2, 3, 4, 5, 6, 0];
+  const groups: { from: number; to: number; label: string }[] = [];
+  order.forEach(day => {
+    const last = groups[groups.length - 1];
+    if (last && last.label === labels[day]) last.to = day;
+    else groups.push({ from: day, to: day, label: labels[day] });
+  });
+  return groups
+    .map(g => `${weekdayName(locale, g.from)}${g.from === g.to ? '' : `–${weekdayName(locale, g.to)}`} ${g.label}`)
+    .join(' · ');
+};
@@ -0,0 +1,415 @@
+import {
+  Shop,
+  LatLng,
+  SafetyMetrics,
+  UrbanLogistics,
+  SuccessReasoning,
+  FootfallPoint,
+  LensAnalysis,
+  LensObservation,
+  LensFrame,
+  SpatialAnalytics,
+  FlavorGenealogy,
+  FlavorEra,
+  FoodAnalysis
+} from "../types";
+
+/**
+ * Schema Validation & Repair Layer
+ * Model output is untrusted: every agent response is coerced into the shapes in
+ * types.ts before it reaches state or Chart.js. Each coercion is recorded so the
+ * Healing agent can report what was fixed.
+ */
+export interface Validated<T> {
+  value: T;
+  repairs: string[];
+}
+
+export type Repairs = string[];
+
+const isRecord = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const describe = (v: unknown) => (typeof v === 'string' ? `"${v}"` : JSON.stringify(v));
+
+/**
+ * Pulls the first JSON object out of free text (code fences, narrative preambles,
+ * trailing commas). Returns null when nothing parseable is found.
+ */
+export const extractJson = (text: string): unknown => {
+  const stripped = text.replace(/```[a-z]*/gi, '');
+  const start = stripped.indexOf('{');
+  if (start === -1) return null;
+
+  // Walk to the matching closing brace so trailing prose with braces is ignored
+  let depth = 0;
+  let inString = false;
+  let end = -1;
+  for (let i = start; i < stripped.length; i++) {
+    const ch = stripped[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}' && --depth === 0) { end = i; break; }
+  }
+  const candidate = stripped.slice(start, end === -1 ? undefined : end + 1);
+
+  for (const attempt of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+    try { return JSON.parse(attempt); } catch { /* try the next repair */ }
+  }
+  return null;
+};
+
+export const parseJsonObject = (text: string | undefined): Record<string, any> => {
+  if (!text) return {};
+  try {
+    const parsed = JSON.parse(text);
+    if (isRecord(parsed)) return parsed;
+  } catch { /* fall through to extraction */ }
+  const extracted = extractJson(text);
+  return isRecord(extracted) ? extracted : {};
+};
+
+// --- Primitive coercions ---
+
+export const toNumber = (v: unknown): number | undefined => {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : undefined;
+  if (typeof v === 'string') {
+    const match = v.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : undefined;
+  }
+  return undefined;
+};
+
+export const toScore = (v: unknown, path: string, repairs: Repairs, fallback: number = 50): number => {
+  const n = toNumber(v);
+  if (n === undefined) {
+    repairs.push(`${path} missing, defaulted to ${fallback}`);
+    return fallback;
+  }
+  if (typeof v !== 'number') repairs.push(`${path} coerced from ${describe(v)}`);
+  let score = n;
+  // Scores on a 0-1 scale are rescaled rather than clamped to ~1
+  if (n > 0 && n < 1) {
+    score = n * 100;
+    repairs.push(`${path} rescaled from ${n}`);
+  }
+  const clamped = Math.min(100, Math.max(0, Math.round(score)));
+  if (clamped !== Math.round(score)) repairs.push(`${path} clamped from ${score} to ${clamped}`);
+  return clamped;
+};
+
+const toText = (v: unknown, path: string, repairs: Repairs, fallback: string = ''): string => {
+  if (typeof v === 'string') return v.trim();
+  if (typeof v === 'number' || typeof v === 'boolean') {
+    repairs.push(`${path} coerced to text`);
+    return String(v);
+  }
+  if (fallback) repairs.push(`${path} missing, defaulted`);
+  return fallback;
+};
+
+const toStringList = (v: unknown, path: string, repairs: Repairs): string[] => {
+  if (Array.isArray(v)) return v.filter(item => typeof item === 'string' && item.trim()).map(item => item.trim());
+  if (typeof v === 'string' && v.trim()) {
+    repairs.push(`${path} split from a single string`);
+    return v.split(/,\s*/).filter(Boolean);
+  }
+  return [];
+};
+
+export const toCoords = (v: unknown): LatLng | null => {
+  if (!isRecord(v)) return null;
+  const lat = toNumber(v.lat ?? v.latitude);
+  const lng = toNumber(v.lng ?? v.lon ?? v.longitude);
+  if (lat === undefined || lng === undefined) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  if (lat === 0 && lng === 0) return null;
+  return { lat, lng };
+};
+
+// Optional: nodes may come without one, but a price that is there has to be usable
+const toPrice = (v: unknown, path: string, repairs: Repairs): number | undefined => {
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = toNumber(v);
+  if (n === undefined || n <= 0) {
+    repairs.push(`${path} ${describe(v)} dropped`);
+    return undefined;
+  }
+  if (typeof v !== 'number') repairs.push(`${path} coerced from ${describe(v)}`);
+  return Math.round(n);
+};
+
+const pickEnum = <T extends string>(v: unknown, allowed: readonly T[], path: string, repairs: Repairs, fallback: T): T => {
+  const match = typeof v === 'string' ? allowed.find(a => a.toLowerCase() === v.trim().toLowerCase()) : undefined;
+  if (match) return match;
+  repairs.push(`${path} ${describe(v)} replaced with "${fallback}"`);
+  return fallback;
+};
+
+// --- Shop ---
+
+const DEFAULT_FOOTFALL_PERIODS = ["6am-10am", "11am-2pm", "3pm-6pm", "7pm-10pm", "11pm-2am"];
+
+const validateSafety = (v: unknown, path: string, repairs: Repairs): SafetyMetrics => {
+  const raw = isRecord(v) ? v : {};
+  if (!isRecord(v)) repairs.push(`${path} missing, defaulted`);
+  return {
+    crimeSafety: toScore(raw.crimeSafety, `${path}.crimeSafety`, repairs, 70),
+    policeProximity: toScore(raw.policeProximity, `${path}.policeProximity`, repairs, 70),
+    footfallIntensity: toScore(raw.footfallIntensity, `${path}.footfallIntensity`, repairs, 70),
+    lighting: toScore(raw.lighting, `${path}.lighting`, repairs, 70),
+    vibe: toScore(raw.vibe, `${path}.vibe`, repairs, 70),
+    nearestPoliceStations: toStringList(raw.nearestPoliceStations, `${path}.nearestPoliceStations`, repairs)
+  };
+};
+
+const validateLogistics = (v: unknown, path: string, repairs: Repairs): UrbanLogistics => {
+  const raw = isRecord(v) ? v : {};
+  if (!isRecord(v)) repairs.push(`${path} missing, defaulted`);
+  return {
+    transitAccessibility: toScore(raw.transitAccessibility, `${path}.transitAccessibility`, repairs, 50),
+    walkabilityScore: toScore(raw.walkabilityScore, `${path}.walkabilityScore`, repairs, 50),
+    parkingAvailability: toScore(raw.parkingAvailability, `${path}.parkingAvailability`, repairs, 50),
+    publicTransportNodes: toStringList(raw.publicTransportNodes, `${path}.publicTransportNodes`, repairs)
+  };
+};
+
+const validateSuccess = (v: unknown, path: string, repairs: Repairs): SuccessReasoning => {
+  const raw = isRecord(v) ? v : {};
+  if (!isRecord(v)) repairs.push(`${path} missing, defaulted`);
+  return {
+    locationGravity: toScore(raw.locationGravity, `${path}.locationGravity`, repairs, 70),
+    flavorMoat: toScore(raw.flavorMoat, `${path}.flavorMoat`, repairs, 70),
+    socialResonance: toScore(raw.socialResonance, `${path}.socialResonance`, repairs, 70),
+    economicFit: toScore(raw.economicFit, `${path}.economicFit`, repairs, 70)
+  };
+};
+
+const validateFootfall = (v: unknown, path: string, repairs: Repairs): FootfallPoint[] => {
+  const points = Array.isArray(v)
+    ? v.filter(isRecord).map((p, i) => ({
+        period: toText(p.period, `${path}[${i}].period`, repairs, DEFAULT_FOOTFALL_PERIODS[i] || `Window ${i + 1}`),
+        volume: toScore(p.volume, `${path}[${i}].volume`, repairs, 50)
+      }))
+    : [];
+  if (points.length === 0) {
+    repairs.push(`${path} missing, defaulted`);
+    return [{ period: "Lunch", volume: 70 }];
+  }
+  return points;
+};
+
+/**
+ * Returns null for nodes that cannot be placed on the grid (no name or no valid coordinates).
+ */
+export const validateShop = (raw: unknown, fallbackId: string, path: string, repairs: Repairs): Shop | null => {
+  if (!isRecord(raw)) {
+    repairs.push(`${path} dropped: not an object`);
+    return null;
+  }
+  const name = toText(raw.name, `${path}.name`, repairs);
+  const coords = toCoords(raw.coords ?? raw);
+  if (!name || !coords) {
+    repairs.push(`${path} dropped: ${!name ? 'missing name' : `invalid coordinates ${describe(raw.coords)}`}`);
+    return null;
+  }
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : fallbackId,
+    name,
+    coords,
+    isVendor: false,
+    reviews: [],
+    emoji: toText(raw.emoji, `${path}.emoji`, repairs, '🍽️'),
+    cuisine: toText(raw.cuisine, `${path}.cuisine`, repairs, 'Street Food'),
+    description: toText(raw.description, `${path}.description`, repairs),
+    address: toText(raw.address, `${path}.address`, repairs),
+    typicalPrice: toPrice(raw.typicalPrice, `${path}.typicalPrice`, repairs),
+    successReasoning: validateSuccess(raw.successReasoning, `${path}.successReasoning`, repairs),
+    safetyMetrics: validateSafety(raw.safetyMetrics, `${path}.safetyMetrics`, repairs),
+    urbanLogistics: validateLogistics(raw.urbanLogistics, `${path}.urbanLogistics`, repairs),
+    predictedFootfall: validateFootfall(raw.predictedFootfall, `${path}.predictedFootfall`, repairs)
+  };
+};
+
+// --- Lens ---
+
+const OBSERVATION_TYPES: readonly LensObservation['type'][] = ['bottleneck', 'flow', 'friction', 'opportunity'];
+const FRAME_CATEGORIES: readonly LensFrame['category'][] = ['Landscape', 'Sidewalk', 'Boundary', 'Perspective'];
+
+const toFrameId = (v: unknown, path: string, frameIds: string[], repairs: Repairs): string | undefined => {
+  if (typeof v === 'string' && frameIds.includes(v)) return v;
+  repairs.push(`${path} does not name a sampled frame, unlinked`);
+  return undefined;
+};
+
+// `frameIds` are the frames actually sent; observations citing any other id are unlinked
+export const validateLensAnalysis = (raw: unknown, frameIds: string[] = []): Validated<LensAnalysis> => {
+  const repairs: Repairs = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) repairs.push('lens payload unparseable, rebuilt empty');
+
+  const observations = (Array.isArray(data.observations) ? data.observations : [])
+    .filter(isRecord)
+    .map((o, i): LensObservation => ({
+      id: toText(o.id, `observations[${i}].id`, repairs, `obs-${i + 1}`),
+      type: pickEnum(o.type, OBSERVATION_TYPES, `observations[${i}].type`, repairs, 'friction'),
+      detail: toText(o.detail, `observations[${i}].detail`, repairs, 'Unlabelled spatial observation.'),
+      causalBottleneck: toText(o.causalBottleneck, `observations[${i}].causalBottleneck`, repairs, 'Cause not reported.'),
+      ...(frameIds.length > 0 ? { frameId: toFrameId(o.frameId, `observations[${i}].frameId`, frameIds, repairs) } : {})
+    }));
+
+  const extractedFrames = (Array.isArray(data.extractedFrames) ? data.extractedFrames : [])
+    .filter(isRecord)
+    .map((f, i): LensFrame => ({
+      id: toText(f.id, `extractedFrames[${i}].id`, repairs, `frame-${i + 1}`),
+      timestamp: toText(f.timestamp, `extractedFrames[${i}].timestamp`, repairs, '00:00'),
+      description: toText(f.description, `extractedFrames[${i}].description`, repairs),
+      category: pickEnum(f.category, FRAME_CATEGORIES, `extractedFrames[${i}].category`, repairs, 'Perspective'),
+      spatialInsight: toText(f.spatialInsight, `extractedFrames[${i}].spatialInsight`, repairs)
+    }));
+
+  return {
+    value: {
+      observations,
+      extractedFrames,
+      recommendation: toText(data.recommendation, 'recommendation', repairs, 'No recommendation synthesized.'),
+      videoSource: toText(data.videoSource, 'videoSource', repairs, 'unknown')
+    },
+    repairs
+  };
+};
+
+// --- Analytics ---
+
+// The analytics agent's share of the dashboard; everything countable comes from the analytics engine
+export const validateSectorNarrative = (raw: unknown): Validated<Pick<SpatialAnalytics, 'customerSegmentation' | 'sectorSummary'>> => {
+  const repairs: Repairs = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) repairs.push('analytics narrative unparseable, rebuilt empty');
+
+  return {
+    value: {
+      customerSegmentation: (Array.isArray(data.customerSegmentation) ? data.customerSegmentation : []).filter(isRecord).map((s, i) => ({
+        segment: toText(s.segment, `customerSegmentation[${i}].segment`, repairs, 'General'),
+        description: toText(s.description, `customerSegmentation[${i}].description`, repairs),
+        volume: toScore(s.volume, `customerSegmentation[${i}].volume`, repairs, 25)
+      })),
+      sectorSummary: toText(data.sectorSummary, 'sectorSummary', repairs, 'Sector synthesis unavailable.')
+    },
+    repairs
+  };
+};
+
+// --- Genealogy ---
+
+export const validateFlavorGenealogy = (raw: unknown): Validated<FlavorGenealogy> => {
+  const repairs: Repairs = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) repairs.push('genealogy payload unparseable, rebuilt empty');
+
+  const timeline = (Array.isArray(data.timeline) ? data.timeline : []).filter(isRecord).map((e, i): FlavorEra => ({
+    period: toText(e.period, `timeline[${i}].period`, repairs, `Era ${i + 1}`),
+    profile: toText(e.profile, `timeline[${i}].profile`, repairs, 'Unnamed Profile'),
+    description: toText(e.description, `timeline[${i}].description`, repairs),
+    notableIngredients: toStringList(e.notableIngredients, `timeline[${i}].notableIngredients`, repairs),
+    popularItems: toStringList(e.popularItems, `timeline[${i}].popularItems`, repairs),
+    historicalContext: toText(e.historicalContext, `timeline[${i}].historicalContext`, repairs)
+  }));
+
+  return {
+    value: {
+      neighborhood: toText(data.neighborhood, 'neighborhood', repairs, 'Unknown Sector'),
+      summary: toText(data.summary, 'summary', repairs, 'Historical synthesis unavailable.'),
+      timeline
+    },
+    repairs
+  };
+};
+
+// --- Food Image ---
+
+const withUnit = (v: unknown, unit: string, path: string, repairs: Repairs): string => {
+  const n = toNumber(v);
+  if (n === undefined) {
+    repairs.push(`${path} missing, defaulted to 0${unit}`);
+    return `0${unit}`;
+  }
+  const normalized = `${Math.max(0, Math.round(n))}${unit}`;
+  if (v !== normalized) repairs.push(`${path} normalized from ${describe(v)}`);
+  return normalized;
+};
+
+export const validateFoodAnalysis = (raw: unknown, narrative: string): Validated<FoodAnalysis> => {
+  const repairs: Repairs = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) repairs.push('food payload unparseable, rebuilt empty');
+
+  if (typeof data.error === 'string') {
+    return { value: { ...emptyFoodAnalysis(narrative), error: data.error }, repairs };
+  }
+
+  return {
+    value: {
+      name: toText(data.name, 'name', repairs, 'Unknown Entity'),
+      protein: withUnit(data.protein, 'g', 'protein', repairs),
+      calories: withUnit(data.calories, 'kcal', 'calories', repairs),
+      carbs: withUnit(data.carbs, 'g', 'carbs', repairs),
+      history_tags: toStringList(data.history_tags, 'history_tags', repairs),
+      authenticity_score: `${toScore(data.authenticity_score, 'authenticity_score', repairs, 0)}%`,
+      recommended_shops: toStringList(data.recommended_shops, 'recommended_shops', repairs),
+      narrative
+    },
+    repairs
+  };
+};
+
+export const emptyFoodAnalysis = (narrative: string): FoodAnalysis => ({
+  name: "Unknown Entity",
+  protein: "0g",
+  calories: "0kcal",
+  carbs: "0g",
+  history_tags: [],
+  authenticity_score: "0%",
+  recommended_shops: [],
+  narrative
+});
+
+// --- Orders ---
+
+export interface ParsedOrderItem {
+  name: string;
+  variant?: string;
+  modifiers?: string[];
+  quantity: number;
+  price: number;
+}
+
+export const validateParsedOrder = (raw: unknown): Validated<{ orderItems: ParsedOrderItem[]; totalPrice: number }> => {
+  const repairs: Repairs = [];
+  const data = isRecord(raw) ? raw : {};
+  const orderItems = (Array.isArray(data.orderItems) ? data.orderItems : []).filter(isRecord).flatMap((item, i) => {
+    const name = toText(item.name, `orderItems[${i}].name`, repairs);
+    const quantity = Math.round(toNumber(item.quantity) ?? 1);
+    if (!name || quantity < 1) {
+      repairs.push(`orderItems[${i}] dropped: ${!name ? 'missing name' : `quantity ${quantity}`}`);
+      return [];
+    }
+    const variant = toText(item.variant, `orderItems[${i}].variant`, repairs);
+    const modifiers = toStringList(item.modifiers, `orderItems[${i}].modifiers`, repairs);
+    return [{
+      name,
+      ...(variant ? { variant } : {}),
+      ...(modifiers.length > 0 ? { modifiers } : {}),
+      quantity,
+      price: Math.max(0, toNumber(item.price) ?? 0)
+    }];
+  });
+  const totalPrice = orderItems.reduce((sum, it) => sum + it.price * it.quantity, 0);
+  if (toNumber(data.totalPrice) !== totalPrice) repairs.push(`totalPrice recomputed as ${totalPrice}`);
+  return { value: { orderItems, totalPrice }, repairs };
+};
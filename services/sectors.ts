@@ -0,0 +1,140 @@
+import { FootfallPoint, LatLng, Sector, SectorShape, Shop, SpatialAnalytics } from "../types";
+import { haversineMeters } from "./geo";
+import { logisticsScoreOf, safetyScoreOf } from "./gridFilters";
+import { computeSectorFigures } from "./analyticsEngine";
+
+/**
+ * Sectors
+ * Named areas drawn on the map, as a circle or a polygon. Analytics can be run
+ * over the nodes inside one, and two can be profiled side by side, e.g.
+ * Mylapore against Triplicane for vendor placement.
+ */
+export type SectorDrawMode = SectorShape['kind'];
+
+export interface SectorProfile {
+  sector: Sector;
+  nodeCount: number;
+  avgSafety: number | null;
+  avgLogistics: number | null;
+  footfall: FootfallPoint[];
+  cuisineDistribution: SpatialAnalytics['cuisineDistribution'];
+  legendaryIndex: SpatialAnalytics['legendaryIndex'];
+}
+
+export interface SectorComparison {
+  a: SectorProfile;
+  b: SectorProfile;
+  // Share of each sector's nodes (0-100) for the cuisines leading in either
+  cuisineMix: { label: string; a: number; b: number }[];
+  // Both footfall curves over the union of their periods; null where a sector has no data
+  footfall: { period: string; a: number | null; b: number | null }[];
+}
+
+// `map` is what gets drawn under the inverted tiles, where it renders close to `swatch`
+export const SECTOR_COLORS = [
+  { swatch: '#818CF8', map: '#3730A3' },
+  { swatch: '#F472B6', map: '#9D174D' },
+  { swatch: '#34D399', map: '#065F46' },
+  { swatch: '#FBBF24', map: '#92400E' },
+  { swatch: '#A78BFA', map: '#5B21B6' }
+];
+
+const COMPARED_CUISINES = 6;
+
+export const sectorColor = (sector: Sector) => SECTOR_COLORS[sector.colorIndex % SECTOR_COLORS.length];
+
+// New sectors take the first colour not already on the map
+export const createSector = (name: string, shape: SectorShape, existing: Sector[]): Sector => {
+  const used = new Set(existing.map(s => s.colorIndex % SECTOR_COLORS.length));
+  const free = SECTOR_COLORS.findIndex((_, i) => !used.has(i));
+  return {
+    id: `sector-${Date.now()}`,
+    name: name.trim() || `Sector ${existing.length + 1}`,
+    shape,
+    colorIndex: free === -1 ? existing.length : free,
+    createdAt: new Date().toISOString(),
+    analytics: null,
+    analyzedAt: null
+  };
+};
+
+// Ray casting on raw degrees, accurate enough at neighbourhood scale
+const inPolygon = (p: LatLng, points: LatLng[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.lat > p.lat) !== (b.lat > p.lat) && p.lng < ((b.lng - a.lng) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInSector = (shape: SectorShape, coords: LatLng) =>
+  shape.kind === 'circle' ? haversineMeters(shape.center, coords) <= shape.radiusMeters : inPolygon(coords, shape.points);
+
+export const shopsInSector = (shops: Shop[], sector: Sector) => shops.filter(shop => isInSector(sector.shape, shop.coords));
+
+export const describeShape = (shape: SectorShape) => {
+  if (shape.kind === 'polygon') return `${shape.points.length}-point outline`;
+  const r = shape.radiusMeters;
+  return `${r >= 1000 ? `${(r / 1000).toFixed(1)} km` : `${Math.round(r)} m`} radius`;
+};
+
+export const average = (values: (number | null)[]): number | null => {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0 ? Math.round(known.reduce((sum, v) => sum + v, 0) / known.length) : null;
+};
+
+// Mean predicted volume per period across the nodes that have a curve, in first-seen period order
+export const averageFootfall = (shops: Shop[]): FootfallPoint[] => {
+  const periods: string[] = [];
+  const volumes: Record<string, number[]> = {};
+  for (const shop of shops) {
+    for (const point of shop.predictedFootfall || []) {
+      if (!volumes[point.period]) {
+        periods.push(point.period);
+        volumes[point.period] = [];
+      }
+      volumes[point.period].push(point.volume);
+    }
+  }
+  return periods.map(period => ({ period, volume: average(volumes[period]) ?? 0 }));
+};
+
+export const profileSector = (sector: Sector, shops: Shop[]): SectorProfile => {
+  const inside = shopsInSector(shops, sector);
+  const { cuisineDistribution, legendaryIndex } = computeSectorFigures(inside);
+  return {
+    sector,
+    nodeCount: inside.length,
+    avgSafety: average(inside.map(safetyScoreOf)),
+    avgLogistics: average(inside.map(logisticsScoreOf)),
+    footfall: averageFootfall(inside),
+    cuisineDistribution,
+    legendaryIndex
+  };
+};
+
+export const compareSectors = (a: Sector, b: Sector, shops: Shop[]): SectorComparison => {
+  const pa = profileSector(a, shops);
+  const pb = profileSector(b, shops);
+
+  const shareIn = (profile: SectorProfile, label: string) =>
+    profile.cuisineDistribution.find(c => c.label.toLowerCase() === label.toLowerCase())?.percentage ?? 0;
+  const labels: string[] = [];
+  for (const { label } of [...pa.cuisineDistribution, ...pb.cuisineDistribution]) {
+    if (!labels.some(l => l.toLowerCase() === label.toLowerCase())) labels.push(label);
+  }
+  const cuisineMix = labels
+    .map(label => ({ label, a: shareIn(pa, label), b: shareIn(pb, label) }))
+    .sort((x, y) => Math.max(y.a, y.b) - Math.max(x.a, x.b))
+    .slice(0, COMPARED_CUISINES);
+
+  const periods = [...new Set([...pa.footfall, ...pb.footfall].map(p => p.period))];
+  const volumeAt = (profile: SectorProfile, period: string) => profile.footfall.find(p => p.period === period)?.volume ?? null;
+  const footfall = periods.map(period => ({ period, a: volumeAt(pa, period), b: volumeAt(pb, period) }));
+
+  return { a: pa, b: pb, cuisineMix, footfall };
+};
@@ -0,0 +1,192 @@
+import { LatLng, Shop } from "../types";
+import { haversineMeters } from "./geo";
+import { PriceBand, logisticsScoreOf, priceBandOf, safetyScoreOf } from "./gridFilters";
+import { HeatSample, heatSamples, interpolateAt } from "./heatmap";
+
+/**
+ * Site Suitability
+ * Ranks candidate spots for a new stall around a vendor. Candidates sit on a
+ * regular grid; each is scored from the surrounding nodes, interpolated the same
+ * way as the heatmap layers, on five factors: footfall in the vendor's trading
+ * window, direct competitors close by, urban logistics, safety, and how well the
+ * spot holds up in today's weather. Every factor is kept with the ranking so the
+ * Vendor Hub can say what drove each score.
+ */
+export type SiteFactor = 'footfall' | 'competition' | 'logistics' | 'safety' | 'weather';
+
+export interface SiteQuery {
+  cuisine: string;
+  priceBand: PriceBand;
+  // Footfall window the vendor trades in, e.g. "7pm-10pm"
+  period: string;
+  center: LatLng;
+}
+
+export interface FactorScore {
+  factor: SiteFactor;
+  // 0-100
+  value: number;
+  weight: number;
+  // False when no node nearby reports this metric and a neutral value stood in
+  known: boolean;
+}
+
+export interface SiteCandidate {
+  id: string;
+  coords: LatLng;
+  // Weighted factor average, 0-100
+  score: number;
+  distanceMeters: number;
+  factors: FactorScore[];
+  // Same-cuisine nodes within COMPETITOR_RADIUS_METERS, and how many of them share the price band
+  competitors: number;
+  priceRivals: number;
+  // Factors that lifted the score most, and those that held it back
+  drivers: SiteFactor[];
+  drags: SiteFactor[];
+}
+
+export interface RecommendOptions {
+  limit?: number;
+  radiusMeters?: number;
+  // Today's weather impact (0-100); leaves the weather factor out when unknown
+  weatherImpact?: number | null;
+}
+
+export const SITE_WEIGHTS: Record<SiteFactor, number> = {
+  footfall: 0.3,
+  competition: 0.25,
+  logistics: 0.2,
+  safety: 0.15,
+  weather: 0.1
+};
+
+export const COMPETITOR_RADIUS_METERS = 400;
+const SEARCH_RADIUS_METERS = 1500;
+const GRID_STEP_METERS = 150;
+// Suggestions closer than this would compete for the same customers
+const MIN_SEPARATION_METERS = 300;
+const SUGGESTION_COUNT = 5;
+const NEUTRAL = 50;
+const DRIVER_FLOOR = 65;
+const DRAG_CEILING = 45;
+const METERS_PER_DEGREE_LAT = 111320;
+
+const sameCuisine = (a: string, b: string) => {
+  const x = a.trim().toLowerCase();
+  const y = b.trim().toLowerCase();
+  return x.length > 0 && y.length > 0 && (x.includes(y) || y.includes(x));
+};
+
+const samplesOf = (shops: Shop[], score: (shop: Shop) => number | null): HeatSample[] =>
+  shops.flatMap(shop => {
+    const value = score(shop);
+    return value === null ? [] : [{ coords: shop.coords, value }];
+  });
+
+// Points on a square grid clipped to a circle around the centre
+const candidatePoints = (center: LatLng, radiusMeters: number): LatLng[] => {
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((center.lat * Math.PI) / 180);
+  const steps = Math.floor(radiusMeters / GRID_STEP_METERS);
+  const points: LatLng[] = [];
+  for (let y = -steps; y <= steps; y++) {
+    for (let x = -steps; x <= steps; x++) {
+      if (Math.hypot(x, y) * GRID_STEP_METERS > radiusMeters) continue;
+      points.push({
+        lat: center.lat + (y * GRID_STEP_METERS) / METERS_PER_DEGREE_LAT,
+        lng: center.lng + (x * GRID_STEP_METERS) / metersPerDegreeLng
+      });
+    }
+  }
+  return points;
+};
+
+// Two direct competitors halve the factor, or one selling in the vendor's price band
+const competitionScore = (competitors: number, priceRivals: number) =>
+  Math.round(100 / (1 + 0.5 * competitors + 0.5 * priceRivals));
+
+// Bad weather keeps customers to spots they can reach easily, so transit softens a low impact
+const weatherScore = (impact: number, transit: number | null) =>
+  Math.round(impact + ((100 - impact) * (transit ?? 0)) / 100);
+
+const rankFactors = (factors: FactorScore[]) => {
+  const known = factors.filter(f => f.known);
+  const drivers = known
+    .filter(f => f.value >= DRIVER_FLOOR)
+    .sort((a, b) => b.value * b.weight - a.value * a.weight)
+    .slice(0, 2)
+    .map(f => f.factor);
+  const drags = known
+    .filter(f => f.value < DRAG_CEILING)
+    .sort((a, b) => (100 - b.value) * b.weight - (100 - a.value) * a.weight)
+    .slice(0, 2)
+    .map(f => f.factor);
+  return { drivers, drags };
+};
+
+/**
+ * Scores every candidate spot with footfall data nearby and returns the best,
+ * at least MIN_SEPARATION_METERS apart. Spots beyond the reach of every node
+ * reporting footfall are skipped, as there is nothing to judge them on.
+ */
+export const recommendSites = (
+  shops: Shop[],
+  query: SiteQuery,
+  { limit = SUGGESTION_COUNT, radiusMeters = SEARCH_RADIUS_METERS, weatherImpact = null }: RecommendOptions = {}
+): SiteCandidate[] => {
+  const footfall = heatSamples(shops, { layer: 'footfall', period: query.period });
+  const transit = heatSamples(shops, { layer: 'transit', period: query.period });
+  const logistics = samplesOf(shops, logisticsScoreOf);
+  const safety = samplesOf(shops, safetyScoreOf);
+  const rivals = shops.filter(shop => !!shop.cuisine && sameCuisine(shop.cuisine, query.cuisine));
+
+  const scored = candidatePoints(query.center, radiusMeters).flatMap((coords, i): SiteCandidate[] => {
+    // Footfall thins out with distance from the nodes that report it
+    const foot = interpolateAt(footfall, coords);
+    if (!foot) return [];
+    const nearbyRivals = rivals.filter(shop => haversineMeters(coords, shop.coords) <= COMPETITOR_RADIUS_METERS);
+    const priceRivals = nearbyRivals.filter(shop => priceBandOf(shop) === query.priceBand).length;
+    const logi = interpolateAt(logistics, coords);
+    const safe = interpolateAt(safety, coords);
+
+    const factors: FactorScore[] = [
+      { factor: 'footfall', value: Math.round(foot.value * Math.sqrt(foot.coverage)), weight: SITE_WEIGHTS.footfall, known: true },
+      { factor: 'competition', value: competitionScore(nearbyRivals.length, priceRivals), weight: SITE_WEIGHTS.competition, known: true },
+      { factor: 'logistics', value: logi ? Math.round(logi.value) : NEUTRAL, weight: SITE_WEIGHTS.logistics, known: !!logi },
+      { factor: 'safety', value: safe ? Math.round(safe.value) : NEUTRAL, weight: SITE_WEIGHTS.safety, known: !!safe }
+    ];
+    if (typeof weatherImpact === 'number') {
+      const reading = interpolateAt(transit, coords);
+      factors.push({ factor: 'weather', value: weatherScore(weatherImpact, reading?.value ?? null), weight: SITE_WEIGHTS.weather, known: true });
+    }
+    const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+    const score = Math.round(factors.reduce((sum, f) => sum + f.value * f.weight, 0) / totalWeight);
+
+    return [{
+      id: `site-${i}`,
+      coords,
+      score,
+      distanceMeters: Math.round(haversineMeters(query.center, coords)),
+      factors,
+      competitors: nearbyRivals.length,
+      priceRivals,
+      ...rankFactors(factors)
+    }];
+  });
+
+  // Ties go to the spot nearer the vendor
+  scored.sort((a, b) => b.score - a.score || a.distanceMeters - b.distanceMeters);
+  const picked: SiteCandidate[] = [];
+  for (const candidate of scored) {
+    if (picked.length >= limit) break;
+    if (picked.some(p => haversineMeters(p.coords, candidate.coords) < MIN_SEPARATION_METERS)) continue;
+    picked.push(candidate);
+  }
+  return picked;
+};
+
+// One line per suggestion for the agent log
+export const describeSite = (candidate: SiteCandidate) => {
+  const parts = candidate.factors.map(f => `${f.factor} ${f.known ? f.value : 'n/a'}`);
+  return `score ${candidate.score} (${parts.join(', ')}), ${candidate.competitors} direct competitor(s) within ${COMPETITOR_RADIUS_METERS} m`;
+};
@@ -17,10 +17,32 @@ export interface Review {
   timestamp: string;
 }
 
+export type DietaryTag = 'veg' | 'non-veg' | 'egg' | 'vegan' | 'jain' | 'spicy' | 'contains-peanuts' | 'contains-dairy' | 'contains-gluten';
+
+// A named price option such as a portion size ("Half Plate") or an add-on ("Extra Raita")
+export interface MenuOption {
+  name: string;
+  price: number;
+}
+
 export interface MenuItem {
   name: string;
+  // Price of the default (first) variant when the item has variants
   price: number;
   isSoldOut?: boolean;
+  // Taken off sale by the vendor; stays sold out whatever the stock until they restock it
+  pulledByVendor?: boolean;
+  // Mutually exclusive sizes/portions, each with its own price
+  variants?: MenuOption[];
+  // Optional add-ons; their prices are added to the variant price
+  modifiers?: MenuOption[];
+  tags?: DietaryTag[];
+  // Units left to sell; stock is untracked when undefined
+  stock?: number;
+  // Units prepared each trading day; stock resets to this on the first check of a new day
+  dailyPrep?: number;
+  // YYYY-MM-DD of the last daily reset
+  stockDate?: string;
 }
 
 export interface SafetyMetrics {
@@ -62,7 +84,11 @@ export interface Shop {
   description?: string;
   address?: string;
   menu?: MenuItem[];
+  // Rupee price of a typical dish, as estimated by discovery for nodes without a menu
+  typicalPrice?: number;
+  // Free-text hours as scraped by discovery; partner hubs also carry a structured schedule
   hours?: string;
+  schedule?: WeeklySchedule;
   youtubeLink?: string;
   reviews?: Review[];
   safetyMetrics?: SafetyMetrics;
@@ -71,6 +97,31 @@ export interface Shop {
   successReasoning?: SuccessReasoning;
   // Added hygieneScore to support vendor node reporting
   hygieneScore?: number;
+  // Breadcrumbs of a tracked live vendor, oldest first
+  trail?: TrailPoint[];
+}
+
+export interface TrailPoint extends LatLng {
+  timestamp: number;
+}
+
+// "HH:MM" 24h clock. A close at or before the open time runs past midnight; "24:00" closes at midnight.
+export interface TimeInterval {
+  open: string;
+  close: string;
+}
+
+// A date-specific replacement for the weekly pattern; no intervals means closed (holiday)
+export interface ScheduleOverride {
+  date: string; // YYYY-MM-DD, local time
+  intervals: TimeInterval[];
+  note?: string;
+}
+
+export interface WeeklySchedule {
+  // Indexed like Date.getDay(): 0 = Sunday
+  days: TimeInterval[][];
+  overrides?: ScheduleOverride[];
 }
 
 export interface VendorProfile {
@@ -81,7 +132,7 @@ export interface VendorProfile {
   description: string;
   lastLocation?: LatLng;
   menu: MenuItem[];
-  hours: string;
+  schedule: WeeklySchedule;
   youtubeLink?: string;
   reviews?: Review[];
   safetyMetrics?: SafetyMetrics;
@@ -92,6 +143,79 @@ export interface VendorProfile {
   hygieneScore?: number;
 }
 
+export enum OrderStatus {
+  PLACED = 'placed',
+  ACCEPTED = 'accepted',
+  PREPARING = 'preparing',
+  READY = 'ready',
+  PICKED_UP = 'picked_up',
+  CANCELLED = 'cancelled',
+}
+
+export interface OrderLine {
+  name: string;
+  variant?: string;
+  modifiers?: string[];
+  quantity: number;
+  // Unit price including the variant and modifiers
+  price: number;
+}
+
+// An order line being built in the explorer's cart, keyed by item + variant + modifiers
+export interface CartLine extends OrderLine {
+  key: string;
+  modifiers: string[];
+}
+
+export interface OrderEvent {
+  status: OrderStatus;
+  at: number;
+  note?: string;
+}
+
+export interface Order {
+  id: string;
+  shopId: string;
+  // Partner hub that receives the order; shop ids of live nodes are "live-<profileId>"
+  profileId: string;
+  shopName: string;
+  customer: string;
+  items: OrderLine[];
+  totalPrice: number;
+  status: OrderStatus;
+  placedAt: number;
+  updatedAt: number;
+  history: OrderEvent[];
+}
+
+// What an explorer wants to hear about: vendors or cuisines going live within a radius
+export interface AlertPreferences {
+  enabled: boolean;
+  // Vendor profile ids
+  followedVendorIds: string[];
+  followedCuisines: string[];
+  radiusMeters: number;
+  // Alerts inside this window are logged but not announced; null disables quiet hours
+  quietHours: TimeInterval | null;
+  // Read the announcement aloud as well as showing a notification
+  speak: boolean;
+}
+
+// A vendor as known to the shared live grid server
+export interface LiveVendor {
+  profile: VendorProfile;
+  status: VendorStatus;
+  coords: LatLng | null;
+  updatedAt: number;
+}
+
+// Messages pushed by the live grid server over its WebSocket
+export type LiveGridMessage =
+  | { type: 'snapshot'; vendors: LiveVendor[] }
+  | { type: 'vendor'; vendor: LiveVendor }
+  | { type: 'removed'; id: string }
+  | { type: 'order'; order: Order };
+
 export interface AgentLog {
   id: string;
   agent: 'Discovery' | 'Linguistic' | 'Spatial' | 'Lens' | 'Analytics' | 'Historian' | 'Impact' | 'Healing';
@@ -104,6 +228,8 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   isThinking?: boolean;
+  // Asked offline; answered once the offline queue syncs
+  isQueued?: boolean;
   sources?: GroundingSource[];
 }
 
@@ -117,6 +243,8 @@ export interface LensObservation {
   type: 'bottleneck' | 'flow' | 'friction' | 'opportunity';
   detail: string;
   causalBottleneck: string;
+  // The sampled frame this was seen in, when Lens ran on an upload
+  frameId?: string;
 }
 
 export interface LensFrame {
@@ -125,6 +253,8 @@ export interface LensFrame {
   description: string;
   category: 'Landscape' | 'Sidewalk' | 'Boundary' | 'Perspective';
   spatialInsight: string;
+  // JPEG data URL of the real frame; absent when Lens only had a shop name
+  thumbnail?: string;
 }
 
 export interface FoodAnalysis {
@@ -155,6 +285,38 @@ export interface SpatialAnalytics {
   sectorSummary: string;
 }
 
+export type SectorShape =
+  | { kind: 'circle'; center: LatLng; radiusMeters: number }
+  | { kind: 'polygon'; points: LatLng[] };
+
+// A named area drawn on the map that analytics can be scoped to
+export interface Sector {
+  id: string;
+  name: string;
+  shape: SectorShape;
+  colorIndex: number;
+  createdAt: string;
+  // Last analytics run over the nodes inside; null until analyzed
+  analytics: SpatialAnalytics | null;
+  analyzedAt: string | null;
+}
+
+// One analytics run over a sector, or the whole grid, kept to chart change over time
+export interface AnalyticsSnapshot {
+  id: string;
+  // null when the run covered the whole grid
+  sectorId: string | null;
+  takenAt: string;
+  // Nodes the analytics ran on; live vendors are counted separately and may not be among them
+  nodeCount: number;
+  liveVendorCount: number;
+  avgSafety: number | null;
+  avgLogistics: number | null;
+  avgLegendScore: number | null;
+  cuisineDistribution: SpatialAnalytics['cuisineDistribution'];
+  sectorSummary: string;
+}
+
 export interface FlavorEra {
   period: string;
   profile: string;
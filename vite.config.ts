@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER || ''),
+        // The local server is only assumed in dev; deployed builds stay on-device unless a URL is configured
+        'process.env.LIVE_GRID_URL': JSON.stringify(env.LIVE_GRID_URL ?? (mode === 'development' ? 'http://localhost:8787' : '')),
+        'process.env.OSRM_URL': JSON.stringify(env.OSRM_URL || ''),
+        // Off in dev so cached modules never mask a hot reload
+        'process.env.SERVICE_WORKER': JSON.stringify(env.SERVICE_WORKER ?? (mode === 'production' ? '/sw.js' : ''))
       },
       resolve: {
         alias: {